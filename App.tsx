@@ -19,9 +19,10 @@ const AssetDetailView = React.lazy(() => import('./views/AssetDetailView'));
 const MarketView = React.lazy(() => import('./views/MarketView'));
 const IncomeReportView = React.lazy(() => import('./views/IncomeReportView'));
 const PortfolioView = React.lazy(() => import('./views/PortfolioView'));
+const CompareView = React.lazy(() => import('./views/CompareView'));
 const PinLockScreen = React.lazy(() => import('./components/PinLockScreen'));
 
-export type View = 'carteira' | 'mercado' | 'settings' | 'notificacoes' | 'assetDetail' | 'incomeReport' | 'dashboard' | 'transacoes';
+export type View = 'carteira' | 'mercado' | 'settings' | 'notificacoes' | 'assetDetail' | 'incomeReport' | 'dashboard' | 'transacoes' | 'compare';
 
 const App: React.FC = () => {
   const { preferences, marketDataError, setTheme, unreadNotificationsCount } = usePortfolio();
@@ -33,7 +34,11 @@ const App: React.FC = () => {
   const [toast, setToast] = useState<ToastMessage | null>(null);
   const [transactionFilter, setTransactionFilter] = useState<string | null>(null);
   const [selectedTicker, setSelectedTicker] = useState<string | null>(null);
+  const [compareTickers, setCompareTickers] = useState<string[]>([]);
+  // Volta do comparador restaura a tela de origem com o próprio "voltar" dela (senão assetDetail <-> compare vira um ciclo)
+  const [compareOrigin, setCompareOrigin] = useState<{ view: View; previousView: View; ticker: string | null }>({ view: 'carteira', previousView: 'carteira', ticker: null });
   const [settingsStartScreen, setSettingsStartScreen] = useState<MenuScreen>('main');
+  const [glossaryTerm, setGlossaryTerm] = useState<string | null>(null);
   const [isLocked, setIsLocked] = useState(!!preferences.appPin);
   const lastVisibleTimestamp = useRef(Date.now());
   
@@ -113,11 +118,28 @@ const App: React.FC = () => {
     handleSetView('carteira');
   };
   
+  const handleCompare = (tickers: string[]) => {
+    setCompareTickers(tickers);
+    setCompareOrigin({ view: activeView, previousView, ticker: selectedTicker });
+    handleSetView('compare');
+  };
+
+  const handleBackFromCompare = () => {
+    setSelectedTicker(compareOrigin.ticker);
+    setPreviousView(compareOrigin.previousView);
+    setActiveView(compareOrigin.view);
+  };
+  
   const handleOpenSettingsScreen = (screen: MenuScreen) => {
       setSettingsStartScreen(screen);
       handleSetView('settings');
   }
 
+  const handleOpenGlossary = (term: string) => {
+      setGlossaryTerm(term);
+      handleOpenSettingsScreen('glossary');
+  }
+
   // Back Gesture Logic
   const touchStartRef = useRef<{ x: number, y: number } | null>(null);
   const handleTouchStart = (e: React.TouchEvent) => { touchStartRef.current = { x: e.touches[0].clientX, y: e.touches[0].clientY }; };
@@ -129,7 +151,9 @@ const App: React.FC = () => {
           const isBack = (touchStartRef.current.x < 50 && deltaX > 0) || (touchStartRef.current.x > window.innerWidth - 50 && deltaX < 0);
           if (isBack && !['carteira', 'mercado'].includes(activeView)) {
               vibrate();
-              activeView === 'assetDetail' ? handleBackFromDetail() : handleSetView(previousView);
+              if (activeView === 'compare') handleBackFromCompare();
+              else if (activeView === 'assetDetail') handleBackFromDetail();
+              else handleSetView(previousView);
           }
       }
       touchStartRef.current = null;
@@ -137,14 +161,15 @@ const App: React.FC = () => {
 
   const renderView = () => {
     switch (activeView) {
-      case 'settings': return <SettingsView addToast={addToast} initialScreen={settingsStartScreen} />;
+      case 'settings': return <SettingsView addToast={addToast} initialScreen={settingsStartScreen} initialGlossaryTerm={glossaryTerm} />;
       case 'notificacoes': return <NotificationsView setActiveView={handleSetView} onSelectAsset={handleSelectAsset} onOpenSettings={handleOpenSettingsScreen} />;
       case 'dashboard': return <PortfolioView setActiveView={handleSetView} onSelectAsset={handleSelectAsset} addToast={addToast} unreadNotificationsCount={unreadNotificationsCount} />;
-      case 'carteira': return <AnalysisView addToast={addToast} onSelectAsset={handleSelectAsset} unreadNotificationsCount={unreadNotificationsCount} setActiveView={handleSetView} initialTransactionFilter={transactionFilter} clearTransactionFilter={() => setTransactionFilter(null)} />;
+      case 'carteira': return <AnalysisView addToast={addToast} onSelectAsset={handleSelectAsset} unreadNotificationsCount={unreadNotificationsCount} setActiveView={handleSetView} onOpenGlossary={handleOpenGlossary} initialTransactionFilter={transactionFilter} clearTransactionFilter={() => setTransactionFilter(null)} />;
       case 'transacoes': return <AnalysisView addToast={addToast} onSelectAsset={handleSelectAsset} unreadNotificationsCount={unreadNotificationsCount} setActiveView={handleSetView} initialTab='transactions' />;
-      case 'mercado': return <MarketView addToast={addToast} />;
-      case 'assetDetail': return selectedTicker ? <AssetDetailView ticker={selectedTicker} onBack={handleBackFromDetail} onViewTransactions={handleViewTransactionsForAsset} addToast={addToast} /> : <AnalysisView addToast={addToast} onSelectAsset={handleSelectAsset} unreadNotificationsCount={unreadNotificationsCount} setActiveView={handleSetView} />;
+      case 'mercado': return <MarketView addToast={addToast} onCompare={handleCompare} />;
+      case 'assetDetail': return selectedTicker ? <AssetDetailView ticker={selectedTicker} onBack={handleBackFromDetail} onViewTransactions={handleViewTransactionsForAsset} onCompare={handleCompare} addToast={addToast} /> : <AnalysisView addToast={addToast} onSelectAsset={handleSelectAsset} unreadNotificationsCount={unreadNotificationsCount} setActiveView={handleSetView} />;
       case 'incomeReport': return <IncomeReportView onBack={handleBackFromDetail} />;
+      case 'compare': return <CompareView initialTickers={compareTickers} onBack={handleBackFromCompare} />;
       default: return <PortfolioView setActiveView={handleSetView} onSelectAsset={handleSelectAsset} addToast={addToast} unreadNotificationsCount={unreadNotificationsCount} />;
     }
   };
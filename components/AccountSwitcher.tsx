@@ -0,0 +1,29 @@
+import React from 'react';
+import { useI18n } from '../contexts/I18nContext';
+import { usePortfolio } from '../contexts/PortfolioContext';
+import { CONSOLIDATED_ACCOUNT_ID } from '../constants';
+import { vibrate } from '../utils';
+
+// Alterna entre as contas/carteiras e o modo consolidado. Oculto com uma única conta.
+const AccountSwitcher: React.FC<{ className?: string }> = ({ className = '' }) => {
+    const { t } = useI18n();
+    const { accounts, activeAccountId, setActiveAccountId } = usePortfolio();
+
+    if (accounts.length <= 1) return null;
+
+    return (
+        <select
+            value={activeAccountId}
+            onChange={(e) => { setActiveAccountId(e.target.value); vibrate(); }}
+            aria-label={t('account')}
+            className={`bg-[var(--bg-secondary)] border border-[var(--border-color)] rounded-lg px-2 py-1 text-xs font-bold text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-color)] max-w-[11rem] truncate ${className}`}
+        >
+            <option value={CONSOLIDATED_ACCOUNT_ID}>{t('consolidated')}</option>
+            {accounts.map(account => (
+                <option key={account.id} value={account.id}>{account.name}</option>
+            ))}
+        </select>
+    );
+};
+
+export default AccountSwitcher;
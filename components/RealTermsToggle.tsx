@@ -0,0 +1,24 @@
+import React from 'react';
+import { useI18n } from '../contexts/I18nContext';
+import { usePortfolio } from '../contexts/PortfolioContext';
+import { vibrate } from '../utils';
+
+// Atalho para a preferência de valores reais; só aparece com a série do IPCA carregada
+const RealTermsToggle: React.FC = () => {
+    const { t } = useI18n();
+    const { realTerms, inflationDeflator, updatePreferences } = usePortfolio();
+
+    if (!inflationDeflator) return null;
+
+    return (
+        <button
+            onClick={() => { vibrate(); updatePreferences({ realTerms: !realTerms }); }}
+            title={t('real_terms_desc')}
+            className={`px-2 py-1 text-[10px] font-bold rounded-md border transition-all whitespace-nowrap ${realTerms ? 'border-[var(--accent-color)] bg-[var(--accent-color)]/10 text-[var(--accent-color)]' : 'border-[var(--border-color)] text-[var(--text-secondary)]'}`}
+        >
+            {t('real_terms')}
+        </button>
+    );
+};
+
+export default RealTermsToggle;
@@ -0,0 +1,131 @@
+import React, { useState, useMemo } from 'react';
+import { useI18n } from '../../contexts/I18nContext';
+import { usePortfolio } from '../../contexts/PortfolioContext';
+import { useDiversification } from '../../hooks/useDiversification';
+import type { ConcentrationGroup } from '../../hooks/useDiversification';
+import CorrelationHeatmap from '../charts/CorrelationHeatmap';
+import LayoutGridIcon from '../icons/LayoutGridIcon';
+import AlertTriangleIcon from '../icons/AlertTriangleIcon';
+import SettingsIcon from '../icons/SettingsIcon';
+import { vibrate } from '../../utils';
+import { DEFAULT_PREFERENCES } from '../../constants';
+import type { ConcentrationLimits } from '../../types';
+
+const GROUP_LABELS: Record<ConcentrationGroup, string> = {
+    ticker: 'asset',
+    segment: 'segment',
+    administrator: 'administrator',
+};
+
+// Correlação entre pares acima disso já indica ativos que andam juntos
+const HIGH_CORRELATION = 0.7;
+
+const DiversificationScoreCard: React.FC = () => {
+    const { t } = useI18n();
+    const { assets, priceHistory, preferences, updatePreferences } = usePortfolio();
+    const limits: ConcentrationLimits = preferences.concentrationLimits || DEFAULT_PREFERENCES.concentrationLimits;
+    const { correlation, groups, warnings, score } = useDiversification(assets, priceHistory, limits);
+    const [isEditingLimits, setIsEditingLimits] = useState(false);
+
+    const highPairs = useMemo(() => {
+        const pairs: { a: string; b: string; value: number }[] = [];
+        correlation.matrix.forEach((row, i) => row.forEach((value, j) => {
+            if (j > i && value !== null && value >= HIGH_CORRELATION) pairs.push({ a: correlation.tickers[i], b: correlation.tickers[j], value });
+        }));
+        return pairs.sort((x, y) => y.value - x.value).slice(0, 3);
+    }, [correlation]);
+
+    const updateLimit = (group: ConcentrationGroup, value: string) => {
+        const parsed = parseFloat(value);
+        if (isNaN(parsed) || parsed <= 0 || parsed > 100) return;
+        updatePreferences({ concentrationLimits: { ...limits, [group]: parsed } });
+    };
+
+    if (correlation.tickers.length === 0) return null;
+
+    const scoreColor = score >= 80 ? 'text-[var(--green-text)]' : score >= 60 ? 'text-amber-500' : 'text-[var(--red-text)]';
+
+    return (
+        <div className="bg-[var(--bg-secondary)] rounded-2xl p-5 border border-[var(--border-color)] shadow-sm">
+            <div className="flex justify-between items-center mb-4">
+                <div className="flex items-center gap-2">
+                    <LayoutGridIcon className="w-5 h-5 text-[var(--accent-color)]" />
+                    <h3 className="font-bold text-base text-[var(--text-primary)]">{t('diversification_score')}</h3>
+                </div>
+                <button
+                    onClick={() => { setIsEditingLimits(!isEditingLimits); vibrate(); }}
+                    className={`p-2 rounded-lg transition-colors ${isEditingLimits ? 'text-[var(--accent-color)] bg-[var(--bg-primary)]' : 'text-[var(--text-secondary)] hover:bg-[var(--bg-primary)]'}`}
+                    aria-label={t('concentration_limits')}
+                >
+                    <SettingsIcon className="w-4 h-4" />
+                </button>
+            </div>
+
+            {isEditingLimits && (
+                <div className="bg-[var(--bg-primary)] rounded-xl p-3 mb-4 animate-fade-in">
+                    <p className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-2">{t('concentration_limits')}</p>
+                    <div className="grid grid-cols-3 gap-2">
+                        {(Object.keys(GROUP_LABELS) as ConcentrationGroup[]).map(group => (
+                            <label key={group} className="text-[10px] text-[var(--text-secondary)]">
+                                {t(GROUP_LABELS[group])} (%)
+                                <input
+                                    type="number"
+                                    min="1"
+                                    max="100"
+                                    defaultValue={limits[group]}
+                                    onBlur={e => updateLimit(group, e.target.value)}
+                                    className="w-full mt-1 bg-[var(--bg-secondary)] border border-[var(--border-color)] rounded-lg p-2 text-sm text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-color)]"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-3 mb-4">
+                <div>
+                    <span className="text-[10px] text-[var(--text-secondary)] uppercase font-bold tracking-wider block mb-1">{t('score')}</span>
+                    <span className={`text-2xl font-black ${scoreColor}`}>{score}</span>
+                    <span className="text-xs text-[var(--text-secondary)]">/100</span>
+                </div>
+                <div>
+                    <span className="text-[10px] text-[var(--text-secondary)] uppercase font-bold tracking-wider block mb-1">{t('effective_assets')}</span>
+                    <span className="text-lg font-bold text-[var(--text-primary)]">{groups.ticker.effectiveN.toFixed(1)}</span>
+                    <span className="text-xs text-[var(--text-secondary)]"> / {correlation.tickers.length}</span>
+                </div>
+                <div>
+                    <span className="text-[10px] text-[var(--text-secondary)] uppercase font-bold tracking-wider block mb-1">{t('effective_segments')}</span>
+                    <span className="text-lg font-bold text-[var(--text-primary)]">{groups.segment.effectiveN.toFixed(1)}</span>
+                    <span className="text-xs text-[var(--text-secondary)]"> / {groups.segment.shares.length}</span>
+                </div>
+            </div>
+            <p className="text-[10px] text-[var(--text-secondary)] mb-4">{t('hhi_hint', { hhi: Math.round(groups.ticker.hhi * 10000) })}</p>
+
+            {warnings.length > 0 && (
+                <div className="space-y-2 mb-4">
+                    {warnings.map(w => (
+                        <div key={`${w.group}-${w.name}`} className="flex items-start gap-2 bg-amber-500/10 text-amber-500 rounded-lg p-2 text-xs">
+                            <AlertTriangleIcon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                            <span>{t('concentration_warning', { group: t(GROUP_LABELS[w.group]), name: w.name, share: w.share.toFixed(1), limit: w.limit })}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {correlation.tickers.length > 1 && (
+                <div className="pt-4 border-t border-[var(--border-color)]">
+                    <p className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-3">{t('correlation_matrix')}</p>
+                    <CorrelationHeatmap labels={correlation.tickers} matrix={correlation.matrix} />
+                    {highPairs.length > 0 && (
+                        <p className="text-[10px] text-[var(--text-secondary)] mt-3">
+                            {t('high_correlation_pairs', { list: highPairs.map(p => `${p.a} × ${p.b} (${p.value.toFixed(2)})`).join(', ') })}
+                        </p>
+                    )}
+                    <p className="text-[10px] text-[var(--text-secondary)] mt-2">{t('correlation_hint')}</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DiversificationScoreCard;
@@ -5,7 +5,7 @@ import { usePortfolio } from '../../contexts/PortfolioContext';
 import CountUp from '../CountUp';
 import CalendarIcon from '../icons/CalendarIcon';
 import ChevronRightIcon from '../icons/ChevronRightIcon';
-import { vibrate } from '../../utils';
+import { vibrate, fromISODate } from '../../utils';
 import type { View } from '../../App';
 
 interface DividendsSummaryCardProps {
@@ -14,7 +14,8 @@ interface DividendsSummaryCardProps {
 
 const DividendsSummaryCard: React.FC<DividendsSummaryCardProps> = ({ setActiveView }) => {
     const { t, formatCurrency } = useI18n();
-    const { monthlyIncome, projectedAnnualIncome } = usePortfolio();
+    const { monthlyIncome, projectedAnnualIncome, dividendForecast, preferences } = usePortfolio();
+    const incomeGoal = preferences.globalIncomeGoal || 0;
 
     const { averageIncome, chartData } = useMemo(() => {
         const relevantMonths = monthlyIncome.filter(m => m.total > 0);
@@ -23,20 +24,32 @@ const DividendsSummaryCard: React.FC<DividendsSummaryCardProps> = ({ setActiveVi
         
         // Take last 5 months to ensure enough space, or 6 if screen is wide enough (stick to 6 for now but optimize width)
         const lastMonths = monthlyIncome.slice(-6);
-        const maxVal = Math.max(...lastMonths.map(d => d.total), 1);
+        // Próximos 3 meses previstos, desenhados tracejados depois do histórico
+        const nextMonths = dividendForecast.months.slice(0, 3).map(m => ({
+            month: fromISODate(`${m.month}-01`).toLocaleDateString('pt-BR', { month: 'short', year: '2-digit' }).replace('.', ''),
+            total: m.expected,
+        }));
+        const maxVal = Math.max(...lastMonths.map(d => d.total), ...nextMonths.map(d => d.total), 1);
 
-        const chart = lastMonths.map((d, index) => ({
+        const chart = [
+            ...lastMonths.map((d, index) => ({ ...d, isCurrent: index === lastMonths.length - 1, isForecast: false })),
+            ...nextMonths.map(d => ({ ...d, isCurrent: false, isForecast: true })),
+        ].map(d => ({
             month: d.month,
             value: d.total,
             heightPercent: maxVal > 0 ? (d.total / maxVal) * 100 : 0,
-            isCurrent: index === lastMonths.length - 1
+            isCurrent: d.isCurrent,
+            isForecast: d.isForecast,
         }));
 
         return {
             averageIncome: avg,
             chartData: chart
         };
-    }, [monthlyIncome]);
+    }, [monthlyIncome, dividendForecast]);
+
+    const forecastMonthly = dividendForecast.total.expected / 12;
+    const goalPercent = incomeGoal > 0 ? (forecastMonthly / incomeGoal) * 100 : 0;
     
     if (projectedAnnualIncome === 0 && monthlyIncome.every(m => m.total === 0)) return null;
 
@@ -80,8 +93,27 @@ const DividendsSummaryCard: React.FC<DividendsSummaryCardProps> = ({ setActiveVi
                         <div className="text-lg font-bold text-[var(--accent-color)] tracking-tight">
                             <CountUp end={projectedAnnualIncome} formatter={formatCurrency} />
                         </div>
+                        {dividendForecast.total.high > dividendForecast.total.low && (
+                            <span className="text-[9px] text-[var(--text-secondary)] font-medium">
+                                {formatCurrency(dividendForecast.total.low)} – {formatCurrency(dividendForecast.total.high)}
+                            </span>
+                        )}
                     </div>
                 </div>
+
+                {incomeGoal > 0 && dividendForecast.total.expected > 0 && (
+                    <div className="mt-4">
+                        <div className="w-full h-1.5 bg-[var(--bg-primary)] rounded-full overflow-hidden">
+                            <div
+                                className={`h-full rounded-full transition-all duration-700 ${goalPercent >= 100 ? 'bg-[var(--green-text)]' : 'bg-[var(--accent-color)]'}`}
+                                style={{ width: `${Math.min(goalPercent, 100)}%` }}
+                            />
+                        </div>
+                        <p className="text-[10px] text-[var(--text-secondary)] font-medium mt-1">
+                            {t('income_goal_progress', { percent: goalPercent.toFixed(0), goal: formatCurrency(incomeGoal) })}
+                        </p>
+                    </div>
+                )}
             </div>
 
             {/* Chart Area - Enhanced Layout */}
@@ -98,19 +130,19 @@ const DividendsSummaryCard: React.FC<DividendsSummaryCardProps> = ({ setActiveVi
                             {/* The Bar Track */}
                             <div className="w-full flex justify-center items-end flex-1">
                                 <div 
-                                    className={`w-full max-w-[12px] min-h-[4px] rounded-t-full relative transition-all duration-700 cubic-bezier(0.34, 1.56, 0.64, 1) group-hover/bar:scale-y-105 origin-bottom ${d.isCurrent ? 'shadow-[0_0_12px_rgba(var(--accent-rgb),0.3)]' : ''}`}
+                                    className={`w-full max-w-[12px] min-h-[4px] rounded-t-full relative transition-all duration-700 cubic-bezier(0.34, 1.56, 0.64, 1) group-hover/bar:scale-y-105 origin-bottom ${d.isCurrent ? 'shadow-[0_0_12px_rgba(var(--accent-rgb),0.3)]' : ''} ${d.isForecast ? 'border border-dashed border-[var(--accent-color)]' : ''}`}
                                     style={{ 
                                         height: `${d.heightPercent}%`, 
-                                        background: d.isCurrent 
+                                        background: d.isCurrent || d.isForecast
                                             ? 'var(--accent-color)' 
                                             : 'var(--text-secondary)',
-                                        opacity: d.isCurrent ? 1 : 0.2
+                                        opacity: d.isCurrent ? 1 : d.isForecast ? 0.35 : 0.2
                                     }} 
                                 />
                             </div>
                             
                             {/* Month Label */}
-                            <span className={`text-[9px] font-bold uppercase tracking-wider mt-2 transition-colors duration-300 ${d.isCurrent ? 'text-[var(--accent-color)]' : 'text-[var(--text-secondary)] opacity-60'}`}>
+                            <span className={`text-[9px] font-bold uppercase tracking-wider mt-2 transition-colors duration-300 ${d.isCurrent || d.isForecast ? 'text-[var(--accent-color)]' : 'text-[var(--text-secondary)] opacity-60'}`}>
                                 {d.month.split('/')[0]}
                             </span>
                         </div>
@@ -0,0 +1,116 @@
+import React, { useState, useMemo } from 'react';
+import { useI18n } from '../../contexts/I18nContext';
+import { usePortfolio } from '../../contexts/PortfolioContext';
+import ComparisonLineChart from '../charts/ComparisonLineChart';
+import RefreshIcon from '../icons/RefreshIcon';
+import { vibrate, fromISODate } from '../../utils';
+import type { DripMode } from '../../utils';
+
+type DripMetric = 'value' | 'quantity' | 'income';
+
+const METRICS: { id: DripMetric; label: string; real: 'realValue' | 'realQuantity' | 'realIncome'; drip: 'dripValue' | 'dripQuantity' | 'dripIncome' }[] = [
+    { id: 'value', label: 'patrimony', real: 'realValue', drip: 'dripValue' },
+    { id: 'quantity', label: 'quantity', real: 'realQuantity', drip: 'dripQuantity' },
+    { id: 'income', label: 'drip_income', real: 'realIncome', drip: 'dripIncome' },
+];
+
+const TOP_TICKERS = 5;
+
+// Carteira real x a mesma carteira reinvestindo todos os rendimentos na data de pagamento
+const DripSimulationCard: React.FC = () => {
+    const { t, formatCurrency, locale } = useI18n();
+    const { assets, getDripSimulation, preferences } = usePortfolio();
+    const [mode, setMode] = useState<DripMode>('sameTicker');
+    const [metric, setMetric] = useState<DripMetric>('value');
+
+    const goals: Record<string, number> = preferences.segmentGoals || {};
+    const hasGoals = Object.values(goals).some(v => v > 0);
+    const simulation = useMemo(() => getDripSimulation(mode, Object.fromEntries(assets.map(a => [a.ticker, a.segment || t('outros')]))), [getDripSimulation, mode, assets, t]);
+
+    if (simulation.points.length < 2 || simulation.reinvested <= 0) return null;
+
+    const current = METRICS.find(m => m.id === metric)!;
+    const last = simulation.points[simulation.points.length - 1];
+    const labels = simulation.points.map(p => fromISODate(`${p.month}-01`).toLocaleDateString(locale, { month: 'short', year: '2-digit' }));
+    const format = (value: number) => metric === 'quantity' ? value.toFixed(0) : formatCurrency(value);
+    const valueGain = last.dripValue - last.realValue;
+    const topTickers = simulation.byTicker.filter(tk => tk.dripQuantity !== tk.realQuantity).slice(0, TOP_TICKERS);
+
+    const toggleClass = (active: boolean) => `px-2 py-1 text-[10px] font-bold rounded-md transition-all ${active ? 'bg-[var(--bg-secondary)] text-[var(--accent-color)] shadow-sm' : 'text-[var(--text-secondary)]'}`;
+
+    return (
+        <div className="bg-[var(--bg-secondary)] rounded-2xl p-5 border border-[var(--border-color)] shadow-sm">
+            <div className="flex justify-between items-center mb-1 gap-2">
+                <div className="flex items-center gap-2">
+                    <RefreshIcon className="w-5 h-5 text-[var(--accent-color)]" />
+                    <h3 className="font-bold text-base text-[var(--text-primary)]">{t('drip_simulation')}</h3>
+                </div>
+                <div className="flex bg-[var(--bg-primary)] p-0.5 rounded-lg border border-[var(--border-color)]">
+                    <button onClick={() => { setMode('sameTicker'); vibrate(); }} className={toggleClass(mode === 'sameTicker')}>{t('drip_same_ticker')}</button>
+                    <button onClick={() => { setMode('underweightSegment'); vibrate(); }} className={toggleClass(mode === 'underweightSegment')}>{t('drip_underweight_segment')}</button>
+                </div>
+            </div>
+            <p className="text-[10px] text-[var(--text-secondary)] mb-4">
+                {mode === 'underweightSegment' && !hasGoals ? t('drip_needs_goals') : t('drip_hint')}
+            </p>
+
+            <div className="grid grid-cols-3 gap-3 mb-4">
+                <div>
+                    <span className="text-[10px] text-[var(--text-secondary)] uppercase font-bold tracking-wider block mb-1">{t('drip_extra_patrimony')}</span>
+                    <span className={`text-base font-bold ${valueGain >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>{valueGain >= 0 ? '+' : ''}{formatCurrency(valueGain)}</span>
+                </div>
+                <div>
+                    <span className="text-[10px] text-[var(--text-secondary)] uppercase font-bold tracking-wider block mb-1">{t('drip_extra_shares')}</span>
+                    <span className="text-base font-bold text-[var(--text-primary)]">+{(last.dripQuantity - last.realQuantity).toFixed(0)}</span>
+                </div>
+                <div>
+                    <span className="text-[10px] text-[var(--text-secondary)] uppercase font-bold tracking-wider block mb-1">{t('drip_reinvested')}</span>
+                    <span className="text-base font-bold text-[var(--text-primary)]">{formatCurrency(simulation.reinvested)}</span>
+                </div>
+            </div>
+
+            <div className="flex bg-[var(--bg-primary)] p-0.5 rounded-lg border border-[var(--border-color)] mb-3 w-fit">
+                {METRICS.map(m => (
+                    <button key={m.id} onClick={() => { setMetric(m.id); vibrate(); }} className={toggleClass(metric === m.id)}>{t(m.label)}</button>
+                ))}
+            </div>
+            <ComparisonLineChart
+                labels={labels}
+                formatValue={format}
+                formatAxis={metric === 'quantity' ? (v => v.toFixed(0)) : undefined}
+                series={[
+                    { id: 'real', label: t('drip_real'), color: 'var(--text-secondary)', values: simulation.points.map(p => p[current.real]) },
+                    { id: 'drip', label: t('drip_reinvesting'), color: 'var(--accent-color)', values: simulation.points.map(p => p[current.drip]) },
+                ]}
+            />
+
+            {topTickers.length > 0 && (
+                <div className="pt-4 mt-4 border-t border-[var(--border-color)]">
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-[10px] text-[var(--text-secondary)] uppercase tracking-wider">
+                                <th className="text-left font-bold pb-2">{t('asset')}</th>
+                                <th className="text-right font-bold pb-2">{t('drip_real')}</th>
+                                <th className="text-right font-bold pb-2">{t('drip_reinvesting')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {topTickers.map(tk => (
+                                <tr key={tk.ticker} className="border-t border-[var(--border-color)]">
+                                    <td className="py-2 font-bold">{tk.ticker}</td>
+                                    <td className="py-2 text-right">{tk.realQuantity.toFixed(0)}</td>
+                                    <td className="py-2 text-right font-bold text-[var(--accent-color)]">{tk.dripQuantity.toFixed(0)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {simulation.cash > 0 && (
+                <p className="text-[10px] text-[var(--text-secondary)] mt-3">{t('drip_leftover_cash', { amount: formatCurrency(simulation.cash) })}</p>
+            )}
+        </div>
+    );
+};
+
+export default DripSimulationCard;
@@ -0,0 +1,81 @@
+import React, { useState, useMemo } from 'react';
+import { useI18n } from '../../contexts/I18nContext';
+import { usePortfolio } from '../../contexts/PortfolioContext';
+import SparklesIcon from '../icons/SparklesIcon';
+import { calculateMagicNumber, getTodayISODate, vibrate } from '../../utils';
+import type { MagicNumber } from '../../utils';
+
+const COLLAPSED_ROWS = 5;
+
+// Número mágico de cada ativo da carteira, dos mais próximos aos mais distantes
+const MagicNumberCard: React.FC<{ onSelectAsset?: (ticker: string) => void }> = ({ onSelectAsset }) => {
+    const { t, formatCurrency } = useI18n();
+    const { assets } = usePortfolio();
+    const [showAll, setShowAll] = useState(false);
+
+    const rows = useMemo(() => {
+        const today = getTodayISODate();
+        return assets
+            .filter(a => a.quantity > 0)
+            .map(asset => ({ ticker: asset.ticker, magic: calculateMagicNumber(asset, today) }))
+            .filter((row): row is { ticker: string; magic: MagicNumber } => row.magic !== null)
+            .sort((a, b) => b.magic.progress - a.magic.progress || a.magic.capitalRequired - b.magic.capitalRequired);
+    }, [assets]);
+
+    if (rows.length === 0) return null;
+
+    const reachedCount = rows.filter(r => r.magic.missing === 0).length;
+    const visibleRows = showAll ? rows : rows.slice(0, COLLAPSED_ROWS);
+
+    return (
+        <div className="bg-[var(--bg-secondary)] rounded-2xl p-5 border border-[var(--border-color)] shadow-sm">
+            <div className="flex justify-between items-center mb-1">
+                <div className="flex items-center gap-2">
+                    <SparklesIcon className="w-5 h-5 text-[var(--accent-color)]" />
+                    <h3 className="font-bold text-base text-[var(--text-primary)]">{t('magic_number')}</h3>
+                </div>
+                <span className="text-[10px] font-bold text-[var(--text-secondary)]">{t('magic_number_reached_count', { count: reachedCount, total: rows.length })}</span>
+            </div>
+            <p className="text-[10px] text-[var(--text-secondary)] mb-4">{t('magic_number_hint')}</p>
+
+            <div className="space-y-3">
+                {visibleRows.map(({ ticker, magic }) => (
+                    <button
+                        key={ticker}
+                        onClick={() => { vibrate(); onSelectAsset?.(ticker); }}
+                        className="w-full text-left"
+                    >
+                        <div className="flex justify-between items-baseline mb-1">
+                            <span className="text-sm font-bold text-[var(--text-primary)]">{ticker}</span>
+                            <span className="text-[10px] text-[var(--text-secondary)]">
+                                {Math.floor(magic.quantity)} / {magic.magicNumber}
+                            </span>
+                        </div>
+                        <div className="w-full h-1.5 bg-[var(--bg-primary)] rounded-full overflow-hidden">
+                            <div
+                                className={`h-full rounded-full ${magic.missing === 0 ? 'bg-[var(--green-text)]' : 'bg-[var(--accent-color)]'}`}
+                                style={{ width: `${magic.progress}%` }}
+                            />
+                        </div>
+                        <p className="text-[10px] text-[var(--text-secondary)] mt-1">
+                            {magic.missing === 0
+                                ? t('magic_number_reached')
+                                : t('magic_number_missing', { count: magic.missing, amount: formatCurrency(magic.capitalRequired) })}
+                        </p>
+                    </button>
+                ))}
+            </div>
+
+            {rows.length > COLLAPSED_ROWS && (
+                <button
+                    onClick={() => { setShowAll(!showAll); vibrate(); }}
+                    className="w-full mt-4 text-xs font-bold text-[var(--accent-color)]"
+                >
+                    {showAll ? t('show_less') : t('show_all')}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default MagicNumberCard;
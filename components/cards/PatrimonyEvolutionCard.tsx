@@ -1,21 +1,28 @@
-
 import React, { useState, useMemo } from 'react';
 import { useI18n } from '../../contexts/I18nContext';
 import { usePortfolio } from '../../contexts/PortfolioContext';
-import EvolutionChart from '../charts/EvolutionChart';
+import EvolutionChart, { getRebasedReturns } from '../charts/EvolutionChart';
+import type { BenchmarkLine } from '../charts/EvolutionChart';
 import CountUp from '../CountUp';
+import RealTermsToggle from '../RealTermsToggle';
 import TrendingUpIcon from '../icons/TrendingUpIcon';
 import WalletIcon from '../icons/WalletIcon';
 import { vibrate } from '../../utils';
+import type { Deflator } from '../../utils';
+import { BENCHMARKS, BENCHMARK_IDS } from '../../constants';
+import { getBenchmarkIndex, getBenchmarkLevelAt } from '../../services/benchmarkService';
+import type { BenchmarkStore } from '../../services/benchmarkService';
+import type { Asset, BenchmarkId, PortfolioEvolutionPoint } from '../../types';
 
 type Period = '7d' | '30d' | '6m' | '1y' | 'all';
+type ChartMode = 'value' | 'return';
 
-const usePatrimonyLogic = (portfolioEvolution: any, assets: any[]) => {
-    const [period, setPeriod] = useState<Period>('7d');
+const usePatrimonyLogic = (portfolioEvolution: PortfolioEvolutionPoint[], assets: Asset[], benchmarks: BenchmarkStore, selectedBenchmarks: BenchmarkId[], deflate: Deflator | null) => {
+    const [period, setPeriod] = useState<Period>('30d');
 
     const currentMetrics = useMemo(() => {
-        const totalInvested = assets.reduce((acc: number, a: any) => acc + (a.quantity * a.avgPrice), 0);
-        const currentPatrimony = assets.reduce((acc: number, a: any) => acc + (a.quantity * a.currentPrice), 0);
+        const totalInvested = assets.reduce((acc, a) => acc + (a.quantity * a.avgPrice), 0);
+        const currentPatrimony = assets.reduce((acc, a) => acc + (a.quantity * a.currentPrice), 0);
         const absoluteReturn = currentPatrimony - totalInvested;
         const percentageReturn = totalInvested > 0 ? (absoluteReturn / totalInvested) * 100 : 0;
 
@@ -23,8 +30,7 @@ const usePatrimonyLogic = (portfolioEvolution: any, assets: any[]) => {
     }, [assets]);
 
     const chartData = useMemo(() => {
-        const data = portfolioEvolution.all_types || [];
-        if (data.length === 0) return [];
+        if (portfolioEvolution.length === 0) return [];
 
         const now = new Date();
         let cutoffDate = new Date();
@@ -38,16 +44,50 @@ const usePatrimonyLogic = (portfolioEvolution: any, assets: any[]) => {
         }
 
         const cutoffStr = cutoffDate.toISOString().split('T')[0];
-        return data.filter((d: any) => d.dateISO >= cutoffStr).sort((a: any, b: any) => a.dateISO.localeCompare(b.dateISO));
+        return portfolioEvolution.filter(d => d.dateISO >= cutoffStr);
     }, [portfolioEvolution, period]);
 
-    return { period, setPeriod, currentMetrics, chartData };
+    // Retorno de cada índice rebaseado no primeiro ponto do período (descontando o IPCA em valores reais)
+    const benchmarkLines = useMemo<BenchmarkLine[]>(() => {
+        if (chartData.length === 0) return [];
+        const baseFactor = deflate ? deflate(chartData[0].dateISO) : 1;
+        return selectedBenchmarks.filter(id => benchmarks[id]).map(id => {
+            const index = getBenchmarkIndex(benchmarks[id]!);
+            const base = getBenchmarkLevelAt(index, chartData[0].dateISO);
+            return {
+                id,
+                label: BENCHMARKS[id].label,
+                color: BENCHMARKS[id].color,
+                values: chartData.map(d => {
+                    const level = getBenchmarkLevelAt(index, d.dateISO);
+                    const inflation = deflate ? deflate(d.dateISO) / baseFactor : 1;
+                    return base && level !== null ? ((level / base) * inflation - 1) * 100 : null;
+                }),
+            };
+        });
+    }, [chartData, benchmarks, selectedBenchmarks, deflate]);
+
+    const periodReturn = useMemo(() => {
+        const returns = getRebasedReturns(chartData);
+        return returns.length > 0 ? returns[returns.length - 1] : 0;
+    }, [chartData]);
+
+    return { period, setPeriod, currentMetrics, chartData, benchmarkLines, periodReturn };
 };
 
 const PatrimonyEvolutionCard: React.FC = () => {
     const { t, formatCurrency } = useI18n();
-    const { portfolioEvolution, assets } = usePortfolio();
-    const { period, setPeriod, currentMetrics, chartData } = usePatrimonyLogic(portfolioEvolution, assets);
+    const { displayedPortfolioEvolution, assets, benchmarks, realTerms, inflationDeflator } = usePortfolio();
+    const [mode, setMode] = useState<ChartMode>('value');
+    const [selectedBenchmarks, setSelectedBenchmarks] = useState<BenchmarkId[]>(['IFIX', 'CDI']);
+    const { period, setPeriod, currentMetrics, chartData, benchmarkLines, periodReturn } = usePatrimonyLogic(displayedPortfolioEvolution, assets, benchmarks, selectedBenchmarks, realTerms ? inflationDeflator : null);
+
+    const availableBenchmarks = BENCHMARK_IDS.filter(id => (benchmarks[id]?.points.length || 0) > 0);
+
+    const toggleBenchmark = (id: BenchmarkId) => {
+        vibrate();
+        setSelectedBenchmarks(prev => prev.includes(id) ? prev.filter(b => b !== id) : [...prev, id]);
+    };
 
     const periods: { id: Period; label: string }[] = [
         { id: '7d', label: '7D' },
@@ -79,21 +119,86 @@ const PatrimonyEvolutionCard: React.FC = () => {
                 </div>
             </div>
 
-            <div className="flex items-end gap-3 mb-6">
-                <div>
-                    <span className="text-[10px] text-[var(--text-secondary)] uppercase font-bold tracking-wider block mb-1">{t('net_worth')}</span>
-                    <span className="text-2xl font-black text-[var(--text-primary)] tracking-tight">
-                        <CountUp end={currentMetrics.currentPatrimony} formatter={formatCurrency} />
-                    </span>
+            <div className="flex items-end justify-between gap-3 mb-4">
+                <div className="flex items-end gap-3">
+                    <div>
+                        <span className="text-[10px] text-[var(--text-secondary)] uppercase font-bold tracking-wider block mb-1">{t('net_worth')}</span>
+                        <span className="text-2xl font-black text-[var(--text-primary)] tracking-tight">
+                            <CountUp end={currentMetrics.currentPatrimony} formatter={formatCurrency} />
+                        </span>
+                    </div>
+                    <div className={`mb-1.5 px-2 py-0.5 rounded text-xs font-bold ${currentMetrics.absoluteReturn >= 0 ? 'bg-emerald-500/10 text-emerald-500' : 'bg-rose-500/10 text-rose-500'}`}>
+                        {currentMetrics.absoluteReturn >= 0 ? '+' : ''}{currentMetrics.percentageReturn.toFixed(2)}%
+                    </div>
                 </div>
-                <div className={`mb-1.5 px-2 py-0.5 rounded text-xs font-bold ${currentMetrics.absoluteReturn >= 0 ? 'bg-emerald-500/10 text-emerald-500' : 'bg-rose-500/10 text-rose-500'}`}>
-                    {currentMetrics.absoluteReturn >= 0 ? '+' : ''}{currentMetrics.percentageReturn.toFixed(2)}%
+                <div className="flex items-center gap-2">
+                    <RealTermsToggle />
+                    <div className="flex bg-[var(--bg-primary)] p-0.5 rounded-lg border border-[var(--border-color)]">
+                        {(['value', 'return'] as ChartMode[]).map(m => (
+                            <button
+                                key={m}
+                                onClick={() => { setMode(m); vibrate(); }}
+                                className={`px-2 py-1 text-[10px] font-bold rounded-md transition-all ${mode === m ? 'bg-[var(--bg-secondary)] text-[var(--accent-color)] shadow-sm' : 'text-[var(--text-secondary)]'}`}
+                            >
+                                {m === 'value' ? t('net_worth') : t('performance')}
+                            </button>
+                        ))}
+                    </div>
                 </div>
             </div>
-            
+
+            {mode === 'return' && (
+                <div className="mb-4">
+                    {availableBenchmarks.length > 0 ? (
+                        <div className="flex flex-wrap gap-2">
+                            {availableBenchmarks.map(id => (
+                                <button
+                                    key={id}
+                                    onClick={() => toggleBenchmark(id)}
+                                    className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[10px] font-bold border transition-all ${selectedBenchmarks.includes(id) ? 'border-[var(--border-color)] bg-[var(--bg-primary)] text-[var(--text-primary)]' : 'border-transparent text-[var(--text-secondary)] opacity-60'}`}
+                                >
+                                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: BENCHMARKS[id].color }}></span>
+                                    {BENCHMARKS[id].label}
+                                </button>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-[10px] text-[var(--text-secondary)]">{t('benchmarks_empty_hint')}</p>
+                    )}
+
+                    {benchmarkLines.length > 0 && (
+                        <div className="grid grid-cols-2 gap-2 mt-3">
+                            <div className="bg-[var(--bg-primary)] rounded-lg p-2">
+                                <p className="text-[9px] font-bold text-[var(--text-secondary)] uppercase tracking-wider">{t('my_portfolio')}</p>
+                                <p className={`text-sm font-bold ${periodReturn >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>{periodReturn >= 0 ? '+' : ''}{periodReturn.toFixed(2)}%</p>
+                            </div>
+                            {benchmarkLines.map(line => {
+                                const benchmarkReturn = line.values[line.values.length - 1];
+                                const excess = benchmarkReturn !== null && line.values[0] !== null ? periodReturn - benchmarkReturn : null;
+                                return (
+                                    <div key={line.id} className="bg-[var(--bg-primary)] rounded-lg p-2">
+                                        <p className="text-[9px] font-bold text-[var(--text-secondary)] uppercase tracking-wider">{line.label}</p>
+                                        {excess !== null ? (
+                                            <p className="text-sm font-bold text-[var(--text-primary)]">
+                                                {benchmarkReturn! >= 0 ? '+' : ''}{benchmarkReturn!.toFixed(2)}%
+                                                <span className={`ml-1 text-[10px] ${excess >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>
+                                                    {t('excess_return', { value: `${excess >= 0 ? '+' : ''}${excess.toFixed(2)}` })}
+                                                </span>
+                                            </p>
+                                        ) : (
+                                            <p className="text-[10px] text-[var(--text-secondary)]">{t('benchmark_no_coverage')}</p>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            )}
+
             <div className="h-64 w-full relative">
                 {chartData.length > 1 ? (
-                    <EvolutionChart data={chartData} chartType="line" />
+                    <EvolutionChart data={chartData} chartType="line" mode={mode} benchmarks={mode === 'return' ? benchmarkLines : []} />
                 ) : (
                     <div className="absolute inset-0 flex flex-col items-center justify-center text-[var(--text-secondary)] opacity-50">
                         <WalletIcon className="w-10 h-10 mb-2 stroke-1" />
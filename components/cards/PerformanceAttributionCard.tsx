@@ -0,0 +1,126 @@
+import React, { useState, useMemo } from 'react';
+import { useI18n } from '../../contexts/I18nContext';
+import { usePortfolio } from '../../contexts/PortfolioContext';
+import WaterfallChart from '../charts/WaterfallChart';
+import type { WaterfallStep } from '../charts/WaterfallChart';
+import AnalysisIcon from '../icons/AnalysisIcon';
+import { vibrate, PERFORMANCE_PERIODS } from '../../utils';
+import type { PerformancePeriod } from '../../utils';
+import { STATIC_FII_SECTORS } from '../../constants';
+
+type Grouping = 'asset' | 'segment';
+
+const PERIOD_LABELS: Record<PerformancePeriod, string> = {
+    MTD: 'period_mtd',
+    YTD: 'period_ytd',
+    '12M': 'period_12m',
+    ALL: 'period_all',
+};
+
+// Colunas além disso são somadas em "Outros"
+const MAX_STEPS = 7;
+
+interface AttributionRow extends WaterfallStep {
+    amount: number; // R$: variação de preço + renda
+}
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+// O que formou o retorno do período: contribuição de cada ativo ou segmento, separando preço e renda
+const PerformanceAttributionCard: React.FC = () => {
+    const { t, formatCurrency } = useI18n();
+    const { assets, getPerformanceAttribution } = usePortfolio();
+    const [period, setPeriod] = useState<PerformancePeriod>('YTD');
+    const [grouping, setGrouping] = useState<Grouping>('asset');
+
+    const attribution = useMemo(() => getPerformanceAttribution(period), [getPerformanceAttribution, period]);
+
+    const rows = useMemo<AttributionRow[]>(() => {
+        if (!attribution) return [];
+        const segments: Record<string, string> = Object.fromEntries(assets.map(a => [a.ticker, a.segment]));
+        const groups: Record<string, AttributionRow> = {};
+        attribution.items.forEach(item => {
+            const key = grouping === 'asset' ? item.ticker : (segments[item.ticker] || STATIC_FII_SECTORS[item.ticker] || t('outros'));
+            const group = groups[key] || (groups[key] = { id: key, label: key, price: 0, income: 0, amount: 0 });
+            group.price += item.priceContribution;
+            group.income += item.incomeContribution;
+            group.amount += item.priceEffect + item.income;
+        });
+
+        const sorted = Object.values(groups).sort((a, b) => (b.price + b.income) - (a.price + a.income));
+        if (sorted.length <= MAX_STEPS) return sorted;
+        const rest = sorted.slice(MAX_STEPS - 1).reduce((acc, r) => ({ ...acc, price: acc.price + r.price, income: acc.income + r.income, amount: acc.amount + r.amount }), { id: '__rest', label: t('outros'), price: 0, income: 0, amount: 0 });
+        return [...sorted.slice(0, MAX_STEPS - 1), rest];
+    }, [attribution, grouping, assets, t]);
+
+    if (!attribution || attribution.items.length === 0) return null;
+
+    const toggleClass = (active: boolean) => `px-2 py-1 text-[10px] font-bold rounded-md transition-all ${active ? 'bg-[var(--bg-secondary)] text-[var(--accent-color)] shadow-sm' : 'text-[var(--text-secondary)]'}`;
+    const toneClass = (value: number) => value >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]';
+
+    return (
+        <div className="bg-[var(--bg-secondary)] rounded-2xl p-5 border border-[var(--border-color)] shadow-sm">
+            <div className="flex justify-between items-center mb-1 gap-2">
+                <div className="flex items-center gap-2">
+                    <AnalysisIcon className="w-5 h-5 text-[var(--accent-color)]" />
+                    <h3 className="font-bold text-base text-[var(--text-primary)]">{t('attribution_title')}</h3>
+                </div>
+                <div className="flex bg-[var(--bg-primary)] p-0.5 rounded-lg border border-[var(--border-color)]">
+                    {PERFORMANCE_PERIODS.map(p => (
+                        <button key={p} onClick={() => { setPeriod(p); vibrate(); }} className={toggleClass(period === p)}>{t(PERIOD_LABELS[p])}</button>
+                    ))}
+                </div>
+            </div>
+            <p className="text-[10px] text-[var(--text-secondary)] mb-4">{t('attribution_hint')}</p>
+
+            <div className="grid grid-cols-3 gap-3 mb-4">
+                <div>
+                    <span className="text-[10px] text-[var(--text-secondary)] uppercase font-bold tracking-wider block mb-1">{t('attribution_total')}</span>
+                    <span className={`text-base font-bold ${toneClass(attribution.totalReturn)}`}>{formatPercent(attribution.totalReturn)}</span>
+                </div>
+                <div>
+                    <span className="text-[10px] text-[var(--text-secondary)] uppercase font-bold tracking-wider block mb-1">{t('attribution_price')}</span>
+                    <span className={`text-base font-bold ${toneClass(attribution.priceReturn)}`}>{formatPercent(attribution.priceReturn)}</span>
+                </div>
+                <div>
+                    <span className="text-[10px] text-[var(--text-secondary)] uppercase font-bold tracking-wider block mb-1">{t('attribution_income')}</span>
+                    <span className="text-base font-bold text-[var(--accent-color)]">{formatPercent(attribution.incomeReturn)}</span>
+                </div>
+            </div>
+
+            <div className="flex bg-[var(--bg-primary)] p-0.5 rounded-lg border border-[var(--border-color)] mb-3 w-fit">
+                <button onClick={() => { setGrouping('asset'); vibrate(); }} className={toggleClass(grouping === 'asset')}>{t('attribution_by_asset')}</button>
+                <button onClick={() => { setGrouping('segment'); vibrate(); }} className={toggleClass(grouping === 'segment')}>{t('attribution_by_segment')}</button>
+            </div>
+            <WaterfallChart steps={rows} totalLabel={t('total')} priceLabel={t('attribution_price')} incomeLabel={t('attribution_income')} formatValue={formatPercent} />
+
+            <div className="pt-4 mt-4 border-t border-[var(--border-color)]">
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-[10px] text-[var(--text-secondary)] uppercase tracking-wider">
+                            <th className="text-left font-bold pb-2">{grouping === 'asset' ? t('asset') : t('segment')}</th>
+                            <th className="text-right font-bold pb-2">{t('attribution_price')}</th>
+                            <th className="text-right font-bold pb-2">{t('attribution_income')}</th>
+                            <th className="text-right font-bold pb-2">{t('total')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(row => (
+                            <tr key={row.id} className="border-t border-[var(--border-color)]">
+                                <td className="py-2 font-bold">{row.label}</td>
+                                <td className={`py-2 text-right ${toneClass(row.price)}`}>{formatPercent(row.price)}</td>
+                                <td className="py-2 text-right text-[var(--accent-color)]">{formatPercent(row.income)}</td>
+                                <td className="py-2 text-right">
+                                    <span className={`block font-bold ${toneClass(row.price + row.income)}`}>{formatPercent(row.price + row.income)}</span>
+                                    <span className="block text-[10px] text-[var(--text-secondary)]">{formatCurrency(row.amount)}</span>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default PerformanceAttributionCard;
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { useI18n } from '../../contexts/I18nContext';
+import { usePortfolio } from '../../contexts/PortfolioContext';
+import { vibrate, PERFORMANCE_PERIODS } from '../../utils';
+import type { PerformancePeriod } from '../../utils';
+import type { PerformanceByPeriod } from '../../hooks/usePortfolioPerformance';
+
+const PERIOD_LABELS: Record<PerformancePeriod, string> = {
+    MTD: 'period_mtd',
+    YTD: 'period_ytd',
+    '12M': 'period_12m',
+    ALL: 'period_all',
+};
+
+const ReturnValue: React.FC<{ label: string; value: number | null }> = ({ label, value }) => (
+    <div className="flex flex-col">
+        <h3 className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 opacity-80">{label}</h3>
+        <p className={`text-base font-bold tracking-tight ${value === null ? 'text-[var(--text-secondary)]' : value >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>
+            {value === null ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`}
+        </p>
+    </div>
+);
+
+// Rentabilidade considerando proventos, aportes e vendas (TWR no período e XIRR anualizado)
+const PerformanceCard: React.FC<{ performance?: PerformanceByPeriod; embedded?: boolean }> = ({ performance, embedded }) => {
+    const { t } = useI18n();
+    const { realTerms } = usePortfolio();
+    const [period, setPeriod] = useState<PerformancePeriod>('YTD');
+    const result = performance?.[period];
+
+    return (
+        <div className={embedded ? '' : 'bg-[var(--bg-secondary)] p-5 rounded-2xl border border-[var(--border-color)] shadow-sm'}>
+            <div className="flex justify-between items-center mb-3 gap-2">
+                <h3 className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider">{t('performance')}{realTerms && ` • ${t('real_terms')}`}</h3>
+                <div className="flex bg-[var(--bg-primary)] p-0.5 rounded-lg border border-[var(--border-color)]">
+                    {PERFORMANCE_PERIODS.map(p => (
+                        <button
+                            key={p}
+                            onClick={() => { setPeriod(p); vibrate(); }}
+                            className={`px-2 py-1 text-[10px] font-bold rounded-md transition-all ${period === p ? 'bg-[var(--bg-secondary)] text-[var(--accent-color)] shadow-sm' : 'text-[var(--text-secondary)]'}`}
+                        >
+                            {t(PERIOD_LABELS[p])}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+                <ReturnValue label={t('twr_return')} value={result?.twr ?? null} />
+                <ReturnValue label={t('xirr_return')} value={result?.xirr ?? null} />
+            </div>
+        </div>
+    );
+};
+
+export default PerformanceCard;
@@ -3,6 +3,9 @@ import React, { useMemo } from 'react';
 import { useI18n } from '../../contexts/I18nContext';
 import { usePortfolio } from '../../contexts/PortfolioContext';
 import CountUp from '../CountUp';
+import PerformanceCard from './PerformanceCard';
+import PortfolioLineChart from '../charts/PortfolioLineChart';
+import { addDaysISO, getTodayISODate, fromISODate } from '../../utils';
 
 const Metric: React.FC<{ label: string; value: number; format: (v: number) => string; color?: string }> = ({ label, value, format, color }) => (
     <div className="flex flex-col">
@@ -15,7 +18,7 @@ const Metric: React.FC<{ label: string; value: number; format: (v: number) => st
 
 const PortfolioSummary: React.FC = () => {
     const { t, formatCurrency, locale } = useI18n();
-    const { assets, privacyMode, preferences, yieldOnCost, projectedAnnualIncome } = usePortfolio();
+    const { assets, privacyMode, preferences, yieldOnCost, projectedAnnualIncome, cashMovements, cashBalance, portfolioPerformance, getPortfolioEvolution } = usePortfolio();
 
     const summary = useMemo(() => {
         return assets.reduce(
@@ -30,6 +33,10 @@ const PortfolioSummary: React.FC = () => {
         );
     }, [assets]);
     
+    // Patrimônio reconstruído dia a dia nos últimos 30 dias
+    const recentEvolution = useMemo(() => getPortfolioEvolution(addDaysISO(getTodayISODate(), -30)), [getPortfolioEvolution]);
+    const isRecentPositive = recentEvolution.length < 2 || recentEvolution[recentEvolution.length - 1].marketValue >= recentEvolution[0].marketValue;
+
     const unrealizedGain = summary.currentValue - summary.totalInvested;
     const unrealizedGainPercent = summary.totalInvested > 0 ? (unrealizedGain / summary.totalInvested) * 100 : 0;
     const today = new Date().toLocaleDateString(locale, { day: 'numeric', month: 'long' });
@@ -64,6 +71,16 @@ const PortfolioSummary: React.FC = () => {
                             {unrealizedGain >= 0 ? '+' : ''} <CountUp end={unrealizedGain} formatter={format} /> 
                         </span>
                     </div>
+                    {recentEvolution.length > 1 && (
+                        <div className="h-12 mt-4">
+                            <PortfolioLineChart
+                                data={recentEvolution.map(p => p.marketValue)}
+                                labels={recentEvolution.map(p => fromISODate(p.dateISO).toLocaleDateString(locale, { day: '2-digit', month: 'short' }))}
+                                isPositive={isRecentPositive}
+                                simpleMode
+                            />
+                        </div>
+                    )}
                 </div>
 
                 <div className={`grid grid-cols-2 gap-y-6 gap-x-4 pt-6 border-t border-[var(--border-color)] ${privacyMode ? 'blur-md opacity-50' : ''}`}>
@@ -71,6 +88,17 @@ const PortfolioSummary: React.FC = () => {
                     <Metric label={t('yield_on_cost')} value={yieldOnCost} format={(v) => `${v.toFixed(2)}%`} color="text-[var(--accent-color)]" />
                     <Metric label={t('projected_annual_income')} value={projectedAnnualIncome} format={format} />
                     <Metric label={t('capital_gain')} value={unrealizedGain} format={format} color={unrealizedGain >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'} />
+                    {/* Caixa só aparece para quem registra movimentações */}
+                    {cashMovements.length > 0 && (
+                        <>
+                            <Metric label={t('cash_balance')} value={cashBalance} format={format} color={cashBalance >= 0 ? undefined : 'text-[var(--red-text)]'} />
+                            <Metric label={t('total_equity')} value={summary.currentValue + cashBalance} format={format} />
+                        </>
+                    )}
+                </div>
+
+                <div className={`pt-6 mt-6 border-t border-[var(--border-color)] ${privacyMode ? 'blur-md opacity-50' : ''}`}>
+                    <PerformanceCard performance={portfolioPerformance} embedded />
                 </div>
             </div>
         </div>
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { useI18n } from '../../contexts/I18nContext';
+import { usePortfolio } from '../../contexts/PortfolioContext';
+import { useRiskMetrics } from '../../hooks/useRiskMetrics';
+import type { RiskPeriod } from '../../hooks/useRiskMetrics';
+import ShieldIcon from '../icons/ShieldIcon';
+import HelpIcon from '../icons/HelpIcon';
+import { vibrate, fromISODate } from '../../utils';
+import type { RiskMetrics } from '../../utils';
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${value.toFixed(2)}%`;
+const formatRatio = (value: number | null) => value === null ? '—' : value.toFixed(2);
+
+const MetricLabel: React.FC<{ label: string; term: string; onOpenGlossary?: (term: string) => void }> = ({ label, term, onOpenGlossary }) => (
+    <button
+        onClick={() => { vibrate(); onOpenGlossary?.(term); }}
+        disabled={!onOpenGlossary}
+        className="flex items-center gap-1 text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 hover:text-[var(--accent-color)] transition-colors disabled:hover:text-[var(--text-secondary)]"
+    >
+        {label}
+        {onOpenGlossary && <HelpIcon className="w-3 h-3 opacity-60" />}
+    </button>
+);
+
+// Volatilidade, drawdown, Sharpe (vs. CDI) e beta (vs. IFIX) da carteira e de cada ativo
+const RiskMetricsCard: React.FC<{ onOpenGlossary?: (term: string) => void }> = ({ onOpenGlossary }) => {
+    const { t, locale } = useI18n();
+    const { portfolioEvolution, assets, priceHistory, benchmarks } = usePortfolio();
+    const [period, setPeriod] = useState<RiskPeriod>('12M');
+    const { portfolio, byAsset, hasRiskFree, hasMarket } = useRiskMetrics(portfolioEvolution, assets, priceHistory, benchmarks, period);
+
+    const formatDate = (date: string) => fromISODate(date).toLocaleDateString(locale, { day: '2-digit', month: 'short', year: '2-digit' });
+
+    const drawdownDates = (metrics: RiskMetrics) => {
+        if (!metrics.drawdownPeak || !metrics.drawdownTrough) return null;
+        const range = `${formatDate(metrics.drawdownPeak)} → ${formatDate(metrics.drawdownTrough)}`;
+        return metrics.drawdownRecovery
+            ? t('risk_drawdown_recovered', { range, date: formatDate(metrics.drawdownRecovery) })
+            : t('risk_drawdown_not_recovered', { range });
+    };
+
+    if (assets.length === 0) return null;
+
+    return (
+        <div className="bg-[var(--bg-secondary)] rounded-2xl p-5 border border-[var(--border-color)] shadow-sm">
+            <div className="flex justify-between items-center mb-4 gap-2">
+                <div className="flex items-center gap-2">
+                    <ShieldIcon className="w-5 h-5 text-[var(--accent-color)]" />
+                    <h3 className="font-bold text-base text-[var(--text-primary)]">{t('risk_metrics')}</h3>
+                </div>
+                <div className="flex bg-[var(--bg-primary)] p-0.5 rounded-lg border border-[var(--border-color)]">
+                    {(['12M', 'ALL'] as RiskPeriod[]).map(p => (
+                        <button
+                            key={p}
+                            onClick={() => { setPeriod(p); vibrate(); }}
+                            className={`px-2 py-1 text-[10px] font-bold rounded-md transition-all ${period === p ? 'bg-[var(--bg-secondary)] text-[var(--accent-color)] shadow-sm' : 'text-[var(--text-secondary)]'}`}
+                        >
+                            {t(p === '12M' ? 'period_12m' : 'period_all')}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {portfolio.volatility === null ? (
+                <p className="text-xs text-[var(--text-secondary)] mb-4">{t('risk_insufficient_data')}</p>
+            ) : (
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                    <div>
+                        <MetricLabel label={t('volatility')} term="volatilidade" onOpenGlossary={onOpenGlossary} />
+                        <p className="text-base font-bold text-[var(--text-primary)]">{formatPercent(portfolio.volatility)}</p>
+                    </div>
+                    <div>
+                        <MetricLabel label={t('max_drawdown')} term="drawdown" onOpenGlossary={onOpenGlossary} />
+                        <p className="text-base font-bold text-[var(--red-text)]">{formatPercent(portfolio.maxDrawdown)}</p>
+                        {drawdownDates(portfolio) && <p className="text-[10px] text-[var(--text-secondary)]">{drawdownDates(portfolio)}</p>}
+                    </div>
+                    <div>
+                        <MetricLabel label={t('sharpe_ratio')} term="sharpe" onOpenGlossary={onOpenGlossary} />
+                        <p className="text-base font-bold text-[var(--text-primary)]">{formatRatio(portfolio.sharpe)}</p>
+                    </div>
+                    <div>
+                        <MetricLabel label={t('beta_ifix')} term="beta" onOpenGlossary={onOpenGlossary} />
+                        <p className="text-base font-bold text-[var(--text-primary)]">{formatRatio(portfolio.beta)}</p>
+                    </div>
+                </div>
+            )}
+
+            {(!hasRiskFree || !hasMarket) && (
+                <p className="text-[10px] text-[var(--text-secondary)] mb-4">{t('risk_needs_benchmarks')}</p>
+            )}
+
+            <div className="overflow-x-auto no-scrollbar">
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-[10px] text-[var(--text-secondary)] uppercase tracking-wider">
+                            <th className="text-left font-bold pb-2">{t('asset')}</th>
+                            <th className="text-right font-bold pb-2">{t('volatility')}</th>
+                            <th className="text-right font-bold pb-2">{t('max_drawdown')}</th>
+                            <th className="text-right font-bold pb-2">{t('sharpe_ratio')}</th>
+                            <th className="text-right font-bold pb-2">{t('beta_ifix')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {assets.map(asset => {
+                            const metrics = byAsset[asset.ticker];
+                            return (
+                                <tr key={asset.ticker} className="border-t border-[var(--border-color)]">
+                                    <td className="py-2 font-bold">{asset.ticker}</td>
+                                    <td className="py-2 text-right">{formatPercent(metrics.volatility)}</td>
+                                    <td className="py-2 text-right text-[var(--red-text)]" title={drawdownDates(metrics) || undefined}>{formatPercent(metrics.maxDrawdown)}</td>
+                                    <td className="py-2 text-right">{formatRatio(metrics.sharpe)}</td>
+                                    <td className="py-2 text-right">{formatRatio(metrics.beta)}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default RiskMetricsCard;
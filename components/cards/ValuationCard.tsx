@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { useI18n } from '../../contexts/I18nContext';
+import { usePortfolio } from '../../contexts/PortfolioContext';
+import ScaleIcon from '../icons/ScaleIcon';
+import EditIcon from '../icons/EditIcon';
+import { vibrate } from '../../utils';
+import type { Valuation } from '../../utils';
+import type { ValuationAssumptions } from '../../types';
+
+const FIELDS: { key: keyof ValuationAssumptions; label: string; optional?: boolean }[] = [
+    { key: 'bazinYield', label: 'valuation_bazin_yield' },
+    { key: 'discountRate', label: 'valuation_discount_rate' },
+    { key: 'growthRate', label: 'valuation_growth_rate', optional: true },
+    { key: 'targetPvp', label: 'valuation_target_pvp' },
+    { key: 'safetyMargin', label: 'valuation_safety_margin' },
+];
+
+// Campos das premissas; crescimento vazio usa o CAGR de proventos do fundo
+export const ValuationAssumptionFields: React.FC<{ assumptions: ValuationAssumptions; onChange: (patch: Partial<ValuationAssumptions>) => void }> = ({ assumptions, onChange }) => {
+    const { t } = useI18n();
+
+    return (
+        <div className="grid grid-cols-2 gap-3">
+            {FIELDS.map(field => (
+                <label key={field.key} className="block">
+                    <span className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider">{t(field.label)}</span>
+                    <input
+                        type="number"
+                        inputMode="decimal"
+                        step="0.1"
+                        value={assumptions[field.key] ?? ''}
+                        placeholder={field.optional ? t('valuation_growth_auto') : undefined}
+                        onChange={e => {
+                            const value = parseFloat(e.target.value);
+                            onChange({ [field.key]: isNaN(value) ? (field.optional ? null : 0) : value });
+                        }}
+                        className="w-full bg-[var(--bg-primary)] border border-[var(--border-color)] rounded-lg p-2 mt-1 text-sm focus:outline-none focus:border-[var(--accent-color)]"
+                    />
+                </label>
+            ))}
+        </div>
+    );
+};
+
+// Verde com margem acima da mínima, âmbar abaixo dela e vermelho acima do preço justo
+export const MarginOfSafetyBadge: React.FC<{ valuation: Valuation | null; safetyMargin: number }> = ({ valuation, safetyMargin }) => {
+    const { t, formatCurrency } = useI18n();
+    if (!valuation) return null;
+
+    const margin = valuation.marginOfSafety;
+    const tone = margin >= safetyMargin ? 'bg-emerald-500/10 text-emerald-500' : margin >= 0 ? 'bg-amber-500/10 text-amber-500' : 'bg-rose-500/10 text-rose-500';
+
+    return (
+        <span title={t('valuation_fair_price_value', { price: formatCurrency(valuation.fairPrice) })} className={`px-2 py-1 rounded-lg text-[10px] font-bold whitespace-nowrap ${tone}`}>
+            {t('margin_of_safety_badge', { value: `${margin >= 0 ? '+' : ''}${margin.toFixed(0)}` })}
+        </span>
+    );
+};
+
+// Preço teto (Bazin), Gordon e P/VP justo com premissas editáveis para o ativo
+const ValuationCard: React.FC<{ ticker: string; price: number; valuation: Valuation | null; assumptions: ValuationAssumptions; hasOverride: boolean }> = ({ ticker, price, valuation, assumptions, hasOverride }) => {
+    const { t, formatCurrency } = useI18n();
+    const { preferences, updatePreferences } = usePortfolio();
+    const [isEditing, setIsEditing] = useState(false);
+
+    // null volta às premissas globais
+    const setOverride = (patch: Partial<ValuationAssumptions> | null) => {
+        const overrides: Record<string, Partial<ValuationAssumptions>> = { ...(preferences.valuationByTicker || {}) };
+        if (patch) overrides[ticker] = { ...overrides[ticker], ...patch };
+        else delete overrides[ticker];
+        updatePreferences({ valuationByTicker: overrides });
+    };
+
+    const growth = assumptions.growthRate !== null ? `${assumptions.growthRate}%` : t('valuation_growth_auto');
+    const models = [
+        { id: 'bazin', label: t('valuation_bazin'), value: valuation?.bazin ?? null, hint: t('valuation_bazin_hint', { yield: assumptions.bazinYield }) },
+        { id: 'gordon', label: t('valuation_gordon'), value: valuation?.gordon ?? null, hint: t('valuation_gordon_hint', { rate: assumptions.discountRate, growth }) },
+        { id: 'pvp', label: t('valuation_pvp'), value: valuation?.pvp ?? null, hint: t('valuation_pvp_hint', { pvp: assumptions.targetPvp }) },
+    ];
+
+    return (
+        <div className="bg-[var(--bg-secondary)] p-5 rounded-2xl border border-[var(--border-color)] shadow-sm">
+            <div className="flex justify-between items-center mb-3">
+                <div className="flex items-center gap-2">
+                    <ScaleIcon className="w-4 h-4 text-[var(--accent-color)]" />
+                    <h3 className="font-bold text-sm text-[var(--text-primary)] uppercase tracking-wide">{t('valuation_title')}</h3>
+                </div>
+                <button
+                    onClick={() => { setIsEditing(!isEditing); vibrate(); }}
+                    className={`p-1.5 rounded-lg transition-colors ${isEditing ? 'text-[var(--accent-color)] bg-[var(--accent-color)]/10' : 'text-[var(--text-secondary)] hover:bg-[var(--bg-primary)]'}`}
+                    aria-label={t('valuation_assumptions')}
+                >
+                    <EditIcon className="w-4 h-4" />
+                </button>
+            </div>
+
+            {valuation ? (
+                <>
+                    <div className="flex items-end justify-between mb-4">
+                        <div>
+                            <span className="text-[10px] text-[var(--text-secondary)] uppercase font-bold tracking-wider block mb-1">{t('valuation_fair_price')}</span>
+                            <span className="text-2xl font-black text-[var(--text-primary)] tracking-tight">{formatCurrency(valuation.fairPrice)}</span>
+                        </div>
+                        <MarginOfSafetyBadge valuation={valuation} safetyMargin={assumptions.safetyMargin} />
+                    </div>
+                    <div className="space-y-2">
+                        {models.map(model => (
+                            <div key={model.id} className="flex justify-between items-center text-xs">
+                                <div className="min-w-0">
+                                    <p className="font-bold text-[var(--text-primary)]">{model.label}</p>
+                                    <p className="text-[10px] text-[var(--text-secondary)] truncate">{model.hint}</p>
+                                </div>
+                                {model.value !== null ? (
+                                    <div className="text-right flex-shrink-0">
+                                        <p className="font-bold text-[var(--text-primary)]">{formatCurrency(model.value)}</p>
+                                        <p className={`text-[10px] font-bold ${model.value >= price ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>
+                                            {model.value >= price ? '+' : ''}{((model.value / price - 1) * 100).toFixed(1)}%
+                                        </p>
+                                    </div>
+                                ) : (
+                                    <span className="text-[10px] text-[var(--text-secondary)]">—</span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </>
+            ) : (
+                <p className="text-xs text-[var(--text-secondary)]">{t('valuation_no_data')}</p>
+            )}
+
+            {isEditing && (
+                <div className="pt-4 mt-4 border-t border-[var(--border-color)] space-y-3">
+                    <p className="text-[10px] text-[var(--text-secondary)]">{hasOverride ? t('valuation_custom_hint', { ticker }) : t('valuation_global_hint')}</p>
+                    <ValuationAssumptionFields assumptions={assumptions} onChange={setOverride} />
+                    {hasOverride && (
+                        <button onClick={() => { setOverride(null); vibrate(); }} className="w-full text-xs font-bold text-[var(--accent-color)]">
+                            {t('valuation_use_global')}
+                        </button>
+                    )}
+                </div>
+            )}
+            <p className="text-[10px] text-[var(--text-secondary)] mt-4 opacity-70">{t('valuation_disclaimer')}</p>
+        </div>
+    );
+};
+
+export default ValuationCard;
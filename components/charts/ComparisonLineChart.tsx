@@ -0,0 +1,106 @@
+import React, { useState, useMemo, useRef } from 'react';
+
+export interface ComparisonSeries {
+    id: string;
+    label: string;
+    color: string;
+    values: (number | null)[]; // Alinhados com `labels`; null = sem dado
+    dashed?: boolean;
+}
+
+interface ComparisonLineChartProps {
+    labels: string[];
+    series: ComparisonSeries[];
+    formatValue: (value: number) => string;
+    formatAxis?: (value: number) => string;
+}
+
+const width = 300;
+const height = 160;
+const padding = { top: 20, right: 10, bottom: 20, left: 40 };
+
+const defaultAxis = (value: number) => Math.abs(value) >= 1000000 ? `${(value / 1000000).toFixed(1)}M` : Math.abs(value) >= 1000 ? `${(value / 1000).toFixed(0)}k` : value.toFixed(0);
+
+// Linhas sobrepostas com o mesmo eixo; o toque/hover mostra os valores do ponto
+const ComparisonLineChart: React.FC<ComparisonLineChartProps> = ({ labels, series, formatValue, formatAxis = defaultAxis }) => {
+    const [activeIndex, setActiveIndex] = useState<number | null>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+
+    const { min, max } = useMemo(() => {
+        const values = series.flatMap(s => s.values.filter((v): v is number => v !== null));
+        if (values.length === 0) return { min: 0, max: 1 };
+        const lo = Math.min(...values);
+        const hi = Math.max(...values);
+        return { min: lo, max: hi === lo ? lo + 1 : hi };
+    }, [series]);
+
+    if (labels.length < 2) return null;
+
+    const getX = (index: number) => padding.left + (index / (labels.length - 1)) * (width - padding.left - padding.right);
+    const getY = (value: number) => (height - padding.bottom) - ((value - min) / (max - min)) * (height - padding.top - padding.bottom);
+
+    const toPath = (values: (number | null)[]) => values
+        .map((v, i) => v === null ? null : `${getX(i)},${getY(v)}`)
+        .filter(Boolean)
+        .join(' ');
+
+    const handleMove = (clientX: number) => {
+        if (!svgRef.current) return;
+        const rect = svgRef.current.getBoundingClientRect();
+        const relativeX = ((clientX - rect.left) / rect.width) * width;
+        const progress = Math.max(0, Math.min(1, (relativeX - padding.left) / (width - padding.left - padding.right)));
+        setActiveIndex(Math.round(progress * (labels.length - 1)));
+    };
+
+    const yTicks = [0, 0.5, 1].map(f => min + (max - min) * f);
+
+    return (
+        <div className="w-full">
+            <svg
+                ref={svgRef}
+                viewBox={`0 0 ${width} ${height}`}
+                className="w-full h-auto cursor-crosshair"
+                onMouseMove={e => handleMove(e.clientX)}
+                onMouseLeave={() => setActiveIndex(null)}
+                onTouchMove={e => e.touches[0] && handleMove(e.touches[0].clientX)}
+            >
+                {yTicks.map(value => (
+                    <g key={value}>
+                        <line x1={padding.left} y1={getY(value)} x2={width - padding.right} y2={getY(value)} stroke="var(--border-color)" strokeWidth="0.5" strokeDasharray="2 2" />
+                        <text x={padding.left - 6} y={getY(value) + 3} textAnchor="end" fontSize="8" fill="var(--text-secondary)">{formatAxis(value)}</text>
+                    </g>
+                ))}
+                <text x={padding.left} y={height - 6} fontSize="8" fill="var(--text-secondary)">{labels[0]}</text>
+                <text x={width - padding.right} y={height - 6} textAnchor="end" fontSize="8" fill="var(--text-secondary)">{labels[labels.length - 1]}</text>
+
+                {series.map(s => (
+                    <polyline key={s.id} fill="none" stroke={s.color} strokeWidth="1.75" strokeLinejoin="round" strokeDasharray={s.dashed ? '4 3' : undefined} points={toPath(s.values)} />
+                ))}
+
+                {activeIndex !== null && (
+                    <g className="pointer-events-none">
+                        <line x1={getX(activeIndex)} y1={padding.top} x2={getX(activeIndex)} y2={height - padding.bottom} stroke="var(--text-secondary)" strokeWidth="0.5" />
+                        {series.map(s => s.values[activeIndex] !== null && (
+                            <circle key={s.id} cx={getX(activeIndex)} cy={getY(s.values[activeIndex]!)} r="2.5" fill={s.color} />
+                        ))}
+                    </g>
+                )}
+            </svg>
+
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-[10px]">
+                {activeIndex !== null && <span className="font-bold text-[var(--text-primary)]">{labels[activeIndex]}</span>}
+                {series.map(s => (
+                    <span key={s.id} className="flex items-center gap-1.5 text-[var(--text-secondary)]">
+                        <span className="w-2.5 h-0.5 rounded" style={{ backgroundColor: s.color }}></span>
+                        {s.label}
+                        {activeIndex !== null && s.values[activeIndex] !== null && (
+                            <span className="font-bold text-[var(--text-primary)]">{formatValue(s.values[activeIndex]!)}</span>
+                        )}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ComparisonLineChart;
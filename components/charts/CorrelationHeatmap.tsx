@@ -0,0 +1,41 @@
+import React from 'react';
+
+interface CorrelationHeatmapProps {
+    labels: string[];
+    matrix: (number | null)[][];
+}
+
+// Vermelho para ativos que andam juntos, azul para os que andam em sentidos opostos
+const getCellColor = (value: number | null) => {
+    if (value === null) return 'transparent';
+    const alpha = Math.min(Math.abs(value), 1) * 0.85;
+    return value >= 0 ? `rgba(239, 68, 68, ${alpha})` : `rgba(59, 130, 246, ${alpha})`;
+};
+
+const CorrelationHeatmap: React.FC<CorrelationHeatmapProps> = ({ labels, matrix }) => (
+    <div className="overflow-x-auto no-scrollbar">
+        <div className="inline-grid gap-0.5 text-[9px] font-bold" style={{ gridTemplateColumns: `auto repeat(${labels.length}, minmax(2.25rem, 1fr))` }}>
+            <div></div>
+            {labels.map(label => (
+                <div key={label} className="text-center text-[var(--text-secondary)] pb-1 truncate">{label.replace(/11$/, '')}</div>
+            ))}
+            {labels.map((rowLabel, i) => (
+                <React.Fragment key={rowLabel}>
+                    <div className="text-[var(--text-secondary)] pr-1.5 flex items-center">{rowLabel}</div>
+                    {matrix[i].map((value, j) => (
+                        <div
+                            key={labels[j]}
+                            title={`${rowLabel} × ${labels[j]}: ${value === null ? '—' : value.toFixed(2)}`}
+                            className={`h-9 rounded flex items-center justify-center ${value === null ? 'border border-dashed border-[var(--border-color)] text-[var(--text-secondary)]' : 'text-[var(--text-primary)]'}`}
+                            style={{ backgroundColor: getCellColor(value) }}
+                        >
+                            {value === null ? '—' : value.toFixed(2)}
+                        </div>
+                    ))}
+                </React.Fragment>
+            ))}
+        </div>
+    </div>
+);
+
+export default CorrelationHeatmap;
@@ -3,17 +3,19 @@ import React, { useMemo, useState, useRef, useLayoutEffect } from 'react';
 import { useI18n } from '../../contexts/I18nContext';
 import type { DividendHistoryEvent } from '../../types';
 import { vibrate } from '../../utils';
+import type { DividendForecastMonth } from '../../utils';
 
 interface DividendChartProps {
     data: DividendHistoryEvent[];
+    forecast?: DividendForecastMonth[]; // Por cota; desenhada depois do histórico
 }
 
 type Period = '6m' | '1y' | '5y' | 'all';
 
-const DividendChart: React.FC<DividendChartProps> = ({ data }) => {
-    const { formatCurrency } = useI18n();
+const DividendChart: React.FC<DividendChartProps> = ({ data, forecast }) => {
+    const { t, formatCurrency } = useI18n();
     const [period, setPeriod] = useState<Period>('1y');
-    const [tooltip, setTooltip] = useState<{ date: string, value: number, x: number, y: number } | null>(null);
+    const [tooltip, setTooltip] = useState<{ date: string, value: number, x: number, y: number, range?: [number, number] } | null>(null);
     const svgRef = useRef<SVGSVGElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
     const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
@@ -59,10 +61,14 @@ const DividendChart: React.FC<DividendChartProps> = ({ data }) => {
         return sortedData.filter(d => new Date(d.paymentDate) >= cutoffDate);
     }, [data, period]);
 
+    // Meses sem chance de pagamento ficam de fora
+    const forecastData = useMemo(() => (forecast || []).filter(m => m.high > 0), [forecast]);
+    const totalSlots = filteredData.length + forecastData.length;
+
     const { width, height } = dimensions;
     const padding = { top: 30, right: 10, bottom: 30, left: 45 };
     
-    const maxValue = useMemo(() => Math.max(...filteredData.map(d => d.value), 0), [filteredData]);
+    const maxValue = useMemo(() => Math.max(...filteredData.map(d => d.value), ...forecastData.map(m => m.high), 0), [filteredData, forecastData]);
     const effectiveMaxValue = maxValue === 0 ? 1 : maxValue * 1.2;
 
     const yTicks = useMemo(() => {
@@ -73,15 +79,25 @@ const DividendChart: React.FC<DividendChartProps> = ({ data }) => {
     }, [effectiveMaxValue]);
 
     const handleMouseMove = (event: { clientX: number, clientY: number }) => {
-        if (!svgRef.current || filteredData.length === 0 || width === 0) return;
+        if (!svgRef.current || totalSlots === 0 || width === 0) return;
         const rect = svgRef.current.getBoundingClientRect();
         const x = event.clientX - rect.left; 
         
         const chartWidth = width - padding.left - padding.right;
-        const barSlotWidth = chartWidth / filteredData.length;
+        const barSlotWidth = chartWidth / totalSlots;
         const index = Math.floor((x - padding.left) / barSlotWidth);
 
-        if (index >= 0 && index < filteredData.length) {
+        if (index >= filteredData.length && index < totalSlots) {
+            const month = forecastData[index - filteredData.length];
+            const chartHeight = height - padding.top - padding.bottom;
+            setTooltip({
+                date: `${month.month}-15`,
+                value: month.expected,
+                x: padding.left + index * barSlotWidth + (barSlotWidth * 0.5),
+                y: height - padding.bottom - (month.high / effectiveMaxValue) * chartHeight,
+                range: month.provisioned > 0 ? undefined : [month.low, month.high],
+            });
+        } else if (index >= 0 && index < filteredData.length) {
             const pointData = filteredData[index];
             const chartHeight = height - padding.top - padding.bottom;
             const barHeight = (pointData.value / effectiveMaxValue) * chartHeight;
@@ -99,7 +115,7 @@ const DividendChart: React.FC<DividendChartProps> = ({ data }) => {
         }
     };
 
-    if (data.length === 0) return (
+    if (data.length === 0 && forecastData.length === 0) return (
         <div className="w-full h-full flex items-center justify-center text-xs text-[var(--text-secondary)] border border-dashed border-[var(--border-color)] rounded-xl opacity-50">
             Sem histórico
         </div>
@@ -107,7 +123,7 @@ const DividendChart: React.FC<DividendChartProps> = ({ data }) => {
 
     const chartWidth = Math.max(0, width - padding.left - padding.right);
     const chartHeight = Math.max(0, height - padding.top - padding.bottom);
-    const barSlotWidth = filteredData.length > 0 ? chartWidth / filteredData.length : 0;
+    const barSlotWidth = totalSlots > 0 ? chartWidth / totalSlots : 0;
     const barWidth = Math.max(4, Math.min(barSlotWidth * 0.6, 40)); 
 
     const handlePeriodChange = (p: Period) => {
@@ -121,7 +137,10 @@ const DividendChart: React.FC<DividendChartProps> = ({ data }) => {
             onClick={handleClick}
         >
             <div className="flex justify-between items-center mb-4 px-1">
-                <h3 className="font-bold text-[var(--text-primary)] text-sm">Histórico de Pagamentos</h3>
+                <h3 className="font-bold text-[var(--text-primary)] text-sm">
+                    Histórico de Pagamentos
+                    {forecastData.length > 0 && <span className="ml-2 text-[10px] font-medium text-[var(--accent-color)]">+ {t('forecast_12m')}</span>}
+                </h3>
                 <div className="flex bg-[var(--bg-primary)] p-0.5 rounded-lg border border-[var(--border-color)]">
                     {(['6m', '1y', '5y', 'all'] as Period[]).map((p) => (
                         <button
@@ -136,7 +155,7 @@ const DividendChart: React.FC<DividendChartProps> = ({ data }) => {
             </div>
 
             <div ref={containerRef} className="relative flex-1 w-full min-h-[180px]">
-                {width > 0 && height > 0 && filteredData.length > 0 ? (
+                {width > 0 && height > 0 && totalSlots > 0 ? (
                     <svg 
                         ref={svgRef} 
                         width="100%" 
@@ -190,7 +209,7 @@ const DividendChart: React.FC<DividendChartProps> = ({ data }) => {
                             const isHovered = tooltip?.date === d.paymentDate;
                             
                             const maxLabels = Math.floor(chartWidth / 40); 
-                            const step = Math.ceil(filteredData.length / maxLabels);
+                            const step = Math.ceil(totalSlots / maxLabels);
                             const showLabel = i % step === 0;
                             
                             const dateLabel = new Date(d.paymentDate).toLocaleDateString('pt-BR', { month: 'short', year: '2-digit' }).replace('.', '');
@@ -234,6 +253,41 @@ const DividendChart: React.FC<DividendChartProps> = ({ data }) => {
                                 </g>
                             );
                         })}
+
+                        {forecastData.map((m, k) => {
+                            const i = filteredData.length + k;
+                            const x = padding.left + i * barSlotWidth + (barSlotWidth - barWidth) / 2;
+                            const toY = (value: number) => height - padding.bottom - (value / effectiveMaxValue) * chartHeight;
+                            const isHovered = tooltip?.date === `${m.month}-15`;
+                            const maxLabels = Math.floor(chartWidth / 40);
+                            const step = Math.ceil(totalSlots / maxLabels);
+                            const dateLabel = new Date(`${m.month}-15T12:00:00`).toLocaleDateString('pt-BR', { month: 'short' }).replace('.', '');
+
+                            return (
+                                <g key={`forecast-${m.month}`}>
+                                    <rect
+                                        x={x}
+                                        y={toY(m.expected)}
+                                        width={barWidth}
+                                        height={Math.max(toY(0) - toY(m.expected), 0)}
+                                        fill="var(--accent-color)"
+                                        fillOpacity={m.provisioned > 0 ? 0.6 : 0.2}
+                                        stroke="var(--accent-color)"
+                                        strokeDasharray={m.provisioned > 0 ? undefined : '3 2'}
+                                        rx={Math.min(barWidth/2, 4)}
+                                        style={{ opacity: isHovered ? 1 : 0.8 }}
+                                    />
+                                    {m.high > m.low && (
+                                        <line x1={x + barWidth / 2} y1={toY(m.high)} x2={x + barWidth / 2} y2={toY(m.low)} stroke="var(--text-secondary)" strokeWidth="1" />
+                                    )}
+                                    {i % step === 0 && (
+                                        <text x={x + barWidth / 2} y={height - 10} textAnchor="middle" fontSize="9" fill="var(--accent-color)" className="capitalize">
+                                            {dateLabel}
+                                        </text>
+                                    )}
+                                </g>
+                            );
+                        })}
                     </svg>
                 ) : (
                     <div className="w-full h-full flex items-center justify-center text-xs text-[var(--text-secondary)] opacity-60">
@@ -257,6 +311,11 @@ const DividendChart: React.FC<DividendChartProps> = ({ data }) => {
                             <span className="w-2 h-2 rounded-full bg-[var(--accent-color)]"></span>
                             {formatCurrency(tooltip.value)} <span className="text-[10px] font-normal text-[var(--text-secondary)]">/ cota</span>
                         </p>
+                        {tooltip.range && (
+                            <p className="text-[10px] text-[var(--text-secondary)] mt-0.5">
+                                {t('forecast_range', { low: formatCurrency(tooltip.range[0]), high: formatCurrency(tooltip.range[1]) })}
+                            </p>
+                        )}
                     </div>
                 )}
             </div>
@@ -3,13 +3,31 @@ import React, { useMemo, useState, useRef, useLayoutEffect } from 'react';
 import { useI18n } from '../../contexts/I18nContext';
 import type { PortfolioEvolutionPoint } from '../../types';
 
+// Retorno acumulado (%) de um índice, alinhado ponto a ponto com `data`
+export interface BenchmarkLine {
+    id: string;
+    label: string;
+    color: string;
+    values: (number | null)[];
+}
+
 interface EvolutionChartProps {
     data: PortfolioEvolutionPoint[];
     chartType?: 'bar' | 'line';
+    mode?: 'value' | 'return';
+    benchmarks?: BenchmarkLine[];
 }
 
-const EvolutionChart: React.FC<EvolutionChartProps> = ({ data, chartType = 'line' }) => {
-    const { formatCurrency } = useI18n();
+// Retorno acumulado da carteira rebaseado no primeiro ponto exibido
+export const getRebasedReturns = (data: PortfolioEvolutionPoint[]) => {
+    const base = 1 + (data[0]?.cumulativeReturn || 0) / 100;
+    return data.map(d => ((1 + (d.cumulativeReturn || 0) / 100) / base - 1) * 100);
+};
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const EvolutionChart: React.FC<EvolutionChartProps> = ({ data, chartType = 'line', mode = 'value', benchmarks = [] }) => {
+    const { formatCurrency, t } = useI18n();
     const [tooltip, setTooltip] = useState<{ point: PortfolioEvolutionPoint, x: number, y: number, index: number } | null>(null);
     const svgRef = useRef<SVGSVGElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
@@ -45,10 +63,16 @@ const EvolutionChart: React.FC<EvolutionChartProps> = ({ data, chartType = 'line
     const chartWidth = Math.max(0, width - padding.left - padding.right);
     const chartHeight = Math.max(0, height - padding.top - padding.bottom);
 
+    const isReturnMode = mode === 'return';
+    const portfolioReturns = useMemo(() => getRebasedReturns(data), [data]);
+    const primaryValues = isReturnMode ? portfolioReturns : data.map(d => d.marketValue);
+
     const { min, max } = useMemo(() => {
         if (data.length === 0) return { min: 0, max: 100 };
         
-        const allValues = data.flatMap(d => [d.marketValue, d.invested]);
+        const allValues = isReturnMode
+            ? [0, ...portfolioReturns, ...benchmarks.flatMap(b => b.values.filter((v): v is number => v !== null))]
+            : data.flatMap(d => [d.marketValue, d.invested]);
         let maxVal = Math.max(...allValues);
         let minVal = Math.min(...allValues); 
         
@@ -58,10 +82,10 @@ const EvolutionChart: React.FC<EvolutionChartProps> = ({ data, chartType = 'line
         let effectiveMax = maxVal + (range * paddingPercent);
         
         if (effectiveMin < 0 && minVal >= 0) effectiveMin = 0;
-        if (range === 0) { effectiveMin = maxVal * 0.9; effectiveMax = maxVal * 1.1; }
+        if (range === 0) { effectiveMin = isReturnMode ? minVal - 1 : maxVal * 0.9; effectiveMax = isReturnMode ? maxVal + 1 : maxVal * 1.1; }
 
         return { min: effectiveMin, max: effectiveMax };
-    }, [data]);
+    }, [data, isReturnMode, portfolioReturns, benchmarks]);
 
     const getX = (index: number) => {
         if (data.length <= 1) return padding.left;
@@ -92,7 +116,7 @@ const EvolutionChart: React.FC<EvolutionChartProps> = ({ data, chartType = 'line
 
         if (index >= 0 && index < data.length) {
             const pointData = data[index];
-            const tooltipY = getY(pointData.marketValue);
+            const tooltipY = getY(primaryValues[index]);
             const tooltipX = getX(index);
             setTooltip({ point: pointData, x: tooltipX, y: tooltipY, index });
         }
@@ -100,7 +124,7 @@ const EvolutionChart: React.FC<EvolutionChartProps> = ({ data, chartType = 'line
 
     if (width === 0 || data.length === 0) return <div ref={containerRef} className="w-full h-full" />;
 
-    const marketPathStr = data.map((d, i) => `${getX(i).toFixed(1)},${getY(d.marketValue).toFixed(1)}`).join(' L');
+    const marketPathStr = primaryValues.map((v, i) => `${getX(i).toFixed(1)},${getY(v).toFixed(1)}`).join(' L');
     const investedPathStr = data.map((d, i) => `${getX(i).toFixed(1)},${getY(d.invested).toFixed(1)}`).join(' L');
     
     const startX = getX(0).toFixed(1);
@@ -112,6 +136,12 @@ const EvolutionChart: React.FC<EvolutionChartProps> = ({ data, chartType = 'line
 
     const spread = tooltip ? tooltip.point.marketValue - tooltip.point.invested : 0;
 
+    // Linha de cada índice, interrompida onde não há dados
+    const benchmarkPaths = benchmarks.map(b => ({
+        ...b,
+        d: b.values.reduce((path, v, i) => v === null ? path : `${path}${path && b.values[i - 1] !== null && i > 0 ? ' L' : ' M'}${getX(i).toFixed(1)},${getY(v).toFixed(1)}`, ''),
+    }));
+
     return (
         <div ref={containerRef} className="relative w-full h-full select-none">
             <svg 
@@ -133,16 +163,27 @@ const EvolutionChart: React.FC<EvolutionChartProps> = ({ data, chartType = 'line
                 <line x1={0} y1={getY(min)} x2={width} y2={getY(min)} stroke="var(--border-color)" strokeDasharray="4 4" strokeWidth="1" opacity="0.3" />
                 <line x1={0} y1={getY(max)} x2={width} y2={getY(max)} stroke="var(--border-color)" strokeDasharray="4 4" strokeWidth="1" opacity="0.3" />
 
-                <path d={areaPath} fill={`url(#${gradientId})`} />
+                {isReturnMode ? (
+                    <>
+                        <line x1={0} y1={getY(0)} x2={width} y2={getY(0)} stroke="var(--text-secondary)" strokeWidth="1" opacity="0.4" />
+                        {benchmarkPaths.map(b => (
+                            <path key={b.id} d={b.d} fill="none" stroke={b.color} strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" opacity="0.9" />
+                        ))}
+                    </>
+                ) : (
+                    <>
+                        <path d={areaPath} fill={`url(#${gradientId})`} />
 
-                <path 
-                    d={investedPathD} 
-                    fill="none" 
-                    stroke="var(--text-secondary)" 
-                    strokeWidth="1.5" 
-                    strokeDasharray="4 4" 
-                    opacity="0.6" 
-                />
+                        <path 
+                            d={investedPathD} 
+                            fill="none" 
+                            stroke="var(--text-secondary)" 
+                            strokeWidth="1.5" 
+                            strokeDasharray="4 4" 
+                            opacity="0.6" 
+                        />
+                    </>
+                )}
 
                 <path 
                     d={marketPathD} 
@@ -161,15 +202,17 @@ const EvolutionChart: React.FC<EvolutionChartProps> = ({ data, chartType = 'line
                             stroke="var(--border-color)" 
                             strokeWidth="1" 
                         />
+                        {!isReturnMode && (
+                            <circle 
+                                cx={tooltip.x} cy={getY(tooltip.point.invested)} 
+                                r="3" 
+                                fill="var(--bg-secondary)" 
+                                stroke="var(--text-secondary)" 
+                                strokeWidth="2" 
+                            />
+                        )}
                         <circle 
-                            cx={tooltip.x} cy={getY(tooltip.point.invested)} 
-                            r="3" 
-                            fill="var(--bg-secondary)" 
-                            stroke="var(--text-secondary)" 
-                            strokeWidth="2" 
-                        />
-                        <circle 
-                            cx={tooltip.x} cy={getY(tooltip.point.marketValue)} 
+                            cx={tooltip.x} cy={getY(primaryValues[tooltip.index])} 
                             r="5" 
                             fill="var(--accent-color)" 
                             stroke="var(--bg-secondary)" 
@@ -194,28 +237,58 @@ const EvolutionChart: React.FC<EvolutionChartProps> = ({ data, chartType = 'line
                             {new Date(tooltip.point.dateISO).toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' })}
                         </p>
                         
-                        <div className="flex justify-between items-center mb-1">
-                            <span className="text-[var(--text-secondary)] flex items-center gap-1.5">
-                                <span className="w-1.5 h-1.5 rounded-full bg-[var(--accent-color)]"></span>
-                                Patrimônio
-                            </span>
-                            <span className="font-bold text-[var(--text-primary)]">{formatCurrency(tooltip.point.marketValue)}</span>
-                        </div>
-
-                        <div className="flex justify-between items-center mb-2">
-                            <span className="text-[var(--text-secondary)] flex items-center gap-1.5">
-                                <span className="w-1.5 h-1.5 rounded-full bg-[var(--text-secondary)] opacity-50"></span>
-                                Investido
-                            </span>
-                            <span className="font-medium text-[var(--text-secondary)]">{formatCurrency(tooltip.point.invested)}</span>
-                        </div>
-
-                        <div className={`flex justify-between items-center pt-2 border-t border-[var(--border-color)] ${spread >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>
-                            <span className="font-bold uppercase text-[9px] tracking-wider">Resultado</span>
-                            <span className="font-bold">
-                                {spread >= 0 ? '+' : ''}{formatCurrency(spread)}
-                            </span>
-                        </div>
+                        {isReturnMode ? (
+                            <>
+                                <div className="flex justify-between items-center mb-1">
+                                    <span className="text-[var(--text-secondary)] flex items-center gap-1.5">
+                                        <span className="w-1.5 h-1.5 rounded-full bg-[var(--accent-color)]"></span>
+                                        {t('my_portfolio')}
+                                    </span>
+                                    <span className="font-bold text-[var(--text-primary)]">{formatPercent(portfolioReturns[tooltip.index])}</span>
+                                </div>
+                                {benchmarks.map(b => {
+                                    const value = b.values[tooltip.index];
+                                    if (value === null) return null;
+                                    const excess = portfolioReturns[tooltip.index] - value;
+                                    return (
+                                        <div key={b.id} className="flex justify-between items-center mb-1">
+                                            <span className="text-[var(--text-secondary)] flex items-center gap-1.5">
+                                                <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: b.color }}></span>
+                                                {b.label}
+                                            </span>
+                                            <span className="font-medium text-[var(--text-secondary)]">
+                                                {formatPercent(value)} <span className={excess >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}>({excess >= 0 ? '+' : ''}{excess.toFixed(2)} p.p.)</span>
+                                            </span>
+                                        </div>
+                                    );
+                                })}
+                            </>
+                        ) : (
+                            <>
+                            <div className="flex justify-between items-center mb-1">
+                                <span className="text-[var(--text-secondary)] flex items-center gap-1.5">
+                                    <span className="w-1.5 h-1.5 rounded-full bg-[var(--accent-color)]"></span>
+                                    Patrimônio
+                                </span>
+                                <span className="font-bold text-[var(--text-primary)]">{formatCurrency(tooltip.point.marketValue)}</span>
+                            </div>
+
+                            <div className="flex justify-between items-center mb-2">
+                                <span className="text-[var(--text-secondary)] flex items-center gap-1.5">
+                                    <span className="w-1.5 h-1.5 rounded-full bg-[var(--text-secondary)] opacity-50"></span>
+                                    Investido
+                                </span>
+                                <span className="font-medium text-[var(--text-secondary)]">{formatCurrency(tooltip.point.invested)}</span>
+                            </div>
+
+                            <div className={`flex justify-between items-center pt-2 border-t border-[var(--border-color)] ${spread >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>
+                                <span className="font-bold uppercase text-[9px] tracking-wider">Resultado</span>
+                                <span className="font-bold">
+                                    {spread >= 0 ? '+' : ''}{formatCurrency(spread)}
+                                </span>
+                            </div>
+                            </>
+                        )}
                     </div>
                 </div>
             )}
@@ -30,6 +30,7 @@ const sectorColorMap: Record<string, string> = {
     'Shoppings': '#fbbf24',
     'Lajes Corporativas': '#f59e0b',
     'Fundos de Fundos': '#a855f7',
+    'Caixa': '#10b981',
 };
 
 const PieRing: React.FC<{ data: PieChartData[], radius: number, strokeWidth: number, animate: boolean, hoveredIndex: number | null, setHoveredIndex: (i: number | null) => void }> = ({ data, radius, strokeWidth, animate, hoveredIndex, setHoveredIndex }) => {
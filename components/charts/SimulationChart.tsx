@@ -6,15 +6,19 @@ interface ChartDataPoint {
     year: number;
     total: number;
     invested: number;
+    // Monte Carlo: faixa entre os percentis 10 e 90 (total = mediana)
+    p10?: number;
+    p90?: number;
 }
 
 interface SimulationChartProps {
     data: ChartDataPoint[];
     years: number;
-    type: 'compound' | 'simple' | 'million';
+    type: 'compound' | 'simple' | 'million' | 'montecarlo';
+    target?: number;
 }
 
-const SimulationChart: React.FC<SimulationChartProps> = ({ data, years, type }) => {
+const SimulationChart: React.FC<SimulationChartProps> = ({ data, years, type, target }) => {
     const { t } = useI18n();
     const width = 300;
     const height = 200;
@@ -23,9 +27,9 @@ const SimulationChart: React.FC<SimulationChartProps> = ({ data, years, type })
     const maxY = useMemo(() => {
         if (type === 'million') return 1000000 * 1.1;
         if (data.length === 0) return 1;
-        const maxVal = Math.max(...data.map(d => d.total));
+        const maxVal = Math.max(...data.map(d => Math.max(d.total, d.p90 ?? 0)), target ?? 0);
         return maxVal > 0 ? maxVal * 1.1 : 1;
-    }, [data, type]);
+    }, [data, type, target]);
 
     const getCoords = (year: number, value: number) => {
         const x = padding.left + (year / years) * (width - padding.left - padding.right);
@@ -39,6 +43,11 @@ const SimulationChart: React.FC<SimulationChartProps> = ({ data, years, type })
     const totalAreaPath = `${padding.left},${height - padding.bottom} ${totalPath} ${getCoords(years, data[data.length-1]?.total || 0).x},${height - padding.bottom}`;
     const investedAreaPath = `${padding.left},${height - padding.bottom} ${investedPath} ${getCoords(years, data[data.length-1]?.invested || 0).x},${height - padding.bottom}`;
 
+    const bandPath = type === 'montecarlo'
+        ? [...data.map(d => getCoords(d.year, d.p90 ?? d.total)), ...[...data].reverse().map(d => getCoords(d.year, d.p10 ?? d.total))].map(c => `${c.x},${c.y}`).join(' ')
+        : '';
+    const goalValue = type === 'million' ? 1000000 : target;
+
     const yLabels = useMemo(() => {
         const numLabels = 4;
         return Array.from({ length: numLabels + 1 }, (_, i) => {
@@ -61,33 +70,44 @@ const SimulationChart: React.FC<SimulationChartProps> = ({ data, years, type })
                 </g>
             ))}
             
-            {type === 'million' && (
+            {goalValue !== undefined && goalValue > 0 && (
                 <g>
                     <line 
                         x1={padding.left} 
-                        y1={getCoords(0, 1000000).y} 
+                        y1={getCoords(0, goalValue).y} 
                         x2={width - padding.right} 
-                        y2={getCoords(0, 1000000).y} 
+                        y2={getCoords(0, goalValue).y} 
                         stroke="var(--green-text)" 
                         strokeWidth="1" 
                         strokeDasharray="3 3"
                     />
-                    <text x={width - padding.right} y={getCoords(0, 1000000).y - 4} textAnchor="end" fontSize="8" fill="var(--green-text)" fontWeight="bold">{t('goal')}</text>
+                    <text x={width - padding.right} y={getCoords(0, goalValue).y - 4} textAnchor="end" fontSize="8" fill="var(--green-text)" fontWeight="bold">{t('goal')}</text>
                 </g>
             )}
 
             <polygon points={investedAreaPath} fill="var(--text-secondary)" fillOpacity="0.1" />
             <polyline fill="none" stroke="var(--text-secondary)" strokeWidth="1.5" points={investedPath} />
             
-            <polygon points={totalAreaPath} fill="var(--accent-color)" fillOpacity="0.2" />
+            {type === 'montecarlo' ? (
+                <polygon points={bandPath} fill="var(--accent-color)" fillOpacity="0.2" />
+            ) : (
+                <polygon points={totalAreaPath} fill="var(--accent-color)" fillOpacity="0.2" />
+            )}
             <polyline fill="none" stroke="var(--accent-color)" strokeWidth="2" points={totalPath} />
 
             <g transform={`translate(${padding.left}, 0)`}>
                 <rect x="0" y="0" width="8" height="8" rx="2" fill="var(--accent-color)" />
-                <text x="12" y="7" fontSize="8" fill="var(--text-primary)">{t('final_balance')}</text>
+                <text x="12" y="7" fontSize="8" fill="var(--text-primary)">{type === 'montecarlo' ? t('median_p50') : t('final_balance')}</text>
                 
                 <rect x="80" y="0" width="8" height="8" rx="2" fill="var(--text-secondary)" fillOpacity="0.5" />
                 <text x="92" y="7" fontSize="8" fill="var(--text-secondary)">{t('total_invested_chart')}</text>
+
+                {type === 'montecarlo' && (
+                    <>
+                        <rect x="160" y="0" width="8" height="8" rx="2" fill="var(--accent-color)" fillOpacity="0.2" />
+                        <text x="172" y="7" fontSize="8" fill="var(--text-secondary)">P10–P90</text>
+                    </>
+                )}
             </g>
         </svg>
     );
@@ -0,0 +1,106 @@
+import React, { useState, useMemo } from 'react';
+
+export interface WaterfallStep {
+    id: string;
+    label: string;
+    price: number;
+    income: number;
+}
+
+interface WaterfallChartProps {
+    steps: WaterfallStep[];
+    totalLabel: string;
+    priceLabel: string;
+    incomeLabel: string;
+    formatValue: (value: number) => string;
+}
+
+const width = 300;
+const height = 170;
+const padding = { top: 12, right: 6, bottom: 22, left: 34 };
+const INCOME_COLOR = 'var(--accent-color)';
+const priceColor = (value: number) => value >= 0 ? 'var(--green-text)' : 'var(--red-text)';
+
+// Cada coluna parte do acumulado anterior: primeiro a variação de preço, depois a renda; a última é o total
+const WaterfallChart: React.FC<WaterfallChartProps> = ({ steps, totalLabel, priceLabel, incomeLabel, formatValue }) => {
+    const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+    const columns = useMemo(() => {
+        let cumulative = 0;
+        const result = steps.map(step => {
+            const base = cumulative;
+            cumulative += step.price + step.income;
+            return { ...step, base };
+        });
+        const total = steps.reduce((acc, s) => ({ price: acc.price + s.price, income: acc.income + s.income }), { price: 0, income: 0 });
+        return [...result, { id: 'total', label: totalLabel, ...total, base: 0 }];
+    }, [steps, totalLabel]);
+
+    const { min, max } = useMemo(() => {
+        const levels = columns.flatMap(c => [c.base, c.base + c.price, c.base + c.price + c.income]);
+        const lo = Math.min(0, ...levels);
+        const hi = Math.max(0, ...levels);
+        return { min: lo, max: hi === lo ? lo + 1 : hi };
+    }, [columns]);
+
+    if (steps.length === 0) return null;
+
+    const slot = (width - padding.left - padding.right) / columns.length;
+    const barWidth = Math.min(22, slot * 0.7);
+    const getX = (index: number) => padding.left + slot * index + (slot - barWidth) / 2;
+    const getY = (value: number) => padding.top + ((max - value) / (max - min)) * (height - padding.top - padding.bottom);
+    const rect = (from: number, to: number) => ({ y: Math.min(getY(from), getY(to)), height: Math.max(0.75, Math.abs(getY(from) - getY(to))) });
+
+    const active = activeIndex !== null ? columns[activeIndex] : null;
+
+    return (
+        <div className="w-full">
+            <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" onMouseLeave={() => setActiveIndex(null)}>
+                {[min, 0, max].filter((v, i, arr) => arr.indexOf(v) === i).map(value => (
+                    <g key={value}>
+                        <line x1={padding.left} y1={getY(value)} x2={width - padding.right} y2={getY(value)} stroke="var(--border-color)" strokeWidth={value === 0 ? 0.75 : 0.5} strokeDasharray={value === 0 ? undefined : '2 2'} />
+                        <text x={padding.left - 4} y={getY(value) + 3} textAnchor="end" fontSize="7" fill="var(--text-secondary)">{formatValue(value)}</text>
+                    </g>
+                ))}
+
+                {columns.map((column, i) => {
+                    const x = getX(i);
+                    const end = column.base + column.price + column.income;
+                    const priceRect = rect(column.base, column.base + column.price);
+                    const incomeRect = rect(column.base + column.price, end);
+                    return (
+                        <g key={column.id} onMouseEnter={() => setActiveIndex(i)} onClick={() => setActiveIndex(activeIndex === i ? null : i)} className="cursor-pointer">
+                            <rect x={padding.left + slot * i} y={padding.top} width={slot} height={height - padding.top - padding.bottom} fill="transparent" />
+                            <rect x={x} {...priceRect} width={barWidth} fill={priceColor(column.price)} rx="1" opacity={activeIndex === null || activeIndex === i ? 1 : 0.5} />
+                            {column.income !== 0 && (
+                                <rect x={x} {...incomeRect} width={barWidth} fill={INCOME_COLOR} rx="1" opacity={activeIndex === null || activeIndex === i ? 1 : 0.5} />
+                            )}
+                            {i < columns.length - 1 && (
+                                <line x1={x + barWidth} y1={getY(end)} x2={getX(i + 1)} y2={getY(end)} stroke="var(--text-secondary)" strokeWidth="0.5" strokeDasharray="1.5 1.5" />
+                            )}
+                            <text x={x + barWidth / 2} y={height - 8} textAnchor="middle" fontSize="6.5" fontWeight={i === columns.length - 1 ? 'bold' : undefined} fill="var(--text-secondary)">{column.label}</text>
+                        </g>
+                    );
+                })}
+            </svg>
+
+            <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-[10px] text-[var(--text-secondary)]">
+                {active ? (
+                    <>
+                        <span className="font-bold text-[var(--text-primary)]">{active.label}</span>
+                        <span>{priceLabel} <span className="font-bold" style={{ color: priceColor(active.price) }}>{formatValue(active.price)}</span></span>
+                        <span>{incomeLabel} <span className="font-bold" style={{ color: INCOME_COLOR }}>{formatValue(active.income)}</span></span>
+                        <span>= <span className="font-bold text-[var(--text-primary)]">{formatValue(active.price + active.income)}</span></span>
+                    </>
+                ) : (
+                    <>
+                        <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm bg-[var(--green-text)]"></span>{priceLabel}</span>
+                        <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: INCOME_COLOR }}></span>{incomeLabel}</span>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default WaterfallChart;
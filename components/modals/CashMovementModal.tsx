@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import type { CashMovement, CashMovementType, ToastMessage } from '../../types';
+import Modal from './Modal';
+import { useI18n } from '../../contexts/I18nContext';
+import { usePortfolio } from '../../contexts/PortfolioContext';
+import { CONSOLIDATED_ACCOUNT_ID, DEFAULT_ACCOUNT_ID } from '../../constants';
+import { vibrate, getTodayISODate } from '../../utils';
+
+interface CashMovementModalProps {
+    onClose: () => void;
+    onSave: (movement: Omit<CashMovement, 'id'> & { id?: string }) => void;
+    onDelete?: (id: string) => void;
+    movement?: CashMovement | null;
+    addToast: (message: string, type?: ToastMessage['type']) => void;
+}
+
+const MOVEMENT_TYPES: CashMovementType[] = ['Deposito', 'Retirada', 'Taxa'];
+
+const CashMovementModal: React.FC<CashMovementModalProps> = ({ onClose, onSave, onDelete, movement, addToast }) => {
+    const { t } = useI18n();
+    const { accounts, activeAccountId } = usePortfolio();
+    const isEditMode = !!movement;
+
+    const [type, setType] = useState<CashMovementType>(movement?.type || 'Deposito');
+    const [amount, setAmount] = useState(movement?.amount?.toString() || '');
+    const [date, setDate] = useState(movement?.date || getTodayISODate());
+    const [description, setDescription] = useState(movement?.description || '');
+    const [accountId, setAccountId] = useState(movement?.accountId || (activeAccountId === CONSOLIDATED_ACCOUNT_ID ? DEFAULT_ACCOUNT_ID : activeAccountId));
+    const [errors, setErrors] = useState<Record<string, string>>({});
+
+    const validate = (): boolean => {
+        const newErrors: Record<string, string> = {};
+        if (!amount || isNaN(parseFloat(amount)) || parseFloat(amount) <= 0) newErrors.amount = t('validation_amount_positive');
+        if (!date) newErrors.date = t('validation_date_required');
+
+        setErrors(newErrors);
+        return Object.keys(newErrors).length === 0;
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        vibrate();
+
+        if (validate()) {
+            const finalMovement: Omit<CashMovement, 'id'> & { id?: string } = {
+                type,
+                amount: parseFloat(amount),
+                date,
+                accountId,
+            };
+            if (description.trim()) finalMovement.description = description.trim();
+            if (isEditMode && movement) finalMovement.id = movement.id;
+
+            onSave(finalMovement);
+            onClose();
+        } else {
+            addToast(t('toast_check_form_errors'), 'error');
+        }
+    };
+
+    return (
+        <Modal title={isEditMode ? t('edit_cash_movement') : t('add_cash_movement')} onClose={onClose}>
+            <form onSubmit={handleSubmit} className="space-y-5 pb-4">
+                <div>
+                    <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-2 block">{t('type')}</label>
+                    <div className="grid grid-cols-3 gap-2">
+                        {MOVEMENT_TYPES.map(option => (
+                            <button
+                                key={option}
+                                type="button"
+                                onClick={() => { setType(option); vibrate(5); }}
+                                className={`py-3 rounded-xl border-2 text-xs font-bold transition-all ${type === option ? 'bg-[var(--accent-color)]/10 text-[var(--accent-color)] border-[var(--accent-color)]' : 'border-[var(--border-color)] hover:bg-[var(--bg-tertiary-hover)]'}`}
+                            >
+                                {t(`cash_${option.toLowerCase()}`)}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                {accounts.length > 1 && (
+                    <div>
+                        <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 block">{t('account')}</label>
+                        <select value={accountId} onChange={e => setAccountId(e.target.value)} className="w-full bg-[var(--bg-primary)] border border-[var(--border-color)] rounded-xl p-3 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-[var(--accent-color)]/50 transition-all">
+                            {accounts.map(account => <option key={account.id} value={account.id}>{account.name}</option>)}
+                        </select>
+                    </div>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 block">{t('amount')}</label>
+                        <input value={amount} onChange={e => setAmount(e.target.value)} type="number" inputMode="decimal" step="0.01" min="0.01" autoFocus className={`w-full bg-[var(--bg-primary)] border rounded-xl p-3 text-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-color)]/50 transition-all ${errors.amount ? 'border-red-500' : 'border-[var(--border-color)]'}`} />
+                        {errors.amount && <p className="text-xs text-red-400 mt-1">{errors.amount}</p>}
+                    </div>
+                    <div>
+                        <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 block">{t('date')}</label>
+                        <input value={date} onChange={e => setDate(e.target.value)} type="date" required className={`w-full bg-[var(--bg-primary)] border rounded-xl p-3 text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent-color)]/50 transition-all ${errors.date ? 'border-red-500' : 'border-[var(--border-color)]'}`} />
+                        {errors.date && <p className="text-xs text-red-400 mt-1">{errors.date}</p>}
+                    </div>
+                </div>
+                <div>
+                    <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 block">{t('description')}</label>
+                    <input value={description} onChange={e => setDescription(e.target.value)} placeholder={t('cash_description_placeholder')} className="w-full bg-[var(--bg-primary)] border border-[var(--border-color)] rounded-xl p-3 text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent-color)]/50 transition-all" />
+                </div>
+
+                <div className="flex space-x-3">
+                  {isEditMode && onDelete && (
+                      <button type="button" onClick={() => { vibrate(); onDelete(movement!.id); }} className="w-1/3 bg-red-500/10 text-red-500 border border-red-500/30 font-bold py-3.5 rounded-xl hover:bg-red-500 hover:text-white transition-colors active:scale-95">{t('delete')}</button>
+                  )}
+                  <button type="submit" className="flex-1 bg-[var(--accent-color)] text-[var(--accent-color-text)] font-bold py-3.5 rounded-xl shadow-lg shadow-[var(--accent-color)]/20 hover:shadow-[var(--accent-color)]/40 transition-all active:scale-95">{isEditMode ? t('save') : t('add')}</button>
+                </div>
+            </form>
+        </Modal>
+    );
+};
+
+export default CashMovementModal;
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import type { CorporateAction, CorporateActionType, ToastMessage } from '../../types';
+import Modal from './Modal';
+import { useI18n } from '../../contexts/I18nContext';
+import { vibrate, getTodayISODate } from '../../utils';
+
+interface CorporateActionModalProps {
+    onClose: () => void;
+    onSave: (action: Omit<CorporateAction, 'id'> & { id?: string }) => void;
+    onDelete?: (id: string) => void;
+    action?: CorporateAction | null;
+    initialTicker?: string;
+    addToast: (message: string, type?: ToastMessage['type']) => void;
+}
+
+const ACTION_TYPES: CorporateActionType[] = ['Desdobramento', 'Grupamento', 'Bonificacao', 'AlteracaoTicker', 'Incorporacao'];
+
+const CorporateActionModal: React.FC<CorporateActionModalProps> = ({ onClose, onSave, onDelete, action, initialTicker, addToast }) => {
+    const { t, formatCurrency } = useI18n();
+    const isEditMode = !!action;
+
+    const [type, setType] = useState<CorporateActionType>(action?.type || 'Desdobramento');
+    const [ticker, setTicker] = useState(action?.ticker || initialTicker || '');
+    const [ratio, setRatio] = useState(action?.ratio?.toString() || '');
+    const [successorTicker, setSuccessorTicker] = useState(action?.successorTicker || '');
+    const [unitCost, setUnitCost] = useState(action?.unitCost?.toString() || '');
+    const [date, setDate] = useState(action?.date || getTodayISODate());
+    const [errors, setErrors] = useState<Record<string, string>>({});
+
+    const isMigration = type === 'AlteracaoTicker' || type === 'Incorporacao';
+
+    const validate = (): boolean => {
+        const newErrors: Record<string, string> = {};
+        if (!ticker || ticker.trim().length < 4) newErrors.ticker = t('validation_ticker_required');
+        if (type !== 'AlteracaoTicker' && (!ratio || isNaN(parseFloat(ratio)) || parseFloat(ratio) <= 0)) newErrors.ratio = t('validation_ratio_positive');
+        if (isMigration && (!successorTicker || successorTicker.trim().length < 4)) newErrors.successorTicker = t('validation_ticker_required');
+        if (isMigration && successorTicker.toUpperCase().trim() === ticker.toUpperCase().trim()) newErrors.successorTicker = t('validation_successor_different');
+        if (unitCost && parseFloat(unitCost) < 0) newErrors.unitCost = t('validation_costs_positive');
+        if (!date) newErrors.date = t('validation_date_required');
+
+        setErrors(newErrors);
+        return Object.keys(newErrors).length === 0;
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        vibrate();
+
+        if (validate()) {
+            const finalAction: Omit<CorporateAction, 'id'> & { id?: string } = {
+                ticker: ticker.toUpperCase().trim(),
+                type,
+                // Mudança de ticker é sempre 1:1
+                ratio: type === 'AlteracaoTicker' ? 1 : parseFloat(ratio),
+                date,
+            };
+            if (type === 'Bonificacao') finalAction.unitCost = parseFloat(unitCost) || 0;
+            if (isMigration) finalAction.successorTicker = successorTicker.toUpperCase().trim();
+            if (isEditMode && action) finalAction.id = action.id;
+
+            onSave(finalAction);
+            onClose();
+        } else {
+            addToast(t('toast_check_form_errors'), 'error');
+        }
+    };
+
+    const ratioValue = parseFloat(ratio) || 0;
+    const successorLabel = successorTicker.toUpperCase().trim() || '?';
+    const ratioHint = type === 'Desdobramento'
+        ? t('corporate_action_split_hint', { ratio: ratioValue || 'N' })
+        : type === 'Grupamento'
+            ? t('corporate_action_reverse_split_hint', { ratio: ratioValue || 'N' })
+            : type === 'Bonificacao'
+                ? t('corporate_action_bonus_hint', { percent: (ratioValue * 100).toFixed(2) })
+                : type === 'AlteracaoTicker'
+                    ? t('corporate_action_ticker_change_hint', { successor: successorLabel })
+                    : t('corporate_action_merger_hint', { ratio: ratioValue || 'N', successor: successorLabel });
+
+    return (
+        <Modal title={isEditMode ? t('edit_corporate_action') : t('add_corporate_action')} onClose={onClose}>
+            <form onSubmit={handleSubmit} className="space-y-5 pb-4">
+                <div>
+                    <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-2 block">{t('type')}</label>
+                    <div className="grid grid-cols-3 gap-2">
+                        {ACTION_TYPES.map(option => (
+                            <button
+                                key={option}
+                                type="button"
+                                onClick={() => { setType(option); vibrate(5); }}
+                                className={`py-3 rounded-xl border-2 text-xs font-bold transition-all ${type === option ? 'bg-[var(--accent-color)]/10 text-[var(--accent-color)] border-[var(--accent-color)]' : 'border-[var(--border-color)] hover:bg-[var(--bg-tertiary-hover)]'}`}
+                            >
+                                {t(`corporate_action_${option.toLowerCase()}`)}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div>
+                    <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 block">{t('ticker')}</label>
+                    <input
+                        value={ticker}
+                        onChange={(e) => setTicker(e.target.value)}
+                        autoFocus
+                        className={`w-full bg-[var(--bg-primary)] border rounded-xl p-3 text-lg font-bold focus:outline-none focus:ring-2 focus:ring-[var(--accent-color)]/50 transition-all ${errors.ticker ? 'border-red-500' : 'border-[var(--border-color)]'}`}
+                        autoCapitalize="characters"
+                        placeholder="MXRF11"
+                    />
+                    {errors.ticker && <p className="text-xs text-red-400 mt-1">{errors.ticker}</p>}
+                </div>
+                {isMigration && (
+                    <div>
+                        <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 block">{t('corporate_action_successor')}</label>
+                        <input
+                            value={successorTicker}
+                            onChange={(e) => setSuccessorTicker(e.target.value)}
+                            className={`w-full bg-[var(--bg-primary)] border rounded-xl p-3 text-lg font-bold focus:outline-none focus:ring-2 focus:ring-[var(--accent-color)]/50 transition-all ${errors.successorTicker ? 'border-red-500' : 'border-[var(--border-color)]'}`}
+                            autoCapitalize="characters"
+                        />
+                        {errors.successorTicker && <p className="text-xs text-red-400 mt-1">{errors.successorTicker}</p>}
+                    </div>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                    {type !== 'AlteracaoTicker' && <div>
+                        <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 block">{t('corporate_action_ratio')}</label>
+                        <input value={ratio} onChange={e => setRatio(e.target.value)} type="number" inputMode="decimal" step="any" min="0" className={`w-full bg-[var(--bg-primary)] border rounded-xl p-3 text-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-color)]/50 transition-all ${errors.ratio ? 'border-red-500' : 'border-[var(--border-color)]'}`} />
+                        {errors.ratio && <p className="text-xs text-red-400 mt-1">{errors.ratio}</p>}
+                    </div>}
+                    <div>
+                        <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 block">{t('date_ex')}</label>
+                        <input value={date} onChange={e => setDate(e.target.value)} type="date" required className={`w-full bg-[var(--bg-primary)] border rounded-xl p-3 text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent-color)]/50 transition-all ${errors.date ? 'border-red-500' : 'border-[var(--border-color)]'}`} />
+                        {errors.date && <p className="text-xs text-red-400 mt-1">{errors.date}</p>}
+                    </div>
+                </div>
+                {type === 'Bonificacao' && (
+                    <div>
+                        <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 block">{t('corporate_action_unit_cost')}</label>
+                        <input value={unitCost} onChange={e => setUnitCost(e.target.value)} type="number" inputMode="decimal" step="0.01" min="0" className={`w-full bg-[var(--bg-primary)] border rounded-xl p-3 text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent-color)]/50 transition-all ${errors.unitCost ? 'border-red-500' : 'border-[var(--border-color)]'}`} />
+                        {errors.unitCost && <p className="text-xs text-red-400 mt-1">{errors.unitCost}</p>}
+                    </div>
+                )}
+
+                <div className="border-t border-[var(--border-color)] my-4 pt-4">
+                    <div className="bg-[var(--bg-primary)] p-3 rounded-lg text-xs text-[var(--text-secondary)] font-medium">
+                        {ratioHint}
+                        {type === 'Bonificacao' && unitCost && (
+                            <span className="block mt-1">{t('corporate_action_unit_cost')}: <span className="font-bold text-[var(--text-primary)]">{formatCurrency(parseFloat(unitCost) || 0)}</span></span>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex space-x-3">
+                  {isEditMode && onDelete && (
+                      <button type="button" onClick={() => { vibrate(); onDelete(action!.id); }} className="w-1/3 bg-red-500/10 text-red-500 border border-red-500/30 font-bold py-3.5 rounded-xl hover:bg-red-500 hover:text-white transition-colors active:scale-95">{t('delete')}</button>
+                  )}
+                  <button type="submit" className="flex-1 bg-[var(--accent-color)] text-[var(--accent-color-text)] font-bold py-3.5 rounded-xl shadow-lg shadow-[var(--accent-color)]/20 hover:shadow-[var(--accent-color)]/40 transition-all active:scale-95">{isEditMode ? t('save') : t('add')}</button>
+                </div>
+            </form>
+        </Modal>
+    );
+};
+
+export default CorporateActionModal;
@@ -0,0 +1,72 @@
+import React, { useState, useMemo } from 'react';
+import Modal from './Modal';
+import type { ScreenerFund } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { usePortfolio } from '../../contexts/PortfolioContext';
+import { vibrate, simulatePurchase } from '../../utils';
+
+interface SimulatePurchaseModalProps {
+    fund: ScreenerFund & { price: number };
+    onClose: () => void;
+    onRegister: (ticker: string) => void; // Abre o cadastro da compra
+}
+
+const Row: React.FC<{ label: string; before?: string; after: string }> = ({ label, before, after }) => (
+    <div className="flex justify-between items-center text-sm py-2 border-b border-[var(--border-color)] last:border-0">
+        <span className="text-[var(--text-secondary)]">{label}</span>
+        <span className="font-bold text-[var(--text-primary)]">
+            {before !== undefined && <span className="text-xs font-normal text-[var(--text-secondary)] mr-1">{before} →</span>}
+            {after}
+        </span>
+    </div>
+);
+
+// Quanto a compra custa, quanto rende e como muda o peso do ativo e do segmento na carteira
+const SimulatePurchaseModal: React.FC<SimulatePurchaseModalProps> = ({ fund, onClose, onRegister }) => {
+    const { t, formatCurrency } = useI18n();
+    const { assets, projectedAnnualIncome } = usePortfolio();
+    const [quantity, setQuantity] = useState(String(Math.max(1, Math.floor(1000 / fund.price))));
+
+    const parsedQuantity = Math.max(0, Math.floor(parseFloat(quantity) || 0));
+    const annualDividends = fund.dy ? fund.price * fund.dy / 100 : (fund.lastDividend || 0) * 12;
+
+    const simulation = useMemo(() => simulatePurchase(
+        { ticker: fund.ticker, price: fund.price, annualDividends, segment: fund.segment },
+        parsedQuantity,
+        assets.filter(a => a.quantity > 0).map(a => ({ ticker: a.ticker, value: a.quantity * a.currentPrice, segment: a.segment })),
+        projectedAnnualIncome
+    ), [fund, annualDividends, parsedQuantity, assets, projectedAnnualIncome]);
+
+    return (
+        <Modal title={t('simulate_purchase_title', { ticker: fund.ticker })} onClose={onClose}>
+            <div className="space-y-5 pb-4">
+                <div>
+                    <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 block">{t('quantity')}</label>
+                    <input value={quantity} onChange={e => setQuantity(e.target.value)} type="number" inputMode="numeric" step="1" min="1" autoFocus className="w-full bg-[var(--bg-primary)] border border-[var(--border-color)] rounded-xl p-3 text-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-color)]/50 transition-all" />
+                    <p className="text-[10px] text-[var(--text-secondary)] mt-1">{t('simulate_purchase_price', { price: formatCurrency(fund.price) })}</p>
+                </div>
+
+                <div className="bg-[var(--bg-primary)] rounded-xl px-4 py-1 border border-[var(--border-color)]">
+                    <Row label={t('simulate_purchase_cost')} after={formatCurrency(simulation.cost)} />
+                    <Row label={t('simulate_purchase_income')} after={annualDividends > 0 ? formatCurrency(simulation.monthlyIncome) : '-'} />
+                    <Row label={t('simulate_purchase_yield')} before={`${simulation.currentYield.toFixed(2)}%`} after={`${simulation.newYield.toFixed(2)}%`} />
+                    <Row label={t('simulate_purchase_ticker_share', { ticker: fund.ticker })} after={`${simulation.tickerShare.toFixed(1)}%`} />
+                    {simulation.segmentShare !== null && (
+                        <Row label={t('simulate_purchase_segment_share', { segment: fund.segment || '' })} after={`${simulation.segmentShare.toFixed(1)}%`} />
+                    )}
+                </div>
+                {annualDividends <= 0 && <p className="text-[10px] text-amber-500">{t('simulate_purchase_no_dividends')}</p>}
+
+                <button
+                    onClick={() => { vibrate(); onRegister(fund.ticker); }}
+                    disabled={parsedQuantity <= 0}
+                    className="w-full bg-[var(--accent-color)] text-[var(--accent-color-text)] font-bold py-3.5 rounded-xl shadow-lg shadow-[var(--accent-color)]/20 transition-all active:scale-95 disabled:opacity-50"
+                >
+                    {t('simulate_purchase_register')}
+                </button>
+            </div>
+        </Modal>
+    );
+};
+
+export default SimulatePurchaseModal;
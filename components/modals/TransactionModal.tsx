@@ -4,7 +4,8 @@ import type { Transaction, TransactionType, ToastMessage } from '../../types';
 import Modal from './Modal';
 import { useI18n } from '../../contexts/I18nContext';
 import { usePortfolio } from '../../contexts/PortfolioContext';
-import { vibrate, getTodayISODate } from '../../utils';
+import { TRANSACTION_TYPE_I18N, CONSOLIDATED_ACCOUNT_ID, DEFAULT_ACCOUNT_ID } from '../../constants';
+import { vibrate, getTodayISODate, getSubscriptionStatus } from '../../utils';
 
 interface TransactionModalProps { 
     onClose: () => void; 
@@ -16,37 +17,61 @@ interface TransactionModalProps {
 }
 
 const TransactionModal: React.FC<TransactionModalProps> = ({ onClose, onSave, onDelete, transaction, initialTicker, addToast }) => {
-    const { t, formatCurrency } = useI18n();
-    const { getAssetByTicker } = usePortfolio();
+    const { t, locale, formatCurrency } = useI18n();
+    const { getAssetByTicker, transactions, accounts, activeAccountId, getAccountBrokerage } = usePortfolio();
     const isEditMode = !!transaction;
 
+    const [accountId, setAccountId] = useState(transaction?.accountId || (activeAccountId === CONSOLIDATED_ACCOUNT_ID ? DEFAULT_ACCOUNT_ID : activeAccountId));
+
     const [type, setType] = useState<TransactionType>(transaction?.type || 'Compra');
     const [ticker, setTicker] = useState(transaction?.ticker || initialTicker || '');
     const [quantity, setQuantity] = useState(transaction?.quantity?.toString() || '');
     const [price, setPrice] = useState(transaction?.price?.toString() || '');
-    const [costs, setCosts] = useState(transaction?.costs?.toString() || '');
+    // Novas transações já vêm com a corretagem padrão da conta
+    const [costs, setCosts] = useState(transaction?.costs?.toString() || (getAccountBrokerage(accountId) || '').toString());
     const [date, setDate] = useState(transaction?.date || getTodayISODate());
+    const [settlementDate, setSettlementDate] = useState(transaction?.settlementDate || '');
     const [errors, setErrors] = useState<Record<string, string>>({});
 
+    const isSubscriptionFlow = type === 'DireitoRecebido' || type === 'VendaDireito' || type === 'Subscricao';
+    // Direitos recebidos não têm preço: entram com custo zero
+    const hasPrice = type !== 'DireitoRecebido';
+
     const totalValue = useMemo(() => {
         const q = parseFloat(quantity) || 0;
-        const p = parseFloat(price) || 0;
+        const p = hasPrice ? parseFloat(price) || 0 : 0;
         const c = parseFloat(costs) || 0;
-        return type === 'Compra' ? q * p + c : q * p - c;
-    }, [quantity, price, costs, type]);
+        return type === 'Compra' || type === 'Subscricao' ? q * p + c : q * p - c;
+    }, [quantity, price, costs, type, hasPrice]);
+
+    // Direitos disponíveis desconsiderando a própria transação em edição
+    const availableRights = useMemo(() => {
+        const others = transactions.filter(tx => tx.id !== transaction?.id);
+        return getSubscriptionStatus(ticker.toUpperCase().trim(), others).rightsBalance;
+    }, [transactions, transaction, ticker]);
 
     const validate = (): boolean => {
         const newErrors: Record<string, string> = {};
         if (!ticker || ticker.trim().length < 4) newErrors.ticker = t('validation_ticker_required');
         if (!quantity || isNaN(parseFloat(quantity)) || parseFloat(quantity) <= 0) newErrors.quantity = t('validation_quantity_positive');
-        if (!price || isNaN(parseFloat(price)) || parseFloat(price) <= 0) newErrors.price = t('validation_price_positive');
+        else if ((type === 'VendaDireito' || type === 'Subscricao') && parseFloat(quantity) > availableRights) newErrors.quantity = t('validation_rights_insufficient', { available: availableRights });
+        if (hasPrice && (!price || isNaN(parseFloat(price)) || parseFloat(price) <= 0)) newErrors.price = t('validation_price_positive');
         if (costs && parseFloat(costs) < 0) newErrors.costs = t('validation_costs_positive');
         if (!date) newErrors.date = t('validation_date_required');
+        if (type === 'Subscricao' && settlementDate && settlementDate < date) newErrors.settlementDate = t('validation_settlement_after_date');
         
         setErrors(newErrors);
         return Object.keys(newErrors).length === 0;
     };
     
+    const handleAccountChange = (id: string) => {
+        // Só troca a corretagem se o usuário não tiver alterado o valor sugerido
+        if (!isEditMode && (parseFloat(costs) || 0) === getAccountBrokerage(accountId)) {
+            setCosts((getAccountBrokerage(id) || '').toString());
+        }
+        setAccountId(id);
+    };
+
     const handleTickerBlur = () => {
         if (!isEditMode && ticker.length >= 4 && !price) {
             const asset = getAssetByTicker(ticker.toUpperCase());
@@ -67,10 +92,12 @@ const TransactionModal: React.FC<TransactionModalProps> = ({ onClose, onSave, on
                 ticker: ticker.toUpperCase().trim(),
                 type,
                 quantity: parseFloat(quantity),
-                price: parseFloat(price),
+                price: hasPrice ? parseFloat(price) : 0,
                 date,
                 costs: parseFloat(costs) || 0,
+                accountId,
             };
+            if (type === 'Subscricao') finalTx.settlementDate = settlementDate || date;
             if(isEditMode && transaction) finalTx.id = transaction.id;
             
             onSave(finalTx);
@@ -94,8 +121,34 @@ const TransactionModal: React.FC<TransactionModalProps> = ({ onClose, onSave, on
                             <input type="radio" id="type-sell" checked={type === 'Venda'} onChange={() => setType('Venda')} className="peer hidden" />
                             <label htmlFor="type-sell" onClick={() => vibrate(5)} className="block text-center py-3 rounded-xl border-2 border-[var(--border-color)] cursor-pointer peer-checked:bg-red-500/10 peer-checked:text-red-500 peer-checked:border-red-500 transition-all font-bold hover:bg-[var(--bg-tertiary-hover)]">{t('sell')}</label>
                         </div>
+                        <div className="relative flex-1">
+                            <input type="radio" id="type-subscription" checked={isSubscriptionFlow} onChange={() => setType('DireitoRecebido')} className="peer hidden" />
+                            <label htmlFor="type-subscription" onClick={() => vibrate(5)} className="block text-center py-3 rounded-xl border-2 border-[var(--border-color)] cursor-pointer peer-checked:bg-amber-500/10 peer-checked:text-amber-500 peer-checked:border-amber-500 transition-all font-bold hover:bg-[var(--bg-tertiary-hover)]">{t('subscription')}</label>
+                        </div>
                     </div>
+                    {isSubscriptionFlow && (
+                        <div className="grid grid-cols-3 gap-2 mt-3">
+                            {(['DireitoRecebido', 'VendaDireito', 'Subscricao'] as const).map(option => (
+                                <button
+                                    key={option}
+                                    type="button"
+                                    onClick={() => { setType(option); vibrate(5); }}
+                                    className={`py-2 rounded-xl border-2 text-xs font-bold transition-all ${type === option ? 'bg-amber-500/10 text-amber-500 border-amber-500' : 'border-[var(--border-color)] hover:bg-[var(--bg-tertiary-hover)]'}`}
+                                >
+                                    {t(TRANSACTION_TYPE_I18N[option].label)}
+                                </button>
+                            ))}
+                        </div>
+                    )}
                 </div>
+                {accounts.length > 1 && (
+                    <div>
+                        <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 block">{t('account')}</label>
+                        <select value={accountId} onChange={e => handleAccountChange(e.target.value)} className="w-full bg-[var(--bg-primary)] border border-[var(--border-color)] rounded-xl p-3 text-sm font-bold focus:outline-none focus:ring-2 focus:ring-[var(--accent-color)]/50 transition-all">
+                            {accounts.map(account => <option key={account.id} value={account.id}>{account.name}</option>)}
+                        </select>
+                    </div>
+                )}
                 <div>
                     <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 block">{t('ticker')}</label>
                     <input 
@@ -115,7 +168,7 @@ const TransactionModal: React.FC<TransactionModalProps> = ({ onClose, onSave, on
                         <input value={quantity} onChange={e => setQuantity(e.target.value)} type="number" inputMode="decimal" step="any" min="0.0001" required className={`w-full bg-[var(--bg-primary)] border rounded-xl p-3 text-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-color)]/50 transition-all ${errors.quantity ? 'border-red-500' : 'border-[var(--border-color)]'}`} />
                         {errors.quantity && <p className="text-xs text-red-400 mt-1">{errors.quantity}</p>}
                     </div>
-                    <div>
+                    {hasPrice && <div>
                         <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 block">{t('price_per_share')}</label>
                         <input 
                             value={price}
@@ -128,7 +181,7 @@ const TransactionModal: React.FC<TransactionModalProps> = ({ onClose, onSave, on
                             className={`w-full bg-[var(--bg-primary)] border rounded-xl p-3 text-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-color)]/50 transition-all ${errors.price ? 'border-red-500' : 'border-[var(--border-color)]'}`} 
                         />
                         {errors.price && <p className="text-xs text-red-400 mt-1">{errors.price}</p>}
-                    </div>
+                    </div>}
                 </div>
                  <div className="grid grid-cols-2 gap-4">
                      <div>
@@ -142,8 +195,27 @@ const TransactionModal: React.FC<TransactionModalProps> = ({ onClose, onSave, on
                         {errors.costs && <p className="text-xs text-red-400 mt-1">{errors.costs}</p>}
                     </div>
                  </div>
+                {type === 'Subscricao' && (
+                    <div>
+                        <label className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1 block">{t('settlement_date')}</label>
+                        <input value={settlementDate} onChange={e => setSettlementDate(e.target.value)} type="date" min={date} className={`w-full bg-[var(--bg-primary)] border rounded-xl p-3 text-sm focus:outline-none focus:ring-2 focus:ring-[var(--accent-color)]/50 transition-all ${errors.settlementDate ? 'border-red-500' : 'border-[var(--border-color)]'}`} />
+                        {errors.settlementDate && <p className="text-xs text-red-400 mt-1">{errors.settlementDate}</p>}
+                    </div>
+                )}
 
-                <div className="border-t border-[var(--border-color)] my-4 pt-4">
+                <div className="border-t border-[var(--border-color)] my-4 pt-4 space-y-2">
+                    {isSubscriptionFlow && (
+                        <div className="bg-[var(--bg-primary)] p-3 rounded-lg text-xs text-[var(--text-secondary)] font-medium">
+                            {type === 'DireitoRecebido'
+                                ? t('rights_received_hint')
+                                : type === 'VendaDireito'
+                                    ? t('rights_sold_hint')
+                                    : t('subscription_exercise_hint', { date: new Date(settlementDate || date).toLocaleDateString(locale, { timeZone: 'UTC' }) })}
+                            {type !== 'DireitoRecebido' && ticker.trim().length >= 4 && (
+                                <span className="block mt-1">{t('rights_balance')}: <span className="font-bold text-[var(--text-primary)]">{availableRights}</span></span>
+                            )}
+                        </div>
+                    )}
                     <div className="flex justify-between items-center bg-[var(--bg-primary)] p-3 rounded-lg">
                         <span className="text-sm font-bold text-[var(--text-secondary)]">Total da Operação:</span>
                         <span className="text-xl font-bold text-[var(--accent-color)] tracking-tight">{formatCurrency(totalValue)}</span>
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import PageHeader from '../PageHeader';
+import TrashIcon from '../icons/TrashIcon';
+import type { PortfolioAccount, ToastMessage } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { usePortfolio } from '../../contexts/PortfolioContext';
+import { DEFAULT_ACCOUNT_ID } from '../../constants';
+import { vibrate } from '../../utils';
+
+const AccountCard: React.FC<{
+    account: PortfolioAccount;
+    transactionCount: number;
+    globalBrokerage: number;
+    onUpdate: (account: PortfolioAccount) => void;
+    onDelete?: () => void;
+}> = ({ account, transactionCount, globalBrokerage, onUpdate, onDelete }) => {
+    const { t } = useI18n();
+
+    return (
+        <div className="bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)] space-y-3">
+            <div className="flex items-center gap-2">
+                <input
+                    value={account.name}
+                    onChange={(e) => onUpdate({ ...account, name: e.target.value })}
+                    aria-label={t('account_name')}
+                    className="flex-1 bg-[var(--bg-primary)] border border-[var(--border-color)] rounded-lg p-2 text-sm font-bold focus:outline-none focus:border-[var(--accent-color)]"
+                />
+                {onDelete && (
+                    <button onClick={() => { vibrate(); onDelete(); }} className="p-2 text-gray-400 hover:text-red-500 hover:bg-[var(--bg-primary)] rounded-lg transition-colors" aria-label={t('delete')}>
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider">{t('account_broker')}</label>
+                    <input
+                        value={account.broker || ''}
+                        onChange={(e) => onUpdate({ ...account, broker: e.target.value || undefined })}
+                        className="w-full bg-[var(--bg-primary)] border border-[var(--border-color)] rounded-lg p-2 mt-1 text-sm focus:outline-none focus:border-[var(--accent-color)]"
+                    />
+                </div>
+                <div>
+                    <label className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider">{t('default_brokerage')}</label>
+                    <input
+                        type="number"
+                        inputMode="decimal"
+                        min="0"
+                        step="0.01"
+                        value={account.defaultBrokerage ?? ''}
+                        placeholder={globalBrokerage.toString()}
+                        onChange={(e) => onUpdate({ ...account, defaultBrokerage: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0) })}
+                        className="w-full bg-[var(--bg-primary)] border border-[var(--border-color)] rounded-lg p-2 mt-1 text-sm focus:outline-none focus:border-[var(--accent-color)]"
+                    />
+                </div>
+            </div>
+            <p className="text-[10px] text-[var(--text-secondary)]">{t('account_transactions_count', { count: transactionCount })}</p>
+        </div>
+    );
+};
+
+const AccountSettings: React.FC<{ onBack: () => void; addToast: (message: string, type?: ToastMessage['type']) => void; }> = ({ onBack, addToast }) => {
+    const { t } = useI18n();
+    const { accounts, addAccount, updateAccount, deleteAccount, allTransactions, preferences } = usePortfolio();
+    const [newName, setNewName] = useState('');
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        vibrate();
+        const name = newName.trim();
+        if (!name) return;
+        addAccount({ id: String(Date.now()), name });
+        setNewName('');
+        addToast(t('toast_account_added'), 'success');
+    };
+
+    const handleDelete = (account: PortfolioAccount) => {
+        if (window.confirm(t('confirm_delete_account', { name: account.name }))) {
+            deleteAccount(account.id);
+            addToast(t('toast_account_deleted'), 'success');
+        }
+    };
+
+    return (
+        <div>
+            <PageHeader title={t('accounts')} onBack={onBack} helpText={t('accounts_help')} />
+            <div className="space-y-4">
+                {accounts.map(account => (
+                    <AccountCard
+                        key={account.id}
+                        account={account}
+                        transactionCount={allTransactions.filter(tx => (tx.accountId || DEFAULT_ACCOUNT_ID) === account.id).length}
+                        globalBrokerage={preferences.defaultBrokerage}
+                        onUpdate={updateAccount}
+                        onDelete={account.id !== DEFAULT_ACCOUNT_ID ? () => handleDelete(account) : undefined}
+                    />
+                ))}
+
+                <form onSubmit={handleAdd} className="flex gap-2">
+                    <input
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        placeholder={t('account_name_placeholder')}
+                        className="flex-1 bg-[var(--bg-secondary)] border border-[var(--border-color)] rounded-xl p-3 text-sm focus:outline-none focus:border-[var(--accent-color)]"
+                    />
+                    <button type="submit" disabled={!newName.trim()} className="bg-[var(--accent-color)] text-[var(--accent-color-text)] font-bold px-5 rounded-xl disabled:opacity-50 active:scale-95 transition-all">
+                        {t('add')}
+                    </button>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default AccountSettings;
@@ -2,19 +2,24 @@ import React from 'react';
 import PageHeader from '../PageHeader';
 import DownloadIcon from '../icons/DownloadIcon';
 import UploadIcon from '../icons/UploadIcon';
-import type { ToastMessage, Transaction, TransactionType, AppPreferences } from '../../types';
+import type { ToastMessage, Transaction, TransactionType, AppPreferences, CorporateAction, PortfolioAccount, CashMovement, IncomeGoal } from '../../types';
 import { useI18n } from '../../contexts/I18nContext';
 import { usePortfolio } from '../../contexts/PortfolioContext';
 import { vibrate } from '../../utils';
 
 const BackupRestore: React.FC<{ onBack: () => void; addToast: (message: string, type?: ToastMessage['type']) => void; }> = ({ onBack, addToast }) => {
     const { t } = useI18n();
-    const { transactions, preferences, importTransactions, restoreData } = usePortfolio();
+    const { allTransactions: transactions, allCashMovements: cashMovements, addCashMovement, corporateActions, addCorporateAction, accounts, addAccount, taxPayments, importTaxPayments, incomeGoals, addIncomeGoal, preferences, importTransactions, restoreData } = usePortfolio();
 
     const handleExportJson = () => {
         vibrate();
         const backupData = {
             transactions,
+            corporateActions,
+            cashMovements,
+            accounts,
+            taxPayments,
+            incomeGoals,
             preferences,
         };
         const dataStr = JSON.stringify(backupData, null, 2);
@@ -30,10 +35,10 @@ const BackupRestore: React.FC<{ onBack: () => void; addToast: (message: string,
     const handleExportCsv = () => {
         vibrate();
         let csvContent = "data:text/csv;charset=utf-8,";
-        csvContent += "ID,Ticker,Type,Quantity,Price,Date,Costs\r\n";
+        csvContent += "ID,Ticker,Type,Quantity,Price,Date,Costs,SettlementDate,AccountId\r\n";
         
         transactions.forEach(tx => {
-            const row = [tx.id, tx.ticker, tx.type, tx.quantity, tx.price, tx.date, tx.costs || 0].join(",");
+            const row = [tx.id, tx.ticker, tx.type, tx.quantity, tx.price, tx.date, tx.costs || 0, tx.settlementDate || '', tx.accountId || ''].join(",");
             csvContent += row + "\r\n";
         });
 
@@ -58,12 +63,22 @@ const BackupRestore: React.FC<{ onBack: () => void; addToast: (message: string,
                 const text = e.target?.result as string;
                 let parsedTransactions: Transaction[] = [];
                 let parsedPreferences: Partial<AppPreferences> | undefined = undefined;
+                let parsedCorporateActions: CorporateAction[] | undefined = undefined;
+                let parsedAccounts: PortfolioAccount[] | undefined = undefined;
+                let parsedCashMovements: CashMovement[] | undefined = undefined;
+                let parsedTaxPayments: Record<string, string> | undefined = undefined;
+                let parsedIncomeGoals: IncomeGoal[] | undefined = undefined;
 
                 if (file.type === "application/json") {
                     const data = JSON.parse(text);
                     if (data.transactions && Array.isArray(data.transactions)) {
                         parsedTransactions = data.transactions;
                         parsedPreferences = data.preferences; // This might be undefined in old backups
+                        if (Array.isArray(data.corporateActions)) parsedCorporateActions = data.corporateActions;
+                        if (Array.isArray(data.accounts) && data.accounts.length > 0) parsedAccounts = data.accounts;
+                        if (Array.isArray(data.cashMovements)) parsedCashMovements = data.cashMovements;
+                        if (data.taxPayments && typeof data.taxPayments === 'object') parsedTaxPayments = data.taxPayments;
+                        if (Array.isArray(data.incomeGoals)) parsedIncomeGoals = data.incomeGoals;
                     } else {
                         throw new Error(t('invalid_file_format'));
                     }
@@ -72,8 +87,12 @@ const BackupRestore: React.FC<{ onBack: () => void; addToast: (message: string,
                      parsedTransactions = lines.filter(line => line.trim()).map(line => {
                          const values = line.split(',');
                          if (values.length < 7) throw new Error(t('invalid_file_format'));
-                         const [id, ticker, type, quantity, price, date, costs] = values;
-                         return { id, ticker, type: type as TransactionType, quantity: +quantity, price: +price, date, costs: +costs };
+                         const [id, ticker, type, quantity, price, date, costs, settlementDate, accountId] = values;
+                         const tx: Transaction = { id, ticker, type: type as TransactionType, quantity: +quantity, price: +price, date, costs: +costs };
+                         if (settlementDate) tx.settlementDate = settlementDate;
+                         // CSV só traz o id: contas desconhecidas caem na conta ativa
+                         if (accountId && accounts.some(a => a.id === accountId)) tx.accountId = accountId;
+                         return tx;
                      });
                 } else {
                     throw new Error(t('unsupported_file_type'));
@@ -82,10 +101,15 @@ const BackupRestore: React.FC<{ onBack: () => void; addToast: (message: string,
                 if (parsedTransactions.length > 0) {
                      if (window.confirm(t('confirm_restore_prompt'))) {
                         // OK for Replace
-                        restoreData({ transactions: parsedTransactions, preferences: parsedPreferences });
+                        restoreData({ transactions: parsedTransactions, corporateActions: parsedCorporateActions, cashMovements: parsedCashMovements, accounts: parsedAccounts, taxPayments: parsedTaxPayments, incomeGoals: parsedIncomeGoals, preferences: parsedPreferences });
                         addToast(t('toast_backup_restored_replace'), 'success');
                      } else {
                         // Cancel for Merge
+                        parsedAccounts?.filter(pa => !accounts.some(a => a.id === pa.id)).forEach(addAccount);
+                        parsedCashMovements?.filter(pm => !cashMovements.some(m => m.id === pm.id)).forEach(addCashMovement);
+                        parsedCorporateActions?.filter(pa => !corporateActions.some(a => a.id === pa.id)).forEach(addCorporateAction);
+                        parsedIncomeGoals?.filter(pg => !incomeGoals.some(g => g.id === pg.id)).forEach(addIncomeGoal);
+                        if (parsedTaxPayments) importTaxPayments(parsedTaxPayments);
                         importTransactions(parsedTransactions);
                         addToast(t('toast_backup_restored_merge'), 'success');
                      }
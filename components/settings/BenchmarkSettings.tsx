@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import PageHeader from '../PageHeader';
+import ToggleSwitch from '../ToggleSwitch';
+import UploadIcon from '../icons/UploadIcon';
+import RefreshIcon from '../icons/RefreshIcon';
+import TrashIcon from '../icons/TrashIcon';
+import type { BenchmarkId, ToastMessage } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { usePortfolio } from '../../contexts/PortfolioContext';
+import { BENCHMARKS, BENCHMARK_IDS } from '../../constants';
+import { hasBenchmarkProvider } from '../../services/benchmarkService';
+import { vibrate } from '../../utils';
+
+const BenchmarkSettings: React.FC<{ onBack: () => void; addToast: (message: string, type?: ToastMessage['type']) => void; }> = ({ onBack, addToast }) => {
+    const { t, locale } = useI18n();
+    const { benchmarks, importBenchmarks, refreshBenchmark, removeBenchmark, preferences, updatePreferences, inflationDeflator } = usePortfolio();
+    const [loadingId, setLoadingId] = useState<BenchmarkId | null>(null);
+
+    const formatDate = (date: string) => new Date(date).toLocaleDateString(locale, { timeZone: 'UTC' });
+
+    const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+        vibrate();
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                const ids = importBenchmarks(e.target?.result as string);
+                if (ids.length > 0) addToast(t('toast_benchmarks_imported', { list: ids.map(id => BENCHMARKS[id].label).join(', ') }), 'success');
+                else addToast(t('invalid_file_format'), 'error');
+            } catch (error: any) {
+                addToast(`${t('toast_import_failed')}: ${error.message}`, 'error');
+            } finally {
+                event.target.value = '';
+            }
+        };
+        reader.readAsText(file);
+    };
+
+    const handleRefresh = async (id: BenchmarkId) => {
+        if (loadingId) return;
+        vibrate();
+        setLoadingId(id);
+        try {
+            const count = await refreshBenchmark(id);
+            addToast(t('toast_benchmark_updated', { name: BENCHMARKS[id].label, count }), 'success');
+        } catch (error: any) {
+            addToast(`${t('toast_update_failed')}: ${error.message}`, 'error');
+        } finally {
+            setLoadingId(null);
+        }
+    };
+
+    return (
+        <div>
+            <PageHeader title={t('benchmarks')} onBack={onBack} helpText={t('benchmarks_help')} />
+            <div className="space-y-3">
+                <div className="bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)] flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                        <p className="font-bold text-sm">{t('real_terms_setting')}</p>
+                        <p className={`text-[10px] ${inflationDeflator ? 'text-[var(--text-secondary)]' : 'text-amber-500'}`}>
+                            {inflationDeflator ? t('real_terms_desc') : t('real_terms_needs_ipca')}
+                        </p>
+                    </div>
+                    <ToggleSwitch enabled={preferences.realTerms} setEnabled={(val) => { vibrate(); updatePreferences({ realTerms: val }); }} />
+                </div>
+
+                {BENCHMARK_IDS.map(id => {
+                    const series = benchmarks[id];
+                    const points = series?.points || [];
+                    return (
+                        <div key={id} className="bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)] flex items-center justify-between gap-3">
+                            <div className="flex items-center gap-3 min-w-0">
+                                <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: BENCHMARKS[id].color }}></span>
+                                <div className="min-w-0">
+                                    <p className="font-bold text-sm">{BENCHMARKS[id].label}</p>
+                                    <p className="text-[10px] text-[var(--text-secondary)] truncate">
+                                        {points.length > 0
+                                            ? t('benchmark_coverage', { from: formatDate(points[0].date), to: formatDate(points[points.length - 1].date), count: points.length })
+                                            : t('benchmark_no_data')}
+                                    </p>
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-1 flex-shrink-0">
+                                {hasBenchmarkProvider(id) && (
+                                    <button onClick={() => handleRefresh(id)} disabled={!!loadingId} className="p-2 text-[var(--text-secondary)] hover:text-[var(--accent-color)] hover:bg-[var(--bg-primary)] rounded-lg transition-colors disabled:opacity-50" aria-label={t('refresh_prices')}>
+                                        <RefreshIcon className={`w-4 h-4 ${loadingId === id ? 'animate-spin' : ''}`} />
+                                    </button>
+                                )}
+                                {points.length > 0 && (
+                                    <button onClick={() => { vibrate(); removeBenchmark(id); }} className="p-2 text-gray-400 hover:text-red-500 hover:bg-[var(--bg-primary)] rounded-lg transition-colors" aria-label={t('delete')}>
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+
+                <label className="w-full flex items-center justify-center gap-2 bg-[var(--bg-primary)] border border-dashed border-[var(--border-color)] text-[var(--text-secondary)] font-bold py-3 rounded-lg cursor-pointer hover:bg-[var(--bg-tertiary-hover)] transition-colors">
+                    <UploadIcon className="w-4 h-4" />
+                    {t('benchmarks_import')}
+                    <input type="file" accept=".json,.csv" onChange={handleImport} className="hidden" />
+                </label>
+                <p className="text-[10px] text-[var(--text-secondary)] leading-relaxed">{t('benchmarks_format_hint')}</p>
+            </div>
+        </div>
+    );
+};
+
+export default BenchmarkSettings;
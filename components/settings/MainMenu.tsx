@@ -20,6 +20,13 @@ import ChevronRightIcon from '../icons/ChevronRightIcon';
 import SparklesIcon from '../icons/SparklesIcon';
 import CalculatorIcon from '../icons/CalculatorIcon';
 import BookOpenIcon from '../icons/BookOpenIcon';
+import WalletIcon from '../icons/WalletIcon';
+import PercentIcon from '../icons/PercentIcon';
+import TermsIcon from '../icons/TermsIcon';
+import LineChartIcon from '../icons/LineChartIcon';
+import ClockIcon from '../icons/ClockIcon';
+import ScaleIcon from '../icons/ScaleIcon';
+import RocketIcon from '../icons/RocketIcon';
 
 const MenuItem: React.FC<{ icon: React.ReactNode; title: string; subtitle: string; onClick: () => void; isLast?: boolean; }> = ({ icon, title, subtitle, onClick, isLast }) => (
     <div
@@ -45,7 +52,7 @@ const MainMenu: React.FC<{
     updateAvailable?: boolean;
 }> = ({ setScreen, addToast, onShowUpdateModal, updateAvailable }) => {
     const { t } = useI18n();
-    const { userProfile, resetApp } = usePortfolio();
+    const { userProfile, resetApp, accounts } = usePortfolio();
 
     const accountItems = [
         { screen: 'profile', icon: <UserIcon />, title: t('my_profile'), subtitle: userProfile.name },
@@ -60,12 +67,20 @@ const MainMenu: React.FC<{
 
     const dataItems = [
         { screen: 'transactions', icon: <TransactionIcon />, title: t('transactions_data'), subtitle: t('default_brokerage') + ", " + t('default_sort') },
+        { screen: 'accounts', icon: <WalletIcon />, title: t('accounts'), subtitle: accounts.map(a => a.name).join(", ") },
+        { screen: 'benchmarks', icon: <LineChartIcon />, title: t('benchmarks'), subtitle: t('benchmarks_subtitle') },
+        { screen: 'valuation', icon: <ScaleIcon />, title: t('valuation_title'), subtitle: t('valuation_subtitle') },
+        { screen: 'priceHistory', icon: <ClockIcon />, title: t('price_history'), subtitle: t('price_history_subtitle') },
         { screen: 'apiConnections', icon: <SparklesIcon />, title: t('api_connections'), subtitle: t('api_connections_desc') },
         { screen: 'backup', icon: <DatabaseIcon />, title: t('backup_restore'), subtitle: t('export_data_json') + ", " + t('import_data') },
     ];
     
     const toolsItems = [
         { screen: 'calculators', icon: <CalculatorIcon />, title: t('calculators'), subtitle: t('calculators_help') },
+        { screen: 'taxes', icon: <PercentIcon />, title: t('taxes'), subtitle: t('taxes_subtitle') },
+        { screen: 'irpf', icon: <TermsIcon />, title: t('irpf_report'), subtitle: t('irpf_report_subtitle') },
+        { screen: 'rebalance', icon: <ScaleIcon />, title: t('rebalance'), subtitle: t('rebalance_subtitle') },
+        { screen: 'goals', icon: <RocketIcon />, title: t('income_goals'), subtitle: t('income_goals_subtitle') },
         { screen: 'glossary', icon: <BookOpenIcon />, title: t('financial_glossary'), subtitle: t('glossary_subtitle') },
         { screen: 'about', icon: <InfoIcon />, title: t('about_app'), subtitle: t('version') + ", " + t('terms_of_service') },
     ];
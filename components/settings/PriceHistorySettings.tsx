@@ -0,0 +1,93 @@
+import React, { useState, useMemo } from 'react';
+import PageHeader from '../PageHeader';
+import DownloadIcon from '../icons/DownloadIcon';
+import type { ToastMessage } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { usePortfolio } from '../../contexts/PortfolioContext';
+import { PRICE_HISTORY_RANGES } from '../../services/priceHistoryService';
+import type { PriceHistoryRange } from '../../services/priceHistoryService';
+import { vibrate } from '../../utils';
+
+const RANGE_LABELS: Record<PriceHistoryRange, string> = {
+    '1y': 'price_history_range_1y',
+    '5y': 'price_history_range_5y',
+    max: 'price_history_range_max',
+};
+
+const PriceHistorySettings: React.FC<{ onBack: () => void; addToast: (message: string, type?: ToastMessage['type']) => void; }> = ({ onBack, addToast }) => {
+    const { t, locale } = useI18n();
+    const { allTransactions, priceHistory, backfillPriceHistory } = usePortfolio();
+    const [loading, setLoading] = useState<{ range: PriceHistoryRange; ticker?: string } | null>(null);
+
+    const tickers = useMemo(() => Array.from(new Set(allTransactions.map(tx => tx.ticker.toUpperCase()))).sort(), [allTransactions]);
+    const formatDate = (date: string) => new Date(date).toLocaleDateString(locale, { timeZone: 'UTC' });
+
+    const handleBackfill = async (range: PriceHistoryRange, ticker?: string) => {
+        if (loading) return;
+        vibrate();
+        setLoading({ range, ticker });
+        try {
+            const { count, failed } = await backfillPriceHistory(range, ticker ? [ticker] : tickers);
+            if (failed.length > 0) addToast(t('toast_price_history_partial', { count, list: failed.join(', ') }), 'error');
+            else addToast(t('toast_price_history_updated', { count }), 'success');
+        } catch (error: any) {
+            addToast(`${t('toast_update_failed')}: ${error.message}`, 'error');
+        } finally {
+            setLoading(null);
+        }
+    };
+
+    return (
+        <div>
+            <PageHeader title={t('price_history')} onBack={onBack} helpText={t('price_history_help')} />
+            <div className="space-y-3">
+                <div className="bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)]">
+                    <p className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-3">{t('price_history_backfill_all')}</p>
+                    <div className="grid grid-cols-3 gap-2">
+                        {PRICE_HISTORY_RANGES.map(range => (
+                            <button
+                                key={range}
+                                onClick={() => handleBackfill(range)}
+                                disabled={!!loading || tickers.length === 0}
+                                className="flex items-center justify-center gap-1.5 bg-[var(--bg-primary)] border border-[var(--border-color)] text-[var(--text-primary)] text-xs font-bold py-2.5 rounded-lg hover:bg-[var(--bg-tertiary-hover)] transition-colors disabled:opacity-50"
+                            >
+                                <DownloadIcon className={`w-3.5 h-3.5 ${loading?.range === range && !loading.ticker ? 'animate-pulse' : ''}`} />
+                                {t(RANGE_LABELS[range])}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {tickers.map(ticker => {
+                    const series = priceHistory[ticker] || [];
+                    return (
+                        <div key={ticker} className="bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)] flex items-center justify-between gap-3">
+                            <div className="min-w-0">
+                                <p className="font-bold text-sm">{ticker}</p>
+                                <p className="text-[10px] text-[var(--text-secondary)] truncate">
+                                    {series.length > 0
+                                        ? t('benchmark_coverage', { from: formatDate(series[0].date), to: formatDate(series[series.length - 1].date), count: series.length })
+                                        : t('benchmark_no_data')}
+                                </p>
+                            </div>
+                            <div className="flex bg-[var(--bg-primary)] p-0.5 rounded-lg border border-[var(--border-color)] flex-shrink-0">
+                                {PRICE_HISTORY_RANGES.map(range => (
+                                    <button
+                                        key={range}
+                                        onClick={() => handleBackfill(range, ticker)}
+                                        disabled={!!loading}
+                                        className={`px-2 py-1 text-[10px] font-bold rounded-md transition-all disabled:opacity-50 ${loading?.ticker === ticker && loading.range === range ? 'bg-[var(--bg-secondary)] text-[var(--accent-color)] shadow-sm animate-pulse' : 'text-[var(--text-secondary)]'}`}
+                                    >
+                                        {t(RANGE_LABELS[range])}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default PriceHistorySettings;
@@ -0,0 +1,64 @@
+import React from 'react';
+import PageHeader from '../PageHeader';
+import TrashIcon from '../icons/TrashIcon';
+import { ValuationAssumptionFields } from '../cards/ValuationCard';
+import type { ValuationAssumptions } from '../../types';
+import { useI18n } from '../../contexts/I18nContext';
+import { usePortfolio } from '../../contexts/PortfolioContext';
+import { DEFAULT_PREFERENCES } from '../../constants';
+import { vibrate } from '../../utils';
+
+// Premissas globais de preço justo e os ativos com premissas próprias
+const ValuationSettings: React.FC<{ onBack: () => void; }> = ({ onBack }) => {
+    const { t } = useI18n();
+    const { preferences, updatePreferences } = usePortfolio();
+
+    const assumptions: ValuationAssumptions = { ...DEFAULT_PREFERENCES.valuation, ...(preferences.valuation || {}) };
+    const overrides: Record<string, Partial<ValuationAssumptions>> = preferences.valuationByTicker || {};
+    const customTickers = Object.keys(overrides).sort();
+
+    const removeOverride = (ticker: string) => {
+        vibrate();
+        const next = { ...overrides };
+        delete next[ticker];
+        updatePreferences({ valuationByTicker: next });
+    };
+
+    return (
+        <div>
+            <PageHeader title={t('valuation_title')} onBack={onBack} helpText={t('valuation_help')} />
+            <div className="space-y-4">
+                <div className="bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)] space-y-3">
+                    <p className="text-[10px] text-[var(--text-secondary)]">{t('valuation_global_hint')}</p>
+                    <ValuationAssumptionFields assumptions={assumptions} onChange={patch => updatePreferences({ valuation: { ...assumptions, ...patch } })} />
+                    <button onClick={() => { vibrate(); updatePreferences({ valuation: DEFAULT_PREFERENCES.valuation }); }} className="w-full text-xs font-bold text-[var(--accent-color)] pt-1">
+                        {t('valuation_restore_defaults')}
+                    </button>
+                </div>
+
+                {customTickers.length > 0 && (
+                    <div className="bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)]">
+                        <h4 className="font-bold text-sm mb-3">{t('valuation_custom_assets')}</h4>
+                        <div className="space-y-2">
+                            {customTickers.map(ticker => (
+                                <div key={ticker} className="flex items-center justify-between gap-3">
+                                    <div className="min-w-0">
+                                        <p className="font-bold text-sm">{ticker}</p>
+                                        <p className="text-[10px] text-[var(--text-secondary)] truncate">
+                                            {t('valuation_custom_count', { count: Object.keys(overrides[ticker]).length })}
+                                        </p>
+                                    </div>
+                                    <button onClick={() => removeOverride(ticker)} className="p-2 text-gray-400 hover:text-red-500 hover:bg-[var(--bg-primary)] rounded-lg transition-colors" aria-label={t('delete')}>
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ValuationSettings;
@@ -1,18 +1,33 @@
 
-import type { AppPreferences, AppTheme } from './types';
+import type { AppPreferences, AppTheme, TransactionType, PortfolioAccount, BenchmarkId } from './types';
 
 export const CACHE_TTL = {
     NEWS: 1000 * 60 * 60, // 1 hour
     MARKET: 1000 * 60 * 5, // 5 minutes
     ASSET: 1000 * 60 * 15, // 15 minutes
+    BENCHMARKS: Number.POSITIVE_INFINITY, // Séries importadas só mudam quando o usuário reimporta/atualiza
+    SCREENER: Number.POSITIVE_INFINITY, // Universo do screener; os fundamentos guardam a própria data
 };
 
+// Índices de referência: 'index' traz pontos do índice; 'rate' traz a taxa % de cada período
+export const BENCHMARKS: Record<BenchmarkId, { label: string; kind: 'index' | 'rate'; color: string }> = {
+    IFIX: { label: 'IFIX', kind: 'index', color: '#f59e0b' },
+    CDI: { label: 'CDI', kind: 'rate', color: '#10b981' },
+    IPCA: { label: 'IPCA', kind: 'rate', color: '#ef4444' },
+    IBOV: { label: 'Ibovespa', kind: 'index', color: '#6366f1' },
+};
+
+export const BENCHMARK_IDS = Object.keys(BENCHMARKS) as BenchmarkId[];
+
 export const KNOWN_TICKERS = [
     'MXRF11', 'HGLG11', 'XPML11', 'KNCR11', 'VISC11', 'BTLG11', 'XPLG11', 'IRDM11',
     'CPTS11', 'HGBS11', 'VILG11', 'MALL11', 'SNAG11', 'VGIA11', 'KNCA11', 'RZAG11',
     'KNIP11', 'KNRI11', 'HGRU11', 'TGAR11', 'BCFF11', 'BRCO11', 'HFOF11', 'KNSC11'
 ];
 
+// Tela de comparação lado a lado
+export const MAX_COMPARED_TICKERS = 4;
+
 export const STATIC_FII_SECTORS: Record<string, string> = {
     'HGLG11': 'Tijolo', 'BTLG11': 'Tijolo', 'XPLG11': 'Tijolo', 'VILG11': 'Tijolo', 'BRCO11': 'Tijolo',
     'XPML11': 'Tijolo', 'VISC11': 'Tijolo', 'HGBS11': 'Tijolo', 'MALL11': 'Tijolo', 'HGRU11': 'Tijolo',
@@ -90,12 +105,28 @@ export const APP_FONTS = [
     { id: 'roboto-mono', name: 'Roboto Mono', family: 'Roboto Mono, monospace', description: 'font_roboto_mono_desc' }
 ];
 
+export const TRANSACTION_TYPE_I18N: Record<TransactionType, { label: string; short: string }> = {
+    Compra: { label: 'buy', short: 'buy_short' },
+    Venda: { label: 'sell', short: 'sell_short' },
+    DireitoRecebido: { label: 'rights_received', short: 'rights_short' },
+    VendaDireito: { label: 'rights_sold', short: 'rights_sold_short' },
+    Subscricao: { label: 'subscription_exercise', short: 'subscription_short' },
+};
+
+export const DEFAULT_ACCOUNT_ID = 'principal';
+export const CONSOLIDATED_ACCOUNT_ID = 'consolidado';
+
+export const DEFAULT_ACCOUNTS: PortfolioAccount[] = [
+    { id: DEFAULT_ACCOUNT_ID, name: 'Carteira Principal' },
+];
+
 export const DEFAULT_PREFERENCES: AppPreferences = {
     accentColor: 'blue', systemTheme: 'system', visualStyle: 'premium', fontSize: 'medium', compactMode: false,
     currentThemeId: 'default-dark', currentFontId: 'inter', showCurrencySymbol: true, reduceMotion: false, animationSpeed: 'normal',
     startScreen: 'carteira',
     hapticFeedback: true, vibrationIntensity: 'medium', hideCents: false, appPin: null,
     defaultBrokerage: 0, csvSeparator: ',', decimalPrecision: 2, defaultSort: 'valueDesc', dateFormat: 'dd/mm/yyyy',
-    priceAlertThreshold: 5, globalIncomeGoal: 1000, segmentGoals: {}, dndEnabled: false, dndStart: '22:00', dndEnd: '07:00',
-    notificationChannels: { push: true, email: false }, geminiApiKey: null, brapiToken: null, autoBackup: false, betaFeatures: false, devMode: false
+    priceAlertThreshold: 5, globalIncomeGoal: 1000, segmentGoals: {}, concentrationLimits: { ticker: 20, segment: 40, administrator: 30 }, dndEnabled: false, dndStart: '22:00', dndEnd: '07:00',
+    notificationChannels: { push: true, email: false }, geminiApiKey: null, brapiToken: null, autoBackup: false, betaFeatures: false, devMode: false,
+    realTerms: false, valuation: { bazinYield: 8, discountRate: 12, growthRate: null, targetPvp: 1, safetyMargin: 15 }, valuationByTicker: {}
 };
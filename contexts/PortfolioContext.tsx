@@ -1,10 +1,19 @@
 
-import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
-import type { AppPreferences, Transaction, AppNotification, Asset, MonthlyIncome } from '../types';
-import { usePersistentState, calculatePortfolioMetrics, safeFloat } from '../utils';
-import { DEFAULT_PREFERENCES } from '../constants';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type { AppPreferences, Transaction, AppNotification, Asset, MonthlyIncome, CorporateAction, DividendHistoryEvent, PortfolioAccount, CashMovement, PortfolioEvolutionPoint, BenchmarkId, IncomeGoal } from '../types';
+import { usePersistentState, simulateDrip, calculatePerformanceAttribution, getPerformancePeriodBase, createDeflator, deflateMonthlyHistory, deflateEvolution, mergePriceSeries, addDaysISO, getTodayISODate, calculatePortfolioMetrics, getTickerLineage, getTransactionEffectiveDate, isSaleTransaction, calculateMonthlyTaxes, safeFloat } from '../utils';
+import type { CashLedgerEntry, MonthlyTaxResult, RealizedSale, PriceSeries, DividendForecast, DripMode, DripSimulation, Deflator, PerformanceAttribution, PerformancePeriod } from '../utils';
+import { DEFAULT_PREFERENCES, DEFAULT_ACCOUNTS, DEFAULT_ACCOUNT_ID, CONSOLIDATED_ACCOUNT_ID } from '../constants';
 import { usePortfolioCalculations, PayerData } from '../hooks/usePortfolioCalculations';
+import { toRealPerformance } from '../hooks/usePortfolioPerformance';
+import type { PerformanceByPeriod } from '../hooks/usePortfolioPerformance';
 import { fetchBrapiQuotes } from '../services/brapiService';
+import { loadBenchmarks, saveBenchmarks, parseBenchmarkFile, mergeBenchmarkPoints, fetchBenchmarkFromProvider, getBenchmarkIndex } from '../services/benchmarkService';
+import type { BenchmarkStore } from '../services/benchmarkService';
+import { loadScreenerUniverse, saveScreenerUniverse, parseScreenerFile, mergeScreenerFunds, fetchScreenerFundamentals } from '../services/screenerService';
+import type { ScreenerUniverse } from '../services/screenerService';
+import { loadPriceHistory, appendPriceHistory, backfillPriceHistory as fetchPriceHistoryRange, getPriceHistory } from '../services/priceHistoryService';
+import type { PriceHistoryRange } from '../services/priceHistoryService';
 import { fetchAdvancedAssetData } from '../services/geminiService'; // Import Gemini service
 
 // --- Helper Functions ---
@@ -20,11 +29,54 @@ const chunkArray = <T,>(array: T[], size: number): T[][] => {
 interface PortfolioContextType {
     preferences: AppPreferences;
     updatePreferences: (prefs: Partial<AppPreferences>) => void;
-    transactions: Transaction[];
+    accounts: PortfolioAccount[];
+    activeAccountId: string;
+    setActiveAccountId: (id: string) => void;
+    addAccount: (account: PortfolioAccount) => void;
+    updateAccount: (account: PortfolioAccount) => void;
+    deleteAccount: (id: string) => void;
+    getAccountBrokerage: (accountId?: string) => number;
+    transactions: Transaction[]; // Apenas da conta ativa (ou todas no modo consolidado)
+    allTransactions: Transaction[];
     addTransaction: (tx: Transaction) => void;
     updateTransaction: (tx: Transaction) => void;
     deleteTransaction: (id: string) => void;
     importTransactions: (txs: Transaction[]) => void;
+    corporateActions: CorporateAction[];
+    addCorporateAction: (action: CorporateAction) => void;
+    updateCorporateAction: (action: CorporateAction) => void;
+    deleteCorporateAction: (id: string) => void;
+    incomeGoals: IncomeGoal[];
+    addIncomeGoal: (goal: IncomeGoal) => void;
+    updateIncomeGoal: (goal: IncomeGoal) => void;
+    deleteIncomeGoal: (id: string) => void;
+    cashMovements: CashMovement[]; // Apenas da conta ativa (ou todas no modo consolidado)
+    allCashMovements: CashMovement[];
+    addCashMovement: (movement: CashMovement) => void;
+    updateCashMovement: (movement: CashMovement) => void;
+    deleteCashMovement: (id: string) => void;
+    cashLedger: CashLedgerEntry[];
+    cashBalance: number;
+    portfolioPerformance: PerformanceByPeriod;
+    assetPerformance: Record<string, PerformanceByPeriod>;
+    portfolioEvolution: PortfolioEvolutionPoint[]; // Sempre nominal, base para cálculos
+    displayedPortfolioEvolution: PortfolioEvolutionPoint[]; // Em reais de hoje quando realTerms; só para exibição
+    getPortfolioEvolution: (from: string, to?: string) => PortfolioEvolutionPoint[]; // Recorte da série exibida
+    getDripSimulation: (mode: DripMode, segments: Record<string, string>) => DripSimulation; // segments: ticker -> segmento das metas
+    getPerformanceAttribution: (period: PerformancePeriod) => PerformanceAttribution | null;
+    benchmarks: BenchmarkStore;
+    importBenchmarks: (content: string) => BenchmarkId[];
+    refreshBenchmark: (id: BenchmarkId) => Promise<number>;
+    removeBenchmark: (id: BenchmarkId) => void;
+    screenerUniverse: ScreenerUniverse;
+    importScreenerUniverse: (content: string) => number;
+    refreshScreenerFunds: (tickers: string[]) => Promise<{ updated: number; failed: string[] }>;
+    removeScreenerFund: (ticker: string) => void;
+    realTerms: boolean; // Preferência ativa e série do IPCA disponível
+    inflationDeflator: Deflator | null;
+    priceHistory: Record<string, PriceSeries>;
+    backfillPriceHistory: (range: PriceHistoryRange, tickers?: string[]) => Promise<{ count: number; failed: string[] }>;
+    getPriceHistory: (ticker: string, from?: string, to?: string) => Promise<PriceSeries>;
     assets: Asset[];
     getAssetByTicker: (ticker: string) => Asset | undefined;
     marketDataError: string | null;
@@ -45,7 +97,7 @@ interface PortfolioContextType {
     setTheme: (themeId: string) => void;
     setFont: (fontId: string) => void;
     resetApp: () => void;
-    restoreData: (data: { transactions: Transaction[], preferences?: Partial<AppPreferences> }) => void;
+    restoreData: (data: { transactions: Transaction[], corporateActions?: CorporateAction[], cashMovements?: CashMovement[], accounts?: PortfolioAccount[], taxPayments?: Record<string, string>, incomeGoals?: IncomeGoal[], preferences?: Partial<AppPreferences> }) => void;
     
     apiStats: { gemini: { requests: number; bytesSent: number; bytesReceived: number }, brapi: { requests: number; bytesReceived: number } };
     logApiUsage: (api: 'gemini' | 'brapi', stats: any) => void;
@@ -60,11 +112,21 @@ interface PortfolioContextType {
     totalReceived: number;
     yieldOnCost: number;
     projectedAnnualIncome: number;
+    dividendForecast: DividendForecast;
     getAveragePriceForTransaction: (tx: Transaction) => number;
+    getRealizedGainForTransaction: (tx: Transaction) => number | null;
+    monthlyTaxes: MonthlyTaxResult[];
+    taxPayments: Record<string, string>;
+    toggleDarfPaid: (month: string) => void;
+    importTaxPayments: (payments: Record<string, string>) => void;
     privacyMode: boolean;
     togglePrivacyMode: () => void;
     fullIncomeHistory: Record<string, number>;
     annualDistribution: Record<string, Record<string, number>>;
+    totalAmortized: number;
+    amortizationHistory: Record<string, number>;
+    annualAmortizations: Record<string, Record<string, number>>;
+    dividendsByTicker: Record<string, DividendHistoryEvent[]>;
 }
 
 const PortfolioContext = createContext<PortfolioContextType | undefined>(undefined);
@@ -73,19 +135,50 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     // State definitions
     const [preferences, setPreferences] = usePersistentState<AppPreferences>('preferences', DEFAULT_PREFERENCES);
     const [transactions, setTransactions] = usePersistentState<Transaction[]>('transactions', []);
+    const [cashMovements, setCashMovements] = usePersistentState<CashMovement[]>('cash_movements', []);
+    const [accounts, setAccounts] = usePersistentState<PortfolioAccount[]>('accounts', DEFAULT_ACCOUNTS);
+    const [activeAccountId, setActiveAccountId] = usePersistentState<string>('active_account', CONSOLIDATED_ACCOUNT_ID);
+    const [corporateActions, setCorporateActions] = usePersistentState<CorporateAction[]>('corporate_actions', []);
+    const [incomeGoals, setIncomeGoals] = usePersistentState<IncomeGoal[]>('income_goals', []);
     const [marketData, setMarketData] = usePersistentState<Record<string, any>>('market_data', {});
     const [notifications, setNotifications] = usePersistentState<AppNotification[]>('notifications', []);
     const [userProfile, setUserProfile] = usePersistentState('user_profile', { name: 'Investidor', email: '', avatarUrl: '' });
     const [apiStats, setApiStats] = usePersistentState('api_stats', { gemini: { requests: 0, bytesSent: 0, bytesReceived: 0 }, brapi: { requests: 0, bytesReceived: 0 } });
     const [privacyMode, setPrivacyMode] = usePersistentState('privacy_mode', false);
+    const [taxPayments, setTaxPayments] = usePersistentState<Record<string, string>>('tax_payments', {}); // Mês (YYYY-MM) -> data do pagamento do DARF
+    
+    const [benchmarks, setBenchmarks] = useState<BenchmarkStore>({}); // Cache próprio (CacheManager), fora do backup
+    const benchmarksLoaded = useRef(false);
+    const [screenerUniverse, setScreenerUniverse] = useState<ScreenerUniverse>({}); // Cache próprio, fora do backup
+    const screenerLoaded = useRef(false);
+    const [priceHistory, setPriceHistory] = useState<Record<string, PriceSeries>>({}); // Espelho do store 'price_history' do IndexedDB
+    const mergePriceHistory = useCallback((histories: Record<string, PriceSeries>) => {
+        if (Object.keys(histories).length === 0) return;
+        setPriceHistory(prev => {
+            const next = { ...prev };
+            Object.entries(histories).forEach(([ticker, series]) => { next[ticker] = mergePriceSeries(prev[ticker] || [], series); });
+            return next;
+        });
+    }, []);
     
     const [isRefreshing, setIsRefreshing] = useState(false);
     const [marketDataError, setMarketDataError] = useState<string | null>(null);
     const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
     const marketDataRef = useRef(marketData);
 
+    // Conta ativa: todas as telas enxergam só as transações dela (ou todas no consolidado)
+    const visibleTransactions = useMemo(() => {
+        if (activeAccountId === CONSOLIDATED_ACCOUNT_ID) return transactions;
+        return transactions.filter(tx => (tx.accountId || DEFAULT_ACCOUNT_ID) === activeAccountId);
+    }, [transactions, activeAccountId]);
+
+    const visibleCashMovements = useMemo(() => {
+        if (activeAccountId === CONSOLIDATED_ACCOUNT_ID) return cashMovements;
+        return cashMovements.filter(m => (m.accountId || DEFAULT_ACCOUNT_ID) === activeAccountId);
+    }, [cashMovements, activeAccountId]);
+
     // Derived State via Hook
-    const calculations = usePortfolioCalculations(transactions, marketData);
+    const calculations = usePortfolioCalculations(visibleTransactions, marketData, corporateActions, visibleCashMovements, priceHistory);
     
     // Effects
     useEffect(() => {
@@ -96,6 +189,34 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         document.documentElement.setAttribute('data-theme', preferences.currentThemeId.includes('dark') ? 'dark' : 'light');
     }, [preferences.currentThemeId]);
 
+    useEffect(() => {
+        loadBenchmarks().then(stored => {
+            benchmarksLoaded.current = true;
+            setBenchmarks(prev => ({ ...stored, ...prev }));
+        });
+    }, []);
+
+    useEffect(() => {
+        if (benchmarksLoaded.current) saveBenchmarks(benchmarks);
+    }, [benchmarks]);
+
+    useEffect(() => {
+        loadScreenerUniverse().then(stored => {
+            screenerLoaded.current = true;
+            setScreenerUniverse(prev => ({ ...stored, ...prev }));
+        });
+    }, []);
+
+    useEffect(() => {
+        if (screenerLoaded.current) saveScreenerUniverse(screenerUniverse);
+    }, [screenerUniverse]);
+
+    useEffect(() => {
+        loadPriceHistory()
+            .then(stored => mergePriceHistory(stored))
+            .catch(e => console.error('Error loading price history:', e));
+    }, []);
+
     useEffect(() => {
         window.addEventListener('beforeinstallprompt', (e) => {
             e.preventDefault();
@@ -118,15 +239,60 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         setPreferences(prev => ({ ...prev, ...prefs }));
     };
 
-    const addTransaction = (tx: Transaction) => setTransactions(prev => [...prev, tx]);
+    // Sem conta explícita, o lançamento vai para a conta ativa (ou a principal no consolidado)
+    const withAccount = <T extends { accountId?: string }>(entry: T): T => entry.accountId
+        ? entry
+        : { ...entry, accountId: activeAccountId === CONSOLIDATED_ACCOUNT_ID ? DEFAULT_ACCOUNT_ID : activeAccountId };
+
+    const addTransaction = (tx: Transaction) => setTransactions(prev => [...prev, withAccount(tx)]);
     const updateTransaction = (tx: Transaction) => setTransactions(prev => prev.map(t => t.id === tx.id ? tx : t));
     const deleteTransaction = (id: string) => setTransactions(prev => prev.filter(t => t.id !== id));
-    const importTransactions = (txs: Transaction[]) => setTransactions(prev => [...prev, ...txs]);
+    const importTransactions = (txs: Transaction[]) => setTransactions(prev => [...prev, ...txs.map(withAccount)]);
+
+    const addCashMovement = (movement: CashMovement) => setCashMovements(prev => [...prev, withAccount(movement)]);
+    const updateCashMovement = (movement: CashMovement) => setCashMovements(prev => prev.map(m => m.id === movement.id ? movement : m));
+    const deleteCashMovement = (id: string) => setCashMovements(prev => prev.filter(m => m.id !== id));
+
+    const addAccount = (account: PortfolioAccount) => setAccounts(prev => [...prev, account]);
+    const updateAccount = (account: PortfolioAccount) => setAccounts(prev => prev.map(a => a.id === account.id ? account : a));
+    const deleteAccount = (id: string) => {
+        // A conta principal não pode ser removida; transações da conta excluída voltam para ela
+        if (id === DEFAULT_ACCOUNT_ID) return;
+        setAccounts(prev => prev.filter(a => a.id !== id));
+        setTransactions(prev => prev.map(t => t.accountId === id ? { ...t, accountId: DEFAULT_ACCOUNT_ID } : t));
+        setCashMovements(prev => prev.map(m => m.accountId === id ? { ...m, accountId: DEFAULT_ACCOUNT_ID } : m));
+        if (activeAccountId === id) setActiveAccountId(CONSOLIDATED_ACCOUNT_ID);
+    };
+
+    const getAccountBrokerage = (accountId?: string) => {
+        const account = accounts.find(a => a.id === (accountId || DEFAULT_ACCOUNT_ID));
+        return account?.defaultBrokerage ?? preferences.defaultBrokerage;
+    };
+
+    const addCorporateAction = (action: CorporateAction) => setCorporateActions(prev => [...prev, action]);
+    const updateCorporateAction = (action: CorporateAction) => setCorporateActions(prev => prev.map(a => a.id === action.id ? action : a));
+    const deleteCorporateAction = (id: string) => setCorporateActions(prev => prev.filter(a => a.id !== id));
+
+    const addIncomeGoal = (goal: IncomeGoal) => setIncomeGoals(prev => [...prev, goal]);
+    const updateIncomeGoal = (goal: IncomeGoal) => setIncomeGoals(prev => prev.map(g => g.id === goal.id ? goal : g));
+    const deleteIncomeGoal = (id: string) => setIncomeGoals(prev => prev.filter(g => g.id !== id));
 
     const getAssetByTicker = (ticker: string) => calculations.assets.find(a => a.ticker === ticker);
 
+    // Tickers que já passaram pela carteira e não estão mais nela (vendidos ou antecessores de mudança de ticker/incorporação)
+    const formerTickers = useMemo(() => {
+        const held = new Set((calculations.assets as Asset[]).map(a => a.ticker.toUpperCase()));
+        const tickers = new Set<string>();
+        transactions.forEach(tx => tickers.add(tx.ticker.toUpperCase()));
+        corporateActions.forEach(action => {
+            tickers.add(action.ticker.toUpperCase());
+            if (action.successorTicker) tickers.add(action.successorTicker.toUpperCase());
+        });
+        return Array.from(tickers).filter(ticker => !held.has(ticker));
+    }, [transactions, corporateActions, calculations.assets]);
+
     const refreshMarketData = useCallback(async (force = false) => {
-        if (isRefreshing || calculations.assets.length === 0) return;
+        if (isRefreshing || (calculations.assets.length === 0 && formerTickers.length === 0)) return;
         setIsRefreshing(true);
         setMarketDataError(null);
         let brapiErrorOccurred = false;
@@ -149,6 +315,14 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
                     });
                     return next;
                 });
+                // O market_data guarda só a janela recente; os candles novos vão para o store de histórico
+                const histories: Record<string, PriceSeries> = {};
+                Object.keys(priceQuotes).forEach(ticker => {
+                    const history = priceQuotes[ticker as keyof typeof priceQuotes].priceHistory || [];
+                    if (history.length > 0) histories[ticker] = history;
+                });
+                mergePriceHistory(histories);
+                appendPriceHistory(histories).catch(e => console.error('Error saving price history:', e));
             } catch (brapiError) {
                 console.error("Brapi Error:", brapiError);
                 brapiErrorOccurred = true;
@@ -162,10 +336,16 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
                 : (calculations.assets as Asset[])
                     .filter(a => !a.lastFundamentalUpdate || Date.now() - (a.lastFundamentalUpdate || 0) > ONE_DAY_MS)
                     .map(a => a.ticker);
+            // Fora da carteira só o histórico de proventos importa (caixa, renda e IRPF)
+            const formerNeedingUpdate = formerTickers.filter(ticker => {
+                const lastUpdate = marketData[ticker]?.lastFundamentalUpdate;
+                return force || !lastUpdate || Date.now() - lastUpdate > ONE_DAY_MS;
+            });
+            const former = new Set(formerNeedingUpdate);
     
-            if (assetsNeedingUpdate.length > 0) {
+            if (assetsNeedingUpdate.length + formerNeedingUpdate.length > 0) {
                 // Batch processing to be nicer to the Gemini API
-                const batches = chunkArray(assetsNeedingUpdate, 5); // Process in batches of 5
+                const batches = chunkArray([...assetsNeedingUpdate, ...formerNeedingUpdate], 5); // Process in batches of 5
                 
                 for (let i = 0; i < batches.length; i++) {
                     const batch = batches[i];
@@ -178,7 +358,8 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
                             // FIX: Use Object.keys to ensure ticker is a string and fix indexing errors with 'unknown' type.
                             Object.keys(fundamentalData).forEach(ticker => {
                                 const data = fundamentalData[ticker];
-                                next[ticker] = { ...(prev[ticker] || {}), ...data, lastFundamentalUpdate: Date.now() };
+                                const update = former.has(ticker) ? (data.dividendsHistory ? { dividendsHistory: data.dividendsHistory } : {}) : data;
+                                next[ticker] = { ...(prev[ticker] || {}), ...update, lastFundamentalUpdate: Date.now() };
                             });
                             return next;
                         });
@@ -218,7 +399,7 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
                  setMarketDataError(`Alguns dados fundamentais falharam: ${failedGeminiTickers.slice(0, 3).join(', ')}...`);
             }
         }
-    }, [isRefreshing, calculations.assets, preferences]);
+    }, [isRefreshing, calculations.assets, formerTickers, marketData, preferences]);
 
     const refreshSingleAsset = async (ticker: string, force = false) => {
          if (isRefreshing) return;
@@ -275,6 +456,14 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
 
     const restoreData = (data: any) => {
         if (data.transactions) setTransactions(data.transactions);
+        if (data.corporateActions) setCorporateActions(data.corporateActions);
+        if (data.cashMovements) setCashMovements(data.cashMovements);
+        if (data.taxPayments) setTaxPayments(data.taxPayments);
+        if (data.incomeGoals) setIncomeGoals(data.incomeGoals);
+        if (data.accounts) {
+            setAccounts(data.accounts);
+            setActiveAccountId(CONSOLIDATED_ACCOUNT_ID);
+        }
         if (data.preferences) setPreferences(prev => ({ ...prev, ...data.preferences }));
     };
 
@@ -288,20 +477,184 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         }
     };
 
+    // O preço médio para IR é único por investidor: considera todas as contas
     const getAveragePriceForTransaction = (tx: Transaction) => {
-        const previousTxs = transactions
-            .filter(t => t.ticker === tx.ticker && t.date < tx.date)
-            .sort((a,b) => a.date.localeCompare(b.date));
+        // Direitos de subscrição são recebidos com custo zero
+        if (tx.type === 'VendaDireito') return 0;
+        const txDate = getTransactionEffectiveDate(tx);
+        const lineage = getTickerLineage(tx.ticker, corporateActions);
+        const previousTxs = transactions.filter(t => lineage.includes(t.ticker) && getTransactionEffectiveDate(t) < txDate);
+        const previousActions = corporateActions.filter(a => lineage.includes(a.ticker) && a.date < txDate);
+        const previousDividends: Record<string, DividendHistoryEvent[]> = {};
+        lineage.forEach(ticker => {
+            previousDividends[ticker] = (calculations.dividendsByTicker[ticker] || []).filter(d => d.exDate <= txDate);
+        });
 
-        const metrics = calculatePortfolioMetrics(previousTxs)[tx.ticker];
+        const metrics = calculatePortfolioMetrics(previousTxs, previousActions, previousDividends)[tx.ticker];
         return metrics && metrics.quantity > 0 ? metrics.totalCost / metrics.quantity : 0;
     };
+
+    // Lucro/prejuízo da venda; null para transações que não são vendas
+    const getRealizedGainForTransaction = (tx: Transaction) => {
+        if (!isSaleTransaction(tx)) return null;
+        const avgPriceBeforeSale = getAveragePriceForTransaction(tx);
+        // Venda de direitos: custo zero, todo o valor líquido é ganho
+        if (avgPriceBeforeSale === 0 && tx.type !== 'VendaDireito') return 0;
+        return (tx.price - avgPriceBeforeSale) * tx.quantity - (tx.costs || 0);
+    };
+
+    // IR é apurado por investidor: todas as contas entram no cálculo mensal
+    const monthlyTaxes = useMemo(() => {
+        const sales: RealizedSale[] = transactions.filter(isSaleTransaction).map(tx => ({
+            id: tx.id,
+            ticker: tx.ticker,
+            date: tx.date,
+            grossValue: safeFloat(tx.quantity * tx.price),
+            gain: safeFloat(getRealizedGainForTransaction(tx) || 0),
+        }));
+        return calculateMonthlyTaxes(sales);
+    }, [transactions, corporateActions, calculations.dividendsByTicker]);
+
+    // --- Valores reais (IPCA) ---
+    const inflationDeflator = useMemo(() => {
+        const ipca = benchmarks.IPCA;
+        return ipca && ipca.points.length > 0 ? createDeflator(getBenchmarkIndex(ipca), getTodayISODate()) : null;
+    }, [benchmarks.IPCA]);
+    const realTerms = !!preferences.realTerms && inflationDeflator !== null;
+
+    // Renda, evolução e rentabilidade exibidas (nominais ou em reais de hoje)
+    const { fullIncomeHistory, monthlyIncome, portfolioEvolution, portfolioPerformance, assetPerformance } = calculations;
+    const displayed = useMemo(() => {
+        if (!realTerms || !inflationDeflator) return { fullIncomeHistory, monthlyIncome, portfolioEvolution, portfolioPerformance, assetPerformance };
+        const today = getTodayISODate();
+        return {
+            fullIncomeHistory: deflateMonthlyHistory(fullIncomeHistory, inflationDeflator),
+            monthlyIncome: monthlyIncome.map(m => m.key ? { ...m, total: safeFloat(m.total * inflationDeflator(`${m.key}-15`)) } : m),
+            portfolioEvolution: deflateEvolution(portfolioEvolution, inflationDeflator),
+            portfolioPerformance: toRealPerformance(portfolioPerformance, inflationDeflator, today),
+            assetPerformance: Object.fromEntries((Object.entries(assetPerformance) as [string, PerformanceByPeriod][]).map(([ticker, performance]) =>
+                [ticker, toRealPerformance(performance, inflationDeflator, today)])) as Record<string, PerformanceByPeriod>,
+        };
+    }, [realTerms, inflationDeflator, fullIncomeHistory, monthlyIncome, portfolioEvolution, portfolioPerformance, assetPerformance]);
+
+    const getPortfolioEvolution = useCallback((from: string, to = getTodayISODate()) =>
+        displayed.portfolioEvolution.filter(p => p.dateISO >= from && p.dateISO <= to), [displayed.portfolioEvolution]);
+
+    const getDripSimulation = useCallback((mode: DripMode, segments: Record<string, string>) => simulateDrip(
+        visibleTransactions,
+        corporateActions,
+        calculations.dividendsByTicker,
+        calculations.priceSeries,
+        getTodayISODate(),
+        { mode, segments, segmentGoals: preferences.segmentGoals }
+    ), [visibleTransactions, corporateActions, calculations.dividendsByTicker, calculations.priceSeries, preferences.segmentGoals]);
+
+    const getPerformanceAttribution = useCallback((period: PerformancePeriod) => {
+        const today = getTodayISODate();
+        return calculatePerformanceAttribution(
+            visibleTransactions,
+            corporateActions,
+            calculations.dividendsByTicker,
+            calculations.priceSeries,
+            getPerformancePeriodBase(period, today),
+            today
+        );
+    }, [visibleTransactions, corporateActions, calculations.dividendsByTicker, calculations.priceSeries]);
+
+    // --- Benchmarks ---
+    const importBenchmarks = (content: string): BenchmarkId[] => {
+        const parsed = parseBenchmarkFile(content);
+        const ids = (Object.keys(parsed) as BenchmarkId[]).filter(id => (parsed[id] || []).length > 0);
+        if (ids.length > 0) {
+            const updatedAt = new Date().toISOString();
+            setBenchmarks(prev => {
+                const next = { ...prev };
+                ids.forEach(id => { next[id] = { id, points: mergeBenchmarkPoints(prev[id]?.points || [], parsed[id]!), source: 'import', updatedAt }; });
+                return next;
+            });
+        }
+        return ids;
+    };
+
+    const refreshBenchmark = async (id: BenchmarkId): Promise<number> => {
+        const existing = benchmarks[id]?.points || [];
+        // Continua de onde parou; sem histórico, desde a primeira transação (até 10 anos)
+        const firstTransaction = transactions.reduce((min, tx) => tx.date < min ? tx.date : min, getTodayISODate());
+        const oldestAllowed = addDaysISO(getTodayISODate(), -3650);
+        const startDate = existing.length > 0
+            ? existing[existing.length - 1].date
+            : (firstTransaction > oldestAllowed ? firstTransaction : oldestAllowed);
+        const points = await fetchBenchmarkFromProvider(id, preferences, startDate);
+        setBenchmarks(prev => ({
+            ...prev,
+            [id]: { id, points: mergeBenchmarkPoints(prev[id]?.points || [], points), source: 'provider', updatedAt: new Date().toISOString() },
+        }));
+        return points.length;
+    };
+
+    const removeBenchmark = (id: BenchmarkId) => setBenchmarks(prev => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+    });
+
+    // --- Screener ---
+    const importScreenerUniverse = (content: string): number => {
+        const funds = parseScreenerFile(content);
+        if (funds.length > 0) setScreenerUniverse(prev => mergeScreenerFunds(prev, funds));
+        return funds.length;
+    };
+
+    const refreshScreenerFunds = async (tickers: string[]) => {
+        let updated = 0;
+        const { failed } = await fetchScreenerFundamentals(preferences, tickers, funds => {
+            updated += funds.filter(f => f.updatedAt).length;
+            setScreenerUniverse(prev => mergeScreenerFunds(prev, funds));
+        });
+        return { updated, failed };
+    };
+
+    const removeScreenerFund = (ticker: string) => setScreenerUniverse(prev => {
+        const next = { ...prev };
+        delete next[ticker];
+        return next;
+    });
+
+    // --- Histórico de cotações ---
+    const backfillPriceHistory = async (range: PriceHistoryRange, tickers?: string[]) => {
+        // Inclui ativos já vendidos, que ainda entram na reconstrução do patrimônio
+        const targets = tickers || Array.from(new Set(transactions.map(tx => tx.ticker.toUpperCase())));
+        const { fetched, failed } = await fetchPriceHistoryRange(preferences, targets, range);
+        mergePriceHistory(fetched);
+        logApiUsage('brapi', { requests: targets.length });
+        return { count: Object.values(fetched).reduce((acc, series) => acc + series.length, 0), failed };
+    };
+
+    const toggleDarfPaid = (month: string) => setTaxPayments(prev => {
+        const next = { ...prev };
+        if (next[month]) delete next[month];
+        else next[month] = new Date().toISOString().split('T')[0];
+        return next;
+    });
+
+    // Mescla pagamentos de DARF de um backup; os já marcados aqui prevalecem
+    const importTaxPayments = (payments: Record<string, string>) => setTaxPayments(prev => ({ ...payments, ...prev }));
     
     const togglePrivacyMode = () => setPrivacyMode(prev => !prev);
 
     const value: PortfolioContextType = {
         preferences, updatePreferences,
-        transactions, addTransaction, updateTransaction, deleteTransaction, importTransactions,
+        accounts, activeAccountId, setActiveAccountId, addAccount, updateAccount, deleteAccount, getAccountBrokerage,
+        transactions: visibleTransactions, allTransactions: transactions, addTransaction, updateTransaction, deleteTransaction, importTransactions,
+        corporateActions, addCorporateAction, updateCorporateAction, deleteCorporateAction,
+        incomeGoals, addIncomeGoal, updateIncomeGoal, deleteIncomeGoal,
+        cashMovements: visibleCashMovements, allCashMovements: cashMovements, addCashMovement, updateCashMovement, deleteCashMovement,
+        cashLedger: calculations.cashLedger, cashBalance: calculations.cashBalance,
+        portfolioPerformance: displayed.portfolioPerformance, assetPerformance: displayed.assetPerformance,
+        portfolioEvolution: calculations.portfolioEvolution, displayedPortfolioEvolution: displayed.portfolioEvolution, getPortfolioEvolution, getDripSimulation, getPerformanceAttribution,
+        benchmarks, importBenchmarks, refreshBenchmark, removeBenchmark, realTerms, inflationDeflator,
+        screenerUniverse, importScreenerUniverse, refreshScreenerFunds, removeScreenerFund,
+        priceHistory, backfillPriceHistory, getPriceHistory,
         assets: calculations.assets, getAssetByTicker,
         marketDataError, refreshMarketData, refreshSingleAsset, isRefreshing,
         notifications, unreadNotificationsCount: notifications.filter(n => !n.read).length,
@@ -310,15 +663,22 @@ export const PortfolioProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         setTheme, setFont, resetApp, restoreData,
         apiStats, logApiUsage, resetApiStats,
         deferredPrompt, installPwa,
-        monthlyIncome: calculations.monthlyIncome,
+        monthlyIncome: displayed.monthlyIncome,
         payersData: calculations.payersData,
         totalReceived: calculations.totalReceived,
         yieldOnCost: calculations.yieldOnCost,
         projectedAnnualIncome: calculations.projectedAnnualIncome,
+        dividendForecast: calculations.dividendForecast,
         getAveragePriceForTransaction,
+        getRealizedGainForTransaction,
+        monthlyTaxes, taxPayments, toggleDarfPaid, importTaxPayments,
         privacyMode, togglePrivacyMode,
-        fullIncomeHistory: calculations.fullIncomeHistory,
-        annualDistribution: calculations.annualDistribution
+        fullIncomeHistory: displayed.fullIncomeHistory,
+        annualDistribution: calculations.annualDistribution,
+        totalAmortized: calculations.totalAmortized,
+        amortizationHistory: calculations.amortizationHistory,
+        annualAmortizations: calculations.annualAmortizations,
+        dividendsByTicker: calculations.dividendsByTicker
     };
 
     return <PortfolioContext.Provider value={value}>{children}</PortfolioContext.Provider>;
@@ -0,0 +1,62 @@
+import { useMemo } from 'react';
+import type { Asset, ConcentrationLimits } from '../types';
+import { buildTotalReturnIndex, calculateCorrelationMatrix, calculateConcentration, mergePriceSeries, addDaysISO, getTodayISODate } from '../utils';
+import type { ConcentrationResult, PriceSeries } from '../utils';
+
+export type ConcentrationGroup = 'ticker' | 'segment' | 'administrator';
+
+export interface ConcentrationWarning {
+    group: ConcentrationGroup;
+    name: string;
+    share: number;
+    limit: number;
+}
+
+// Correlação dos últimos 12 meses e concentração por ativo, segmento e administrador
+export const useDiversification = (assets: Asset[], priceHistory: Record<string, PriceSeries>, limits: ConcentrationLimits) => {
+    const holdings = useMemo(() =>
+        assets.filter(a => a.quantity > 0).sort((a, b) => b.quantity * b.currentPrice - a.quantity * a.currentPrice),
+    [assets]);
+
+    const correlation = useMemo(() => {
+        const from = addDaysISO(getTodayISODate(), -365);
+        const tickers = holdings.map(a => a.ticker);
+        const series = Object.fromEntries(holdings.map(asset => {
+            const prices = mergePriceSeries(priceHistory[asset.ticker] || [], asset.priceHistory).filter(p => p.date >= from);
+            return [asset.ticker, buildTotalReturnIndex(prices, asset.dividendsHistory)];
+        }));
+        return { tickers, matrix: calculateCorrelationMatrix(tickers, series) };
+    }, [holdings, priceHistory]);
+
+    const concentration = useMemo(() => {
+        // Participação sobre a carteira inteira: ativos sem a chave não inflam os grupos conhecidos
+        const total = holdings.reduce((acc, asset) => acc + asset.quantity * asset.currentPrice, 0);
+        const sumBy = (key: (asset: Asset) => string | undefined) => {
+            const values: Record<string, number> = {};
+            holdings.forEach(asset => {
+                const name = key(asset);
+                if (name) values[name] = (values[name] || 0) + asset.quantity * asset.currentPrice;
+            });
+            return calculateConcentration(values, total);
+        };
+        const groups: Record<ConcentrationGroup, ConcentrationResult> = {
+            ticker: sumBy(a => a.ticker),
+            segment: sumBy(a => a.segment),
+            // Sem administrador conhecido não dá para agrupar
+            administrator: sumBy(a => a.administrator?.trim() || undefined),
+        };
+
+        const warnings: ConcentrationWarning[] = [];
+        (Object.keys(groups) as ConcentrationGroup[]).forEach(group => {
+            groups[group].shares
+                .filter(s => s.share > limits[group])
+                .forEach(s => warnings.push({ group, name: s.name, share: s.share, limit: limits[group] }));
+        });
+
+        // Nota 0-100 (1 - HHI): um único ativo vale 0; dez ativos do mesmo tamanho, 90
+        const score = holdings.length > 0 ? Math.round((1 - groups.ticker.hhi) * 100) : 0;
+        return { groups, warnings, score };
+    }, [holdings, limits]);
+
+    return { correlation, ...concentration };
+};
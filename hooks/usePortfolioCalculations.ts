@@ -1,8 +1,10 @@
 
 import { useMemo } from 'react';
-import type { Asset, Transaction, MonthlyIncome, DividendHistoryEvent } from '../types';
-import { calculatePortfolioMetrics, safeFloat } from '../utils';
+import type { Asset, Transaction, MonthlyIncome, DividendHistoryEvent, CorporateAction, CashMovement } from '../types';
+import { calculatePortfolioMetrics, buildLedger, applyLedgerEntry, isCapitalReturn, isTickerMigration, getTickerLineage, buildCashLedger, forecastPortfolioDividends, getTodayISODate, safeFloat } from '../utils';
+import type { PositionMetrics, PaidProvento, PriceSeries } from '../utils';
 import { STATIC_FII_SECTORS } from '../constants';
+import { usePortfolioPerformance } from './usePortfolioPerformance';
 
 export interface PayerData {
     ticker: string;
@@ -16,9 +18,20 @@ export interface PayerData {
     projectedAmount: number;
 }
 
-export const usePortfolioCalculations = (transactions: Transaction[], marketData: Record<string, any>) => {
+export const usePortfolioCalculations = (transactions: Transaction[], marketData: Record<string, any>, corporateActions: CorporateAction[], cashMovements: CashMovement[], priceHistory: Record<string, PriceSeries>) => {
     
-    const metrics = useMemo(() => calculatePortfolioMetrics(transactions), [transactions]);
+    // Deduplicated proventos per ticker (same data com may carry both rendimento and amortização)
+    const dividendsByTicker = useMemo(() => {
+        const result: Record<string, DividendHistoryEvent[]> = {};
+        Object.keys(marketData).forEach(ticker => {
+            const histMap = new Map<string, DividendHistoryEvent>();
+            (marketData[ticker]?.dividendsHistory || []).forEach((d: DividendHistoryEvent) => histMap.set(`${d.exDate}-${d.kind || 'Rendimento'}`, d));
+            result[ticker] = Array.from(histMap.values()).sort((a,b) => b.exDate.localeCompare(a.exDate));
+        });
+        return result;
+    }, [marketData]);
+
+    const metrics = useMemo(() => calculatePortfolioMetrics(transactions, corporateActions, dividendsByTicker), [transactions, corporateActions, dividendsByTicker]);
 
     const assets = useMemo(() => {
         return Object.keys(metrics).map(ticker => {
@@ -27,9 +40,6 @@ export const usePortfolioCalculations = (transactions: Transaction[], marketData
             const avgPrice = m.quantity > 0 ? m.totalCost / m.quantity : 0;
             const curPrice = data.currentPrice || avgPrice;
             
-            const histMap = new Map<string, DividendHistoryEvent>();
-            (data.dividendsHistory || []).forEach((d: DividendHistoryEvent) => histMap.set(d.exDate, d));
-            
             let segment = data.assetType || data.sector;
             if (!segment || segment === 'Outros') {
                 segment = STATIC_FII_SECTORS[ticker.toUpperCase()];
@@ -46,7 +56,7 @@ export const usePortfolioCalculations = (transactions: Transaction[], marketData
                 avgPrice: safeFloat(avgPrice), 
                 currentPrice: curPrice,
                 priceHistory: data.priceHistory || [],
-                dividendsHistory: Array.from(histMap.values()).sort((a,b) => b.exDate.localeCompare(a.exDate)),
+                dividendsHistory: dividendsByTicker[ticker.toUpperCase()] || [],
                 dy: data.dy, 
                 pvp: data.pvp, 
                 segment: segment,
@@ -69,26 +79,26 @@ export const usePortfolioCalculations = (transactions: Transaction[], marketData
                 managementFee: data.managementFee
             };
         }).filter(a => a.quantity > 0.000001);
-    }, [metrics, marketData]);
+    }, [metrics, marketData, dividendsByTicker]);
 
-    const { monthlyIncome, payersData, totalReceived, fullIncomeHistory, annualDistribution } = useMemo(() => {
+    const { monthlyIncome, payersData, totalReceived, fullIncomeHistory, annualDistribution, totalAmortized, amortizationHistory, annualAmortizations, paidProventos } = useMemo(() => {
         let totalReceived = 0;
+        let totalAmortized = 0;
         const monthlyAggregation: Record<string, number> = {}; // Last 12 months for dashboard
         const fullHistoryAggregation: Record<string, number> = {}; // All time history for reports
         const annualDistribution: Record<string, Record<string, number>> = {}; // Year -> Ticker -> Amount
+        const amortizationHistory: Record<string, number> = {}; // Month -> Capital returned (not income)
+        const annualAmortizations: Record<string, Record<string, number>> = {}; // Year -> Ticker -> Capital returned
         const payerAggregation: Record<string, Partial<PayerData>> = {};
+        const paidAggregation: Record<string, PaidProvento> = {}; // Ticker|paymentDate -> crédito em caixa
         
-        const transactionsByTicker: Record<string, Transaction[]> = {};
-        transactions.forEach(tx => {
-            if (!transactionsByTicker[tx.ticker]) transactionsByTicker[tx.ticker] = [];
-            transactionsByTicker[tx.ticker].push(tx);
-        });
-        Object.values(transactionsByTicker).forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)));
+        const ledger = buildLedger(transactions, corporateActions, dividendsByTicker);
 
+        // Predecessors (ticker changes / mergers) count towards the current holding's payer stats
+        const payerOf: Record<string, string> = {};
         assets.forEach(asset => {
-            const assetTxs = transactionsByTicker[asset.ticker] || [];
-            if (assetTxs.length === 0) return;
-            
+            getTickerLineage(asset.ticker, corporateActions).forEach(ticker => { payerOf[ticker] = asset.ticker; });
+
             const projectedYearly = asset.dy ? (asset.quantity * asset.currentPrice * (asset.dy / 100)) : 0;
             const assetYoC = asset.avgPrice > 0 ? (projectedYearly / (asset.quantity * asset.avgPrice)) * 100 : 0;
 
@@ -99,26 +109,55 @@ export const usePortfolioCalculations = (transactions: Transaction[], marketData
                 count: 0, 
                 projectedAmount: 0 
             };
+        });
 
-            const history = asset.dividendsHistory || [];
-            history.forEach(div => {
-                let qtyOwnedAtExDate = 0;
-                for (const tx of assetTxs) {
-                    if (tx.date >= div.exDate) break;
-                    if (tx.type === 'Compra') qtyOwnedAtExDate += tx.quantity;
-                    else qtyOwnedAtExDate -= tx.quantity;
+        // Every ticker ever held, including funds already sold and successors reached only through a migration
+        const heldTickers = new Set<string>();
+        ledger.forEach(entry => {
+            if (entry.kind === 'transaction') heldTickers.add(entry.ticker);
+            else if (entry.kind === 'corporateAction' && isTickerMigration(entry.data)) heldTickers.add(entry.data.successorTicker!);
+        });
+
+        heldTickers.forEach(ticker => {
+            const lineage = getTickerLineage(ticker, corporateActions);
+            const tickerLedger = ledger.filter(entry => lineage.includes(entry.ticker));
+            const payer = payerOf[ticker] ? payerAggregation[payerOf[ticker]] : undefined;
+
+            (dividendsByTicker[ticker] || []).forEach(div => {
+                const positionsAtExDate: Record<string, PositionMetrics> = {};
+                for (const entry of tickerLedger) {
+                    if (entry.date >= div.exDate) break;
+                    applyLedgerEntry(positionsAtExDate, entry);
                 }
                 
-                qtyOwnedAtExDate = Math.max(0, qtyOwnedAtExDate);
+                const qtyOwnedAtExDate = Math.max(0, positionsAtExDate[ticker]?.quantity || 0);
 
                 if (qtyOwnedAtExDate > 0) {
                     const amount = safeFloat(qtyOwnedAtExDate * div.value);
-                    if (div.isProvisioned) {
-                        payerAggregation[asset.ticker]!.projectedAmount = safeFloat(payerAggregation[asset.ticker]!.projectedAmount! + amount);
+                    if (!div.isProvisioned) {
+                        // Rendimentos e amortizações caem no caixa na data de pagamento
+                        const paidKey = `${ticker}|${div.paymentDate}`;
+                        const paid = paidAggregation[paidKey] || (paidAggregation[paidKey] = { ticker, date: div.paymentDate, amount: 0 });
+                        paid.amount = safeFloat(paid.amount + amount);
+                    }
+                    if (isCapitalReturn(div)) {
+                        // Amortização devolve capital: reduz o custo no ledger e não conta como renda
+                        if (!div.isProvisioned) {
+                            totalAmortized = safeFloat(totalAmortized + amount);
+                            const monthKey = div.paymentDate.substring(0, 7);
+                            amortizationHistory[monthKey] = safeFloat((amortizationHistory[monthKey] || 0) + amount);
+                            const yearKey = div.paymentDate.substring(0, 4);
+                            if (!annualAmortizations[yearKey]) annualAmortizations[yearKey] = {};
+                            annualAmortizations[yearKey][ticker] = safeFloat((annualAmortizations[yearKey][ticker] || 0) + amount);
+                        }
+                    } else if (div.isProvisioned) {
+                        if (payer) payer.projectedAmount = safeFloat(payer.projectedAmount! + amount);
                     } else {
                         totalReceived = safeFloat(totalReceived + amount);
-                        payerAggregation[asset.ticker]!.totalPaid = safeFloat(payerAggregation[asset.ticker]!.totalPaid! + amount);
-                        payerAggregation[asset.ticker]!.count!++;
+                        if (payer) {
+                            payer.totalPaid = safeFloat(payer.totalPaid! + amount);
+                            payer.count!++;
+                        }
                         
                         const monthKey = div.paymentDate.substring(0, 7); 
                         
@@ -128,15 +167,18 @@ export const usePortfolioCalculations = (transactions: Transaction[], marketData
                         // For Full History
                         fullHistoryAggregation[monthKey] = safeFloat((fullHistoryAggregation[monthKey] || 0) + amount);
 
-                        // For Annual Distribution (Yearly Reports)
+                        // For Annual Distribution (Yearly Reports): per-fund, so it stays under the ticker that paid
                         const yearKey = div.paymentDate.substring(0, 4);
                         if (!annualDistribution[yearKey]) annualDistribution[yearKey] = {};
-                        annualDistribution[yearKey][asset.ticker] = safeFloat((annualDistribution[yearKey][asset.ticker] || 0) + amount);
+                        annualDistribution[yearKey][ticker] = safeFloat((annualDistribution[yearKey][ticker] || 0) + amount);
                     }
                 }
             });
+        });
 
-            const sortedHistory = [...history].sort((a,b) => b.exDate.localeCompare(a.exDate));
+        assets.forEach(asset => {
+            const history = asset.dividendsHistory || [];
+            const sortedHistory = history.filter(d => !isCapitalReturn(d)).sort((a,b) => b.exDate.localeCompare(a.exDate));
             const latestDiv = sortedHistory[0];
             const provisioned = sortedHistory.filter(d => d.isProvisioned).sort((a, b) => a.paymentDate.localeCompare(b.paymentDate));
 
@@ -145,7 +187,7 @@ export const usePortfolioCalculations = (transactions: Transaction[], marketData
                 payerAggregation[asset.ticker]!.isProvisioned = provisioned.length > 0;
                 payerAggregation[asset.ticker]!.nextPaymentDate = provisioned.length > 0 ? provisioned[0].paymentDate : latestDiv?.paymentDate;
                 const totalPaid = payerAggregation[asset.ticker]!.totalPaid!;
-                const uniqueMonthsPaid = new Set(history.filter(d => !d.isProvisioned).map(d => d.paymentDate.substring(0,7))).size;
+                const uniqueMonthsPaid = new Set(sortedHistory.filter(d => !d.isProvisioned).map(d => d.paymentDate.substring(0,7))).size;
                 payerAggregation[asset.ticker]!.averageMonthly = uniqueMonthsPaid > 0 ? safeFloat(totalPaid / uniqueMonthsPaid) : 0;
             }
         });
@@ -155,7 +197,7 @@ export const usePortfolioCalculations = (transactions: Transaction[], marketData
         for (let i = 11; i >= 0; i--) {
             const d = new Date(now.getFullYear(), now.getMonth() - i, 1);
             const key = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
-            monthlyData.push({ month: d.toLocaleDateString('pt-BR', { month: 'short', year: '2-digit' }).replace('.', ''), total: monthlyAggregation[key] || 0 });
+            monthlyData.push({ month: d.toLocaleDateString('pt-BR', { month: 'short', year: '2-digit' }).replace('.', ''), total: monthlyAggregation[key] || 0, key });
         }
         
         return { 
@@ -163,25 +205,52 @@ export const usePortfolioCalculations = (transactions: Transaction[], marketData
             payersData: Object.values(payerAggregation) as PayerData[], 
             totalReceived,
             fullIncomeHistory: fullHistoryAggregation,
-            annualDistribution
+            annualDistribution,
+            totalAmortized,
+            amortizationHistory,
+            annualAmortizations,
+            paidProventos: Object.values(paidAggregation)
         };
-    }, [assets, transactions]);
+    }, [assets, transactions, corporateActions, dividendsByTicker]);
+
+    const { cashLedger, cashBalance } = useMemo(() => {
+        const cashLedger = buildCashLedger(transactions, cashMovements, paidProventos);
+        return { cashLedger, cashBalance: cashLedger.length > 0 ? cashLedger[cashLedger.length - 1].balance : 0 };
+    }, [transactions, cashMovements, paidProventos]);
+
+    const dividendForecast = useMemo(() => forecastPortfolioDividends(assets, getTodayISODate()), [assets]);
 
     const { yieldOnCost, projectedAnnualIncome } = useMemo(() => {
         const totalInvested = assets.reduce((acc, a) => acc + (a.quantity * a.avgPrice), 0);
-        const totalProjected = assets.reduce((acc, a) => acc + (a.quantity * a.currentPrice * ((a.dy || 0) / 100)), 0);
+        // Sem histórico de proventos, cai no DY informado pelo provedor
+        const totalProjected = dividendForecast.total.expected > 0
+            ? dividendForecast.total.expected
+            : assets.reduce((acc, a) => acc + (a.quantity * a.currentPrice * ((a.dy || 0) / 100)), 0);
         const yoc = totalInvested > 0 ? (totalProjected / totalInvested) * 100 : 0;
         return { yieldOnCost: safeFloat(yoc), projectedAnnualIncome: safeFloat(totalProjected) };
-    }, [assets]);
+    }, [assets, dividendForecast]);
+
+    const { portfolioPerformance, assetPerformance, portfolioEvolution, priceSeries } = usePortfolioPerformance(transactions, marketData, corporateActions, dividendsByTicker, assets, priceHistory);
 
     return {
         assets,
+        dividendsByTicker,
         monthlyIncome,
         payersData,
         totalReceived,
         yieldOnCost,
         projectedAnnualIncome,
+        dividendForecast,
         fullIncomeHistory,
-        annualDistribution
+        annualDistribution,
+        totalAmortized,
+        amortizationHistory,
+        annualAmortizations,
+        cashLedger,
+        cashBalance,
+        portfolioPerformance,
+        assetPerformance,
+        portfolioEvolution,
+        priceSeries
     };
 };
@@ -0,0 +1,118 @@
+import { useMemo } from 'react';
+import type { Asset, Transaction, DividendHistoryEvent, CorporateAction } from '../types';
+import {
+    buildLedger, getTickerLineage, buildPriceSeries, buildContributionFlows, buildPaidIncome, replayPortfolio, reconstructPortfolioEvolution,
+    uniqueSortedDates, calculateXirr, getPerformancePeriodBase, addDaysISO, daysBetween, getTodayISODate, safeFloat, PERFORMANCE_PERIODS, toRealReturn,
+} from '../utils';
+import type { LedgerEntry, PerformancePeriod, DatedCashFlow, PriceSeries, Deflator } from '../utils';
+
+export interface PerformanceResult {
+    twr: number | null; // % acumulado no período
+    xirr: number | null; // % ao ano
+    baseDate: string | null;
+    startDate: string | null; // Início efetivo (baseDate ou véspera do primeiro aporte)
+}
+
+export type PerformanceByPeriod = Record<PerformancePeriod, PerformanceResult>;
+
+// XIRR anualizado de poucos dias distorce demais
+const MIN_XIRR_DAYS = 30;
+
+// TWR encadeado a cada aporte/resgate e XIRR dos mesmos fluxos
+const calculatePerformance = (
+    ledger: LedgerEntry[],
+    contributions: DatedCashFlow[], // aporte (+) e resgate (-) por data efetiva
+    income: DatedCashFlow[],
+    priceSeries: Record<string, PriceSeries>,
+    base: string | null,
+    today: string
+): PerformanceResult => {
+    const pastContributions = contributions.filter(f => f.date <= today);
+    if (pastContributions.length === 0) return { twr: null, xirr: null, baseDate: base, startDate: null };
+
+    const start = base ?? addDaysISO(pastContributions[0].date, -1);
+    const periodContributions = pastContributions.filter(f => f.date > start);
+    const periodIncome = income.filter(f => f.date > start && f.date <= today);
+    const keyDates = uniqueSortedDates([...periodContributions.map(f => f.date), today]);
+    const { points, hasReturn } = replayPortfolio(ledger, pastContributions, periodIncome, priceSeries, start, keyDates);
+
+    const startValue = points[0].marketValue;
+    const endValue = points[points.length - 1].marketValue;
+    const xirrFlows: DatedCashFlow[] = [
+        ...(startValue > 0 ? [{ date: start, amount: -startValue }] : []),
+        ...periodContributions.map(f => ({ date: f.date, amount: -f.amount })),
+        ...periodIncome,
+        ...(endValue > 0 ? [{ date: today, amount: endValue }] : []),
+    ];
+
+    const xirrStart = xirrFlows.reduce((min, f) => f.date < min ? f.date : min, today);
+    const xirr = daysBetween(xirrStart, today) >= MIN_XIRR_DAYS ? calculateXirr(xirrFlows) : null;
+    const growth = points[points.length - 1].growth;
+
+    return {
+        twr: hasReturn ? safeFloat((growth - 1) * 100) : null,
+        xirr: xirr !== null ? safeFloat(xirr * 100) : null,
+        baseDate: base,
+        startDate: start,
+    };
+};
+
+// Mesmos períodos descontando o IPCA entre o início e hoje
+export const toRealPerformance = (performance: PerformanceByPeriod, deflate: Deflator, today: string): PerformanceByPeriod =>
+    PERFORMANCE_PERIODS.reduce((acc, period) => {
+        const result = performance[period];
+        const start = result.startDate;
+        acc[period] = start ? {
+            ...result,
+            twr: result.twr !== null ? toRealReturn(result.twr, start, today, deflate) : null,
+            xirr: result.xirr !== null ? toRealReturn(result.xirr, start, today, deflate, true) : null,
+        } : result;
+        return acc;
+    }, {} as PerformanceByPeriod);
+
+const calculateAllPeriods = (
+    ledger: LedgerEntry[],
+    contributions: DatedCashFlow[],
+    income: DatedCashFlow[],
+    priceSeries: Record<string, PriceSeries>,
+    today: string
+) => PERFORMANCE_PERIODS.reduce((acc, period) => {
+    acc[period] = calculatePerformance(ledger, contributions, income, priceSeries, getPerformancePeriodBase(period, today), today);
+    return acc;
+}, {} as PerformanceByPeriod);
+
+export const usePortfolioPerformance = (
+    transactions: Transaction[],
+    marketData: Record<string, any>,
+    corporateActions: CorporateAction[],
+    dividendsByTicker: Record<string, DividendHistoryEvent[]>,
+    assets: Asset[],
+    priceHistory: Record<string, PriceSeries>
+) => {
+    return useMemo(() => {
+        const today = getTodayISODate();
+        const ledger = buildLedger(transactions, corporateActions, dividendsByTicker);
+        const priceSeries = buildPriceSeries(transactions, marketData, corporateActions, today, priceHistory);
+        const income = buildPaidIncome(ledger, dividendsByTicker, today);
+        const contributions = buildContributionFlows(transactions);
+
+        const portfolioPerformance = calculateAllPeriods(ledger, contributions, income, priceSeries, today);
+        const portfolioEvolution = reconstructPortfolioEvolution(ledger, contributions, income, priceSeries, today);
+
+        // Por ativo, incluindo os tickers antecessores (mudança de código / incorporação)
+        const assetPerformance: Record<string, PerformanceByPeriod> = {};
+        assets.forEach(asset => {
+            const lineage = getTickerLineage(asset.ticker, corporateActions);
+            const inLineage = (f: { ticker: string }) => lineage.includes(f.ticker);
+            assetPerformance[asset.ticker] = calculateAllPeriods(
+                ledger.filter(inLineage),
+                contributions.filter(inLineage),
+                income.filter(inLineage),
+                priceSeries,
+                today
+            );
+        });
+
+        return { portfolioPerformance, assetPerformance, portfolioEvolution, priceSeries };
+    }, [transactions, marketData, corporateActions, dividendsByTicker, assets, priceHistory]);
+};
@@ -0,0 +1,36 @@
+import { useMemo } from 'react';
+import type { Asset, PortfolioEvolutionPoint } from '../types';
+import { buildTotalReturnIndex, calculateRiskMetrics, mergePriceSeries, addDaysISO, getTodayISODate } from '../utils';
+import type { RiskMetrics, PriceSeries } from '../utils';
+import { getBenchmarkIndex } from '../services/benchmarkService';
+import type { BenchmarkStore } from '../services/benchmarkService';
+
+export type RiskPeriod = '12M' | 'ALL';
+
+// Carteira pelo TWR diário reconstruído; ativos pelo retorno total (preço + proventos)
+export const useRiskMetrics = (
+    portfolioEvolution: PortfolioEvolutionPoint[],
+    assets: Asset[],
+    priceHistory: Record<string, PriceSeries>,
+    benchmarks: BenchmarkStore,
+    period: RiskPeriod
+) => {
+    return useMemo(() => {
+        const from = period === '12M' ? addDaysISO(getTodayISODate(), -365) : '';
+        const riskFreeIndex = benchmarks.CDI ? getBenchmarkIndex(benchmarks.CDI) : null;
+        const marketIndex = benchmarks.IFIX ? getBenchmarkIndex(benchmarks.IFIX) : null;
+
+        const portfolioLevels = portfolioEvolution
+            .filter(p => p.dateISO >= from && p.marketValue > 0)
+            .map(p => ({ date: p.dateISO, value: 1 + (p.cumulativeReturn || 0) / 100 }));
+        const portfolio = calculateRiskMetrics(portfolioLevels, riskFreeIndex, marketIndex);
+
+        const byAsset: Record<string, RiskMetrics> = {};
+        assets.forEach(asset => {
+            const prices = mergePriceSeries(priceHistory[asset.ticker] || [], asset.priceHistory).filter(p => p.date >= from);
+            byAsset[asset.ticker] = calculateRiskMetrics(buildTotalReturnIndex(prices, asset.dividendsHistory), riskFreeIndex, marketIndex);
+        });
+
+        return { portfolio, byAsset, hasRiskFree: !!riskFreeIndex, hasMarket: !!marketIndex };
+    }, [portfolioEvolution, assets, priceHistory, benchmarks, period]);
+};
@@ -0,0 +1,21 @@
+import { useMemo } from 'react';
+import type { AppPreferences, ValuationAssumptions } from '../types';
+import { calculateValuation, getTodayISODate } from '../utils';
+import type { Valuation, ValuationInput } from '../utils';
+import { DEFAULT_PREFERENCES } from '../constants';
+
+// Premissas globais com as do ativo por cima
+export const getValuationAssumptions = (preferences: AppPreferences, ticker: string): ValuationAssumptions => ({
+    ...DEFAULT_PREFERENCES.valuation,
+    ...(preferences.valuation || {}),
+    ...(preferences.valuationByTicker?.[ticker] || {}),
+});
+
+// Preço justo do ativo; null sem cotação ou sem dados para nenhum modelo
+export const useValuation = (ticker: string, input: ValuationInput | null, preferences: AppPreferences) => {
+    const override = preferences.valuationByTicker?.[ticker];
+    const assumptions = useMemo(() => getValuationAssumptions(preferences, ticker), [preferences.valuation, override, ticker]);
+    const valuation = useMemo<Valuation | null>(() => input ? calculateValuation(input, assumptions, getTodayISODate()) : null, [input, assumptions]);
+
+    return { assumptions, valuation, hasOverride: !!override && Object.keys(override).length > 0 };
+};
@@ -70,6 +70,7 @@ export const ptBR = {
     full_history: 'Histórico Completo',
     view_full_history: 'Ver histórico completo',
     show_less: 'Mostrar menos',
+    show_all: 'Ver todos',
     dividend_history_chart: 'Evolução de Proventos',
     total_accumulated: 'Total Acumulado',
     total_year: 'Total {{year}}',
@@ -111,6 +112,378 @@ export const ptBR = {
     confirm_delete_transaction: 'Tem certeza que deseja excluir esta transação?',
     realized_gain_loss: 'Lucro/Prejuízo Realizado',
 
+    // Accounts
+    account: 'Conta',
+    accounts: 'Contas e Carteiras',
+    accounts_help: 'Separe corretoras ou objetivos. A corretagem em branco usa o padrão global.',
+    consolidated: 'Consolidado',
+    account_name: 'Nome da conta',
+    account_name_placeholder: 'Nova conta (ex: XP, Aposentadoria)',
+    account_broker: 'Corretora',
+    account_transactions_count: '{{count}} transações',
+    toast_account_added: 'Conta adicionada!',
+    toast_account_deleted: 'Conta excluída!',
+    confirm_delete_account: 'Excluir "{{name}}"? As transações e movimentações de caixa dela serão movidas para a conta principal.',
+
+    // Cash
+    cash: 'Caixa',
+    cash_balance: 'Saldo em Caixa',
+    cash_balance_after: 'Saldo: {{value}}',
+    total_equity: 'Patrimônio Total',
+    cash_deposito: 'Depósito',
+    cash_retirada: 'Retirada',
+    cash_taxa: 'Taxa',
+    cash_provento: 'Provento',
+    add_cash_movement: 'Movimentação de Caixa',
+    edit_cash_movement: 'Editar Movimentação',
+    amount: 'Valor',
+    description: 'Descrição',
+    cash_description_placeholder: 'Ex: Aporte mensal, custódia...',
+    validation_amount_positive: 'Valor deve ser positivo',
+    toast_cash_movement_added: 'Movimentação adicionada!',
+    toast_cash_movement_updated: 'Movimentação atualizada!',
+    toast_cash_movement_deleted: 'Movimentação excluída!',
+    no_cash_entries: 'Nenhum lançamento no caixa',
+    no_cash_entries_subtitle: 'Registre depósitos para acompanhar o saldo. Compras, vendas e proventos entram automaticamente.',
+
+    // Taxes
+    taxes: 'Imposto de Renda',
+    taxes_subtitle: 'DARF mensal sobre vendas',
+    taxes_help: 'Vendas de FII pagam 20% sobre o lucro líquido do mês. Prejuízos são compensados nos meses seguintes e o IRRF (0,005%) é abatido do imposto.',
+    tax_net_result: 'Resultado do mês',
+    tax_sales_value: 'Total vendido',
+    tax_loss_used: 'Prejuízo compensado',
+    tax_taxable_base: 'Base de cálculo',
+    tax_due_20: 'Imposto (20%)',
+    tax_irrf: 'IRRF retido (dedo-duro)',
+    tax_carried_darf: 'DARF acumulado (< R$ 10)',
+    tax_loss_carry_forward: 'Prejuízo a compensar',
+    tax_no_sales: 'Nenhuma venda registrada',
+    tax_disclaimer: 'Cálculo estimado a partir das suas transações. Vencimento no último dia útil do mês seguinte, sem considerar feriados. Confira com seu contador.',
+    darf_amount: 'DARF (código {{code}})',
+    darf_due: 'Vence',
+    darf_overdue: 'Venceu',
+    darf_paid_on: 'Pago em {{date}}',
+    darf_nothing_due: 'Nada a pagar',
+    darf_pending: 'Pendentes',
+    darf_pending_total: 'DARF pendente',
+    darf_none_pending: 'Nenhum DARF pendente',
+    darf_mark_paid: 'Marcar como pago',
+    darf_mark_unpaid: 'Desmarcar pagamento',
+    all_months: 'Todos os meses',
+
+    // Performance
+    performance: 'Rentabilidade',
+    twr_return: 'TWR',
+    xirr_return: 'XIRR (a.a.)',
+    period_mtd: 'Mês',
+    period_ytd: 'Ano',
+    period_12m: '12M',
+    period_all: 'Início',
+    attribution_title: 'Atribuição de Desempenho',
+    attribution_hint: 'Quanto cada ativo somou ao retorno do período, separando variação de preço e rendimentos. Aportes e vendas são descontados (Modified Dietz).',
+    attribution_total: 'Retorno',
+    attribution_price: 'Preço',
+    attribution_income: 'Renda',
+    attribution_by_asset: 'Ativos',
+    attribution_by_segment: 'Segmentos',
+
+    // Benchmarks
+    benchmarks: 'Índices de Referência',
+    benchmarks_subtitle: 'IFIX, CDI, IPCA, Ibovespa',
+    benchmarks_help: 'Compare sua rentabilidade com os índices. CDI e IPCA vêm do Banco Central e o Ibovespa da Brapi; o IFIX deve ser importado.',
+    benchmarks_import: 'Importar CSV/JSON',
+    benchmarks_format_hint: 'CSV com colunas "benchmark;date;value" ou "date;IFIX;CDI;...". IFIX e IBOV em pontos; CDI e IPCA em taxa % do período (diária/mensal). Datas já existentes são substituídas.',
+    benchmarks_empty_hint: 'Importe ou atualize índices em Configurações > Índices de Referência para comparar.',
+    benchmark_coverage: '{{from}} a {{to}} • {{count}} pontos',
+    benchmark_no_data: 'Sem dados',
+    benchmark_no_coverage: 'Sem dados no período',
+    excess_return: '{{value}} p.p.',
+    toast_benchmarks_imported: 'Índices importados: {{list}}',
+    toast_benchmark_updated: '{{name}}: {{count}} pontos atualizados',
+
+    // Valores reais (IPCA)
+    real_terms: 'Real (IPCA)',
+    real_terms_setting: 'Valores reais',
+    real_terms_desc: 'Renda, evolução e rentabilidade em reais de hoje, descontando o IPCA.',
+    real_terms_needs_ipca: 'Atualize ou importe o IPCA em Configurações > Índices de Referência para ver valores reais.',
+    income_growth: 'Crescimento da renda',
+    real_income_growth: 'Crescimento real da renda',
+    real_income_growth_hint: 'Variação contra o ano anterior em reais de hoje; o ano corrente compara os mesmos meses.',
+
+    // Screener
+    screener_tab: 'Screener',
+    screener_filters: 'Filtros',
+    screener_min_dy: 'DY mínimo (%)',
+    screener_min_pvp: 'P/VP mínimo',
+    screener_max_pvp: 'P/VP máximo',
+    screener_max_vacancy: 'Vacância máx. (%)',
+    screener_min_liquidity: 'Liquidez mín. (R$ mi)',
+    screener_administrator: 'Administrador',
+    screener_liquidity: 'Liquidez',
+    screener_clear: 'Limpar',
+    screener_screen_name: 'Nome da tela',
+    screener_screen_saved: 'Tela "{{name}}" salva',
+    screener_results: '{{count}} de {{total}} fundos',
+    screener_stale: '{{count}} sem dados recentes',
+    screener_empty: 'Nenhum fundo atende aos filtros.',
+    screener_import: 'Importar lista de fundos',
+    screener_import_hint: 'Importe um JSON ou CSV com os tickers (e, opcionalmente, segmento, administrador, DY, P/VP, vacância e liquidez) para ampliar o universo. Os fundamentos ficam em cache e são atualizados pelo botão de recarregar.',
+    screener_imported: '{{count}} fundos importados',
+    screener_refresh: 'Atualizar fundamentos',
+    screener_refreshing: 'Atualizando {{count}} fundos...',
+    screener_refreshed: '{{count}} fundos atualizados',
+    screener_watchlist: 'Favoritar',
+    screener_simulate: 'Simular compra',
+    simulate_purchase_title: 'Simular compra de {{ticker}}',
+    simulate_purchase_price: 'Cotação: {{price}}',
+    simulate_purchase_cost: 'Custo',
+    simulate_purchase_income: 'Renda mensal estimada',
+    simulate_purchase_yield: 'Yield da carteira',
+    simulate_purchase_ticker_share: 'Peso de {{ticker}}',
+    simulate_purchase_segment_share: 'Peso de {{segment}}',
+    simulate_purchase_no_dividends: 'Sem DY ou último provento para estimar a renda.',
+    simulate_purchase_register: 'Registrar compra',
+
+    // Comparação de ativos
+    compare_title: 'Comparar Ativos',
+    compare_help: 'Compare de 2 a 4 fundos lado a lado. O melhor valor de cada indicador fica em verde; o desempenho parte de 100 na primeira data com cotação de todos.',
+    compare_action: 'Comparar',
+    compare_add: 'Adicionar ativo',
+    compare_add_placeholder: 'Ex: KNCR11',
+    compare_min_tickers: 'Adicione ao menos dois ativos para comparar.',
+    compare_max_tickers: 'Compare no máximo {{count}} ativos.',
+    compare_fundamentals: 'Indicadores',
+    compare_management_fee: 'Taxa de administração',
+    compare_dividend_cagr: 'CAGR dos proventos',
+    compare_performance: 'Desempenho',
+    compare_performance_hint: 'Cotação normalizada em 100 a partir de {{date}}, sem proventos.',
+    compare_no_history: 'Sem histórico de cotações em comum para o período.',
+    compare_dividends: 'Proventos (% da cotação)',
+    compare_dividends_12m: 'nos últimos 12 meses',
+    compare_no_dividends: 'Sem histórico de proventos para os ativos.',
+    compare_margin: 'Margem de segurança',
+
+    // Preço justo
+    valuation_title: 'Preço Justo',
+    valuation_subtitle: 'Premissas de Bazin, Gordon e P/VP',
+    valuation_help: 'Bazin: proventos dos últimos 12 meses divididos pelo DY desejado. Gordon: próximo provento dividido por (retorno exigido − crescimento). P/VP: valor patrimonial por cota vezes o P/VP justo. O preço justo é a média dos modelos com dados.',
+    valuation_assumptions: 'Premissas',
+    valuation_bazin: 'Preço teto (Bazin)',
+    valuation_gordon: 'Modelo de Gordon',
+    valuation_pvp: 'Preço pelo P/VP',
+    valuation_bazin_hint: 'DY desejado de {{yield}}%',
+    valuation_gordon_hint: 'Retorno exigido {{rate}}% • crescimento {{growth}}',
+    valuation_pvp_hint: 'VP por cota × {{pvp}}',
+    valuation_bazin_yield: 'DY desejado (%)',
+    valuation_discount_rate: 'Retorno exigido (%)',
+    valuation_growth_rate: 'Crescimento (%)',
+    valuation_target_pvp: 'P/VP justo',
+    valuation_safety_margin: 'Margem mínima (%)',
+    valuation_growth_auto: 'CAGR do fundo',
+    valuation_fair_price: 'Preço justo médio',
+    valuation_fair_price_value: 'Preço justo: {{price}}',
+    margin_of_safety_badge: 'Margem {{value}}%',
+    valuation_no_data: 'Sem proventos ou valor patrimonial para estimar o preço justo.',
+    valuation_global_hint: 'Premissas globais, usadas por todos os ativos sem premissas próprias.',
+    valuation_custom_hint: 'Premissas próprias de {{ticker}}.',
+    valuation_use_global: 'Usar premissas globais',
+    valuation_restore_defaults: 'Restaurar padrões',
+    valuation_custom_assets: 'Ativos com premissas próprias',
+    valuation_custom_count: '{{count}} premissa(s) ajustada(s)',
+    valuation_disclaimer: 'Estimativas dependem das premissas e não são recomendação de compra.',
+
+    // Histórico de cotações
+    price_history: 'Histórico de Cotações',
+    price_history_subtitle: 'Fechamentos diários para gráficos e rentabilidade',
+    price_history_help: 'Cada atualização de cotações guarda os últimos 3 meses. Para reconstruir períodos mais antigos, baixe o histórico de 1 ano, 5 anos ou completo (requer token Brapi com acesso ao período).',
+    price_history_backfill_all: 'Baixar para todos os ativos',
+    price_history_range_1y: '1A',
+    price_history_range_5y: '5A',
+    price_history_range_max: 'Máx',
+    toast_price_history_updated: '{{count}} cotações gravadas',
+    toast_price_history_partial: '{{count}} cotações gravadas. Falharam: {{list}}',
+
+    // Risco
+    risk_metrics: 'Risco',
+    asset: 'Ativo',
+    volatility: 'Volatilidade (a.a.)',
+    max_drawdown: 'Queda máxima',
+    sharpe_ratio: 'Sharpe',
+    beta_ifix: 'Beta (IFIX)',
+    risk_drawdown_recovered: '{{range}}, recuperado em {{date}}',
+    risk_drawdown_not_recovered: '{{range}}, ainda não recuperado',
+    risk_insufficient_data: 'Histórico insuficiente para calcular o risco da carteira. Baixe mais cotações em Configurações > Histórico de Cotações.',
+    risk_needs_benchmarks: 'Sharpe usa o CDI e beta usa o IFIX: atualize ou importe os índices em Configurações > Índices de Referência.',
+
+    // Diversificação
+    diversification_score: 'Nota de Diversificação',
+    score: 'Nota',
+    segment: 'Segmento',
+    administrator: 'Administrador',
+    effective_assets: 'Ativos efetivos',
+    effective_segments: 'Segmentos efetivos',
+    hhi_hint: 'HHI {{hhi}}: a carteira se comporta como esse número de ativos de mesmo peso.',
+    concentration_limits: 'Limites de concentração',
+    concentration_warning: '{{group}} {{name}} tem {{share}}% da carteira (limite {{limit}}%)',
+    correlation_matrix: 'Correlação dos retornos diários (12M)',
+    correlation_hint: 'Próximo de 1: os fundos sobem e caem juntos e pouco se protegem. Perto de 0 ou negativo: diversificam de fato.',
+    high_correlation_pairs: 'Andam juntos: {{list}}',
+
+    // Rebalanceamento
+    rebalance: 'Rebalanceamento',
+    rebalance_subtitle: 'Metas por segmento e sugestão de aporte',
+    rebalance_help: 'Defina a participação desejada de cada segmento. Informe um aporte e o app sugere quantas cotas comprar dos fundos que você já tem para chegar o mais perto possível das metas, sem vender nada.',
+    segment_targets: 'Metas por segmento',
+    target_for: 'Meta para {{segment}}',
+    new_segment_placeholder: 'Novo segmento (ex: Fiagro)',
+    rebalance_no_segments: 'Adicione ativos ou segmentos para definir metas.',
+    rebalance_needs_targets: 'Defina ao menos uma meta para receber sugestões.',
+    rebalance_no_suggestions: 'Nenhuma compra possível: o aporte não cobre uma cota dos segmentos abaixo da meta ou não há fundos na carteira nesses segmentos.',
+    new_contribution: 'Novo aporte',
+    suggest_buys: 'Sugerir',
+    draft_transactions: 'Rascunho de compras',
+    total_with_costs: 'Total com corretagem',
+    rebalance_leftover: 'Sobra do aporte',
+    projected_allocation: 'Alocação após as compras',
+    create_transactions: 'Lançar {{count}} compras',
+    toast_rebalance_created: '{{count}} compras lançadas',
+
+    // Previsão de proventos
+    forecast_12m: 'Previsão 12m',
+    forecast_range: 'Faixa provável: {{low}} – {{high}}',
+    income_goal_progress: 'Meta de renda: {{percent}}% da meta de {{goal}}/mês',
+
+    // Número mágico
+    magic_number: 'Número Mágico',
+    magic_number_hint: 'Cotas necessárias para que o rendimento mensal compre uma cota nova sozinho.',
+    magic_number_reached: 'Atingido: o fundo já se reinveste sozinho',
+    magic_number_reached_count: '{{count}} de {{total}} atingidos',
+    magic_number_missing: 'Faltam {{count}} cotas ({{amount}})',
+    magic_number_monthly_dividend: 'Rendimento médio mensal por cota',
+    magic_number_capital_required: 'Capital necessário',
+    magic_number_missing_shares: 'Cotas faltantes',
+
+    // Metas de renda
+    income_goals: 'Metas de Renda',
+    income_goals_subtitle: 'Independência financeira com a carteira real',
+    income_goals_help: 'Cada meta usa o patrimônio atual, a renda dos últimos 12 meses, o aporte médio mensal (das suas transações) e um yield assumido. A projeção reinveste os proventos e ignora a valorização das cotas. As premissas do dia da criação formam a linha projetada usada no realizado x projetado.',
+    goal_current_situation: 'Situação atual',
+    goal_trailing_income: 'Renda média (12m)',
+    goal_avg_contribution: 'Aporte médio mensal',
+    goal_current_yield: 'Yield atual',
+    no_income_goals: 'Nenhuma meta cadastrada ainda.',
+    new_goal: 'Nova meta',
+    goal_name_placeholder: 'Ex.: Independência financeira',
+    goal_monthly_income: 'Renda mensal (R$)',
+    goal_deadline: 'Prazo',
+    goal_assumed_yield: 'Yield assumido (% a.a.)',
+    add_goal: 'Adicionar meta',
+    goal_name_required: 'Informe um nome para a meta',
+    toast_goal_added: 'Meta adicionada',
+    toast_goal_rebased: 'Projeção recalculada a partir de hoje',
+    confirm_delete_goal: 'Excluir a meta "{{name}}"?',
+    goal_rebase: 'Recalcular projeção a partir de hoje',
+    goal_target_line: '{{amount}}/mês',
+    goal_until: 'até {{date}}',
+    goal_progress: '{{percent}}% atingido ({{amount}}/mês hoje)',
+    goal_projected_date: 'Data projetada',
+    goal_unreachable: 'Fora do horizonte',
+    goal_required_value: 'Patrimônio necessário',
+    goal_on_track: 'No ritmo para cumprir o prazo',
+    goal_behind_schedule: 'No ritmo atual, o prazo não será cumprido',
+    goal_actual_vs_projected: 'Realizado x projetado',
+    goal_projected: 'Projetado',
+    goal_actual: 'Realizado',
+    goal_tracking_pending: 'O acompanhamento começa após o primeiro mês completo da meta.',
+
+    // Reinvestimento de proventos
+    drip_simulation: 'Reinvestimento (DRIP)',
+    drip_hint: 'E se todos os rendimentos tivessem sido reinvestidos na data de pagamento, em cotas inteiras?',
+    drip_needs_goals: 'Sem metas por segmento definidas: os rendimentos são reinvestidos no próprio fundo.',
+    drip_same_ticker: 'Mesmo ativo',
+    drip_underweight_segment: 'Segmento abaixo da meta',
+    drip_extra_patrimony: 'Patrimônio extra',
+    drip_extra_shares: 'Cotas extras',
+    drip_reinvested: 'Reinvestido',
+    drip_income: 'Renda',
+    drip_real: 'Real',
+    drip_reinvesting: 'Reinvestindo',
+    drip_leftover_cash: '{{amount}} de sobras não chegaram a comprar uma cota.',
+
+    // IRPF
+    irpf_report: 'Declaração IRPF',
+    irpf_report_subtitle: 'Bens e Direitos e rendimentos isentos',
+    irpf_report_title: 'Informe para a Declaração IRPF — Ano-calendário {{year}}',
+    irpf_report_help: 'Posição em 31/12 pelo custo de aquisição, rendimentos isentos por fundo e resultados mensais de vendas. Use "Copiar" para colar a discriminação no programa da Receita.',
+    irpf_bens_direitos: 'Bens e Direitos',
+    irpf_group: 'Grupo',
+    irpf_code: 'Código',
+    irpf_bem_description: '{{quantity}} cotas do fundo imobiliário {{ticker}}{{administrator}}. Preço médio de aquisição R$ {{avgPrice}}, custo total R$ {{totalCost}}.',
+    irpf_bem_sold_description: 'Cotas do fundo imobiliário {{ticker}} alienadas integralmente em {{year}}.',
+    irpf_administered_by: ', administrado por {{administrator}}',
+    irpf_rendimentos_isentos: 'Rendimentos Isentos',
+    irpf_rendimentos_isentos_desc: 'Tipo 26 — Outros (rendimentos de FII), por fundo pagador',
+    irpf_rendimento_description: 'Rendimentos do fundo imobiliário {{ticker}} recebidos em {{year}}: R$ {{amount}}.',
+    irpf_monthly_results: 'Renda Variável',
+    irpf_monthly_results_desc: 'Resultado líquido e DARF de cada mês com vendas',
+    irpf_no_positions: 'Nenhuma posição neste ano',
+    irpf_no_sales: 'Nenhuma venda neste ano',
+    irpf_account_warning: 'O relatório considera apenas a conta selecionada. A declaração deve incluir todas as contas.',
+    no_income_in_year: 'Nenhum rendimento neste ano',
+    copy: 'Copiar',
+    print: 'Imprimir',
+    total: 'Total',
+    month: 'Mês',
+    toast_copied: 'Copiado para a área de transferência',
+    toast_popup_blocked: 'Permita pop-ups para imprimir o relatório',
+
+    // Subscriptions
+    subscription: 'Subscrição',
+    rights_received: 'Direito Recebido',
+    rights_sold: 'Venda de Direito',
+    subscription_exercise: 'Exercício',
+    rights_short: 'DR',
+    rights_sold_short: 'VD',
+    subscription_short: 'SB',
+    settlement_date: 'Liquidação',
+    settles_on: 'Liquida em {{date}}',
+    rights_count: '{{count}} direitos',
+    rights_balance: 'Direitos disponíveis',
+    pending_subscriptions: 'Subscrições Pendentes',
+    pending_subscriptions_desc: 'As novas cotas entram na posição na data de liquidação.',
+    rights_received_hint: 'Direitos de subscrição entram com custo zero e não alteram sua posição em cotas.',
+    rights_sold_hint: 'Como o custo do direito é zero, todo o valor líquido da venda é ganho tributável.',
+    subscription_exercise_hint: 'Cada direito subscreve 1 cota ao preço de emissão. As cotas entram na posição em {{date}}.',
+    validation_settlement_after_date: 'Liquidação deve ser igual ou posterior ao exercício',
+    validation_rights_insufficient: 'Saldo de direitos insuficiente ({{available}} disponíveis)',
+
+    // Corporate Actions
+    corporate_actions: 'Eventos',
+    corporate_action_short: 'EV',
+    add_corporate_action: 'Evento Corporativo',
+    edit_corporate_action: 'Editar Evento',
+    corporate_action_desdobramento: 'Desdobramento',
+    corporate_action_grupamento: 'Grupamento',
+    corporate_action_bonificacao: 'Bonificação',
+    corporate_action_alteracaoticker: 'Novo Ticker',
+    corporate_action_incorporacao: 'Incorporação',
+    corporate_action_successor: 'Ticker Sucessor',
+    corporate_action_ticker_change_hint: 'Quantidade, custo e proventos passados migram 1:1 para {{successor}}.',
+    corporate_action_merger_hint: 'Cada cota vira {{ratio}} cotas de {{successor}}. O custo total e os proventos passados migram para o sucessor.',
+    validation_successor_different: 'O sucessor deve ser diferente do ticker original',
+    migrated_to: 'Migrado → {{ticker}}',
+    corporate_action_ratio: 'Proporção',
+    corporate_action_unit_cost: 'Custo Atribuído por Cota',
+    corporate_action_split_hint: 'Cada cota vira {{ratio}} cotas. O custo total é mantido e o preço médio é dividido.',
+    corporate_action_reverse_split_hint: 'Cada {{ratio}} cotas viram 1 cota. O custo total é mantido e o preço médio é multiplicado.',
+    corporate_action_bonus_hint: 'Recebe {{percent}}% em novas cotas. O custo atribuído é somado ao custo total.',
+    validation_ratio_positive: 'Proporção deve ser positiva',
+    toast_corporate_action_added: 'Evento adicionado!',
+    toast_corporate_action_updated: 'Evento atualizado!',
+    toast_corporate_action_deleted: 'Evento excluído!',
+    confirm_delete_corporate_action: 'Tem certeza que deseja excluir este evento?',
+
     // Income Report
     income_report_title: 'Relatório de Renda',
     average_income: 'Renda Média Mensal',
@@ -130,6 +503,12 @@ export const ptBR = {
     provisioned: 'Provisionado',
     to_receive: 'A Receber',
     last_12_months: 'Últimos 12 Meses',
+    amortizations_received: 'Amortizações',
+    amortizations_desc: 'Capital devolvido pelos fundos. Reduz o preço médio e não entra na renda.',
+    dividend_kind_rendimento: 'Rendimento',
+    dividend_kind_amortizacao: 'Amortização',
+    dividend_kind_dividendo: 'Dividendo',
+    dividend_kind_jcp: 'JCP',
     
     // News View
     sentiment_very_positive: 'Muito Positivo',
@@ -206,7 +585,7 @@ export const ptBR = {
     export_data_json: 'Exportar Dados (JSON)',
     import_data: 'Importar Dados',
     calculators: 'Calculadoras',
-    calculators_help: 'Juros Compostos, Milhão...',
+    calculators_help: 'Juros Compostos, Milhão, Monte Carlo...',
     financial_glossary: 'Glossário Financeiro',
     glossary_subtitle: 'Termos do mercado FII',
     about_app: 'Sobre o App',
@@ -397,6 +776,14 @@ export const ptBR = {
     glossary_desc_papel: 'Fundo que investe em títulos de dívida imobiliária (CRI, LCI).',
     glossary_term_fof: 'FOF',
     glossary_desc_fof: 'Fundo de Fundos. Investe em cotas de outros fundos.',
+    glossary_term_volatilidade: 'Volatilidade',
+    glossary_desc_volatilidade: 'Desvio padrão dos retornos diários, anualizado. Mede o quanto a cota (ou a carteira) oscila: quanto maior, mais imprevisível o caminho até o resultado.',
+    glossary_term_drawdown: 'Drawdown (Queda Máxima)',
+    glossary_desc_drawdown: 'Maior queda do topo ao fundo no período, incluindo proventos. Mostra a pior perda que quem comprou no pico teria enfrentado e quanto tempo levou para recuperar.',
+    glossary_term_sharpe: 'Índice de Sharpe',
+    glossary_desc_sharpe: 'Retorno anualizado acima do CDI dividido pela volatilidade. Indica quanto retorno extra cada unidade de risco entregou; abaixo de zero, o CDI rendeu mais.',
+    glossary_term_beta: 'Beta',
+    glossary_desc_beta: 'Sensibilidade ao IFIX. Beta 1 acompanha o índice; acima de 1 amplifica as oscilações do mercado de FIIs e abaixo de 1 as suaviza.',
     
     // Calculators
     compound_interest: 'Juros Compostos',
@@ -413,6 +800,19 @@ export const ptBR = {
     time_to_million: 'Tempo até 1 Milhão',
     time_to_million_result: '{{years}} anos e {{months}} meses',
     goal: 'Objetivo',
+    monte_carlo: 'Monte Carlo',
+    median_p50: 'Mediana (P50)',
+    mc_distribution: 'Distribuição dos retornos',
+    mc_parametric: 'Paramétrica',
+    mc_historical: 'Histórico da carteira',
+    mc_historical_info: 'Reamostrando {{count}} retornos mensais da carteira (média {{mean}}% a.a.).',
+    mc_historical_unavailable: 'São necessários ao menos {{count}} meses de histórico da carteira.',
+    mc_target_value: 'Patrimônio',
+    mc_target_income: 'Renda',
+    mc_probability: 'Probabilidade de atingir o objetivo',
+    mc_target_income_hint: 'Renda mensal de {{income}} exige {{value}} com yield de {{yield}}% a.a.',
+    mc_percentiles: 'Patrimônio final (valores de hoje)',
+    mc_footnote: '{{paths}} cenários simulados. Os aportes sobem com a inflação e os valores estão em reais de hoje.',
     
     // Constants
     font_inter_desc: 'Padrão do sistema, limpo e moderno.',
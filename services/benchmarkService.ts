@@ -0,0 +1,141 @@
+import type { AppPreferences, BenchmarkId, BenchmarkPoint, BenchmarkSeries } from '../types';
+import { BENCHMARKS, BENCHMARK_IDS, CACHE_TTL } from '../constants';
+import { CacheManager, getTodayISODate, fromISODate, toISODate, getLevelAt } from '../utils';
+import { fetchBrapiHistory } from './brapiService';
+
+const CACHE_KEY = 'benchmarks';
+
+export type BenchmarkStore = Partial<Record<BenchmarkId, BenchmarkSeries>>;
+
+// Séries do Banco Central (SGS): CDI diário (12) e IPCA mensal (433)
+const SGS_SERIES: Partial<Record<BenchmarkId, number>> = { CDI: 12, IPCA: 433 };
+const BRAPI_SYMBOLS: Partial<Record<BenchmarkId, string>> = { IBOV: '^BVSP' };
+
+export const hasBenchmarkProvider = (id: BenchmarkId) => !!SGS_SERIES[id] || !!BRAPI_SYMBOLS[id];
+
+export const loadBenchmarks = async (): Promise<BenchmarkStore> =>
+    (await CacheManager.get<BenchmarkStore>(CACHE_KEY, CACHE_TTL.BENCHMARKS)) || {};
+
+export const saveBenchmarks = (store: BenchmarkStore) => CacheManager.set(CACHE_KEY, store);
+
+// Aceita "2024-01-31" e "31/01/2024"
+const normalizeDate = (raw: string): string | null => {
+    const value = raw.trim().replace(/"/g, '');
+    if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.substring(0, 10);
+    const br = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+    return br ? `${br[3]}-${br[2]}-${br[1]}` : null;
+};
+
+// Aceita "1234.56" e "1.234,56"
+const parseNumber = (raw: string | number): number => {
+    if (typeof raw === 'number') return raw;
+    const value = raw.trim().replace(/"/g, '');
+    return parseFloat(value.includes(',') ? value.replace(/\./g, '').replace(',', '.') : value);
+};
+
+const toBenchmarkId = (raw: string): BenchmarkId | null => {
+    const value = raw.trim().replace(/"/g, '').toUpperCase();
+    if (value === 'IBOVESPA' || value === '^BVSP') return 'IBOV';
+    return BENCHMARK_IDS.includes(value as BenchmarkId) ? value as BenchmarkId : null;
+};
+
+const pushPoint = (result: Partial<Record<BenchmarkId, BenchmarkPoint[]>>, id: BenchmarkId | null, rawDate: string, rawValue: string | number) => {
+    const date = normalizeDate(String(rawDate));
+    const value = parseNumber(rawValue);
+    if (!id || !date || !isFinite(value)) return;
+    (result[id] || (result[id] = [])).push({ date, value });
+};
+
+/**
+ * JSON: { "IFIX": [{ "date": "2024-01-31", "value": 3300.5 }] } ou [{ "benchmark", "date", "value" }]
+ * CSV: "benchmark;date;value" (formato longo) ou "date;IFIX;CDI;..." (uma coluna por índice)
+ */
+export const parseBenchmarkFile = (text: string): Partial<Record<BenchmarkId, BenchmarkPoint[]>> => {
+    const result: Partial<Record<BenchmarkId, BenchmarkPoint[]>> = {};
+    const trimmed = text.trim();
+
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        const data = JSON.parse(trimmed);
+        if (Array.isArray(data)) {
+            data.forEach((row: any) => pushPoint(result, toBenchmarkId(String(row.benchmark ?? row.index ?? '')), row.date, row.value));
+        } else {
+            Object.entries(data).forEach(([key, points]) => {
+                if (Array.isArray(points)) points.forEach((p: any) => pushPoint(result, toBenchmarkId(key), p.date, p.value));
+            });
+        }
+        return result;
+    }
+
+    const lines = trimmed.split(/\r\n|\n/).filter(line => line.trim());
+    if (lines.length < 2) return result;
+    const separator = lines[0].includes(';') ? ';' : ',';
+    const header = lines[0].split(separator).map(h => h.trim().replace(/"/g, '').toLowerCase());
+    const dateIndex = header.findIndex(h => h === 'date' || h === 'data');
+    const benchmarkIndex = header.findIndex(h => h === 'benchmark' || h === 'indice' || h === 'índice');
+    const valueIndex = header.findIndex(h => h === 'value' || h === 'valor');
+    if (dateIndex < 0) return result;
+
+    lines.slice(1).forEach(line => {
+        const cells = line.split(separator);
+        if (benchmarkIndex >= 0 && valueIndex >= 0) {
+            pushPoint(result, toBenchmarkId(cells[benchmarkIndex] || ''), cells[dateIndex] || '', cells[valueIndex] || '');
+        } else {
+            header.forEach((column, i) => {
+                if (i !== dateIndex && cells[i]?.trim()) pushPoint(result, toBenchmarkId(column), cells[dateIndex] || '', cells[i]);
+            });
+        }
+    });
+    return result;
+};
+
+// Pontos novos substituem os da mesma data
+export const mergeBenchmarkPoints = (existing: BenchmarkPoint[], incoming: BenchmarkPoint[]): BenchmarkPoint[] => {
+    const byDate = new Map<string, number>();
+    existing.forEach(p => byDate.set(p.date, p.value));
+    incoming.forEach(p => byDate.set(p.date, p.value));
+    return Array.from(byDate.entries()).map(([date, value]) => ({ date, value })).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const fetchSgsSeries = async (code: number, startDate: string): Promise<BenchmarkPoint[]> => {
+    const format = (iso: string) => iso.split('-').reverse().join('/');
+    const response = await fetch(`https://api.bcb.gov.br/dados/serie/bcdata.sgs.${code}/dados?formato=json&dataInicial=${format(startDate)}&dataFinal=${format(getTodayISODate())}`);
+    if (!response.ok) throw new Error(`SGS: ${response.status}`);
+    const data: { data: string; valor: string }[] = await response.json();
+    return data
+        .map(row => ({ date: normalizeDate(row.data) || '', value: parseNumber(row.valor) }))
+        .filter(p => p.date && isFinite(p.value));
+};
+
+// Busca no provedor a partir de `startDate` (o SGS limita séries diárias a 10 anos por consulta)
+export const fetchBenchmarkFromProvider = async (id: BenchmarkId, prefs: AppPreferences, startDate: string): Promise<BenchmarkPoint[]> => {
+    const sgsCode = SGS_SERIES[id];
+    if (sgsCode) {
+        const points = await fetchSgsSeries(sgsCode, startDate);
+        // IPCA vem datado no 1º dia do mês de referência; a taxa vale para o mês inteiro
+        if (id === 'IPCA') {
+            return points.map(p => {
+                const d = fromISODate(p.date);
+                return { date: toISODate(new Date(d.getFullYear(), d.getMonth() + 1, 0, 12)), value: p.value };
+            });
+        }
+        return points;
+    }
+
+    const symbol = BRAPI_SYMBOLS[id];
+    if (!symbol) throw new Error('provider_unavailable');
+    const history = await fetchBrapiHistory(prefs, symbol, '5y');
+    return history.filter(p => p.date >= startDate).map(p => ({ date: p.date, value: p.price }));
+};
+
+// Índice acumulado (taxas são compostas a partir de 1)
+export const getBenchmarkIndex = (series: BenchmarkSeries): BenchmarkPoint[] => {
+    if (BENCHMARKS[series.id].kind === 'index') return series.points;
+    let level = 1;
+    return series.points.map(p => {
+        level *= 1 + p.value / 100;
+        return { date: p.date, value: level };
+    });
+};
+
+// Nível do índice na data (último ponto conhecido); null antes do início da série
+export const getBenchmarkLevelAt = (index: BenchmarkPoint[], date: string): number | null => getLevelAt(index, date);
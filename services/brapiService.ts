@@ -115,6 +115,25 @@ export async function fetchBrapiQuotes(prefs: AppPreferences, tickers: string[],
     return { quotes: allQuotes, stats: { bytesReceived: totalBytesReceived } };
 }
 
+// Histórico diário de fechamento de um ativo ou índice (ex: ^BVSP)
+export async function fetchBrapiHistory(prefs: AppPreferences, symbol: string, range: string): Promise<{ date: string; price: number }[]> {
+    const token = getBrapiToken(prefs);
+    if (!token) throw new Error("Brapi Token missing");
+
+    const response = await fetch(`https://brapi.dev/api/quote/${encodeURIComponent(symbol)}?range=${range}&interval=1d&token=${token}`);
+    if (!response.ok) throw new Error(`Brapi: ${response.status}`);
+    const data = await response.json();
+    const rawHistory = data.results?.[0]?.historicalDataPrice || [];
+
+    return rawHistory
+        .filter((item: any) => item.close > 0)
+        .map((item: any) => ({
+            date: new Date(item.date * 1000).toISOString().split('T')[0],
+            price: item.close,
+        }))
+        .sort((a: any, b: any) => a.date.localeCompare(b.date));
+}
+
 export async function validateBrapiToken(token: string): Promise<boolean> {
     if (!token || token.trim() === '') return false;
     localStorage.removeItem('brapi_restricted');
@@ -1,6 +1,6 @@
 
 import { GoogleGenAI } from '@google/genai';
-import type { NewsArticle, AppPreferences, DividendHistoryEvent } from '../types';
+import type { NewsArticle, AppPreferences, DividendHistoryEvent, DividendKind } from '../types';
 
 // --- Configuration & Helpers ---
 
@@ -232,6 +232,14 @@ export async function fetchLiveAssetQuote(prefs: AppPreferences, ticker: string)
     }
 }
 
+const normalizeDividendKind = (raw: any): DividendKind => {
+    const value = String(raw || '').toLowerCase();
+    if (value.startsWith('amort')) return 'Amortizacao';
+    if (value.includes('jcp') || value.includes('juros')) return 'JCP';
+    if (value.startsWith('divid')) return 'Dividendo';
+    return 'Rendimento';
+};
+
 export async function fetchAdvancedAssetData(prefs: AppPreferences, tickers: string[]): Promise<{ 
     data: Record<string, any>, 
     stats: { bytesSent: number, bytesReceived: number } 
@@ -263,7 +271,7 @@ export async function fetchAdvancedAssetData(prefs: AppPreferences, tickers: str
           "shareholders": 250000,
           "liquidity": 2000000,
           "dividendsHistory": [
-             { "exDate": "YYYY-MM-DD", "paymentDate": "YYYY-MM-DD", "value": 0.85, "isProvisioned": false }
+             { "exDate": "YYYY-MM-DD", "paymentDate": "YYYY-MM-DD", "value": 0.85, "isProvisioned": false, "kind": "Rendimento|Amortizacao|Dividendo|JCP" }
           ]
         }
       ]
@@ -294,7 +302,8 @@ export async function fetchAdvancedAssetData(prefs: AppPreferences, tickers: str
                             exDate: d.exDate,
                             paymentDate: d.paymentDate || d.exDate,
                             value: typeof d.value === 'string' ? parseFloat(d.value.replace(',','.')) : d.value,
-                            isProvisioned: !!d.isProvisioned
+                            isProvisioned: !!d.isProvisioned,
+                            kind: normalizeDividendKind(d.kind)
                         }));
                     }
 
@@ -0,0 +1,36 @@
+import type { AppPreferences } from '../types';
+import { priceHistoryDb, toPriceCandles } from '../utils';
+import type { PriceSeries } from '../utils';
+import { fetchBrapiHistory } from './brapiService';
+
+export type PriceHistoryRange = '1y' | '5y' | 'max';
+export const PRICE_HISTORY_RANGES: PriceHistoryRange[] = ['1y', '5y', 'max'];
+
+export const loadPriceHistory = () => priceHistoryDb.getAll();
+
+export const appendPriceHistory = (histories: Record<string, PriceSeries>) =>
+    priceHistoryDb.putMany(Object.entries(histories).flatMap(([ticker, series]) => toPriceCandles(ticker, series)));
+
+export const getPriceHistory = (ticker: string, from?: string, to?: string) => priceHistoryDb.getRange(ticker, from, to);
+
+export const removePriceHistory = (ticker: string) => priceHistoryDb.delTicker(ticker);
+
+/**
+ * Busca o período pedido na brapi, um ativo por vez para não estourar o limite do plano.
+ * Devolve só o que foi gravado; ativos que falharam vão em `failed`.
+ */
+export const backfillPriceHistory = async (prefs: AppPreferences, tickers: string[], range: PriceHistoryRange) => {
+    const fetched: Record<string, PriceSeries> = {};
+    const failed: string[] = [];
+    for (const ticker of tickers) {
+        try {
+            const series = await fetchBrapiHistory(prefs, ticker, range);
+            if (series.length > 0) fetched[ticker] = series;
+        } catch (error) {
+            console.warn(`Backfill failed for ${ticker}`, error);
+            failed.push(ticker);
+        }
+    }
+    await appendPriceHistory(fetched);
+    return { fetched, failed };
+};
@@ -0,0 +1,122 @@
+import type { AppPreferences, ScreenerFund } from '../types';
+import { KNOWN_TICKERS, STATIC_FII_SECTORS, CACHE_TTL } from '../constants';
+import { CacheManager } from '../utils';
+import { fetchBrapiQuotes } from './brapiService';
+import { fetchAdvancedAssetData } from './geminiService';
+
+const CACHE_KEY = 'screener_universe';
+
+export type ScreenerUniverse = Record<string, ScreenerFund>;
+
+const TICKER_PATTERN = /^[A-Z]{4}\d{1,2}$/;
+const NUMERIC_FIELDS = ['price', 'dy', 'pvp', 'vacancyRate', 'liquidity', 'lastDividend', 'vpPerShare', 'dividendCAGR'] as const;
+
+// Universo inicial: os tickers das sugestões de busca, sem fundamentos
+export const seedScreenerUniverse = (): ScreenerUniverse =>
+    Object.fromEntries(KNOWN_TICKERS.map(ticker => [ticker, { ticker, segment: STATIC_FII_SECTORS[ticker] }]));
+
+export const loadScreenerUniverse = async (): Promise<ScreenerUniverse> =>
+    (await CacheManager.get<ScreenerUniverse>(CACHE_KEY, CACHE_TTL.SCREENER)) || seedScreenerUniverse();
+
+export const saveScreenerUniverse = (universe: ScreenerUniverse) => CacheManager.set(CACHE_KEY, universe);
+
+// Aceita "1234.56", "1.234,56" e "1.234.567"
+const parseNumber = (raw: unknown): number | undefined => {
+    if (typeof raw === 'number') return isFinite(raw) ? raw : undefined;
+    if (typeof raw !== 'string' || !raw.trim()) return undefined;
+    const value = raw.trim().replace(/"/g, '').replace('%', '');
+    const isBrazilian = value.includes(',') || (value.match(/\./g) || []).length > 1;
+    const parsed = parseFloat(isBrazilian ? value.replace(/\./g, '').replace(',', '.') : value);
+    return isFinite(parsed) ? parsed : undefined;
+};
+
+const toFund = (row: Record<string, unknown>): ScreenerFund | null => {
+    const ticker = String(row.ticker ?? '').trim().replace(/"/g, '').toUpperCase();
+    if (!TICKER_PATTERN.test(ticker)) return null;
+    const fund: ScreenerFund = { ticker };
+    NUMERIC_FIELDS.forEach(field => {
+        const value = parseNumber(row[field]);
+        if (value !== undefined) fund[field] = value;
+    });
+    if (row.segment) fund.segment = String(row.segment).trim();
+    if (row.administrator) fund.administrator = String(row.administrator).trim();
+    return fund;
+};
+
+/**
+ * JSON: ["HGLG11", ...] ou [{ "ticker", "segment", "dy", "pvp", ... }]
+ * CSV: com cabeçalho "ticker;segment;administrator;dy;pvp;vacancyRate;liquidity" ou apenas um ticker por linha
+ */
+export const parseScreenerFile = (text: string): ScreenerFund[] => {
+    const trimmed = text.trim();
+
+    if (trimmed.startsWith('[')) {
+        const data = JSON.parse(trimmed);
+        if (!Array.isArray(data)) return [];
+        return data
+            .map((item: unknown) => typeof item === 'string' ? toFund({ ticker: item }) : item && typeof item === 'object' ? toFund(item as Record<string, unknown>) : null)
+            .filter((f): f is ScreenerFund => f !== null);
+    }
+
+    const lines = trimmed.split(/\r?\n/).filter(l => l.trim());
+    if (lines.length === 0) return [];
+    const separator = lines[0].includes(';') ? ';' : ',';
+    const header = lines[0].split(separator).map(h => h.trim().replace(/"/g, ''));
+
+    if (!header.some(h => h.toLowerCase() === 'ticker')) {
+        return lines.flatMap(l => l.split(/[;,\s]+/)).map(ticker => toFund({ ticker })).filter((f): f is ScreenerFund => f !== null);
+    }
+
+    const fields: string[] = ['ticker', 'segment', 'administrator', ...NUMERIC_FIELDS];
+    const columns = header.map(h => fields.find(f => f.toLowerCase() === h.toLowerCase()) || h);
+    return lines.slice(1)
+        .map(line => {
+            const values = line.split(separator);
+            return toFund(Object.fromEntries(columns.map((column, i) => [column, values[i]])));
+        })
+        .filter((f): f is ScreenerFund => f !== null);
+};
+
+// Campos novos sobrescrevem os existentes; os ausentes são mantidos
+export const mergeScreenerFunds = (universe: ScreenerUniverse, incoming: ScreenerFund[]): ScreenerUniverse => {
+    const next = { ...universe };
+    incoming.forEach(fund => { next[fund.ticker] = { ...(next[fund.ticker] || {}), ...fund }; });
+    return next;
+};
+
+// Cotação pela Brapi e fundamentos pelo Gemini, em lotes para respeitar os limites das APIs
+export const fetchScreenerFundamentals = async (
+    prefs: AppPreferences,
+    tickers: string[],
+    onBatch: (funds: ScreenerFund[]) => void
+): Promise<{ failed: string[] }> => {
+    const failed: string[] = [];
+    if (tickers.length === 0) return { failed };
+
+    try {
+        const { quotes } = await fetchBrapiQuotes(prefs, tickers, true);
+        onBatch(Object.keys(quotes).filter(t => quotes[t].currentPrice > 0).map(ticker => ({ ticker, price: quotes[ticker].currentPrice })));
+    } catch (e) {
+        console.warn('Screener quotes error', e);
+    }
+
+    const BATCH_SIZE = 5;
+    for (let i = 0; i < tickers.length; i += BATCH_SIZE) {
+        const batch = tickers.slice(i, i + BATCH_SIZE);
+        try {
+            const { data } = await fetchAdvancedAssetData(prefs, batch);
+            const funds = batch
+                .map(ticker => data[ticker] ? toFund({ ...data[ticker], ticker, segment: data[ticker].segment || data[ticker].assetType }) : null)
+                .filter((f): f is ScreenerFund => f !== null)
+                .map(fund => ({ ...fund, updatedAt: Date.now() }));
+            failed.push(...batch.filter(ticker => !data[ticker]));
+            onBatch(funds);
+        } catch (e) {
+            console.error('Screener fundamentals error', e);
+            failed.push(...batch);
+        }
+        if (i + BATCH_SIZE < tickers.length) await new Promise(resolve => setTimeout(resolve, 5000));
+    }
+
+    return { failed };
+};
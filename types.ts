@@ -34,11 +34,17 @@ export interface AppPreferences {
   priceAlertThreshold: number;
   globalIncomeGoal: number;
   segmentGoals: Record<string, number>;
+  concentrationLimits: ConcentrationLimits;
   dndEnabled: boolean;
   dndStart: string;
   dndEnd: string;
   notificationChannels: { push: boolean; email: boolean };
 
+  // Analysis
+  realTerms: boolean; // Valores em reais de hoje, descontado o IPCA
+  valuation: ValuationAssumptions;
+  valuationByTicker: Record<string, Partial<ValuationAssumptions>>; // Premissas próprias do ativo
+
   // API Keys
   geminiApiKey: string | null;
   brapiToken: string | null;
@@ -49,6 +55,22 @@ export interface AppPreferences {
   devMode: boolean;
 }
 
+// Premissas dos modelos de preço justo
+export interface ValuationAssumptions {
+  bazinYield: number; // DY mínimo desejado (% a.a.)
+  discountRate: number; // Retorno exigido no modelo de Gordon (% a.a.)
+  growthRate: number | null; // Crescimento dos proventos (% a.a.); null usa o CAGR do fundo
+  targetPvp: number; // P/VP considerado justo
+  safetyMargin: number; // Desconto mínimo (%) sobre o preço justo
+}
+
+// Participação máxima (%) antes de alertar concentração
+export interface ConcentrationLimits {
+  ticker: number;
+  segment: number;
+  administrator: number;
+}
+
 export interface ToastMessage {
   id: number;
   message: string;
@@ -68,9 +90,65 @@ export interface Transaction {
     price: number;
     date: string;
     costs?: number;
+    settlementDate?: string; // Subscricao: data de liquidação, quando as novas cotas entram na posição
+    accountId?: string; // Conta/carteira de origem; ausente => conta principal
+}
+
+export type CashMovementType = 'Deposito' | 'Retirada' | 'Taxa';
+
+// Movimentações manuais do caixa; compras, vendas e proventos são lançados automaticamente
+export interface CashMovement {
+    id: string;
+    type: CashMovementType;
+    amount: number; // Sempre positivo; o sinal vem do tipo
+    date: string;
+    description?: string;
+    accountId?: string;
+}
+
+// Meta de renda mensal; as premissas do dia da criação formam a linha projetada
+export interface IncomeGoal {
+    id: string;
+    name: string;
+    monthlyIncome: number;
+    deadline?: string; // YYYY-MM-DD
+    createdAt: string; // YYYY-MM-DD
+    baseline: {
+        portfolioValue: number;
+        monthlyContribution: number;
+        annualYield: number; // % a.a. distribuído
+    };
+}
+
+export interface PortfolioAccount {
+    id: string;
+    name: string;
+    broker?: string;
+    defaultBrokerage?: number; // Sobrescreve preferences.defaultBrokerage quando definido
 }
 
-export type TransactionType = 'Compra' | 'Venda';
+// DireitoRecebido: direitos de subscrição creditados (custo zero)
+// VendaDireito: venda dos direitos (ganho tributável = valor integral da venda)
+// Subscricao: exercício dos direitos; vira cotas na data de liquidação
+export type TransactionType = 'Compra' | 'Venda' | 'DireitoRecebido' | 'VendaDireito' | 'Subscricao';
+
+export type CorporateActionType = 'Desdobramento' | 'Grupamento' | 'Bonificacao' | 'AlteracaoTicker' | 'Incorporacao';
+
+export interface CorporateAction {
+    id: string;
+    ticker: string;
+    type: CorporateActionType;
+    date: string;
+    // Desdobramento: novas cotas por cota antiga (1:10 => 10)
+    // Grupamento: cotas antigas por nova cota (10:1 => 10)
+    // Bonificacao: cotas recebidas por cota possuída (10% => 0.1)
+    // AlteracaoTicker / Incorporacao: cotas do sucessor por cota antiga (relação de troca)
+    ratio: number;
+    // Custo atribuído por cota bonificada (informado pelo fundo)
+    unitCost?: number;
+    // AlteracaoTicker / Incorporacao: ticker que recebe a posição
+    successorTicker?: string;
+}
 
 export interface Asset {
     ticker: string;
@@ -104,11 +182,15 @@ export interface Asset {
     assetType?: string;
 }
 
+export type DividendKind = 'Rendimento' | 'Amortizacao' | 'Dividendo' | 'JCP';
+
 export interface DividendHistoryEvent {
     exDate: string;
     paymentDate: string;
     value: number;
     isProvisioned: boolean;
+    // Ausente em históricos antigos: tratado como 'Rendimento'
+    kind?: DividendKind;
 }
 
 export interface NewsArticle {
@@ -137,12 +219,65 @@ export type NotificationType = 'dividend_confirmed' | 'price_alert' | 'milestone
 export interface MonthlyIncome {
     month: string;
     total: number;
+    key?: string; // YYYY-MM
 }
 
 export interface PortfolioEvolutionPoint {
     dateISO: string;
     marketValue: number;
     invested: number;
+    cumulativeReturn?: number; // Retorno acumulado (TWR, %) desde o início da série
+}
+
+export type BenchmarkId = 'IFIX' | 'CDI' | 'IPCA' | 'IBOV';
+
+export interface BenchmarkPoint {
+    date: string;
+    value: number; // Pontos do índice (IFIX, IBOV) ou taxa % do período encerrado na data (CDI, IPCA)
+}
+
+export interface BenchmarkSeries {
+    id: BenchmarkId;
+    points: BenchmarkPoint[];
+    source: 'import' | 'provider';
+    updatedAt: string;
+}
+
+// Fundo do universo do screener com os últimos fundamentos conhecidos
+export interface ScreenerFund {
+    ticker: string;
+    price?: number;
+    dy?: number;
+    pvp?: number;
+    vacancyRate?: number;
+    liquidity?: number; // R$ negociados por dia
+    segment?: string;
+    administrator?: string;
+    lastDividend?: number;
+    vpPerShare?: number;
+    dividendCAGR?: number;
+    updatedAt?: number; // Última atualização dos fundamentos
+}
+
+export type ScreenerSortKey = 'ticker' | 'dy' | 'pvp' | 'vacancyRate' | 'liquidity';
+
+// Limites vazios não filtram; com limite, fundos sem o dado ficam de fora
+export interface ScreenerFilters {
+    minDy?: number;
+    minPvp?: number;
+    maxPvp?: number;
+    maxVacancy?: number;
+    minLiquidity?: number;
+    segments: string[];
+    administrator: string;
+}
+
+export interface SavedScreen {
+    id: string;
+    name: string;
+    filters: ScreenerFilters;
+    sortKey: ScreenerSortKey;
+    sortDirection: 'asc' | 'desc';
 }
 
 export type SortOption = 'valueDesc' | 'valueAsc' | 'tickerAsc' | 'performanceDesc';
@@ -1,11 +1,12 @@
 
 import { useState, useEffect, Dispatch, SetStateAction, useRef } from 'react';
-import type { Transaction, AppTheme } from './types';
+import type { Transaction, AppTheme, CorporateAction, DividendHistoryEvent, CashMovement, CashMovementType, TransactionType, PortfolioEvolutionPoint, BenchmarkPoint, ValuationAssumptions, ScreenerFund, ScreenerFilters, ScreenerSortKey } from './types';
 
 // --- IndexedDB Wrapper ---
 const DB_NAME = 'fii_master_db';
 const STORE_NAME = 'keyval';
-const DB_VERSION = 1;
+const PRICE_STORE_NAME = 'price_history';
+const DB_VERSION = 2;
 
 export const idb = {
     open: (): Promise<IDBDatabase> => {
@@ -20,6 +21,11 @@ export const idb = {
                 if (!db.objectStoreNames.contains(STORE_NAME)) {
                     db.createObjectStore(STORE_NAME);
                 }
+                // v2: fechamentos diários, uma linha por ativo e data
+                if (!db.objectStoreNames.contains(PRICE_STORE_NAME)) {
+                    const prices = db.createObjectStore(PRICE_STORE_NAME, { keyPath: ['ticker', 'date'] });
+                    prices.createIndex('ticker', 'ticker');
+                }
             };
             request.onsuccess = () => resolve(request.result);
             request.onerror = () => reject(request.error);
@@ -87,6 +93,89 @@ export const idb = {
     }
 };
 
+// --- Histórico de cotações (store próprio, chave [ticker, data]) ---
+export interface PriceCandle {
+    ticker: string;
+    date: string;
+    price: number;
+}
+
+export const priceHistoryDb = {
+    // Grava por cima da mesma data, então reenviar candles não duplica
+    putMany: (candles: PriceCandle[]): Promise<void> => {
+        if (candles.length === 0) return Promise.resolve();
+        return idb.open().then(db => {
+            return new Promise((resolve, reject) => {
+                try {
+                    const tx = db.transaction(PRICE_STORE_NAME, 'readwrite');
+                    const store = tx.objectStore(PRICE_STORE_NAME);
+                    candles.forEach(c => { if (c.price > 0) store.put(c); });
+                    tx.oncomplete = () => resolve();
+                    tx.onerror = () => reject(tx.error);
+                } catch (e) {
+                    reject(e);
+                }
+            });
+        });
+    },
+    // Série do ativo entre `from` e `to` (inclusive), ordenada por data
+    getRange: (ticker: string, from = '0000-00-00', to = '9999-99-99'): Promise<PriceSeries> => {
+        return idb.open().then(db => {
+            return new Promise((resolve, reject) => {
+                try {
+                    const tx = db.transaction(PRICE_STORE_NAME, 'readonly');
+                    const store = tx.objectStore(PRICE_STORE_NAME);
+                    const request = store.getAll(IDBKeyRange.bound([ticker, from], [ticker, to]));
+                    request.onsuccess = () => resolve((request.result as PriceCandle[]).map(c => ({ date: c.date, price: c.price })));
+                    request.onerror = () => reject(request.error);
+                } catch (e) {
+                    reject(e);
+                }
+            });
+        });
+    },
+    getAll: (): Promise<Record<string, PriceSeries>> => {
+        return idb.open().then(db => {
+            return new Promise((resolve, reject) => {
+                try {
+                    const tx = db.transaction(PRICE_STORE_NAME, 'readonly');
+                    const store = tx.objectStore(PRICE_STORE_NAME);
+                    const request = store.getAll();
+                    request.onsuccess = () => {
+                        // A chave composta já devolve tudo ordenado por ticker e data
+                        const result: Record<string, PriceSeries> = {};
+                        (request.result as PriceCandle[]).forEach(c => {
+                            (result[c.ticker] || (result[c.ticker] = [])).push({ date: c.date, price: c.price });
+                        });
+                        resolve(result);
+                    };
+                    request.onerror = () => reject(request.error);
+                } catch (e) {
+                    reject(e);
+                }
+            });
+        });
+    },
+    delTicker: (ticker: string): Promise<void> => {
+        return idb.open().then(db => {
+            return new Promise((resolve, reject) => {
+                try {
+                    const tx = db.transaction(PRICE_STORE_NAME, 'readwrite');
+                    const store = tx.objectStore(PRICE_STORE_NAME);
+                    store.delete(IDBKeyRange.bound([ticker, '0000-00-00'], [ticker, '9999-99-99']));
+                    tx.oncomplete = () => resolve();
+                    tx.onerror = () => reject(tx.error);
+                } catch (e) {
+                    reject(e);
+                }
+            });
+        });
+    }
+};
+
+export const toPriceCandles = (ticker: string, series: PriceSeries): PriceCandle[] =>
+    series.map(p => ({ ticker, date: p.date, price: p.price }));
+
 // --- Hook para estado persistente no IndexedDB com fallback e migração ---
 export function usePersistentState<T>(key: string, defaultValue: T): [T, Dispatch<SetStateAction<T>>] {
   const [state, setState] = useState<T>(defaultValue);
@@ -346,24 +435,150 @@ export const CacheManager = {
 
 const EPSILON = 0.000001;
 
-export const calculatePortfolioMetrics = (transactions: Transaction[]): Record<string, { quantity: number; totalCost: number }> => {
-    const metrics: Record<string, { quantity: number; totalCost: number }> = {};
+export interface PositionMetrics {
+    quantity: number;
+    totalCost: number;
+}
+
+// --- Proventos ---
+export const getDividendKind = (event: DividendHistoryEvent) => event.kind || 'Rendimento';
+export const isCapitalReturn = (event: DividendHistoryEvent) => getDividendKind(event) === 'Amortizacao';
+
+// --- Ledger: transações, eventos corporativos e amortizações em ordem cronológica ---
+export type LedgerEntry =
+    | { kind: 'transaction'; date: string; ticker: string; data: Transaction }
+    | { kind: 'corporateAction'; date: string; ticker: string; data: CorporateAction }
+    | { kind: 'amortization'; date: string; ticker: string; data: DividendHistoryEvent };
+
+// --- Subscrições ---
+export const isRightsTransaction = (tx: Transaction) => tx.type === 'DireitoRecebido' || tx.type === 'VendaDireito';
+export const isSaleTransaction = (tx: Transaction) => tx.type === 'Venda' || tx.type === 'VendaDireito';
+
+// Subscrição só afeta a posição quando liquida; demais transações valem na data informada
+export const getTransactionEffectiveDate = (tx: Transaction) =>
+    tx.type === 'Subscricao' && tx.settlementDate ? tx.settlementDate : tx.date;
+
+export interface SubscriptionStatus {
+    rightsBalance: number;
+    pending: Transaction[];
+}
 
-    const sortedTransactions = [...transactions].sort((a, b) => {
+// Saldo de direitos (1 direito = 1 cota subscrita) e subscrições ainda não liquidadas
+export const getSubscriptionStatus = (ticker: string, transactions: Transaction[], today = getTodayISODate()): SubscriptionStatus => {
+    let rightsBalance = 0;
+    const pending: Transaction[] = [];
+    transactions.forEach(tx => {
+        if (tx.ticker !== ticker) return;
+        if (tx.type === 'DireitoRecebido') rightsBalance += tx.quantity;
+        else if (tx.type === 'VendaDireito') rightsBalance -= tx.quantity;
+        else if (tx.type === 'Subscricao') {
+            rightsBalance -= tx.quantity;
+            if (getTransactionEffectiveDate(tx) > today) pending.push(tx);
+        }
+    });
+    return {
+        rightsBalance: Math.max(0, safeFloat(rightsBalance)),
+        pending: pending.sort((a, b) => getTransactionEffectiveDate(a).localeCompare(getTransactionEffectiveDate(b))),
+    };
+};
+
+// No mesmo dia: amortizações (só quem tinha cotas antes da data com recebe), compras, vendas
+// e, por último, eventos corporativos (valem para a posição no fechamento da data com)
+const ledgerEntryRank = (entry: LedgerEntry): number => {
+    if (entry.kind === 'amortization') return -1;
+    if (entry.kind === 'corporateAction') return 2;
+    return entry.data.type === 'Compra' || entry.data.type === 'Subscricao' ? 0 : 1;
+};
+
+export const buildLedger = (
+    transactions: Transaction[],
+    corporateActions: CorporateAction[] = [],
+    dividendsByTicker: Record<string, DividendHistoryEvent[]> = {}
+): LedgerEntry[] => {
+    const amortizations: LedgerEntry[] = [];
+    Object.entries(dividendsByTicker).forEach(([ticker, events]) => {
+        (events || []).forEach(event => {
+            if (isCapitalReturn(event) && !event.isProvisioned) {
+                amortizations.push({ kind: 'amortization', date: event.exDate, ticker, data: event });
+            }
+        });
+    });
+
+    const entries: LedgerEntry[] = [
+        ...transactions.map(tx => ({ kind: 'transaction' as const, date: getTransactionEffectiveDate(tx), ticker: tx.ticker, data: tx })),
+        ...corporateActions.map(ca => ({ kind: 'corporateAction' as const, date: ca.date, ticker: ca.ticker, data: ca })),
+        ...amortizations,
+    ];
+    return entries.sort((a, b) => {
         if (a.date !== b.date) return a.date.localeCompare(b.date);
-        if (a.type === 'Compra' && b.type === 'Venda') return -1;
-        if (a.type === 'Venda' && b.type === 'Compra') return 1;
-        return 0;
+        return ledgerEntryRank(a) - ledgerEntryRank(b);
     });
+};
 
-    for (const tx of sortedTransactions) {
-        const ticker = tx.ticker;
-        if (!metrics[ticker]) {
-            metrics[ticker] = { quantity: 0, totalCost: 0 };
+export const isTickerMigration = (action: CorporateAction) =>
+    (action.type === 'AlteracaoTicker' || action.type === 'Incorporacao') && !!action.successorTicker;
+
+// Todos os tickers cuja posição (direta ou indiretamente) migrou para `ticker`, incluindo ele mesmo
+export const getTickerLineage = (ticker: string, corporateActions: CorporateAction[]): string[] => {
+    const lineage = [ticker];
+    for (let i = 0; i < lineage.length; i++) {
+        corporateActions.forEach(action => {
+            if (isTickerMigration(action) && action.successorTicker === lineage[i] && !lineage.includes(action.ticker)) {
+                lineage.push(action.ticker);
+            }
+        });
+    }
+    return lineage;
+};
+
+export const applyCorporateAction = (position: PositionMetrics, action: CorporateAction) => {
+    if (position.quantity < EPSILON || !(action.ratio > 0)) return;
+
+    switch (action.type) {
+        case 'Desdobramento':
+            position.quantity = safeFloat(position.quantity * action.ratio);
+            break;
+        case 'Grupamento':
+            position.quantity = safeFloat(position.quantity / action.ratio);
+            break;
+        case 'Bonificacao': {
+            const bonusShares = safeFloat(position.quantity * action.ratio);
+            position.quantity = safeFloat(position.quantity + bonusShares);
+            position.totalCost = safeFloat(position.totalCost + bonusShares * (action.unitCost || 0));
+            break;
         }
-        const position = metrics[ticker];
+    }
+};
+
+// Transfere quantidade (pela relação de troca) e custo integral para o sucessor
+const migratePosition = (positions: Record<string, PositionMetrics>, position: PositionMetrics, action: CorporateAction) => {
+    if (position.quantity < EPSILON || !(action.ratio > 0)) return;
+    const successorTicker = action.successorTicker!;
+    if (!positions[successorTicker]) positions[successorTicker] = { quantity: 0, totalCost: 0 };
+    const successor = positions[successorTicker];
+    successor.quantity = safeFloat(successor.quantity + position.quantity * action.ratio);
+    successor.totalCost = safeFloat(successor.totalCost + position.totalCost);
+    position.quantity = 0;
+    position.totalCost = 0;
+};
+
+export const applyLedgerEntry = (positions: Record<string, PositionMetrics>, entry: LedgerEntry) => {
+    // Amortizações de fundos nunca negociados não abrem posição
+    if (entry.kind === 'amortization' && !positions[entry.ticker]) return;
+    if (!positions[entry.ticker]) positions[entry.ticker] = { quantity: 0, totalCost: 0 };
+    const position = positions[entry.ticker];
 
-        if (tx.type === 'Compra') {
+    if (entry.kind === 'corporateAction') {
+        if (isTickerMigration(entry.data)) migratePosition(positions, position, entry.data);
+        else applyCorporateAction(position, entry.data);
+    } else if (entry.kind === 'amortization') {
+        // Devolução de capital reduz o custo (e o preço médio), nunca abaixo de zero
+        const returned = position.quantity * entry.data.value;
+        position.totalCost = safeFloat(Math.max(0, position.totalCost - returned));
+    } else {
+        const tx = entry.data;
+        // Direitos têm custo zero e não alteram a posição em cotas
+        if (tx.type === 'Compra' || tx.type === 'Subscricao') {
             const cost = (tx.quantity * tx.price) + (tx.costs || 0);
             position.totalCost = safeFloat(position.totalCost + cost);
             position.quantity = safeFloat(position.quantity + tx.quantity);
@@ -375,14 +590,1452 @@ export const calculatePortfolioMetrics = (transactions: Transaction[]): Record<s
                 position.quantity = safeFloat(position.quantity - sellQuantity);
             }
         }
-        
-        if (position.quantity < EPSILON) {
-            position.quantity = 0;
-            position.totalCost = 0;
+    }
+
+    if (position.quantity < EPSILON) {
+        position.quantity = 0;
+        position.totalCost = 0;
+    }
+};
+
+// --- Caixa ---
+export interface PaidProvento {
+    ticker: string;
+    date: string; // paymentDate
+    amount: number;
+}
+
+export interface CashLedgerEntry {
+    id: string;
+    date: string;
+    source: CashMovementType | TransactionType | 'Provento';
+    amount: number; // Positivo credita, negativo debita
+    balance: number; // Saldo após o lançamento
+    ticker?: string;
+}
+
+// Valor que a transação movimenta no caixa (subscrição é paga na data do exercício)
+export const getTransactionCashFlow = (tx: Transaction) => {
+    const gross = tx.quantity * tx.price;
+    const costs = tx.costs || 0;
+    switch (tx.type) {
+        case 'Compra':
+        case 'Subscricao':
+            return -(gross + costs);
+        case 'Venda':
+        case 'VendaDireito':
+            return gross - costs;
+        default:
+            return -costs;
+    }
+};
+
+export const getCashMovementFlow = (movement: CashMovement) =>
+    movement.type === 'Deposito' ? movement.amount : -movement.amount;
+
+export const buildCashLedger = (
+    transactions: Transaction[],
+    cashMovements: CashMovement[],
+    paidProventos: PaidProvento[],
+    until = getTodayISODate()
+): CashLedgerEntry[] => {
+    const entries: Omit<CashLedgerEntry, 'balance'>[] = [
+        ...cashMovements.map(m => ({ id: m.id, date: m.date, source: m.type, amount: getCashMovementFlow(m) })),
+        ...transactions.map(tx => ({ id: tx.id, date: tx.date, source: tx.type, amount: getTransactionCashFlow(tx), ticker: tx.ticker })),
+        ...paidProventos.map(p => ({ id: `prov-${p.ticker}-${p.date}`, date: p.date, source: 'Provento' as const, amount: p.amount, ticker: p.ticker })),
+    ];
+
+    let balance = 0;
+    return entries
+        .filter(e => e.date <= until && e.amount !== 0)
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map(e => {
+            balance = safeFloat(balance + e.amount);
+            return { ...e, balance };
+        });
+};
+
+// --- Imposto de Renda sobre vendas de FII ---
+export const FII_TAX_RATE = 0.2;
+export const IRRF_RATE = 0.00005; // 0,005% retido na fonte ("dedo-duro") sobre o valor de venda
+export const DARF_MINIMUM = 10; // DARF abaixo de R$ 10 é acumulado para os meses seguintes
+export const DARF_CODE = '6015';
+
+export interface RealizedSale {
+    id: string;
+    ticker: string;
+    date: string;
+    grossValue: number;
+    gain: number;
+}
+
+export interface MonthlyTaxResult {
+    month: string; // YYYY-MM
+    sales: RealizedSale[];
+    salesValue: number;
+    netResult: number;
+    lossUsed: number;
+    lossCarryForward: number; // Prejuízo acumulado ao final do mês
+    taxableBase: number;
+    taxDue: number;
+    irrfWithheld: number;
+    irrfUsed: number;
+    carriedFromPrevious: number; // DARFs abaixo do mínimo vindos de meses anteriores
+    darfAmount: number; // Valor a recolher no mês (zero quando abaixo do mínimo)
+    dueDate: string;
+}
+
+// Vencimento: último dia útil do mês seguinte à venda (feriados não considerados)
+export const getDarfDueDate = (month: string): string => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    const date = new Date(Date.UTC(year, monthIndex + 1, 0));
+    while (date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+        date.setUTCDate(date.getUTCDate() - 1);
+    }
+    return date.toISOString().split('T')[0];
+};
+
+export const calculateMonthlyTaxes = (sales: RealizedSale[]): MonthlyTaxResult[] => {
+    const byMonth: Record<string, RealizedSale[]> = {};
+    sales.forEach(sale => {
+        const month = sale.date.substring(0, 7);
+        (byMonth[month] = byMonth[month] || []).push(sale);
+    });
+
+    let lossCarryForward = 0;
+    let irrfBalance = 0; // IRRF excedente compensável nos meses seguintes do mesmo ano
+    let pendingDarf = 0;
+    let currentYear = '';
+
+    return Object.keys(byMonth).sort().map(month => {
+        const monthSales = byMonth[month];
+        if (month.substring(0, 4) !== currentYear) {
+            currentYear = month.substring(0, 4);
+            irrfBalance = 0;
+        }
+
+        const salesValue = safeFloat(monthSales.reduce((acc, s) => acc + s.grossValue, 0));
+        const netResult = safeFloat(monthSales.reduce((acc, s) => acc + s.gain, 0));
+        const irrfWithheld = safeFloat(salesValue * IRRF_RATE);
+        irrfBalance = safeFloat(irrfBalance + irrfWithheld);
+
+        let lossUsed = 0;
+        let taxableBase = 0;
+        if (netResult < 0) {
+            lossCarryForward = safeFloat(lossCarryForward - netResult);
+        } else {
+            lossUsed = Math.min(lossCarryForward, netResult);
+            lossCarryForward = safeFloat(lossCarryForward - lossUsed);
+            taxableBase = safeFloat(netResult - lossUsed);
+        }
+
+        const taxDue = safeFloat(taxableBase * FII_TAX_RATE);
+        const irrfUsed = Math.min(irrfBalance, taxDue);
+        irrfBalance = safeFloat(irrfBalance - irrfUsed);
+
+        const carriedFromPrevious = pendingDarf;
+        const total = safeFloat(taxDue - irrfUsed + pendingDarf);
+        const darfAmount = total >= DARF_MINIMUM ? total : 0;
+        pendingDarf = total >= DARF_MINIMUM ? 0 : total;
+
+        return {
+            month,
+            sales: monthSales,
+            salesValue,
+            netResult,
+            lossUsed: safeFloat(lossUsed),
+            lossCarryForward,
+            taxableBase,
+            taxDue,
+            irrfWithheld,
+            irrfUsed: safeFloat(irrfUsed),
+            carriedFromPrevious,
+            darfAmount,
+            dueDate: getDarfDueDate(month),
+        };
+    });
+};
+
+// --- Rentabilidade (TWR e XIRR) ---
+export type PerformancePeriod = 'MTD' | 'YTD' | '12M' | 'ALL';
+export const PERFORMANCE_PERIODS: PerformancePeriod[] = ['MTD', 'YTD', '12M', 'ALL'];
+
+export interface DatedCashFlow {
+    date: string;
+    amount: number;
+}
+
+export const daysBetween = (from: string, to: string) =>
+    Math.round((fromISODate(to).getTime() - fromISODate(from).getTime()) / 86400000);
+
+export const addDaysISO = (date: string, days: number) => {
+    const d = fromISODate(date);
+    d.setDate(d.getDate() + days);
+    return toISODate(d);
+};
+
+// Fechamento anterior ao início do período (null = desde a primeira transação)
+export const getPerformancePeriodBase = (period: PerformancePeriod, today = getTodayISODate()): string | null => {
+    const d = fromISODate(today);
+    switch (period) {
+        case 'MTD': return toISODate(new Date(d.getFullYear(), d.getMonth(), 0, 12));
+        case 'YTD': return `${d.getFullYear() - 1}-12-31`;
+        case '12M': return toISODate(new Date(d.getFullYear() - 1, d.getMonth(), d.getDate(), 12));
+        default: return null;
+    }
+};
+
+// Taxa anual que zera o valor presente dos fluxos (negativo = aporte, positivo = retorno)
+export const calculateXirr = (flows: DatedCashFlow[]): number | null => {
+    if (!flows.some(f => f.amount > 0) || !flows.some(f => f.amount < 0)) return null;
+    const origin = flows.reduce((min, f) => f.date < min ? f.date : min, flows[0].date);
+    const points = flows.map(f => ({ years: daysBetween(origin, f.date) / 365, amount: f.amount }));
+    const npv = (rate: number) => points.reduce((acc, p) => acc + p.amount / Math.pow(1 + rate, p.years), 0);
+
+    // Newton-Raphson a partir de 10% a.a.; se não convergir, bisseção
+    let rate = 0.1;
+    for (let i = 0; i < 50; i++) {
+        const value = npv(rate);
+        const derivative = points.reduce((acc, p) => acc - p.years * p.amount / Math.pow(1 + rate, p.years + 1), 0);
+        if (!isFinite(value) || !isFinite(derivative) || derivative === 0) break;
+        const next = rate - value / derivative;
+        if (Math.abs(next - rate) < 1e-7) return next > -1 ? next : null;
+        rate = next;
+        if (rate <= -1) break;
+    }
+
+    let low = -0.9999, high = 10;
+    if (npv(low) * npv(high) > 0) return null;
+    for (let i = 0; i < 200; i++) {
+        const mid = (low + high) / 2;
+        if (npv(low) * npv(mid) <= 0) high = mid;
+        else low = mid;
+    }
+    return (low + high) / 2;
+};
+
+// --- Reconstrução histórica da carteira ---
+export type PriceSeries = { date: string; price: number }[];
+
+export interface TickerFlow extends DatedCashFlow {
+    ticker: string;
+}
+
+// Último preço conhecido até a data (forward-fill); antes do primeiro ponto usa o primeiro
+export const getPriceAt = (series: PriceSeries | undefined, date: string): number | null => {
+    if (!series || series.length === 0) return null;
+    let low = 0, high = series.length - 1, found = 0;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (series[mid].date <= date) { found = mid; low = mid + 1; }
+        else high = mid - 1;
+    }
+    return series[found].price;
+};
+
+// Cotações ficam na base atual; posições anteriores a desdobramento/grupamento precisam do fator
+const getSplitFactor = (ticker: string, corporateActions: CorporateAction[], date: string) =>
+    corporateActions
+        .filter(a => a.ticker === ticker && a.date > date && a.ratio > 0 && (a.type === 'Desdobramento' || a.type === 'Grupamento'))
+        .reduce((acc, a) => a.type === 'Desdobramento' ? acc * a.ratio : acc / a.ratio, 1);
+
+// Une históricos de cotação; o ponto novo prevalece na mesma data
+export const mergePriceSeries = (existing: PriceSeries, incoming: PriceSeries): PriceSeries => {
+    const byDate = new Map<string, number>();
+    existing.forEach(p => byDate.set(p.date, p.price));
+    incoming.forEach(p => { if (p.price > 0) byDate.set(p.date, p.price); });
+    return Array.from(byDate.entries()).map(([date, price]) => ({ date, price })).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Histórico persistido + histórico recente + preços das próprias negociações + cotação atual
+export const buildPriceSeries = (
+    transactions: Transaction[],
+    marketData: Record<string, any>,
+    corporateActions: CorporateAction[],
+    today: string,
+    storedHistory: Record<string, PriceSeries> = {}
+): Record<string, PriceSeries> => {
+    const byTicker: Record<string, Map<string, number>> = {};
+    const getMap = (ticker: string) => byTicker[ticker] || (byTicker[ticker] = new Map());
+
+    transactions.forEach(tx => {
+        if ((tx.type !== 'Compra' && tx.type !== 'Venda' && tx.type !== 'Subscricao') || !(tx.price > 0)) return;
+        const date = getTransactionEffectiveDate(tx);
+        // Preço negociado antes de desdobramento/grupamento é ajustado para a base atual
+        const factor = corporateActions
+            .filter(a => a.ticker === tx.ticker && a.date >= date && a.ratio > 0 && (a.type === 'Desdobramento' || a.type === 'Grupamento'))
+            .reduce((acc, a) => a.type === 'Desdobramento' ? acc / a.ratio : acc * a.ratio, 1);
+        getMap(tx.ticker).set(date, tx.price * factor);
+    });
+
+    Object.entries(storedHistory).forEach(([ticker, series]) => {
+        const map = getMap(ticker);
+        series.forEach(p => { if (p.price > 0) map.set(p.date, p.price); });
+    });
+
+    Object.entries(marketData).forEach(([ticker, data]) => {
+        const map = getMap(ticker);
+        (data?.priceHistory || []).forEach((p: { date: string; price: number }) => { if (p.price > 0) map.set(p.date, p.price); });
+        if (data?.currentPrice > 0) map.set(today, data.currentPrice);
+    });
+
+    const series: Record<string, PriceSeries> = {};
+    Object.entries(byTicker).forEach(([ticker, map]) => {
+        series[ticker] = Array.from(map.entries()).map(([date, price]) => ({ date, price })).sort((a, b) => a.date.localeCompare(b.date));
+    });
+    return series;
+};
+
+// Aportes (+) e resgates (-) de cada transação na data em que afetam a posição
+export const buildContributionFlows = (transactions: Transaction[]): TickerFlow[] => transactions
+    .map(tx => ({ ticker: tx.ticker, date: getTransactionEffectiveDate(tx), amount: -getTransactionCashFlow(tx) }))
+    .filter(f => f.amount !== 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+// Proventos pagos (rendimentos e amortizações) pela quantidade detida na véspera da data com
+export const buildPaidIncome = (ledger: LedgerEntry[], dividendsByTicker: Record<string, DividendHistoryEvent[]>, today: string): TickerFlow[] => {
+    const events = Object.entries(dividendsByTicker)
+        .flatMap(([ticker, history]) => (history || []).map(div => ({ ticker, div })))
+        .filter(({ div }) => !div.isProvisioned && div.paymentDate <= today)
+        .sort((a, b) => a.div.exDate.localeCompare(b.div.exDate));
+
+    const positions: Record<string, PositionMetrics> = {};
+    const income: TickerFlow[] = [];
+    let cursor = 0;
+    events.forEach(({ ticker, div }) => {
+        while (cursor < ledger.length && ledger[cursor].date < div.exDate) applyLedgerEntry(positions, ledger[cursor++]);
+        const quantity = positions[ticker]?.quantity || 0;
+        if (quantity > 0 && div.value > 0) {
+            income.push({ ticker, date: div.paymentDate, amount: safeFloat(quantity * div.value) });
         }
+    });
+    return income.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const sumByDate = (flows: DatedCashFlow[]) => flows.reduce((acc, f) => {
+    acc[f.date] = (acc[f.date] || 0) + f.amount;
+    return acc;
+}, {} as Record<string, number>);
+
+export const uniqueSortedDates = (dates: string[]) => Array.from(new Set(dates)).sort();
+
+export interface ReplayPoint {
+    date: string;
+    marketValue: number;
+    invested: number;
+    growth: number; // Fator acumulado do TWR desde o início
+}
+
+// Reavalia a carteira no fechamento de cada data; aportes/resgates do dia entram após a avaliação
+export const replayPortfolio = (
+    ledger: LedgerEntry[],
+    contributions: DatedCashFlow[],
+    income: DatedCashFlow[],
+    priceSeries: Record<string, PriceSeries>,
+    start: string,
+    dates: string[]
+) => {
+    const contributionByDate = sumByDate(contributions);
+    const corporateActions = ledger.flatMap(entry => entry.kind === 'corporateAction' ? [entry.data] : []);
+    const positions: Record<string, PositionMetrics> = {};
+    let cursor = 0;
+    const valueAt = (date: string) => {
+        while (cursor < ledger.length && ledger[cursor].date <= date) applyLedgerEntry(positions, ledger[cursor++]);
+        return Object.entries(positions).reduce((acc, [ticker, position]) => {
+            if (position.quantity <= 0) return acc;
+            const price = getPriceAt(priceSeries[ticker], date);
+            acc.marketValue += price === null ? position.totalCost : position.quantity * price * getSplitFactor(ticker, corporateActions, date);
+            acc.invested += position.totalCost;
+            return acc;
+        }, { marketValue: 0, invested: 0 });
+    };
+
+    const periodIncome = income.filter(f => f.date > start);
+    let incomeCursor = 0;
+    let prev = valueAt(start);
+    let growth = 1;
+    let hasReturn = false;
+    const points: ReplayPoint[] = [{ date: start, ...prev, growth }];
+
+    dates.forEach(date => {
+        const current = valueAt(date);
+        const contribution = contributionByDate[date] || 0;
+        let paid = 0;
+        while (incomeCursor < periodIncome.length && periodIncome[incomeCursor].date <= date) paid += periodIncome[incomeCursor++].amount;
+        if (prev.marketValue > 0.01) {
+            growth *= (current.marketValue - contribution + paid) / prev.marketValue;
+            hasReturn = true;
+        }
+        points.push({ date, ...current, growth });
+        prev = current;
+    });
+
+    return { points, hasReturn };
+};
+
+// Dias úteis (seg–sex) no intervalo (from, to]
+export const getWeekdaysBetween = (from: string, to: string): string[] => {
+    const dates: string[] = [];
+    const d = fromISODate(from);
+    d.setDate(d.getDate() + 1);
+    for (let iso = toISODate(d); iso <= to; d.setDate(d.getDate() + 1), iso = toISODate(d)) {
+        const weekday = d.getDay();
+        if (weekday !== 0 && weekday !== 6) dates.push(iso);
+    }
+    return dates;
+};
+
+/**
+ * Patrimônio x investido dia a dia desde a primeira transação, com preços em forward-fill.
+ * `from`/`to` recortam a série sem alterar o retorno acumulado.
+ */
+export const reconstructPortfolioEvolution = (
+    ledger: LedgerEntry[],
+    contributions: DatedCashFlow[],
+    income: DatedCashFlow[],
+    priceSeries: Record<string, PriceSeries>,
+    to: string,
+    from?: string
+): PortfolioEvolutionPoint[] => {
+    const pastContributions = contributions.filter(f => f.date <= to);
+    if (pastContributions.length === 0) return [];
+
+    const start = addDaysISO(pastContributions[0].date, -1);
+    const dates = uniqueSortedDates([...getWeekdaysBetween(start, to), ...pastContributions.map(f => f.date), to]);
+    const { points } = replayPortfolio(ledger, pastContributions, income.filter(f => f.date <= to), priceSeries, start, dates);
+
+    return points
+        .slice(1)
+        .filter(p => !from || p.date >= from)
+        .map(p => ({
+            dateISO: p.date,
+            marketValue: safeFloat(p.marketValue),
+            invested: safeFloat(p.invested),
+            cumulativeReturn: safeFloat((p.growth - 1) * 100),
+        }));
+};
+
+// --- Métricas de risco ---
+const TRADING_DAYS_PER_YEAR = 252;
+const MIN_RISK_OBSERVATIONS = 20;
+const MIN_BETA_OBSERVATIONS = 10;
+
+export interface RiskMetrics {
+    volatility: number | null; // % a.a.
+    maxDrawdown: number | null; // % (negativo)
+    drawdownPeak: string | null;
+    drawdownTrough: string | null;
+    drawdownRecovery: string | null; // null enquanto não voltou ao topo
+    sharpe: number | null;
+    beta: number | null;
+    observations: number;
+}
+
+// Nível da série na data (último ponto conhecido); null antes do início
+export const getLevelAt = (series: BenchmarkPoint[], date: string): number | null => {
+    if (series.length === 0 || date < series[0].date) return null;
+    let low = 0, high = series.length - 1, found = 0;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (series[mid].date <= date) { found = mid; low = mid + 1; }
+        else high = mid - 1;
+    }
+    return series[found].value;
+};
+
+// Índice de retorno total (base 1): variação do preço + proventos com data-com no intervalo
+export const buildTotalReturnIndex = (prices: PriceSeries, dividends: DividendHistoryEvent[] = []): BenchmarkPoint[] => {
+    const valid = prices.filter(p => p.price > 0);
+    if (valid.length === 0) return [];
+    const events = [...dividends].sort((a, b) => a.exDate.localeCompare(b.exDate));
+    const result: BenchmarkPoint[] = [{ date: valid[0].date, value: 1 }];
+    let level = 1, eventIndex = 0;
+
+    for (let i = 1; i < valid.length; i++) {
+        // Quem tinha a cota na data-com recebe; o preço cai no pregão seguinte
+        let income = 0;
+        while (eventIndex < events.length && events[eventIndex].exDate < valid[i].date) {
+            if (events[eventIndex].exDate >= valid[i - 1].date) income += events[eventIndex].value;
+            eventIndex++;
+        }
+        level *= (valid[i].price + income) / valid[i - 1].price;
+        result.push({ date: valid[i].date, value: level });
+    }
+    return result;
+};
+
+const getReturns = (levels: number[]) => levels.slice(1).map((value, i) => value / levels[i] - 1);
+
+const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+const covariance = (a: number[], b: number[]) => {
+    const meanA = mean(a), meanB = mean(b);
+    return a.reduce((acc, v, i) => acc + (v - meanA) * (b[i] - meanB), 0) / (a.length - 1);
+};
+
+// Variação anualizada entre o primeiro e o último ponto de um índice
+const getAnnualizedGrowth = (first: number, last: number, days: number) => Math.pow(last / first, 365 / days) - 1;
+
+/**
+ * Volatilidade e drawdown saem da série diária. Sharpe usa o CDI acumulado no mesmo
+ * intervalo; beta compara os retornos nos intervalos da série do IFIX (diária ou mensal).
+ */
+export const calculateRiskMetrics = (
+    levels: BenchmarkPoint[],
+    riskFreeIndex: BenchmarkPoint[] | null,
+    marketIndex: BenchmarkPoint[] | null
+): RiskMetrics => {
+    const series = levels.filter(l => l.value > 0);
+    const returns = getReturns(series.map(l => l.value));
+    const result: RiskMetrics = {
+        volatility: null, maxDrawdown: null, drawdownPeak: null, drawdownTrough: null, drawdownRecovery: null,
+        sharpe: null, beta: null, observations: returns.length,
+    };
+    if (returns.length < MIN_RISK_OBSERVATIONS) return result;
+
+    const volatility = Math.sqrt(covariance(returns, returns) * TRADING_DAYS_PER_YEAR);
+    result.volatility = safeFloat(volatility * 100);
+
+    let peak = series[0], worst = 0, troughIndex = -1, worstPeak = series[0];
+    series.forEach((point, i) => {
+        if (point.value > peak.value) peak = point;
+        const drawdown = point.value / peak.value - 1;
+        if (drawdown < worst) { worst = drawdown; troughIndex = i; worstPeak = peak; }
+    });
+    result.maxDrawdown = safeFloat(worst * 100);
+    if (troughIndex >= 0) {
+        result.drawdownPeak = worstPeak.date;
+        result.drawdownTrough = series[troughIndex].date;
+        result.drawdownRecovery = series.slice(troughIndex + 1).find(p => p.value >= worstPeak.value)?.date || null;
+    }
+
+    const first = series[0], last = series[series.length - 1];
+    const days = daysBetween(first.date, last.date);
+    const riskFreeStart = riskFreeIndex ? getLevelAt(riskFreeIndex, first.date) : null;
+    const riskFreeEnd = riskFreeIndex ? getLevelAt(riskFreeIndex, last.date) : null;
+    if (volatility > 0 && days > 0 && riskFreeStart && riskFreeEnd) {
+        const excess = getAnnualizedGrowth(first.value, last.value, days) - getAnnualizedGrowth(riskFreeStart, riskFreeEnd, days);
+        result.sharpe = safeFloat(excess / volatility);
+    }
+
+    if (marketIndex) {
+        const marketWindow = marketIndex.filter(p => p.date >= first.date && p.date <= last.date);
+        const assetLevels = marketWindow.map(p => getLevelAt(series, p.date)!);
+        if (marketWindow.length > MIN_BETA_OBSERVATIONS) {
+            const marketReturns = getReturns(marketWindow.map(p => p.value));
+            const assetReturns = getReturns(assetLevels);
+            const marketVariance = covariance(marketReturns, marketReturns);
+            if (marketVariance > 0) result.beta = safeFloat(covariance(assetReturns, marketReturns) / marketVariance);
+        }
+    }
+
+    return result;
+};
+
+// --- Correlação e concentração ---
+// Correlação de Pearson dos retornos nas datas em comum de cada par (null com poucos pregões)
+export const calculateCorrelationMatrix = (tickers: string[], seriesByTicker: Record<string, BenchmarkPoint[]>): (number | null)[][] => {
+    const levelMaps = tickers.map(ticker => new Map((seriesByTicker[ticker] || []).map(p => [p.date, p.value])));
+
+    return tickers.map((_, i) => tickers.map((__, j) => {
+        if (i === j) return 1;
+        const common = (seriesByTicker[tickers[i]] || []).map(p => p.date).filter(date => levelMaps[j].has(date));
+        const a = getReturns(common.map(date => levelMaps[i].get(date)!));
+        const b = getReturns(common.map(date => levelMaps[j].get(date)!));
+        if (a.length < MIN_RISK_OBSERVATIONS) return null;
+        const denominator = Math.sqrt(covariance(a, a) * covariance(b, b));
+        return denominator > 0 ? safeFloat(covariance(a, b) / denominator) : null;
+    }));
+};
+
+export interface ConcentrationResult {
+    hhi: number; // 0 a 1
+    effectiveN: number; // 1 / HHI
+    shares: { name: string; share: number }[]; // % do total, maior primeiro
+}
+
+// Índice Herfindahl-Hirschman sobre os valores de cada grupo; `portfolioTotal` inclui o que ficou sem grupo
+export const calculateConcentration = (values: Record<string, number>, portfolioTotal?: number): ConcentrationResult => {
+    const total = portfolioTotal ?? Object.values(values).reduce((acc, v) => acc + Math.max(v, 0), 0);
+    const shares = Object.entries(values)
+        .filter(([, value]) => value > 0)
+        .map(([name, value]) => ({ name, share: value / total }))
+        .sort((a, b) => b.share - a.share);
+    if (total <= 0 || shares.length === 0) return { hhi: 0, effectiveN: 0, shares: [] };
+    const hhi = shares.reduce((acc, s) => acc + s.share * s.share, 0);
+    return {
+        hhi: safeFloat(hhi),
+        effectiveN: safeFloat(1 / hhi),
+        shares: shares.map(s => ({ name: s.name, share: safeFloat(s.share * 100) })),
+    };
+};
+
+// --- Rebalanceamento por segmento ---
+export interface RebalanceHolding {
+    ticker: string;
+    segment: string;
+    price: number;
+    value: number;
+}
+
+export interface SegmentDrift {
+    segment: string;
+    value: number;
+    currentShare: number; // %
+    targetShare: number; // %
+    drift: number; // p.p. (positivo = acima da meta)
+}
+
+export interface RebalanceSuggestion {
+    ticker: string;
+    segment: string;
+    quantity: number;
+    price: number;
+    amount: number;
+}
+
+export const calculateSegmentDrift = (holdings: RebalanceHolding[], goals: Record<string, number>): SegmentDrift[] => {
+    const values: Record<string, number> = {};
+    Object.keys(goals).forEach(segment => { values[segment] = 0; });
+    holdings.forEach(h => { values[h.segment] = (values[h.segment] || 0) + h.value; });
+    const total = Object.values(values).reduce((acc, v) => acc + v, 0);
+
+    return Object.entries(values)
+        .map(([segment, value]) => {
+            const currentShare = total > 0 ? (value / total) * 100 : 0;
+            const targetShare = goals[segment] || 0;
+            return { segment, value: safeFloat(value), currentShare: safeFloat(currentShare), targetShare, drift: safeFloat(currentShare - targetShare) };
+        })
+        .sort((a, b) => b.value - a.value || a.segment.localeCompare(b.segment));
+};
+
+/**
+ * Distribui o aporte só com compras: a cada cota, escolhe o segmento mais abaixo da meta
+ * (medida sobre o patrimônio final) e, dentro dele, o ativo com menor posição.
+ * Segmentos sem meta ou sem ativos na carteira não recebem compras.
+ * `costPerOrder` (corretagem) sai do aporte uma vez por ativo comprado.
+ */
+export const suggestRebalanceBuys = (holdings: RebalanceHolding[], goals: Record<string, number>, contribution: number, costPerOrder = 0) => {
+    const targetTotal = Object.values(goals).reduce((acc, v) => acc + v, 0);
+    const segmentValues: Record<string, number> = {};
+    holdings.forEach(h => { segmentValues[h.segment] = (segmentValues[h.segment] || 0) + h.value; });
+    const positions = holdings.filter(h => h.price > 0).map(h => ({ ...h, bought: 0 }));
+    const finalTotal = holdings.reduce((acc, h) => acc + h.value, 0) + contribution;
+    let remaining = contribution;
+
+    if (targetTotal > 0) {
+        for (let guard = 0; guard < 100000; guard++) {
+            let best: typeof positions[number] | null = null;
+            let bestGap = 0;
+            const costOf = (p: typeof positions[number]) => p.price + (p.bought === 0 ? costPerOrder : 0);
+            positions.forEach(p => {
+                if (costOf(p) > remaining + EPSILON) return;
+                const gap = ((goals[p.segment] || 0) / targetTotal) * finalTotal - segmentValues[p.segment];
+                if (gap <= 0) return;
+                if (!best || gap > bestGap + EPSILON || (Math.abs(gap - bestGap) <= EPSILON && p.value + p.bought * p.price < best.value + best.bought * best.price)) {
+                    best = p;
+                    bestGap = gap;
+                }
+            });
+            if (!best) break;
+            const chosen: typeof positions[number] = best;
+            remaining -= costOf(chosen);
+            chosen.bought += 1;
+            segmentValues[chosen.segment] += chosen.price;
+        }
+    }
+
+    const suggestions: RebalanceSuggestion[] = positions
+        .filter(p => p.bought > 0)
+        .map(p => ({ ticker: p.ticker, segment: p.segment, quantity: p.bought, price: p.price, amount: safeFloat(p.bought * p.price) }))
+        .sort((a, b) => b.amount - a.amount);
+
+    return { suggestions, leftover: safeFloat(remaining) };
+};
+
+// --- Previsão de proventos (12 meses) ---
+export const FORECAST_MONTHS = 12;
+const FORECAST_Z = 1.645; // ~90% de confiança
+const MIN_FORECAST_SPREAD = 0.1; // Pagadores estáveis ainda variam ~10%
+
+export interface DividendForecastMonth {
+    month: string; // YYYY-MM
+    expected: number;
+    low: number;
+    high: number;
+    provisioned: number; // Parte já anunciada (sem incerteza)
+}
+
+export const addMonthsKey = (month: string, offset: number) => {
+    const [year, m] = month.split('-').map(Number);
+    const d = new Date(year, m - 1 + offset, 1);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Proventos por cota dos próximos 12 meses (a partir do mês seguinte ao atual).
+ * Anunciados entram pelo valor exato; nos demais meses, a chance de pagamento vem da
+ * cadência dos últimos 24 meses e o valor da média dos 6 últimos pagamentos.
+ * A faixa usa o desvio desses pagamentos e abre conforme o mês fica mais distante.
+ */
+export const forecastDividendsPerShare = (history: DividendHistoryEvent[], today: string): DividendForecastMonth[] => {
+    const currentMonth = today.substring(0, 7);
+    const income = history.filter(d => !isCapitalReturn(d) && d.value > 0);
+    const paid = income
+        .filter(d => !d.isProvisioned && d.paymentDate <= today && d.paymentDate > addDaysISO(today, -730))
+        .sort((a, b) => a.paymentDate.localeCompare(b.paymentDate));
+    const announced = income.filter(d => d.paymentDate > today || d.isProvisioned);
+
+    const recent = paid.slice(-6).map(d => d.value);
+    const average = recent.length > 0 ? mean(recent) : 0;
+    const deviation = recent.length > 1 ? Math.sqrt(covariance(recent, recent)) : average * MIN_FORECAST_SPREAD;
+
+    // Chance de pagar em cada mês do calendário
+    const paidMonths = new Set(paid.map(d => d.paymentDate.substring(0, 7)));
+    const paidLastYear = Array.from(paidMonths).filter(m => m > addMonthsKey(currentMonth, -12)).length;
+    const firstPaidMonth = paid.length > 0 ? paid[0].paymentDate.substring(0, 7) : currentMonth;
+    const probabilityFor = (month: string) => {
+        if (paidLastYear >= 10) return 1; // Pagador mensal
+        const years = [12, 24].map(back => addMonthsKey(month, -back)).filter(m => m >= firstPaidMonth);
+        return years.length > 0 ? years.filter(m => paidMonths.has(m)).length / years.length : 0;
+    };
+
+    return Array.from({ length: FORECAST_MONTHS }, (_, i) => {
+        const month = addMonthsKey(currentMonth, i + 1);
+        const provisioned = announced.filter(d => d.paymentDate.substring(0, 7) === month).reduce((acc, d) => acc + d.value, 0);
+        if (provisioned > 0) return { month, expected: safeFloat(provisioned), low: safeFloat(provisioned), high: safeFloat(provisioned), provisioned: safeFloat(provisioned) };
+
+        const probability = probabilityFor(month);
+        const spread = Math.max(FORECAST_Z * deviation, average * MIN_FORECAST_SPREAD) * Math.sqrt(1 + i / FORECAST_MONTHS);
+        return {
+            month,
+            expected: safeFloat(probability * average),
+            low: probability >= 1 ? safeFloat(Math.max(0, average - spread)) : 0,
+            high: probability > 0 ? safeFloat(average + spread) : 0,
+            provisioned: 0,
+        };
+    });
+};
+
+// Soma das previsões por cota vezes a quantidade atual; as faixas somadas supõem que todos desviam juntos
+export const forecastPortfolioDividends = (positions: { ticker: string; quantity: number; dividendsHistory: DividendHistoryEvent[] }[], today: string) => {
+    const byTicker: Record<string, DividendForecastMonth[]> = {};
+    const months: DividendForecastMonth[] = Array.from({ length: FORECAST_MONTHS }, (_, i) => ({
+        month: addMonthsKey(today.substring(0, 7), i + 1), expected: 0, low: 0, high: 0, provisioned: 0,
+    }));
+
+    positions.filter(p => p.quantity > 0).forEach(position => {
+        const perShare = forecastDividendsPerShare(position.dividendsHistory || [], today);
+        byTicker[position.ticker] = perShare;
+        perShare.forEach((m, i) => {
+            months[i].expected = safeFloat(months[i].expected + m.expected * position.quantity);
+            months[i].low = safeFloat(months[i].low + m.low * position.quantity);
+            months[i].high = safeFloat(months[i].high + m.high * position.quantity);
+            months[i].provisioned = safeFloat(months[i].provisioned + m.provisioned * position.quantity);
+        });
+    });
+
+    const sum = (key: 'expected' | 'low' | 'high') => safeFloat(months.reduce((acc, m) => acc + m[key], 0));
+    return { months, byTicker, total: { expected: sum('expected'), low: sum('low'), high: sum('high') } };
+};
+
+export type DividendForecast = ReturnType<typeof forecastPortfolioDividends>;
+
+// --- Reinvestimento de proventos (DRIP) ---
+export type DripMode = 'sameTicker' | 'underweightSegment';
+
+export interface DripPoint {
+    month: string; // YYYY-MM
+    realQuantity: number;
+    dripQuantity: number;
+    realValue: number;
+    dripValue: number;
+    realIncome: number;
+    dripIncome: number;
+}
+
+export interface DripSimulation {
+    points: DripPoint[];
+    byTicker: { ticker: string; realQuantity: number; dripQuantity: number }[];
+    reinvested: number;
+    cash: number; // Proventos que não chegaram a comprar uma cota inteira
+}
+
+const compareLedgerEntries = (a: LedgerEntry, b: LedgerEntry) =>
+    a.date !== b.date ? a.date.localeCompare(b.date) : ledgerEntryRank(a) - ledgerEntryRank(b);
+
+const getPositionsValue = (positions: Record<string, PositionMetrics>, priceSeries: Record<string, PriceSeries>, corporateActions: CorporateAction[], date: string) =>
+    Object.entries(positions).reduce((acc, [ticker, position]) => {
+        if (position.quantity <= 0) return acc;
+        const price = getPriceAt(priceSeries[ticker], date);
+        acc.quantity += position.quantity;
+        acc.value += price === null ? position.totalCost : position.quantity * price * getSplitFactor(ticker, corporateActions, date);
+        return acc;
+    }, { quantity: 0, value: 0 });
+
+// Cotação na base de cotas da data (a série guarda a base atual)
+const getTradedPriceAt = (ticker: string, priceSeries: Record<string, PriceSeries>, corporateActions: CorporateAction[], date: string) => {
+    const price = getPriceAt(priceSeries[ticker], date);
+    return price === null ? null : price * getSplitFactor(ticker, corporateActions, date);
+};
+
+/**
+ * Refaz a carteira reinvestindo cada rendimento pago na data de pagamento, em cotas inteiras.
+ * 'sameTicker' recompra o próprio fundo; 'underweightSegment' compra o fundo de menor posição
+ * no segmento mais abaixo da meta (sem metas, recompra o próprio fundo).
+ */
+export const simulateDrip = (
+    transactions: Transaction[],
+    corporateActions: CorporateAction[],
+    dividendsByTicker: Record<string, DividendHistoryEvent[]>,
+    priceSeries: Record<string, PriceSeries>,
+    today: string,
+    options: { mode: DripMode; segments?: Record<string, string>; segmentGoals?: Record<string, number> }
+): DripSimulation => {
+    const realLedger = buildLedger(transactions, corporateActions, dividendsByTicker);
+    if (realLedger.length === 0) return { points: [], byTicker: [], reinvested: 0, cash: 0 };
+
+    const events = Object.entries(dividendsByTicker)
+        .flatMap(([ticker, history]) => (history || []).map(div => ({ ticker, div })))
+        .filter(({ div }) => !div.isProvisioned && !isCapitalReturn(div) && div.value > 0 && div.paymentDate <= today)
+        .sort((a, b) => a.div.exDate.localeCompare(b.div.exDate));
+
+    const goals = options.segmentGoals || {};
+    const useSegments = options.mode === 'underweightSegment' && Object.values(goals).some(v => v > 0);
+    const realPositions: Record<string, PositionMetrics> = {};
+    const dripPositions: Record<string, PositionMetrics> = {};
+    const realIncome: Record<string, number> = {};
+    const dripIncome: Record<string, number> = {};
+    const reinvestments: LedgerEntry[] = [];
+    const pendingPayments: { date: string; ticker: string; amount: number }[] = [];
+    const cashByTarget: Record<string, number> = {};
+    let realCursor = 0, dripCursor = 0, reinvestCursor = 0, reinvested = 0;
+
+    // Aplica na carteira simulada, em ordem, tudo (real + recompras) com data < `date`
+    const advanceDrip = (date: string) => {
+        while (true) {
+            const nextReal = realLedger[dripCursor];
+            const nextReinvest = reinvestments[reinvestCursor];
+            const next = nextReal && (!nextReinvest || compareLedgerEntries(nextReal, nextReinvest) <= 0) ? nextReal : nextReinvest;
+            if (!next || next.date >= date) return;
+            applyLedgerEntry(dripPositions, next);
+            if (next === nextReal) dripCursor++; else reinvestCursor++;
+        }
+    };
+
+    const pickTarget = (ticker: string, date: string) => {
+        if (!useSegments) return ticker;
+        const holdings = Object.entries(dripPositions)
+            .filter(([, p]) => p.quantity > 0)
+            .map(([t, p]) => {
+                const price = getTradedPriceAt(t, priceSeries, corporateActions, date) ?? p.totalCost / p.quantity;
+                return { ticker: t, segment: options.segments?.[t] || '', price, value: p.quantity * price };
+            });
+        const underweight = calculateSegmentDrift(holdings, goals)
+            .filter(d => d.targetShare > 0 && holdings.some(h => h.segment === d.segment))
+            .sort((a, b) => a.drift - b.drift)[0];
+        if (!underweight) return ticker;
+        return holdings.filter(h => h.segment === underweight.segment).sort((a, b) => a.value - b.value)[0].ticker;
+    };
+
+    const pay = (payment: { date: string; ticker: string; amount: number }) => {
+        advanceDrip(payment.date);
+        const target = pickTarget(payment.ticker, payment.date);
+        // Sobras ficam num caixa por destino (ou único, no modo por segmento)
+        const cashKey = useSegments ? '*' : target;
+        const cash = (cashByTarget[cashKey] || 0) + payment.amount;
+        const price = getTradedPriceAt(target, priceSeries, corporateActions, payment.date);
+        const quantity = price ? Math.floor(cash / price) : 0;
+        if (price && quantity > 0) {
+            const tx: Transaction = { id: `drip-${reinvestments.length}`, ticker: target, type: 'Compra', quantity, price, date: payment.date, costs: 0 };
+            const entry: LedgerEntry = { kind: 'transaction', date: payment.date, ticker: target, data: tx };
+            // Mantém as recompras ainda não aplicadas em ordem
+            let index = reinvestments.length;
+            while (index > reinvestCursor && compareLedgerEntries(reinvestments[index - 1], entry) > 0) index--;
+            reinvestments.splice(index, 0, entry);
+            reinvested = safeFloat(reinvested + quantity * price);
+        }
+        cashByTarget[cashKey] = safeFloat(cash - (price ? quantity * price : 0));
+    };
+
+    events.forEach(({ ticker, div }) => {
+        pendingPayments.sort((a, b) => a.date.localeCompare(b.date));
+        while (pendingPayments.length > 0 && pendingPayments[0].date < div.exDate) pay(pendingPayments.shift()!);
+
+        while (realCursor < realLedger.length && realLedger[realCursor].date < div.exDate) applyLedgerEntry(realPositions, realLedger[realCursor++]);
+        advanceDrip(div.exDate);
+
+        const month = div.paymentDate.substring(0, 7);
+        const realAmount = (realPositions[ticker]?.quantity || 0) * div.value;
+        const dripAmount = (dripPositions[ticker]?.quantity || 0) * div.value;
+        if (realAmount > 0) realIncome[month] = safeFloat((realIncome[month] || 0) + realAmount);
+        if (dripAmount > 0) {
+            dripIncome[month] = safeFloat((dripIncome[month] || 0) + dripAmount);
+            pendingPayments.push({ date: div.paymentDate, ticker, amount: dripAmount });
+        }
+    });
+    pendingPayments.sort((a, b) => a.date.localeCompare(b.date)).forEach(pay);
+
+    // Fechamento mensal das duas carteiras
+    const dripLedger = [...realLedger, ...reinvestments].sort(compareLedgerEntries);
+    const replayReal: Record<string, PositionMetrics> = {};
+    const replayDrip: Record<string, PositionMetrics> = {};
+    let realIndex = 0, dripIndex = 0;
+    const points: DripPoint[] = [];
+    const lastMonth = today.substring(0, 7);
+    for (let month = realLedger[0].date.substring(0, 7); month <= lastMonth; month = addMonthsKey(month, 1)) {
+        const monthEnd = month === lastMonth ? today : addDaysISO(`${addMonthsKey(month, 1)}-01`, -1);
+        while (realIndex < realLedger.length && realLedger[realIndex].date <= monthEnd) applyLedgerEntry(replayReal, realLedger[realIndex++]);
+        while (dripIndex < dripLedger.length && dripLedger[dripIndex].date <= monthEnd) applyLedgerEntry(replayDrip, dripLedger[dripIndex++]);
+        const real = getPositionsValue(replayReal, priceSeries, corporateActions, monthEnd);
+        const drip = getPositionsValue(replayDrip, priceSeries, corporateActions, monthEnd);
+        points.push({
+            month,
+            realQuantity: safeFloat(real.quantity),
+            dripQuantity: safeFloat(drip.quantity),
+            realValue: safeFloat(real.value),
+            dripValue: safeFloat(drip.value),
+            realIncome: realIncome[month] || 0,
+            dripIncome: dripIncome[month] || 0,
+        });
+    }
+
+    const byTicker = Array.from(new Set([...Object.keys(replayReal), ...Object.keys(replayDrip)]))
+        .map(ticker => ({ ticker, realQuantity: replayReal[ticker]?.quantity || 0, dripQuantity: replayDrip[ticker]?.quantity || 0 }))
+        .filter(t => t.realQuantity > 0 || t.dripQuantity > 0)
+        .sort((a, b) => (b.dripQuantity - b.realQuantity) - (a.dripQuantity - a.realQuantity));
+
+    const cash = safeFloat(Object.values(cashByTarget).reduce((acc, v) => acc + v, 0));
+    return { points, byTicker, reinvested, cash };
+};
+
+// --- Atribuição de desempenho ---
+export interface AttributionItem {
+    ticker: string;
+    startValue: number;
+    endValue: number;
+    netFlow: number; // Compras - vendas - amortizações no período
+    priceEffect: number; // Variação de valor descontados os aportes
+    income: number; // Rendimentos com data com no período
+    priceContribution: number; // % do retorno da carteira
+    incomeContribution: number;
+}
+
+export interface PerformanceAttribution {
+    startValue: number;
+    endValue: number;
+    averageCapital: number; // Capital inicial + fluxos ponderados pelo tempo (Modified Dietz)
+    priceReturn: number;
+    incomeReturn: number;
+    totalReturn: number;
+    items: AttributionItem[];
+}
+
+/**
+ * Separa o retorno do período (Modified Dietz) na contribuição de cada ativo, em variação de preço e renda.
+ * A soma das contribuições é o retorno da carteira; migrações de ticker entram como fluxos que se anulam.
+ */
+export const calculatePerformanceAttribution = (
+    transactions: Transaction[],
+    corporateActions: CorporateAction[],
+    dividendsByTicker: Record<string, DividendHistoryEvent[]>,
+    priceSeries: Record<string, PriceSeries>,
+    periodBase: string | null, // Fechamento anterior ao período; null = desde a primeira operação
+    end: string
+): PerformanceAttribution | null => {
+    const ledger = buildLedger(transactions, corporateActions, dividendsByTicker);
+    if (ledger.length === 0) return null;
+
+    const base = periodBase ?? addDaysISO(ledger[0].date, -1);
+    if (base >= end) return null;
+    const totalDays = Math.max(1, daysBetween(base, end));
+    const positions: Record<string, PositionMetrics> = {};
+    const stats: Record<string, { startValue: number; netFlow: number; weightedFlow: number; income: number }> = {};
+    const getStats = (ticker: string) => stats[ticker] || (stats[ticker] = { startValue: 0, netFlow: 0, weightedFlow: 0, income: 0 });
+
+    const valueAt = (ticker: string, date: string) => {
+        const position = positions[ticker];
+        if (!position || position.quantity <= EPSILON) return 0;
+        const price = getPriceAt(priceSeries[ticker], date);
+        if (price === null) return position.totalCost;
+        return position.quantity * price * getSplitFactor(ticker, corporateActions, date);
+    };
+
+    const addFlow = (ticker: string, amount: number, date: string) => {
+        const entry = getStats(ticker);
+        entry.netFlow += amount;
+        entry.weightedFlow += amount * (daysBetween(date, end) / totalDays);
+    };
+
+    let cursor = 0;
+    while (cursor < ledger.length && ledger[cursor].date <= base) applyLedgerEntry(positions, ledger[cursor++]);
+    Object.keys(positions).forEach(ticker => {
+        const value = valueAt(ticker, base);
+        if (value > 0) getStats(ticker).startValue = value;
+    });
+
+    const applyUntil = (date: string, inclusive: boolean) => {
+        while (cursor < ledger.length && (inclusive ? ledger[cursor].date <= date : ledger[cursor].date < date)) {
+            const entry = ledger[cursor++];
+            if (entry.kind === 'transaction') {
+                const tx = entry.data;
+                const gross = tx.quantity * tx.price;
+                if (tx.type === 'Compra' || tx.type === 'Subscricao') addFlow(tx.ticker, gross + (tx.costs || 0), entry.date);
+                else if (isSaleTransaction(tx)) addFlow(tx.ticker, -(gross - (tx.costs || 0)), entry.date);
+            } else if (entry.kind === 'amortization') {
+                const quantity = positions[entry.ticker]?.quantity || 0;
+                if (quantity > 0) addFlow(entry.ticker, -quantity * entry.data.value, entry.date);
+            } else if (isTickerMigration(entry.data)) {
+                const value = valueAt(entry.ticker, entry.date);
+                if (value > 0) {
+                    addFlow(entry.ticker, -value, entry.date);
+                    addFlow(entry.data.successorTicker!, value, entry.date);
+                }
+            }
+            applyLedgerEntry(positions, entry);
+        }
+    };
+
+    Object.entries(dividendsByTicker)
+        .flatMap(([ticker, history]) => (history || []).map(div => ({ ticker, div })))
+        .filter(({ div }) => !div.isProvisioned && !isCapitalReturn(div) && div.value > 0 && div.exDate > base && div.exDate <= end)
+        .sort((a, b) => a.div.exDate.localeCompare(b.div.exDate))
+        .forEach(({ ticker, div }) => {
+            applyUntil(div.exDate, false);
+            const quantity = positions[ticker]?.quantity || 0;
+            if (quantity > 0) getStats(ticker).income += quantity * div.value;
+        });
+    applyUntil(end, true);
+
+    const rows = Object.entries(stats).map(([ticker, s]) => {
+        const endValue = valueAt(ticker, end);
+        return { ticker, ...s, endValue, priceEffect: endValue - s.startValue - s.netFlow };
+    });
+    const startValue = rows.reduce((acc, r) => acc + r.startValue, 0);
+    const averageCapital = startValue + rows.reduce((acc, r) => acc + r.weightedFlow, 0);
+    if (averageCapital <= EPSILON) return null;
+
+    const items: AttributionItem[] = rows
+        .filter(r => Math.abs(r.priceEffect) > EPSILON || r.income > EPSILON)
+        .map(r => ({
+            ticker: r.ticker,
+            startValue: safeFloat(r.startValue),
+            endValue: safeFloat(r.endValue),
+            netFlow: safeFloat(r.netFlow),
+            priceEffect: safeFloat(r.priceEffect),
+            income: safeFloat(r.income),
+            priceContribution: (r.priceEffect / averageCapital) * 100,
+            incomeContribution: (r.income / averageCapital) * 100,
+        }))
+        .sort((a, b) => (b.priceContribution + b.incomeContribution) - (a.priceContribution + a.incomeContribution));
+
+    const priceReturn = items.reduce((acc, i) => acc + i.priceContribution, 0);
+    const incomeReturn = items.reduce((acc, i) => acc + i.incomeContribution, 0);
+    return {
+        startValue: safeFloat(startValue),
+        endValue: safeFloat(rows.reduce((acc, r) => acc + r.endValue, 0)),
+        averageCapital: safeFloat(averageCapital),
+        priceReturn,
+        incomeReturn,
+        totalReturn: priceReturn + incomeReturn,
+        items,
+    };
+};
+
+// --- Número mágico ---
+export interface MagicNumber {
+    monthlyDividend: number; // Por cota, média dos últimos 12 meses
+    magicNumber: number; // Cotas para o rendimento mensal comprar uma cota nova
+    quantity: number;
+    progress: number; // 0-100
+    missing: number;
+    capitalRequired: number;
+}
+
+// Rendimentos pagos por cota nos últimos 12 meses (sem amortizações)
+export const getTrailingDividends = (history: DividendHistoryEvent[] = [], today: string): number => {
+    const from = addDaysISO(today, -365);
+    return history
+        .filter(d => !d.isProvisioned && !isCapitalReturn(d) && d.paymentDate.substring(0, 10) > from && d.paymentDate.substring(0, 10) <= today)
+        .reduce((acc, d) => acc + d.value, 0);
+};
+
+export const calculateMagicNumber = (
+    asset: { currentPrice: number; quantity: number; lastDividend?: number; dividendsHistory?: DividendHistoryEvent[] },
+    today: string
+): MagicNumber | null => {
+    if (!(asset.currentPrice > 0)) return null;
+    const trailing = getTrailingDividends(asset.dividendsHistory, today);
+    // Sem histórico recente, assume pagamento mensal igual ao último rendimento
+    const monthlyDividend = trailing > 0 ? trailing / 12 : (asset.lastDividend || 0);
+    if (monthlyDividend <= 0) return null;
+
+    const magicNumber = Math.ceil(asset.currentPrice / monthlyDividend);
+    const missing = Math.max(magicNumber - Math.floor(asset.quantity), 0);
+    return {
+        monthlyDividend: safeFloat(monthlyDividend),
+        magicNumber,
+        quantity: asset.quantity,
+        progress: Math.min((asset.quantity / magicNumber) * 100, 100),
+        missing,
+        capitalRequired: safeFloat(missing * asset.currentPrice),
+    };
+};
+
+// --- Preço justo (Bazin, Gordon e P/VP) ---
+
+export interface Valuation {
+    annualDividends: number; // Por cota, últimos 12 meses
+    bazin: number | null; // Preço teto
+    gordon: number | null;
+    pvp: number | null;
+    fairPrice: number; // Média dos modelos disponíveis
+    marginOfSafety: number; // % do preço justo acima da cotação; negativo = acima do justo
+}
+
+export interface ValuationInput {
+    currentPrice: number;
+    dy?: number;
+    lastDividend?: number;
+    dividendsHistory?: DividendHistoryEvent[];
+    dividendCAGR?: number;
+    vpPerShare?: number;
+}
+
+export const calculateValuation = (
+    asset: ValuationInput,
+    assumptions: ValuationAssumptions,
+    today: string
+): Valuation | null => {
+    if (!(asset.currentPrice > 0)) return null;
+    const trailing = getTrailingDividends(asset.dividendsHistory, today);
+    // Sem histórico carregado, usa o DY informado ou o último rendimento anualizado
+    const annualDividends = trailing > 0 ? trailing : asset.dy ? asset.currentPrice * asset.dy / 100 : (asset.lastDividend || 0) * 12;
+
+    const bazin = annualDividends > 0 && assumptions.bazinYield > 0 ? annualDividends / (assumptions.bazinYield / 100) : null;
+    const growth = (assumptions.growthRate ?? asset.dividendCAGR ?? 0) / 100;
+    const discount = assumptions.discountRate / 100;
+    // Gordon só é definido com retorno exigido acima do crescimento
+    const gordon = annualDividends > 0 && discount > growth ? annualDividends * (1 + growth) / (discount - growth) : null;
+    const pvp = asset.vpPerShare && asset.vpPerShare > 0 && assumptions.targetPvp > 0 ? asset.vpPerShare * assumptions.targetPvp : null;
+
+    const models = [bazin, gordon, pvp].filter((v): v is number => v !== null);
+    if (models.length === 0) return null;
+    const fairPrice = models.reduce((acc, v) => acc + v, 0) / models.length;
+
+    return {
+        annualDividends: safeFloat(annualDividends),
+        bazin: bazin !== null ? safeFloat(bazin) : null,
+        gordon: gordon !== null ? safeFloat(gordon) : null,
+        pvp: pvp !== null ? safeFloat(pvp) : null,
+        fairPrice: safeFloat(fairPrice),
+        marginOfSafety: safeFloat((fairPrice - asset.currentPrice) / fairPrice * 100),
+    };
+};
+
+// --- Screener de FIIs ---
+
+const withinLimit = (value: number | undefined, limit: number | undefined, isMin: boolean) =>
+    limit === undefined || (value !== undefined && (isMin ? value >= limit : value <= limit));
+
+export const filterScreenerFunds = (funds: ScreenerFund[], filters: ScreenerFilters): ScreenerFund[] => {
+    const administrator = filters.administrator.trim().toLowerCase();
+    return funds.filter(f =>
+        withinLimit(f.dy, filters.minDy, true) &&
+        withinLimit(f.pvp, filters.minPvp, true) &&
+        withinLimit(f.pvp, filters.maxPvp, false) &&
+        withinLimit(f.vacancyRate, filters.maxVacancy, false) &&
+        withinLimit(f.liquidity, filters.minLiquidity, true) &&
+        (filters.segments.length === 0 || (!!f.segment && filters.segments.includes(f.segment))) &&
+        (!administrator || (f.administrator || '').toLowerCase().includes(administrator))
+    );
+};
+
+// Fundos sem o dado vão para o fim, em qualquer direção
+export const sortScreenerFunds = (funds: ScreenerFund[], key: ScreenerSortKey, direction: 'asc' | 'desc'): ScreenerFund[] => {
+    const sign = direction === 'asc' ? 1 : -1;
+    return [...funds].sort((a, b) => {
+        if (key === 'ticker') return sign * a.ticker.localeCompare(b.ticker);
+        const va = a[key], vb = b[key];
+        if (va === undefined || vb === undefined) return va === vb ? a.ticker.localeCompare(b.ticker) : va === undefined ? 1 : -1;
+        return sign * (va - vb) || a.ticker.localeCompare(b.ticker);
+    });
+};
+
+export interface PurchaseSimulation {
+    cost: number;
+    monthlyIncome: number; // Renda estimada das novas cotas
+    portfolioValue: number; // Depois da compra
+    tickerShare: number; // % do ativo na carteira depois da compra
+    segmentShare: number | null;
+    currentYield: number; // % a.a. sobre o valor de mercado
+    newYield: number;
+}
+
+// Efeito de comprar `quantity` cotas na renda e na concentração da carteira atual
+export const simulatePurchase = (
+    fund: { ticker: string; price: number; annualDividends: number; segment?: string },
+    quantity: number,
+    holdings: { ticker: string; value: number; segment?: string }[],
+    projectedAnnualIncome: number
+): PurchaseSimulation => {
+    const cost = fund.price * quantity;
+    const currentValue = holdings.reduce((acc, h) => acc + h.value, 0);
+    const portfolioValue = currentValue + cost;
+    const tickerValue = holdings.filter(h => h.ticker === fund.ticker).reduce((acc, h) => acc + h.value, 0) + cost;
+    const segmentValue = fund.segment
+        ? holdings.filter(h => h.segment === fund.segment && h.ticker !== fund.ticker).reduce((acc, h) => acc + h.value, 0) + tickerValue
+        : null;
+    const addedIncome = fund.annualDividends * quantity;
+
+    return {
+        cost: safeFloat(cost),
+        monthlyIncome: safeFloat(addedIncome / 12),
+        portfolioValue: safeFloat(portfolioValue),
+        tickerShare: portfolioValue > 0 ? (tickerValue / portfolioValue) * 100 : 0,
+        segmentShare: segmentValue !== null && portfolioValue > 0 ? (segmentValue / portfolioValue) * 100 : null,
+        currentYield: currentValue > 0 ? (projectedAnnualIncome / currentValue) * 100 : 0,
+        newYield: portfolioValue > 0 ? ((projectedAnnualIncome + addedIncome) / portfolioValue) * 100 : 0,
+    };
+};
+
+// --- Comparação de ativos ---
+
+export interface NormalizedPerformance {
+    dates: string[];
+    values: Record<string, (number | null)[]>; // Base 100, alinhados com `dates`
+}
+
+// Base 100 na primeira data em que todos têm cotação; amostrado para no máximo `maxPoints` pontos
+export const normalizePriceSeries = (seriesByTicker: Record<string, PriceSeries>, from: string, maxPoints = 120): NormalizedPerformance => {
+    const tickers = Object.keys(seriesByTicker).filter(ticker => seriesByTicker[ticker].length > 0);
+    if (tickers.length === 0) return { dates: [], values: {} };
+
+    const start = tickers.reduce((acc, ticker) => seriesByTicker[ticker][0].date > acc ? seriesByTicker[ticker][0].date : acc, from);
+    const allDates = Array.from(new Set(tickers.flatMap(ticker => seriesByTicker[ticker].map(p => p.date).filter(d => d >= start)))).sort();
+    const step = Math.max(1, Math.ceil(allDates.length / maxPoints));
+    const dates = allDates.filter((_, i) => i % step === 0 || i === allDates.length - 1);
+
+    const values: Record<string, (number | null)[]> = {};
+    tickers.forEach(ticker => {
+        const base = getPriceAt(seriesByTicker[ticker], start);
+        values[ticker] = dates.map(date => {
+            const price = getPriceAt(seriesByTicker[ticker], date);
+            return base && price ? (price / base) * 100 : null;
+        });
+    });
+    return { dates, values };
+};
+
+// Rendimentos por mês da data com (YYYY-MM) como % da cotação da época; amortizações ficam de fora
+export const getMonthlyDividendYields = (history: DividendHistoryEvent[], prices: PriceSeries | undefined, currentPrice: number, months: string[]): number[] => {
+    const byMonth: Record<string, number> = {};
+    history.forEach(event => {
+        if (isCapitalReturn(event) || !event.exDate) return;
+        const month = event.exDate.substring(0, 7);
+        const price = getPriceAt(prices, event.exDate) || currentPrice;
+        if (price > 0) byMonth[month] = (byMonth[month] || 0) + (event.value / price) * 100;
+    });
+    return months.map(month => byMonth[month] || 0);
+};
+
+// --- Metas de renda / independência financeira ---
+const MAX_GOAL_MONTHS = 600; // 50 anos: depois disso a meta é tratada como inalcançável
+
+export interface GoalProjectionPoint {
+    month: string; // YYYY-MM
+    portfolioValue: number;
+    monthlyIncome: number;
+}
+
+// Aporte líquido médio (compras - vendas) dos últimos meses completos
+export const getAverageMonthlyContribution = (transactions: Transaction[], today: string, months = 12) => {
+    const end = `${today.substring(0, 7)}-01`;
+    const start = `${addMonthsKey(today.substring(0, 7), -months)}-01`;
+    const net = transactions
+        .filter(tx => tx.date >= start && tx.date < end)
+        .reduce((acc, tx) => {
+            const amount = tx.quantity * tx.price;
+            if (tx.type === 'Compra' || tx.type === 'Subscricao') return acc + amount + (tx.costs || 0);
+            if (isSaleTransaction(tx)) return acc - amount + (tx.costs || 0);
+            return acc;
+        }, 0);
+    return Math.max(safeFloat(net / months), 0);
+};
+
+// Reinveste os proventos e soma o aporte todo mês; não considera valorização das cotas
+export const projectIncomeGoal = (
+    params: { portfolioValue: number; monthlyContribution: number; annualYield: number; targetMonthlyIncome: number },
+    startMonth: string,
+    maxMonths = MAX_GOAL_MONTHS
+) => {
+    const monthlyYield = params.annualYield / 100 / 12;
+    const points: GoalProjectionPoint[] = [];
+    let value = params.portfolioValue;
+    let reachMonth: string | null = null;
+
+    for (let i = 0; i <= maxMonths; i++) {
+        const income = value * monthlyYield;
+        const month = addMonthsKey(startMonth, i);
+        points.push({ month, portfolioValue: safeFloat(value), monthlyIncome: safeFloat(income) });
+        if (income >= params.targetMonthlyIncome) {
+            reachMonth = month;
+            break;
+        }
+        value = value * (1 + monthlyYield) + params.monthlyContribution;
+    }
+
+    return { points, reachMonth, requiredValue: monthlyYield > 0 ? safeFloat(params.targetMonthlyIncome / monthlyYield) : null };
+};
+
+// --- Simulação de Monte Carlo ---
+export const MONTE_CARLO_PATHS = 2000;
+const MONTE_CARLO_SEED = 42; // Semente fixa: mesmos parâmetros, mesmo resultado
+
+export interface MonteCarloParams {
+    initial: number;
+    monthly: number;
+    years: number;
+    inflation: number; // % a.a.; aportes sobem com ela e os resultados saem em valores de hoje
+    target: number; // Patrimônio em valores de hoje
+    // Paramétrica: retorno e volatilidade anuais (%). Histórica: reamostra retornos mensais
+    meanReturn: number;
+    volatility: number;
+    historicalReturns?: number[];
+    paths?: number;
+}
+
+export interface MonteCarloBand {
+    year: number;
+    p10: number;
+    p50: number;
+    p90: number;
+    invested: number;
+}
+
+// Gerador pseudoaleatório (mulberry32) para simulações reprodutíveis
+const createRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const percentile = (sorted: Float64Array, p: number) => sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))];
+
+// Retornos mensais a partir do último nível de cada mês
+export const getMonthlyReturns = (levels: BenchmarkPoint[]) => {
+    const monthEnds: number[] = [];
+    levels.forEach((point, i) => {
+        const next = levels[i + 1];
+        if (!next || next.date.substring(0, 7) !== point.date.substring(0, 7)) monthEnds.push(point.value);
+    });
+    return getReturns(monthEnds);
+};
+
+export const runMonteCarlo = (params: MonteCarloParams) => {
+    const paths = params.paths || MONTE_CARLO_PATHS;
+    const months = Math.max(1, Math.round(params.years * 12));
+    const random = createRandom(MONTE_CARLO_SEED);
+    const monthlyInflation = Math.pow(1 + params.inflation / 100, 1 / 12) - 1;
+    const historical = params.historicalReturns && params.historicalReturns.length > 0 ? params.historicalReturns : null;
+    // Log-normal: a média composta de 12 meses fica em meanReturn
+    const drift = Math.log(1 + params.meanReturn / 100) / 12;
+    const sigma = params.volatility / 100 / Math.sqrt(12);
+
+    const nextNormal = () => {
+        const u = 1 - random();
+        return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+    };
+    const nextReturn = () => historical
+        ? historical[Math.floor(random() * historical.length)]
+        : Math.exp(drift + sigma * nextNormal() - (sigma * sigma) / 2) - 1;
+
+    const yearlyValues = Array.from({ length: Math.ceil(months / 12) }, () => new Float64Array(paths));
+    let reached = 0;
+
+    for (let path = 0; path < paths; path++) {
+        let value = params.initial;
+        let priceLevel = 1;
+        for (let m = 1; m <= months; m++) {
+            priceLevel *= 1 + monthlyInflation;
+            value = value * (1 + nextReturn()) + params.monthly * priceLevel;
+            if (m % 12 === 0 || m === months) yearlyValues[Math.ceil(m / 12) - 1][path] = value / priceLevel;
+        }
+        if (value / priceLevel >= params.target) reached++;
+    }
+
+    const bands: MonteCarloBand[] = [{ year: 0, p10: params.initial, p50: params.initial, p90: params.initial, invested: params.initial }];
+    yearlyValues.forEach((values, i) => {
+        values.sort();
+        bands.push({
+            year: i + 1,
+            p10: safeFloat(percentile(values, 0.1)),
+            p50: safeFloat(percentile(values, 0.5)),
+            p90: safeFloat(percentile(values, 0.9)),
+            invested: safeFloat(params.initial + params.monthly * Math.min((i + 1) * 12, months)),
+        });
+    });
+
+    return { bands, probability: (reached / paths) * 100 };
+};
+
+// --- Valores reais (IPCA) ---
+
+// Multiplicador que leva um valor nominal da data para reais de hoje
+export type Deflator = (date: string) => number;
+
+// ipcaIndex: nível acumulado (getBenchmarkIndex); antes do início da série não há correção
+export const createDeflator = (ipcaIndex: BenchmarkPoint[], today: string): Deflator => {
+    const todayLevel = getLevelAt(ipcaIndex, today) ?? 1;
+    return (date: string) => todayLevel / (getLevelAt(ipcaIndex, date) ?? 1);
+};
+
+// Histórico por mês (YYYY-MM), corrigido pelo nível do meio do mês
+export const deflateMonthlyHistory = (history: Record<string, number>, deflate: Deflator): Record<string, number> =>
+    Object.fromEntries(Object.entries(history).map(([month, value]) => [month, safeFloat(value * deflate(`${month}-15`))]));
+
+// Valores em reais de hoje; o retorno acumulado passa a descontar a inflação desde o primeiro ponto
+export const deflateEvolution = (points: PortfolioEvolutionPoint[], deflate: Deflator): PortfolioEvolutionPoint[] => {
+    if (points.length === 0) return points;
+    const baseFactor = deflate(points[0].dateISO);
+    return points.map(p => {
+        const factor = deflate(p.dateISO);
+        return {
+            ...p,
+            marketValue: safeFloat(p.marketValue * factor),
+            invested: safeFloat(p.invested * factor),
+            cumulativeReturn: p.cumulativeReturn === undefined
+                ? undefined
+                : safeFloat(((1 + p.cumulativeReturn / 100) * (factor / baseFactor) - 1) * 100),
+        };
+    });
+};
+
+// Retorno real (%) a partir do nominal: acumulado no período ou anualizado
+export const toRealReturn = (nominal: number, start: string, today: string, deflate: Deflator, annualized = false): number => {
+    const inflation = deflate(start) / deflate(today);
+    const days = daysBetween(start, today);
+    const divisor = annualized ? (days > 0 ? Math.pow(inflation, 365 / days) : 1) : inflation;
+    return safeFloat(((1 + nominal / 100) / divisor - 1) * 100);
+};
+
+export const calculatePortfolioMetrics = (
+    transactions: Transaction[],
+    corporateActions: CorporateAction[] = [],
+    dividendsByTicker: Record<string, DividendHistoryEvent[]> = {}
+): Record<string, PositionMetrics> => {
+    const metrics: Record<string, PositionMetrics> = {};
+
+    for (const entry of buildLedger(transactions, corporateActions, dividendsByTicker)) {
+        applyLedgerEntry(metrics, entry);
     }
     
-    const activeMetrics: Record<string, { quantity: number; totalCost: number }> = {};
+    const activeMetrics: Record<string, PositionMetrics> = {};
     for (const [ticker, data] of Object.entries(metrics)) {
         if (data.quantity > EPSILON) {
             activeMetrics[ticker] = data;
@@ -8,6 +8,13 @@ import type { View } from '../App';
 
 // Importação de Componentes Padronizados
 import PortfolioSummary from '../components/cards/PortfolioSummary';
+import PatrimonyEvolutionCard from '../components/cards/PatrimonyEvolutionCard';
+import RiskMetricsCard from '../components/cards/RiskMetricsCard';
+import DiversificationScoreCard from '../components/cards/DiversificationScoreCard';
+import MagicNumberCard from '../components/cards/MagicNumberCard';
+import DripSimulationCard from '../components/cards/DripSimulationCard';
+import PerformanceAttributionCard from '../components/cards/PerformanceAttributionCard';
+import AccountSwitcher from '../components/AccountSwitcher';
 import PortfolioPieChart from '../components/charts/PortfolioPieChart';
 import BarChart from '../components/charts/BarChart';
 import AssetListItem from '../components/AssetListItem';
@@ -67,7 +74,7 @@ const IncomeSection: React.FC<{ setActiveView: (view: View) => void }> = ({ setA
 
 const DiversificationSection: React.FC = () => {
     const { t } = useI18n();
-    const { assets, preferences } = usePortfolio();
+    const { assets, preferences, cashMovements, cashBalance } = usePortfolio();
     
     // Using only active assets for diversification chart
     const activeAssets = useMemo(() => assets.filter(a => a.quantity > 0), [assets]);
@@ -81,8 +88,13 @@ const DiversificationSection: React.FC = () => {
             segments[seg] = (segments[seg] || 0) + val;
             totalValue += val;
         });
+        // Saldo positivo em caixa entra na alocação (só para quem acompanha o caixa)
+        if (cashMovements.length > 0 && cashBalance > 0) {
+            segments[t('cash')] = cashBalance;
+            totalValue += cashBalance;
+        }
         return Object.entries(segments).map(([name, value]) => ({ name, value, percentage: totalValue > 0 ? (value / totalValue) * 100 : 0 })).sort((a, b) => b.value - a.value);
-    }, [activeAssets, t]);
+    }, [activeAssets, cashMovements, cashBalance, t]);
 
     return (
         <div className="bg-[var(--bg-secondary)] rounded-2xl p-5 border border-[var(--border-color)] shadow-sm">
@@ -96,8 +108,9 @@ const DiversificationSection: React.FC = () => {
 const OverviewContent: React.FC<{ 
     addToast: (message: string, type?: ToastMessage['type']) => void, 
     onSelectAsset: (ticker: string) => void,
-    setActiveView: (view: View) => void
-}> = ({ addToast, onSelectAsset, setActiveView }) => {
+    setActiveView: (view: View) => void,
+    onOpenGlossary?: (term: string) => void
+}> = ({ addToast, onSelectAsset, setActiveView, onOpenGlossary }) => {
     const { t } = useI18n();
     const { assets, preferences, isRefreshing } = usePortfolio();
     const [searchQuery, setSearchQuery] = useState('');
@@ -133,6 +146,20 @@ const OverviewContent: React.FC<{
                 <DiversificationSection />
             </div>
 
+            <PatrimonyEvolutionCard />
+
+            <PerformanceAttributionCard />
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <RiskMetricsCard onOpenGlossary={onOpenGlossary} />
+                <DiversificationScoreCard />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <MagicNumberCard onSelectAsset={onSelectAsset} />
+                <DripSimulationCard />
+            </div>
+
             <div className="space-y-4">
                 {activeAssets.length > 0 ? (
                     <>
@@ -225,7 +252,7 @@ const OverviewContent: React.FC<{
     );
 };
 
-const AnalysisView: React.FC<any> = ({ addToast, onSelectAsset, unreadNotificationsCount, setActiveView, initialTransactionFilter, clearTransactionFilter, initialTab = 'general' }) => {
+const AnalysisView: React.FC<any> = ({ addToast, onSelectAsset, unreadNotificationsCount, setActiveView, onOpenGlossary, initialTransactionFilter, clearTransactionFilter, initialTab = 'general' }) => {
     const { t } = useI18n();
     const { refreshMarketData, isRefreshing: isContextRefreshing } = usePortfolio();
     
@@ -256,6 +283,7 @@ const AnalysisView: React.FC<any> = ({ addToast, onSelectAsset, unreadNotificati
             <header className="px-4 py-3 flex justify-between items-center sticky top-0 z-30 bg-[var(--bg-primary)]/80 backdrop-blur-md border-b border-[var(--border-color)]/50 transition-all duration-300">
                 <h1 className="text-xl font-bold text-[var(--text-primary)]">{t('nav_analysis')}</h1>
                 <div className="flex items-center gap-1">
+                    <AccountSwitcher className="mr-1" />
                     <button onClick={handleRefresh} disabled={isRefreshing} className={`p-2.5 rounded-full hover:bg-[var(--bg-tertiary-hover)] text-[var(--text-secondary)] transition-all ${isRefreshing ? 'animate-spin text-[var(--accent-color)]' : ''}`}>
                         <RefreshIcon className="w-5 h-5"/>
                     </button>
@@ -289,7 +317,7 @@ const AnalysisView: React.FC<any> = ({ addToast, onSelectAsset, unreadNotificati
             <div className="flex-1 overflow-y-auto custom-scrollbar p-4 pb-24 md:pb-6 landscape-pb-6">
                 <div className="max-w-5xl mx-auto">
                     {activeTab === 'general' ? (
-                        <div className="animate-fade-in"><OverviewContent addToast={addToast} onSelectAsset={onSelectAsset} setActiveView={setActiveView} /></div>
+                        <div className="animate-fade-in"><OverviewContent addToast={addToast} onSelectAsset={onSelectAsset} setActiveView={setActiveView} onOpenGlossary={onOpenGlossary} /></div>
                     ) : (
                         <div className="animate-slide-in-right"><TransactionsView initialFilter={initialTransactionFilter} clearFilter={clearTransactionFilter || (() => {})} addToast={addToast} isEmbedded={true} /></div>
                     )}
@@ -5,15 +5,21 @@ import { usePortfolio } from '../contexts/PortfolioContext';
 import ChevronLeftIcon from '../components/icons/ChevronLeftIcon';
 import RefreshIcon from '../components/icons/RefreshIcon';
 import AnalysisIcon from '../components/icons/AnalysisIcon';
+import SparklesIcon from '../components/icons/SparklesIcon';
 import DividendChart from '../components/charts/DividendChart';
 import CountUp from '../components/CountUp';
-import { vibrate } from '../utils';
+import PerformanceCard from '../components/cards/PerformanceCard';
+import ValuationCard, { MarginOfSafetyBadge } from '../components/cards/ValuationCard';
+import { useValuation } from '../hooks/useValuation';
+import { vibrate, getTickerLineage, getSubscriptionStatus, getTransactionEffectiveDate, calculateMagicNumber, getTodayISODate } from '../utils';
+import { TRANSACTION_TYPE_I18N } from '../constants';
 import type { ToastMessage } from '../types';
 
 interface AssetDetailViewProps {
     ticker: string;
     onBack: () => void;
     onViewTransactions: (ticker: string) => void;
+    onCompare: (tickers: string[]) => void;
     addToast: (message: string, type?: ToastMessage['type']) => void;
 }
 
@@ -44,9 +50,9 @@ const IndicatorItem: React.FC<{ label: string; value: string; subtext?: React.Re
     </div>
 );
 
-const AssetDetailView: React.FC<AssetDetailViewProps> = ({ ticker, onBack, onViewTransactions, addToast }) => {
+const AssetDetailView: React.FC<AssetDetailViewProps> = ({ ticker, onBack, onViewTransactions, onCompare, addToast }) => {
     const { t, formatCurrency, locale } = useI18n();
-    const { getAssetByTicker, transactions, refreshSingleAsset } = usePortfolio();
+    const { getAssetByTicker, transactions, corporateActions, refreshSingleAsset, assetPerformance, dividendForecast, preferences } = usePortfolio();
     const [activeTab, setActiveTab] = useState('summary');
     const [isRefreshing, setIsRefreshing] = useState(false);
     const [showAllHistory, setShowAllHistory] = useState(false);
@@ -89,13 +95,19 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({ ticker, onBack, onVie
     }, [ticker, refreshSingleAsset, isRefreshing, addToast, t]);
 
     const assetTransactions = useMemo(() => {
-        return transactions.filter(tx => tx.ticker === ticker).sort((a, b) => b.date.localeCompare(a.date));
-    }, [transactions, ticker]);
+        const lineage = getTickerLineage(ticker, corporateActions);
+        return transactions.filter(tx => lineage.includes(tx.ticker)).sort((a, b) => b.date.localeCompare(a.date));
+    }, [transactions, corporateActions, ticker]);
+
+    const subscriptionStatus = useMemo(() => getSubscriptionStatus(ticker, transactions), [transactions, ticker]);
 
     const fullDividendHistory = useMemo(() => {
         return (asset?.dividendsHistory || []).sort((a,b) => b.paymentDate.localeCompare(a.paymentDate));
     }, [asset?.dividendsHistory]);
 
+    const magicNumber = useMemo(() => asset ? calculateMagicNumber(asset, getTodayISODate()) : null, [asset]);
+    const { valuation, assumptions, hasOverride } = useValuation(ticker, asset || null, preferences);
+
     const currentValue = asset ? asset.quantity * asset.currentPrice : 0;
     const totalInvested = asset ? asset.quantity * asset.avgPrice : 0;
     const variation = currentValue - totalInvested;
@@ -136,6 +148,59 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({ ticker, onBack, onVie
                 </div>
             </div>
 
+            <PerformanceCard performance={assetPerformance[asset.ticker]} />
+
+            {magicNumber && (
+                <div className="bg-[var(--bg-secondary)] p-5 rounded-2xl border border-[var(--border-color)] shadow-sm">
+                    <div className="flex justify-between items-center mb-3">
+                        <div className="flex items-center gap-2">
+                            <SparklesIcon className="w-4 h-4 text-[var(--accent-color)]" />
+                            <h3 className="font-bold text-sm text-[var(--text-primary)] uppercase tracking-wide">{t('magic_number')}</h3>
+                        </div>
+                        <span className="text-sm font-bold text-[var(--text-primary)]">{Math.floor(magicNumber.quantity)} / {magicNumber.magicNumber}</span>
+                    </div>
+                    <ProgressBar value={magicNumber.progress} max={100} colorClass={magicNumber.missing === 0 ? 'bg-[var(--green-text)]' : 'bg-[var(--accent-color)]'} />
+                    {magicNumber.missing === 0 ? (
+                        <p className="text-xs font-bold text-[var(--green-text)] mt-3">{t('magic_number_reached')}</p>
+                    ) : (
+                        <div className="grid grid-cols-3 gap-2 mt-2">
+                            <IndicatorItem label={t('magic_number_missing_shares')} value={magicNumber.missing.toString()} />
+                            <IndicatorItem label={t('magic_number_capital_required')} value={formatCurrency(magicNumber.capitalRequired)} />
+                            <IndicatorItem label={t('magic_number_monthly_dividend')} value={formatCurrency(magicNumber.monthlyDividend)} />
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {(subscriptionStatus.pending.length > 0 || subscriptionStatus.rightsBalance > 0) && (
+                <div className="bg-[var(--bg-secondary)] p-5 rounded-2xl border border-amber-500/30 shadow-sm">
+                    <div className="flex justify-between items-start mb-3">
+                        <div>
+                            <h3 className="font-bold text-sm text-[var(--text-primary)] uppercase tracking-wide">{t('pending_subscriptions')}</h3>
+                            <p className="text-[10px] text-[var(--text-secondary)] mt-0.5">{t('pending_subscriptions_desc')}</p>
+                        </div>
+                        {subscriptionStatus.rightsBalance > 0 && (
+                            <span className="text-[10px] font-bold px-2 py-1 rounded bg-amber-500/20 text-amber-500 whitespace-nowrap">
+                                {t('rights_balance')}: {subscriptionStatus.rightsBalance}
+                            </span>
+                        )}
+                    </div>
+                    <div className="space-y-2">
+                        {subscriptionStatus.pending.map(tx => (
+                            <div key={tx.id} className="flex justify-between items-center bg-[var(--bg-primary)] p-3 rounded-xl">
+                                <div>
+                                    <p className="text-sm font-bold text-[var(--text-primary)]">{`${tx.quantity} × ${formatCurrency(tx.price)}`}</p>
+                                    <p className="text-[10px] text-[var(--text-secondary)] font-medium">
+                                        {t('settles_on', { date: new Date(getTransactionEffectiveDate(tx)).toLocaleDateString(locale, { timeZone: 'UTC' }) })}
+                                    </p>
+                                </div>
+                                <p className="text-sm font-bold text-amber-500">{formatCurrency(tx.quantity * tx.price + (tx.costs || 0))}</p>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Indicators Grid */}
             <div className="bg-[var(--bg-secondary)] p-5 rounded-2xl border border-[var(--border-color)] shadow-sm">
                 <div className="flex items-center gap-2 mb-2">
@@ -145,7 +210,7 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({ ticker, onBack, onVie
 
                 <div className="grid grid-cols-2 gap-x-4 gap-y-2">
                     <GroupHeader title="Preço & Valuation" />
-                    <IndicatorItem label="Cotação Atual" value={formatCurrency(asset.currentPrice)} />
+                    <IndicatorItem label="Cotação Atual" value={formatCurrency(asset.currentPrice)} subtext={valuation ? <div className="mt-1"><MarginOfSafetyBadge valuation={valuation} safetyMargin={assumptions.safetyMargin} /></div> : undefined} />
                     <div className="flex flex-col p-2">
                         <div className="flex justify-between items-end">
                             <span className="text-[10px] text-[var(--text-secondary)] font-medium uppercase tracking-wide opacity-80">P/VP</span>
@@ -182,9 +247,16 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({ ticker, onBack, onVie
                 </div>
             </div>
 
-            <button onClick={() => onViewTransactions(asset.ticker)} className="w-full bg-[var(--bg-tertiary-hover)] text-[var(--text-primary)] font-bold py-3.5 rounded-xl border border-[var(--border-color)] hover:bg-[var(--accent-color)]/10 hover:border-[var(--accent-color)] active:scale-[0.98] transition-all shadow-sm">
-                {t('view_transactions')}
-            </button>
+            <ValuationCard ticker={asset.ticker} price={asset.currentPrice} valuation={valuation} assumptions={assumptions} hasOverride={hasOverride} />
+
+            <div className="grid grid-cols-2 gap-3">
+                <button onClick={() => { vibrate(); onCompare([asset.ticker]); }} className="w-full bg-[var(--bg-tertiary-hover)] text-[var(--text-primary)] font-bold py-3.5 rounded-xl border border-[var(--border-color)] hover:bg-[var(--accent-color)]/10 hover:border-[var(--accent-color)] active:scale-[0.98] transition-all shadow-sm">
+                    {t('compare_action')}
+                </button>
+                <button onClick={() => onViewTransactions(asset.ticker)} className="w-full bg-[var(--bg-tertiary-hover)] text-[var(--text-primary)] font-bold py-3.5 rounded-xl border border-[var(--border-color)] hover:bg-[var(--accent-color)]/10 hover:border-[var(--accent-color)] active:scale-[0.98] transition-all shadow-sm">
+                    {t('view_transactions')}
+                </button>
+            </div>
         </div>
     );
 
@@ -193,7 +265,10 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({ ticker, onBack, onVie
             {assetTransactions.length > 0 ? assetTransactions.map((tx, index) => (
                 <div key={tx.id} className="bg-[var(--bg-secondary)] p-4 rounded-xl text-sm border border-[var(--border-color)] shadow-sm flex justify-between items-center">
                     <div>
-                        <p className={`font-bold text-base mb-0.5 ${tx.type === 'Compra' ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>{t(tx.type === 'Compra' ? 'buy' : 'sell')}</p>
+                        <p className={`font-bold text-base mb-0.5 ${tx.type === 'DireitoRecebido' ? 'text-amber-500' : tx.type === 'Compra' || tx.type === 'Subscricao' ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>
+                            {t(TRANSACTION_TYPE_I18N[tx.type].label)}
+                            {tx.ticker !== ticker && <span className="ml-2 text-[10px] font-bold text-[var(--text-secondary)]">{tx.ticker}</span>}
+                        </p>
                         <p className="text-xs text-[var(--text-secondary)] font-medium">{new Date(tx.date).toLocaleDateString(locale, { timeZone: 'UTC' })}</p>
                     </div>
                     <div className="text-right">
@@ -210,7 +285,7 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({ ticker, onBack, onVie
             {fullDividendHistory.length > 0 ? (
                 <>
                     <div className="bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)] shadow-sm h-64">
-                        <DividendChart data={asset?.dividendsHistory || []} />
+                        <DividendChart data={asset?.dividendsHistory || []} forecast={dividendForecast.byTicker[ticker]} />
                     </div>
                     
                     <div className="bg-[var(--bg-secondary)] rounded-2xl border border-[var(--border-color)] overflow-hidden">
@@ -221,6 +296,11 @@ const AssetDetailView: React.FC<AssetDetailViewProps> = ({ ticker, onBack, onVie
                                         <span className={`text-[9px] font-bold uppercase px-1.5 py-0.5 rounded ${div.isProvisioned ? 'bg-amber-500/20 text-amber-500' : 'bg-emerald-500/20 text-emerald-500'}`}>
                                             {div.isProvisioned ? 'Futuro' : 'Pago'}
                                         </span>
+                                        {div.kind && div.kind !== 'Rendimento' && (
+                                            <span className="text-[9px] font-bold uppercase px-1.5 py-0.5 rounded bg-sky-500/20 text-sky-500">
+                                                {t(`dividend_kind_${div.kind.toLowerCase()}`)}
+                                            </span>
+                                        )}
                                         <span className="text-xs font-bold text-[var(--text-primary)]">{new Date(div.paymentDate).toLocaleDateString(locale, {timeZone:'UTC'})}</span>
                                     </div>
                                     <span className="text-xs text-[var(--text-secondary)]">Data Com: {new Date(div.exDate).toLocaleDateString(locale, {day:'2-digit', month:'2-digit', year:'2-digit', timeZone:'UTC'})}</span>
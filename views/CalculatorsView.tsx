@@ -2,6 +2,7 @@
 import React, { useState, useMemo } from 'react';
 import PageHeader from '../components/PageHeader';
 import { useI18n } from '../contexts/I18nContext';
+import { usePortfolio } from '../contexts/PortfolioContext';
 import SimulationChart from '../components/charts/SimulationChart';
 import LineChartIcon from '../components/icons/LineChartIcon';
 import TrendingUpIcon from '../components/icons/TrendingUpIcon';
@@ -11,6 +12,11 @@ import PiggyBankIcon from '../components/icons/PiggyBankIcon';
 import CalendarPlusIcon from '../components/icons/CalendarPlusIcon';
 import PercentIcon from '../components/icons/PercentIcon';
 import ClockIcon from '../components/icons/ClockIcon';
+import SparklesIcon from '../components/icons/SparklesIcon';
+import { runMonteCarlo, getMonthlyReturns, vibrate, MONTE_CARLO_PATHS } from '../utils';
+
+// Meses mínimos de histórico para reamostrar os retornos da carteira
+const MIN_HISTORICAL_MONTHS = 12;
 
 const CompactInput: React.FC<{ 
     label: string; 
@@ -227,6 +233,117 @@ const FirstMillionCalculator: React.FC = () => {
 };
 
 
+const MonteCarloCalculator: React.FC = () => {
+    const { t, formatCurrency } = useI18n();
+    const { portfolioEvolution } = usePortfolio();
+    const [initial, setInitial] = useState(10000);
+    const [monthly, setMonthly] = useState(1000);
+    const [years, setYears] = useState(15);
+    const [meanReturn, setMeanReturn] = useState(10);
+    const [volatility, setVolatility] = useState(15);
+    const [inflation, setInflation] = useState(4.5);
+    const [distribution, setDistribution] = useState<'parametric' | 'historical'>('parametric');
+    const [targetType, setTargetType] = useState<'value' | 'income'>('value');
+    const [targetValue, setTargetValue] = useState(1000000);
+    const [targetIncome, setTargetIncome] = useState(5000);
+    const [incomeYield, setIncomeYield] = useState(8);
+
+    const historicalReturns = useMemo(() => getMonthlyReturns(portfolioEvolution
+        .filter(p => p.marketValue > 0)
+        .map(p => ({ date: p.dateISO, value: 1 + (p.cumulativeReturn || 0) / 100 }))), [portfolioEvolution]);
+    const hasHistory = historicalReturns.length >= MIN_HISTORICAL_MONTHS;
+    const useHistory = distribution === 'historical' && hasHistory;
+    const historicalMean = hasHistory ? (historicalReturns.reduce((acc, r) => acc * (1 + r), 1) ** (12 / historicalReturns.length) - 1) * 100 : 0;
+
+    // Renda alvo convertida no patrimônio que a gera com o yield informado
+    const target = targetType === 'value' ? targetValue : (incomeYield > 0 ? (targetIncome * 12) / (incomeYield / 100) : 0);
+    const safeYears = Math.max(1, Math.min(Math.round(years), 50));
+
+    const result = useMemo(() => runMonteCarlo({
+        initial, monthly, years: safeYears, inflation, target, meanReturn, volatility,
+        historicalReturns: useHistory ? historicalReturns : undefined,
+    }), [initial, monthly, safeYears, inflation, target, meanReturn, volatility, useHistory, historicalReturns]);
+
+    const final = result.bands[result.bands.length - 1];
+    const chartData = result.bands.map(b => ({ year: b.year, total: b.p50, invested: b.invested, p10: b.p10, p90: b.p90 }));
+    const probabilityColor = result.probability >= 70 ? 'text-[var(--green-text)]' : result.probability >= 40 ? 'text-amber-500' : 'text-[var(--red-text)]';
+
+    const toggleClass = (active: boolean) => `flex-1 px-2 py-1 text-[10px] font-bold rounded-md transition-all ${active ? 'bg-[var(--bg-secondary)] text-[var(--accent-color)] shadow-sm' : 'text-[var(--text-secondary)]'}`;
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3 bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)]">
+                <CompactInput icon={<PiggyBankIcon />} label="Inicial" value={initial} onChange={setInitial} prefix="R$" step={1000} />
+                <CompactInput icon={<CalendarPlusIcon />} label="Mensal" value={monthly} onChange={setMonthly} prefix="R$" step={100} />
+                <CompactInput icon={<ClockIcon />} label="Tempo" value={years} onChange={setYears} suffix="anos" />
+                <CompactInput icon={<PercentIcon />} label="Inflação" value={inflation} onChange={setInflation} suffix="% a.a." step={0.5} />
+
+                <div className="col-span-2">
+                    <p className="text-[10px] font-bold uppercase tracking-wider text-[var(--text-secondary)] mb-1.5">{t('mc_distribution')}</p>
+                    <div className="flex bg-[var(--bg-primary)] p-0.5 rounded-lg border border-[var(--border-color)]">
+                        <button onClick={() => { setDistribution('parametric'); vibrate(); }} className={toggleClass(distribution === 'parametric')}>{t('mc_parametric')}</button>
+                        <button onClick={() => { setDistribution('historical'); vibrate(); }} className={toggleClass(distribution === 'historical')}>{t('mc_historical')}</button>
+                    </div>
+                </div>
+                {distribution === 'parametric' ? (
+                    <>
+                        <CompactInput icon={<TrendingUpIcon />} label="Retorno" value={meanReturn} onChange={setMeanReturn} suffix="% a.a." step={0.5} />
+                        <CompactInput icon={<LineChartIcon />} label="Volatilidade" value={volatility} onChange={setVolatility} suffix="% a.a." step={1} />
+                    </>
+                ) : (
+                    <p className={`col-span-2 text-[10px] ${hasHistory ? 'text-[var(--text-secondary)]' : 'text-amber-500'}`}>
+                        {hasHistory
+                            ? t('mc_historical_info', { count: historicalReturns.length, mean: historicalMean.toFixed(1) })
+                            : t('mc_historical_unavailable', { count: MIN_HISTORICAL_MONTHS })}
+                    </p>
+                )}
+
+                <div className="col-span-2">
+                    <p className="text-[10px] font-bold uppercase tracking-wider text-[var(--text-secondary)] mb-1.5">{t('goal')}</p>
+                    <div className="flex bg-[var(--bg-primary)] p-0.5 rounded-lg border border-[var(--border-color)]">
+                        <button onClick={() => { setTargetType('value'); vibrate(); }} className={toggleClass(targetType === 'value')}>{t('mc_target_value')}</button>
+                        <button onClick={() => { setTargetType('income'); vibrate(); }} className={toggleClass(targetType === 'income')}>{t('mc_target_income')}</button>
+                    </div>
+                </div>
+                {targetType === 'value' ? (
+                    <div className="col-span-2">
+                        <CompactInput icon={<RocketIcon />} label="Objetivo" value={targetValue} onChange={setTargetValue} prefix="R$" step={10000} />
+                    </div>
+                ) : (
+                    <>
+                        <CompactInput icon={<RocketIcon />} label="Renda Mensal" value={targetIncome} onChange={setTargetIncome} prefix="R$" step={500} />
+                        <CompactInput icon={<PercentIcon />} label="Yield" value={incomeYield} onChange={setIncomeYield} suffix="% a.a." step={0.5} />
+                        <p className="col-span-2 text-[10px] text-[var(--text-secondary)]">
+                            {t('mc_target_income_hint', { income: formatCurrency(targetIncome), value: formatCurrency(target), yield: incomeYield })}
+                        </p>
+                    </>
+                )}
+            </div>
+
+            <div className="bg-[var(--bg-secondary)] p-5 rounded-2xl border border-[var(--border-color)] shadow-sm">
+                <div className="text-center mb-4">
+                    <p className="text-[10px] uppercase font-bold text-[var(--text-secondary)] tracking-widest mb-1">{t('mc_probability')}</p>
+                    <p className={`text-4xl font-black tracking-tight ${probabilityColor}`}>{result.probability.toFixed(0)}%</p>
+                </div>
+                <p className="text-[10px] uppercase font-bold text-[var(--text-secondary)] tracking-wider mb-2">{t('mc_percentiles')}</p>
+                <div className="grid grid-cols-3 gap-2 text-center">
+                    {([['P10', final.p10], ['P50', final.p50], ['P90', final.p90]] as [string, number][]).map(([label, value]) => (
+                        <div key={label} className="bg-[var(--bg-primary)] rounded-xl p-2">
+                            <p className="text-[10px] font-bold text-[var(--text-secondary)]">{label}</p>
+                            <p className="text-xs font-bold text-[var(--text-primary)]">{formatCurrency(value)}</p>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div className="h-48 bg-[var(--bg-secondary)] p-2 rounded-2xl border border-[var(--border-color)]">
+                <SimulationChart data={chartData} years={safeYears} type="montecarlo" target={target} />
+            </div>
+            <p className="text-[10px] text-[var(--text-secondary)] text-center">{t('mc_footnote', { paths: MONTE_CARLO_PATHS })}</p>
+        </div>
+    );
+};
+
 const CalculatorsView: React.FC<{ onBack: () => void; }> = ({ onBack }) => {
     const { t } = useI18n();
     const [activeTab, setActiveTab] = useState('compound');
@@ -235,6 +352,7 @@ const CalculatorsView: React.FC<{ onBack: () => void; }> = ({ onBack }) => {
         { id: 'compound', label: t('compound_interest'), icon: <TrendingUpIcon className="w-4 h-4" /> },
         { id: 'simple', label: t('simple_interest'), icon: <LineChartIcon className="w-4 h-4" /> },
         { id: 'million', label: '1 Milhão', icon: <RocketIcon className="w-4 h-4" /> },
+        { id: 'montecarlo', label: t('monte_carlo'), icon: <SparklesIcon className="w-4 h-4" /> },
     ];
 
     return (
@@ -257,6 +375,7 @@ const CalculatorsView: React.FC<{ onBack: () => void; }> = ({ onBack }) => {
                 {activeTab === 'compound' && <CompoundInterestCalculator />}
                 {activeTab === 'simple' && <SimpleInterestCalculator />}
                 {activeTab === 'million' && <FirstMillionCalculator />}
+                {activeTab === 'montecarlo' && <MonteCarloCalculator />}
             </div>
         </div>
     );
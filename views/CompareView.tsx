@@ -0,0 +1,350 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { useI18n } from '../contexts/I18nContext';
+import { usePortfolio } from '../contexts/PortfolioContext';
+import PageHeader from '../components/PageHeader';
+import ComparisonLineChart from '../components/charts/ComparisonLineChart';
+import { MarginOfSafetyBadge } from '../components/cards/ValuationCard';
+import CloseIcon from '../components/icons/CloseIcon';
+import PlusIcon from '../components/icons/PlusIcon';
+import RefreshIcon from '../components/icons/RefreshIcon';
+import { fetchAdvancedAssetData } from '../services/geminiService';
+import { getValuationAssumptions } from '../hooks/useValuation';
+import { MAX_COMPARED_TICKERS } from '../constants';
+import { vibrate, mergePriceSeries, normalizePriceSeries, getMonthlyDividendYields, calculateValuation, getTodayISODate } from '../utils';
+import type { PriceSeries, Valuation } from '../utils';
+import type { Asset, DividendHistoryEvent, ScreenerFund, ValuationAssumptions } from '../types';
+
+const COLORS = ['var(--accent-color)', '#f97316', '#8b5cf6', '#ec4899'];
+const TICKER_PATTERN = /^[A-Z]{4}\d{1,2}$/;
+
+type Range = '6M' | '1Y' | 'MAX';
+const RANGES: { id: Range; label: string; months: number | null }[] = [
+    { id: '6M', label: '6M', months: 6 },
+    { id: '1Y', label: '1A', months: 12 },
+    { id: 'MAX', label: 'Máx', months: null },
+];
+
+interface ComparedAsset {
+    ticker: string;
+    color: string;
+    price: number;
+    dy?: number;
+    pvp?: number;
+    vacancyRate?: number;
+    liquidity?: number;
+    capRate?: number;
+    managementFee?: string;
+    dividendCAGR?: number;
+    lastDividend?: number;
+    vpPerShare?: number;
+    dividendsHistory: DividendHistoryEvent[];
+    series: PriceSeries;
+    assumptions: ValuationAssumptions;
+    valuation: Valuation | null;
+}
+
+type NumericMetric = 'dy' | 'pvp' | 'vacancyRate' | 'liquidity' | 'capRate' | 'dividendCAGR';
+
+// `better` indica qual lado é destacado; managementFee vem como texto e não é comparada
+const METRICS: { key: NumericMetric | 'managementFee'; label: string; better?: 'high' | 'low'; format?: (v: number) => string }[] = [
+    { key: 'dy', label: 'DY (12m)', better: 'high', format: v => `${v.toFixed(2)}%` },
+    { key: 'pvp', label: 'P/VP', better: 'low', format: v => v.toFixed(2) },
+    { key: 'vacancyRate', label: 'vacancy', better: 'low', format: v => `${v}%` },
+    { key: 'liquidity', label: 'daily_liquidity', better: 'high', format: v => `R$ ${(v / 1000000).toFixed(1)}M` },
+    { key: 'capRate', label: 'Cap Rate', better: 'high', format: v => `${v.toFixed(2)}%` },
+    { key: 'managementFee', label: 'compare_management_fee' },
+    { key: 'dividendCAGR', label: 'compare_dividend_cagr', better: 'high', format: v => `${v.toFixed(1)}%` },
+];
+
+const shiftMonths = (isoDate: string, months: number) => {
+    const date = new Date(`${isoDate}T12:00:00`);
+    date.setMonth(date.getMonth() - months);
+    return date.toISOString().split('T')[0];
+};
+
+const Card: React.FC<{ title: string; children: React.ReactNode; action?: React.ReactNode }> = ({ title, children, action }) => (
+    <div className="bg-[var(--bg-secondary)] rounded-2xl p-5 border border-[var(--border-color)] shadow-sm">
+        <div className="flex justify-between items-center mb-4">
+            <h3 className="font-bold text-sm text-[var(--text-primary)] uppercase tracking-wide">{title}</h3>
+            {action}
+        </div>
+        {children}
+    </div>
+);
+
+// Barras de cada ativo lado a lado dentro do mês
+const DividendYieldBars: React.FC<{ months: string[]; compared: ComparedAsset[]; yields: Record<string, number[]> }> = ({ months, compared, yields }) => {
+    const max = Math.max(0.01, ...compared.flatMap(a => yields[a.ticker]));
+    const slot = 100 / months.length;
+    const barWidth = (slot * 0.8) / Math.max(1, compared.length);
+
+    return (
+        <div>
+            <svg viewBox="0 0 100 50" preserveAspectRatio="none" className="w-full h-32">
+                {months.map((month, i) => compared.map((asset, j) => {
+                    const value = yields[asset.ticker][i];
+                    const height = (value / max) * 48;
+                    return value > 0 ? (
+                        <rect key={`${month}-${asset.ticker}`} x={i * slot + slot * 0.1 + j * barWidth} y={50 - height} width={barWidth * 0.9} height={height} fill={asset.color} rx="0.3">
+                            <title>{`${asset.ticker} ${month}: ${value.toFixed(2)}%`}</title>
+                        </rect>
+                    ) : null;
+                }))}
+            </svg>
+            <div className="flex justify-between text-[9px] text-[var(--text-secondary)] mt-1">
+                <span>{months[0].split('-').reverse().join('/')}</span>
+                <span>{months[months.length - 1].split('-').reverse().join('/')}</span>
+            </div>
+        </div>
+    );
+};
+
+// Comparação lado a lado de 2 a 4 fundos: indicadores, desempenho normalizado, proventos e preço justo
+const CompareView: React.FC<{ initialTickers: string[]; onBack: () => void }> = ({ initialTickers, onBack }) => {
+    const { t, formatCurrency } = useI18n();
+    const { assets, preferences, priceHistory, screenerUniverse, backfillPriceHistory } = usePortfolio();
+
+    const [tickers, setTickers] = useState<string[]>(initialTickers.slice(0, MAX_COMPARED_TICKERS));
+    const [newTicker, setNewTicker] = useState('');
+    const [range, setRange] = useState<Range>('1Y');
+    const [fetched, setFetched] = useState<Record<string, any>>({}); // Fundamentos de ativos fora da carteira
+    const [isLoading, setIsLoading] = useState(false);
+    const requested = useRef<Set<string>>(new Set());
+
+    const assetByTicker = useMemo(() => Object.fromEntries((assets as Asset[]).map(a => [a.ticker, a])) as Record<string, Asset>, [assets]);
+
+    useEffect(() => {
+        const pending = tickers.filter(ticker => !requested.current.has(ticker));
+        if (pending.length === 0) return;
+        pending.forEach(ticker => requested.current.add(ticker));
+
+        const needFundamentals = pending.filter(ticker => !assetByTicker[ticker]);
+        const needHistory = pending.filter(ticker => (priceHistory[ticker]?.length || 0) < 20);
+        setIsLoading(true);
+        Promise.allSettled([
+            needFundamentals.length > 0 ? fetchAdvancedAssetData(preferences, needFundamentals).then(({ data }) => setFetched(prev => ({ ...prev, ...data }))) : Promise.resolve(),
+            needHistory.length > 0 ? backfillPriceHistory('1y', needHistory) : Promise.resolve(),
+        ]).finally(() => setIsLoading(false));
+    }, [tickers]);
+
+    const today = getTodayISODate();
+
+    const compared = useMemo<ComparedAsset[]>(() => tickers.map((ticker, i) => {
+        const asset = assetByTicker[ticker];
+        const screener: ScreenerFund | undefined = screenerUniverse[ticker];
+        const source: Record<string, any> = asset || { ...screener, ...(fetched[ticker] || {}) };
+        const series = mergePriceSeries(priceHistory[ticker] || [], asset?.priceHistory || []);
+        const price = asset?.currentPrice || screener?.price || series[series.length - 1]?.price || 0;
+        const dividendsHistory: DividendHistoryEvent[] = source.dividendsHistory || [];
+        const assumptions = getValuationAssumptions(preferences, ticker);
+
+        return {
+            ticker,
+            color: COLORS[i % COLORS.length],
+            price,
+            dy: source.dy,
+            pvp: source.pvp,
+            vacancyRate: source.vacancyRate,
+            liquidity: source.liquidity,
+            capRate: source.capRate,
+            managementFee: source.managementFee,
+            dividendCAGR: source.dividendCAGR,
+            lastDividend: source.lastDividend,
+            vpPerShare: source.vpPerShare,
+            dividendsHistory,
+            series,
+            assumptions,
+            valuation: calculateValuation({ currentPrice: price, dy: source.dy, lastDividend: source.lastDividend, dividendsHistory, dividendCAGR: source.dividendCAGR, vpPerShare: source.vpPerShare }, assumptions, today),
+        };
+    }), [tickers, assetByTicker, screenerUniverse, fetched, priceHistory, preferences, today]);
+
+    const performance = useMemo(() => {
+        const months = RANGES.find(r => r.id === range)!.months;
+        const from = months ? shiftMonths(today, months) : '0000-00-00';
+        return normalizePriceSeries(Object.fromEntries(compared.map(a => [a.ticker, a.series.filter(p => p.date >= from)])), from);
+    }, [compared, range, today]);
+
+    const months = useMemo(() => Array.from({ length: 12 }, (_, i) => shiftMonths(today, 11 - i).substring(0, 7)), [today]);
+    const yields = useMemo(() => Object.fromEntries(compared.map(a => [a.ticker, getMonthlyDividendYields(a.dividendsHistory, a.series, a.price, months)])) as Record<string, number[]>, [compared, months]);
+
+    const best = useMemo(() => {
+        const result: Partial<Record<NumericMetric, number>> = {};
+        METRICS.forEach(metric => {
+            if (!metric.better || metric.key === 'managementFee') return;
+            const key = metric.key;
+            const values = compared.map(a => a[key]).filter((v): v is number => typeof v === 'number');
+            if (values.length > 1) result[key] = metric.better === 'high' ? Math.max(...values) : Math.min(...values);
+        });
+        return result;
+    }, [compared]);
+
+    const addTicker = () => {
+        const ticker = newTicker.trim().toUpperCase();
+        if (!TICKER_PATTERN.test(ticker) || tickers.includes(ticker) || tickers.length >= MAX_COMPARED_TICKERS) return;
+        vibrate();
+        setTickers([...tickers, ticker]);
+        setNewTicker('');
+    };
+
+    const removeTicker = (ticker: string) => {
+        vibrate();
+        setTickers(tickers.filter(tk => tk !== ticker));
+    };
+
+    const labels = performance.dates.map(d => d.split('-').reverse().join('/'));
+    const hasDividends = compared.some(a => yields[a.ticker].some(v => v > 0));
+
+    return (
+        <div className="p-4 pb-24 md:pb-6 h-full overflow-y-auto custom-scrollbar landscape-pb-6">
+            <div className="max-w-4xl mx-auto">
+                <PageHeader title={t('compare_title')} onBack={onBack} helpText={t('compare_help')} />
+
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                    {compared.map(asset => (
+                        <span key={asset.ticker} className="flex items-center gap-1.5 bg-[var(--bg-secondary)] border border-[var(--border-color)] rounded-lg pl-3 pr-1 py-1">
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: asset.color }}></span>
+                            <span className="text-xs font-bold">{asset.ticker}</span>
+                            <button onClick={() => removeTicker(asset.ticker)} className="p-1 text-[var(--text-secondary)] hover:text-red-500" aria-label={t('delete')}>
+                                <CloseIcon className="w-3 h-3" />
+                            </button>
+                        </span>
+                    ))}
+                    {tickers.length < MAX_COMPARED_TICKERS && (
+                        <div className="flex items-center gap-1">
+                            <input
+                                value={newTicker}
+                                onChange={e => setNewTicker(e.target.value.toUpperCase())}
+                                onKeyDown={e => e.key === 'Enter' && addTicker()}
+                                placeholder={t('compare_add_placeholder')}
+                                className="w-28 bg-[var(--bg-primary)] border border-[var(--border-color)] rounded-lg p-1.5 text-xs font-bold uppercase focus:outline-none focus:border-[var(--accent-color)]"
+                            />
+                            <button onClick={addTicker} className="p-1.5 rounded-lg bg-[var(--accent-color)] text-[var(--accent-color-text)]" aria-label={t('compare_add')}>
+                                <PlusIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    )}
+                    {isLoading && <RefreshIcon className="w-4 h-4 animate-spin text-[var(--accent-color)]" />}
+                </div>
+
+                {tickers.length < 2 ? (
+                    <p className="text-center text-sm text-[var(--text-secondary)] py-12">{t('compare_min_tickers')}</p>
+                ) : (
+                    <div className="space-y-4 animate-fade-in">
+                        <Card title={t('compare_fundamentals')}>
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-xs">
+                                    <thead>
+                                        <tr className="text-[10px] text-[var(--text-secondary)] uppercase tracking-wider">
+                                            <th className="text-left font-bold pb-2"></th>
+                                            {compared.map(a => <th key={a.ticker} className="text-right font-bold pb-2" style={{ color: a.color }}>{a.ticker}</th>)}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        <tr className="border-t border-[var(--border-color)]">
+                                            <td className="py-2 text-[var(--text-secondary)]">{t('current_price')}</td>
+                                            {compared.map(a => <td key={a.ticker} className="py-2 text-right font-bold">{a.price > 0 ? formatCurrency(a.price) : '-'}</td>)}
+                                        </tr>
+                                        {METRICS.map(metric => (
+                                            <tr key={metric.key} className="border-t border-[var(--border-color)]">
+                                                <td className="py-2 text-[var(--text-secondary)] whitespace-nowrap">{t(metric.label)}</td>
+                                                {compared.map(a => {
+                                                    if (metric.key === 'managementFee') return <td key={a.ticker} className="py-2 text-right">{a.managementFee || '-'}</td>;
+                                                    const value = a[metric.key];
+                                                    const isBest = value !== undefined && best[metric.key] === value;
+                                                    return (
+                                                        <td key={a.ticker} className={`py-2 text-right font-bold ${isBest ? 'text-[var(--green-text)]' : 'text-[var(--text-primary)]'}`}>
+                                                            {typeof value === 'number' ? metric.format!(value) : '-'}
+                                                        </td>
+                                                    );
+                                                })}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </Card>
+
+                        <Card
+                            title={t('compare_performance')}
+                            action={
+                                <div className="flex bg-[var(--bg-primary)] p-0.5 rounded-lg border border-[var(--border-color)]">
+                                    {RANGES.map(r => (
+                                        <button key={r.id} onClick={() => { setRange(r.id); vibrate(); }} className={`px-2 py-1 text-[10px] font-bold rounded-md transition-all ${range === r.id ? 'bg-[var(--bg-secondary)] text-[var(--accent-color)] shadow-sm' : 'text-[var(--text-secondary)]'}`}>{r.label}</button>
+                                    ))}
+                                </div>
+                            }
+                        >
+                            {performance.dates.length >= 2 ? (
+                                <>
+                                    <ComparisonLineChart
+                                        labels={labels}
+                                        formatValue={v => `${v >= 100 ? '+' : ''}${(v - 100).toFixed(1)}%`}
+                                        formatAxis={v => v.toFixed(0)}
+                                        series={compared.filter(a => performance.values[a.ticker]).map(a => ({ id: a.ticker, label: a.ticker, color: a.color, values: performance.values[a.ticker] }))}
+                                    />
+                                    <p className="text-[10px] text-[var(--text-secondary)] mt-3">{t('compare_performance_hint', { date: labels[0] })}</p>
+                                </>
+                            ) : (
+                                <p className="text-xs text-[var(--text-secondary)]">{t('compare_no_history')}</p>
+                            )}
+                        </Card>
+
+                        <Card title={t('compare_dividends')}>
+                            {hasDividends ? (
+                                <>
+                                    <DividendYieldBars months={months} compared={compared} yields={yields} />
+                                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-4 pt-4 border-t border-[var(--border-color)]">
+                                        {compared.map(a => (
+                                            <div key={a.ticker}>
+                                                <span className="text-[10px] font-bold uppercase tracking-wider block mb-1" style={{ color: a.color }}>{a.ticker}</span>
+                                                <span className="text-sm font-bold text-[var(--text-primary)]">{yields[a.ticker].reduce((acc, v) => acc + v, 0).toFixed(2)}%</span>
+                                                <span className="text-[10px] text-[var(--text-secondary)] block">{t('compare_dividends_12m')}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </>
+                            ) : (
+                                <p className="text-xs text-[var(--text-secondary)]">{t('compare_no_dividends')}</p>
+                            )}
+                        </Card>
+
+                        <Card title={t('valuation_title')}>
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-xs">
+                                    <thead>
+                                        <tr className="text-[10px] text-[var(--text-secondary)] uppercase tracking-wider">
+                                            <th className="text-left font-bold pb-2"></th>
+                                            {compared.map(a => <th key={a.ticker} className="text-right font-bold pb-2" style={{ color: a.color }}>{a.ticker}</th>)}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {(['bazin', 'gordon', 'pvp', 'fairPrice'] as const).map(model => (
+                                            <tr key={model} className="border-t border-[var(--border-color)]">
+                                                <td className={`py-2 whitespace-nowrap ${model === 'fairPrice' ? 'font-bold text-[var(--text-primary)]' : 'text-[var(--text-secondary)]'}`}>{t(model === 'fairPrice' ? 'valuation_fair_price' : `valuation_${model}`)}</td>
+                                                {compared.map(a => {
+                                                    const value = a.valuation?.[model] ?? null;
+                                                    return <td key={a.ticker} className="py-2 text-right font-bold">{value !== null ? formatCurrency(value) : '-'}</td>;
+                                                })}
+                                            </tr>
+                                        ))}
+                                        <tr className="border-t border-[var(--border-color)]">
+                                            <td className="py-2 text-[var(--text-secondary)]">{t('compare_margin')}</td>
+                                            {compared.map(a => (
+                                                <td key={a.ticker} className="py-2 text-right">
+                                                    {a.valuation ? <MarginOfSafetyBadge valuation={a.valuation} safetyMargin={a.assumptions.safetyMargin} /> : '-'}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    </tbody>
+                                </table>
+                            </div>
+                            <p className="text-[10px] text-[var(--text-secondary)] mt-4 opacity-70">{t('valuation_disclaimer')}</p>
+                        </Card>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CompareView;
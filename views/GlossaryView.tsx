@@ -6,7 +6,8 @@ import ChevronRightIcon from '../components/icons/ChevronRightIcon';
 
 const GLOSSARY_TERMS = [
     'fii', 'ticker', 'dy', 'pvp', 'vacancia', 'cota', 'proventos', 
-    'subscricao', 'amortizacao', 'ifix', 'tijolo', 'papel', 'fof'
+    'subscricao', 'amortizacao', 'ifix', 'tijolo', 'papel', 'fof',
+    'volatilidade', 'drawdown', 'sharpe', 'beta'
 ];
 
 interface GlossaryItemProps {
@@ -33,9 +34,9 @@ const GlossaryItem: React.FC<GlossaryItemProps> = ({ term, description, isOpen,
     </div>
 );
 
-const GlossaryView: React.FC<{ onBack: () => void }> = ({ onBack }) => {
+const GlossaryView: React.FC<{ onBack: () => void; initialTerm?: string | null }> = ({ onBack, initialTerm = null }) => {
     const { t } = useI18n();
-    const [openTerm, setOpenTerm] = useState<string | null>(null);
+    const [openTerm, setOpenTerm] = useState<string | null>(initialTerm);
     const [searchTerm, setSearchTerm] = useState('');
 
     const glossaryData = useMemo(() => {
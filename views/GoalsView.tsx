@@ -0,0 +1,262 @@
+import React, { useState, useMemo } from 'react';
+import PageHeader from '../components/PageHeader';
+import TrashIcon from '../components/icons/TrashIcon';
+import RefreshIcon from '../components/icons/RefreshIcon';
+import type { ToastMessage, IncomeGoal } from '../types';
+import { useI18n } from '../contexts/I18nContext';
+import { usePortfolio } from '../contexts/PortfolioContext';
+import { vibrate, getTodayISODate, fromISODate, addMonthsKey, getAverageMonthlyContribution, projectIncomeGoal, safeFloat } from '../utils';
+
+// Meses de realizado x projetado exibidos por meta
+const TRACKING_MONTHS = 6;
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div>
+        <span className="text-[10px] text-[var(--text-secondary)] uppercase font-bold tracking-wider block mb-1">{label}</span>
+        <span className="text-sm font-bold text-[var(--text-primary)]">{value}</span>
+    </div>
+);
+
+// Metas de renda ligadas à carteira real: data projetada, prazo e realizado x projetado
+const GoalsView: React.FC<{ onBack: () => void; addToast: (message: string, type?: ToastMessage['type']) => void; }> = ({ onBack, addToast }) => {
+    const { t, formatCurrency, locale } = useI18n();
+    const { assets, transactions, fullIncomeHistory, projectedAnnualIncome, preferences, incomeGoals, addIncomeGoal, updateIncomeGoal, deleteIncomeGoal } = usePortfolio();
+
+    const today = getTodayISODate();
+    const currentMonth = today.substring(0, 7);
+
+    // Situação atual da carteira: base das novas metas e da projeção de cada uma
+    const current = useMemo(() => {
+        const portfolioValue = assets.reduce((acc, a) => acc + a.quantity * a.currentPrice, 0);
+        let trailingIncome = 0;
+        for (let i = 1; i <= 12; i++) trailingIncome += fullIncomeHistory[addMonthsKey(currentMonth, -i)] || 0;
+        const incomeBase = trailingIncome > 0 ? trailingIncome : projectedAnnualIncome;
+        return {
+            portfolioValue: safeFloat(portfolioValue),
+            monthlyIncome: safeFloat(trailingIncome / 12),
+            monthlyContribution: getAverageMonthlyContribution(transactions, today),
+            annualYield: portfolioValue > 0 ? safeFloat((incomeBase / portfolioValue) * 100) : 0,
+        };
+    }, [assets, fullIncomeHistory, projectedAnnualIncome, transactions, today, currentMonth]);
+
+    const [name, setName] = useState('');
+    const [target, setTarget] = useState(String(preferences.globalIncomeGoal || ''));
+    const [deadline, setDeadline] = useState('');
+    const [assumedYield, setAssumedYield] = useState('');
+
+    const formatMonth = (month: string) => fromISODate(`${month}-01`).toLocaleDateString(locale, { month: 'short', year: 'numeric' });
+
+    const handleAddGoal = () => {
+        vibrate();
+        const monthlyIncome = parseFloat(target);
+        if (!name.trim()) {
+            addToast(t('goal_name_required'), 'error');
+            return;
+        }
+        if (isNaN(monthlyIncome) || monthlyIncome <= 0) {
+            addToast(t('validation_amount_positive'), 'error');
+            return;
+        }
+        const parsedYield = parseFloat(assumedYield);
+        addIncomeGoal({
+            id: String(Date.now()),
+            name: name.trim(),
+            monthlyIncome,
+            deadline: deadline || undefined,
+            createdAt: today,
+            baseline: {
+                portfolioValue: current.portfolioValue,
+                monthlyContribution: current.monthlyContribution,
+                annualYield: isNaN(parsedYield) || parsedYield <= 0 ? current.annualYield : parsedYield,
+            },
+        });
+        addToast(t('toast_goal_added'), 'success');
+        setName('');
+        setDeadline('');
+        setAssumedYield('');
+    };
+
+    // Refaz a linha projetada a partir da carteira de hoje
+    const handleRebase = (goal: IncomeGoal) => {
+        vibrate();
+        updateIncomeGoal({ ...goal, createdAt: today, baseline: { ...goal.baseline, portfolioValue: current.portfolioValue, monthlyContribution: current.monthlyContribution } });
+        addToast(t('toast_goal_rebased'), 'success');
+    };
+
+    const handleDelete = (goal: IncomeGoal) => {
+        vibrate();
+        if (window.confirm(t('confirm_delete_goal', { name: goal.name }))) deleteIncomeGoal(goal.id);
+    };
+
+    const inputClass = 'w-full bg-[var(--bg-primary)] border border-[var(--border-color)] rounded-lg p-2 text-sm text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-color)]';
+
+    return (
+        <div>
+            <PageHeader title={t('income_goals')} onBack={onBack} helpText={t('income_goals_help')} />
+            <div className="space-y-4">
+                <div className="bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)]">
+                    <p className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-3">{t('goal_current_situation')}</p>
+                    <div className="grid grid-cols-2 gap-3">
+                        <Stat label={t('patrimony')} value={formatCurrency(current.portfolioValue)} />
+                        <Stat label={t('goal_trailing_income')} value={formatCurrency(current.monthlyIncome)} />
+                        <Stat label={t('goal_avg_contribution')} value={formatCurrency(current.monthlyContribution)} />
+                        <Stat label={t('goal_current_yield')} value={`${current.annualYield.toFixed(2)}% a.a.`} />
+                    </div>
+                </div>
+
+                {incomeGoals.length === 0 && (
+                    <p className="text-xs text-[var(--text-secondary)] text-center py-4">{t('no_income_goals')}</p>
+                )}
+
+                {incomeGoals.map(goal => (
+                    <GoalCard
+                        key={goal.id}
+                        goal={goal}
+                        current={current}
+                        currentMonth={currentMonth}
+                        fullIncomeHistory={fullIncomeHistory}
+                        formatMonth={formatMonth}
+                        onRebase={() => handleRebase(goal)}
+                        onDelete={() => handleDelete(goal)}
+                    />
+                ))}
+
+                <div className="bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)]">
+                    <p className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-3">{t('new_goal')}</p>
+                    <div className="space-y-3">
+                        <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder={t('goal_name_placeholder')} className={inputClass} />
+                        <div className="grid grid-cols-2 gap-3">
+                            <label className="text-[10px] text-[var(--text-secondary)] font-bold uppercase tracking-wider">
+                                {t('goal_monthly_income')}
+                                <input type="number" min="0" step="50" value={target} onChange={e => setTarget(e.target.value)} className={`${inputClass} mt-1`} />
+                            </label>
+                            <label className="text-[10px] text-[var(--text-secondary)] font-bold uppercase tracking-wider">
+                                {t('goal_deadline')}
+                                <input type="date" value={deadline} min={today} onChange={e => setDeadline(e.target.value)} className={`${inputClass} mt-1`} />
+                            </label>
+                        </div>
+                        <label className="block text-[10px] text-[var(--text-secondary)] font-bold uppercase tracking-wider">
+                            {t('goal_assumed_yield')}
+                            <input type="number" min="0" step="0.1" value={assumedYield} onChange={e => setAssumedYield(e.target.value)} placeholder={current.annualYield.toFixed(2)} className={`${inputClass} mt-1`} />
+                        </label>
+                        <button onClick={handleAddGoal} className="w-full py-2.5 rounded-lg bg-[var(--accent-color)] text-[var(--accent-color-text)] text-sm font-bold">
+                            {t('add_goal')}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const GoalCard: React.FC<{
+    goal: IncomeGoal;
+    current: { portfolioValue: number; monthlyIncome: number; monthlyContribution: number };
+    currentMonth: string;
+    fullIncomeHistory: Record<string, number>;
+    formatMonth: (month: string) => string;
+    onRebase: () => void;
+    onDelete: () => void;
+}> = ({ goal, current, currentMonth, fullIncomeHistory, formatMonth, onRebase, onDelete }) => {
+    const { t, formatCurrency } = useI18n();
+    const startMonth = goal.createdAt.substring(0, 7);
+
+    // Linha congelada na criação (premissas originais)
+    const baselineProjection = useMemo(() => projectIncomeGoal({
+        ...goal.baseline,
+        targetMonthlyIncome: goal.monthlyIncome,
+    }, startMonth), [goal, startMonth]);
+
+    // Projeção refeita com a carteira e o ritmo de aportes de hoje
+    const currentProjection = useMemo(() => projectIncomeGoal({
+        portfolioValue: current.portfolioValue,
+        monthlyContribution: current.monthlyContribution,
+        annualYield: goal.baseline.annualYield,
+        targetMonthlyIncome: goal.monthlyIncome,
+    }, currentMonth), [current, goal, currentMonth]);
+
+    // Realizado x projetado dos meses completos desde a criação
+    const tracking = useMemo(() => {
+        const rows: { month: string; projected: number; actual: number }[] = [];
+        for (let i = 1; i <= TRACKING_MONTHS; i++) {
+            const month = addMonthsKey(currentMonth, -i);
+            if (month < startMonth) break;
+            const point = baselineProjection.points.find(p => p.month === month) || baselineProjection.points[baselineProjection.points.length - 1];
+            rows.push({ month, projected: point.monthlyIncome, actual: fullIncomeHistory[month] || 0 });
+        }
+        return rows;
+    }, [baselineProjection, fullIncomeHistory, currentMonth, startMonth]);
+
+    const progress = goal.monthlyIncome > 0 ? Math.min((current.monthlyIncome / goal.monthlyIncome) * 100, 100) : 0;
+    const reachMonth = currentProjection.reachMonth;
+    const deadlineMonth = goal.deadline?.substring(0, 7);
+    const onTrack = !deadlineMonth || (reachMonth !== null && reachMonth <= deadlineMonth);
+
+    return (
+        <div className="bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)]">
+            <div className="flex justify-between items-start mb-3 gap-2">
+                <div className="min-w-0">
+                    <p className="text-sm font-bold text-[var(--text-primary)] truncate">{goal.name}</p>
+                    <p className="text-[10px] text-[var(--text-secondary)]">
+                        {t('goal_target_line', { amount: formatCurrency(goal.monthlyIncome) })}
+                        {deadlineMonth && ` • ${t('goal_until', { date: formatMonth(deadlineMonth) })}`}
+                    </p>
+                </div>
+                <div className="flex gap-1">
+                    <button onClick={onRebase} className="p-1.5 text-[var(--text-secondary)] hover:text-[var(--accent-color)] rounded-lg transition-colors" aria-label={t('goal_rebase')} title={t('goal_rebase')}>
+                        <RefreshIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={onDelete} className="p-1.5 text-gray-400 hover:text-red-500 rounded-lg transition-colors" aria-label={t('delete')}>
+                        <TrashIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="w-full h-2 bg-[var(--bg-primary)] rounded-full overflow-hidden">
+                <div className={`h-full rounded-full ${progress >= 100 ? 'bg-[var(--green-text)]' : 'bg-[var(--accent-color)]'}`} style={{ width: `${progress}%` }} />
+            </div>
+            <p className="text-[10px] text-[var(--text-secondary)] mt-1 mb-3">
+                {t('goal_progress', { percent: progress.toFixed(0), amount: formatCurrency(current.monthlyIncome) })}
+            </p>
+
+            <div className="grid grid-cols-2 gap-3 mb-3">
+                <Stat label={t('goal_projected_date')} value={reachMonth ? formatMonth(reachMonth) : t('goal_unreachable')} />
+                <Stat label={t('goal_required_value')} value={currentProjection.requiredValue !== null ? formatCurrency(currentProjection.requiredValue) : '—'} />
+            </div>
+
+            {deadlineMonth && (
+                <p className={`text-xs font-bold mb-3 ${onTrack ? 'text-[var(--green-text)]' : 'text-amber-500'}`}>
+                    {onTrack ? t('goal_on_track') : t('goal_behind_schedule')}
+                </p>
+            )}
+
+            {tracking.length > 0 ? (
+                <div className="pt-3 border-t border-[var(--border-color)]">
+                    <p className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-2">{t('goal_actual_vs_projected')}</p>
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-[10px] text-[var(--text-secondary)]">
+                                <th className="text-left font-bold pb-1">{t('month')}</th>
+                                <th className="text-right font-bold pb-1">{t('goal_projected')}</th>
+                                <th className="text-right font-bold pb-1">{t('goal_actual')}</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {tracking.map(row => (
+                                <tr key={row.month}>
+                                    <td className="py-1 capitalize">{formatMonth(row.month)}</td>
+                                    <td className="py-1 text-right text-[var(--text-secondary)]">{formatCurrency(row.projected)}</td>
+                                    <td className={`py-1 text-right font-bold ${row.actual >= row.projected ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>{formatCurrency(row.actual)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ) : (
+                <p className="text-[10px] text-[var(--text-secondary)] pt-3 border-t border-[var(--border-color)]">{t('goal_tracking_pending')}</p>
+            )}
+        </div>
+    );
+};
+
+export default GoalsView;
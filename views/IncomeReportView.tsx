@@ -5,7 +5,8 @@ import { usePortfolio } from '../contexts/PortfolioContext';
 import CountUp from '../components/CountUp';
 import TrendingUpIcon from '../components/icons/TrendingUpIcon';
 import PageHeader from '../components/PageHeader';
-import { vibrate, fromISODate } from '../utils';
+import RealTermsToggle from '../components/RealTermsToggle';
+import { vibrate, fromISODate, deflateMonthlyHistory } from '../utils';
 import ChevronRightIcon from '../components/icons/ChevronRightIcon';
 import SparklesIcon from '../components/icons/SparklesIcon';
 import WalletIcon from '../components/icons/WalletIcon';
@@ -87,6 +88,31 @@ const TopPayersCard: React.FC<{ topPayers: PayerData[]; totalIncome: number }> =
     );
 };
 
+const AmortizationsCard: React.FC<{ amortizations: Record<string, number>; selectedYear: string }> = ({ amortizations, selectedYear }) => {
+    const { t, formatCurrency } = useI18n();
+    const entries = (Object.entries(amortizations) as [string, number][]).filter(([, value]) => value > 0).sort((a, b) => b[1] - a[1]);
+    if (entries.length === 0) return null;
+    const total = entries.reduce((acc, [, value]) => acc + value, 0);
+
+    return (
+        <div className="bg-[var(--bg-secondary)] p-5 rounded-2xl border border-[var(--border-color)] shadow-sm animate-fade-in-up mt-6">
+            <div className="flex justify-between items-center mb-1">
+                <h3 className="font-bold text-sm text-[var(--text-primary)]">{t('amortizations_received')} <span className="text-xs font-normal text-[var(--text-secondary)]">({selectedYear})</span></h3>
+                <span className="text-sm font-bold text-sky-400">{formatCurrency(total)}</span>
+            </div>
+            <p className="text-[10px] text-[var(--text-secondary)] mb-4">{t('amortizations_desc')}</p>
+            <div className="space-y-2">
+                {entries.map(([ticker, value]) => (
+                    <div key={ticker} className="flex justify-between items-center text-xs bg-[var(--bg-primary)] p-3 rounded-lg border border-[var(--border-color)]">
+                        <span className="font-bold text-[var(--text-primary)]">{ticker}</span>
+                        <span className="font-bold text-sky-400">{formatCurrency(value)}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
 const PayerListItem: React.FC<{ payer: PayerData; totalAllPayers: number; isHistorical: boolean }> = ({ payer, totalAllPayers, isHistorical }) => {
     const { t, formatCurrency } = useI18n();
     const contribution = totalAllPayers > 0 ? (payer.totalPaid / totalAllPayers) * 100 : 0;
@@ -140,9 +166,61 @@ const PayerListItem: React.FC<{ payer: PayerData; totalAllPayers: number; isHist
     );
 }
 
+// Renda de cada ano contra o anterior; o ano corrente compara os mesmos meses
+const YearOverYearCard: React.FC<{ history: Record<string, number>; isReal: boolean }> = ({ history, isReal }) => {
+    const { t, formatCurrency } = useI18n();
+
+    const rows = useMemo(() => {
+        const now = new Date();
+        const currentYear = now.getFullYear().toString();
+        const currentMonth = String(now.getMonth() + 1).padStart(2, '0');
+        const sumYear = (year: string, untilMonth: string) => (Object.entries(history) as [string, number][])
+            .filter(([key]) => key.startsWith(`${year}-`) && key.slice(5) <= untilMonth)
+            .reduce((acc, [, value]) => acc + value, 0);
+
+        const years = Array.from(new Set(Object.keys(history).map(k => k.split('-')[0]))).sort();
+        return years.map(year => {
+            const untilMonth = year === currentYear ? currentMonth : '12';
+            const total = sumYear(year, untilMonth);
+            const previous = sumYear(String(Number(year) - 1), untilMonth);
+            return { year, total, growth: previous > 0 ? (total / previous - 1) * 100 : null, partial: year === currentYear };
+        }).filter(row => row.total > 0).reverse();
+    }, [history]);
+
+    if (rows.length < 2) return null;
+
+    return (
+        <div className="bg-[var(--bg-secondary)] p-5 rounded-2xl border border-[var(--border-color)] shadow-sm animate-fade-in-up">
+            <div className="flex items-center gap-2 mb-1">
+                <TrendingUpIcon className="w-4 h-4 text-[var(--accent-color)]" />
+                <h3 className="font-bold text-sm text-[var(--text-primary)]">{isReal ? t('real_income_growth') : t('income_growth')}</h3>
+            </div>
+            <p className={`text-[10px] mb-4 ${isReal ? 'text-[var(--text-secondary)]' : 'text-amber-500'}`}>
+                {isReal ? t('real_income_growth_hint') : t('real_terms_needs_ipca')}
+            </p>
+            <div className="space-y-2">
+                {rows.map(row => (
+                    <div key={row.year} className="flex items-center justify-between text-xs">
+                        <span className="font-bold text-[var(--text-primary)]">
+                            {row.year}
+                            {row.partial && <span className="ml-1 text-[10px] font-normal text-[var(--text-secondary)]">({t('period_ytd')})</span>}
+                        </span>
+                        <div className="flex items-center gap-3">
+                            <span className="text-[var(--text-secondary)]">{formatCurrency(row.total)}</span>
+                            <span className={`w-16 text-right font-bold ${row.growth === null ? 'text-[var(--text-secondary)]' : row.growth >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>
+                                {row.growth === null ? '—' : `${row.growth >= 0 ? '+' : ''}${row.growth.toFixed(1)}%`}
+                            </span>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
 const IncomeReportView: React.FC<{ onBack: () => void; }> = ({ onBack }) => {
     const { t, formatCurrency } = useI18n();
-    const { assets, fullIncomeHistory, projectedAnnualIncome, annualDistribution, payersData: contextPayersData } = usePortfolio();
+    const { assets, fullIncomeHistory, projectedAnnualIncome, annualDistribution, annualAmortizations, payersData: contextPayersData, realTerms, inflationDeflator } = usePortfolio();
     
     const [selectedYear, setSelectedYear] = useState<string>(new Date().getFullYear().toString());
     const [sortOption, setSortOption] = useState<'total' | 'yoc' | 'name'>('total');
@@ -150,9 +228,10 @@ const IncomeReportView: React.FC<{ onBack: () => void; }> = ({ onBack }) => {
 
     const availableYears = useMemo(() => {
         const years = new Set(Object.keys(fullIncomeHistory).map(k => k.split('-')[0]));
+        Object.keys(annualAmortizations).forEach(year => years.add(year));
         years.add(new Date().getFullYear().toString());
         return Array.from(years).sort((a, b) => b.localeCompare(a));
-    }, [fullIncomeHistory]);
+    }, [fullIncomeHistory, annualAmortizations]);
 
     const { yearlyMonthlyData, yearlyTotalReceived, yearlyPayers } = useMemo(() => {
         const monthlyData = [];
@@ -242,6 +321,11 @@ const IncomeReportView: React.FC<{ onBack: () => void; }> = ({ onBack }) => {
         return monthsWithIncome > 0 ? yearlyTotalReceived / monthsWithIncome : 0;
     }, [yearlyMonthlyData, yearlyTotalReceived]);
 
+    // Crescimento sempre em valores reais quando há IPCA, mesmo com a exibição nominal
+    const realIncomeHistory = useMemo(() =>
+        realTerms || !inflationDeflator ? fullIncomeHistory : deflateMonthlyHistory(fullIncomeHistory, inflationDeflator),
+    [fullIncomeHistory, realTerms, inflationDeflator]);
+
     const yearYieldOnCost = useMemo(() => {
         const totalInvested = assets.reduce((acc, a) => acc + (a.quantity * a.avgPrice), 0);
         return totalInvested > 0 ? (yearlyTotalReceived / totalInvested) * 100 : 0;
@@ -283,8 +367,11 @@ const IncomeReportView: React.FC<{ onBack: () => void; }> = ({ onBack }) => {
                         <div className="bg-[var(--bg-secondary)] p-5 rounded-2xl border border-[var(--border-color)] shadow-sm animate-fade-in-up" style={{ animationDelay: '100ms' }}>
                             <div className="flex justify-between items-center mb-4">
                                 <h3 className="font-bold text-lg text-[var(--text-primary)]">{t('monthly_evolution')} <span className="text-sm font-normal text-[var(--text-secondary)]">({selectedYear})</span></h3>
-                                <div className="flex items-center gap-1.5 text-[10px] text-[var(--text-secondary)] uppercase font-bold tracking-wider">
-                                    <TrendingUpIcon className="w-3 h-3"/> {t('average')}: <span className="text-[var(--green-text)]">{formatCurrency(chartAverage)}</span>
+                                <div className="flex items-center gap-2">
+                                    <div className="flex items-center gap-1.5 text-[10px] text-[var(--text-secondary)] uppercase font-bold tracking-wider">
+                                        <TrendingUpIcon className="w-3 h-3"/> {t('average')}: <span className="text-[var(--green-text)]">{formatCurrency(chartAverage)}</span>
+                                    </div>
+                                    <RealTermsToggle />
                                 </div>
                             </div>
                             <div className="h-48 w-full relative">
@@ -299,8 +386,12 @@ const IncomeReportView: React.FC<{ onBack: () => void; }> = ({ onBack }) => {
                             </div>
                         </div>
 
+                        <YearOverYearCard history={realIncomeHistory} isReal={!!inflationDeflator} />
+
                         <TopPayersCard topPayers={topPayers} totalIncome={yearlyTotalReceived} />
 
+                        <AmortizationsCard amortizations={annualAmortizations[selectedYear] || {}} selectedYear={selectedYear} />
+
                         <div className="flex items-center justify-between mt-8 mb-3 px-1 animate-fade-in-up" style={{ animationDelay: '150ms' }}>
                             <h3 className="font-bold text-lg text-[var(--text-primary)]">{t('paying_sources')}</h3>
                             <div className="relative">
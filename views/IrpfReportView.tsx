@@ -0,0 +1,297 @@
+import React, { useState, useMemo } from 'react';
+import PageHeader from '../components/PageHeader';
+import DownloadIcon from '../components/icons/DownloadIcon';
+import type { ToastMessage, DividendHistoryEvent } from '../types';
+import { useI18n } from '../contexts/I18nContext';
+import { usePortfolio } from '../contexts/PortfolioContext';
+import { CONSOLIDATED_ACCOUNT_ID } from '../constants';
+import { vibrate, copyToClipboard, calculatePortfolioMetrics, getTransactionEffectiveDate, safeFloat } from '../utils';
+import type { MonthlyTaxResult } from '../utils';
+
+// Ficha "Bens e Direitos": Grupo 07 (Fundos), Código 03 (Fundos Imobiliários)
+const BENS_GROUP = '07';
+const BENS_CODE = '03';
+
+interface BemDireito {
+    ticker: string;
+    quantity: number;
+    totalCost: number;
+    previousCost: number;
+    description: string;
+}
+
+interface RendimentoIsento {
+    ticker: string;
+    amount: number;
+    description: string;
+}
+
+const formatPlain = (value: number) => value.toFixed(2).replace('.', ',');
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+    const link = document.createElement('a');
+    link.setAttribute('href', `data:${mimeType};charset=utf-8,${encodeURIComponent(content)}`);
+    link.setAttribute('download', fileName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const CopyButton: React.FC<{ text: string; onCopied: () => void }> = ({ text, onCopied }) => {
+    const { t } = useI18n();
+    const handleCopy = async () => {
+        if (await copyToClipboard(text)) onCopied();
+    };
+    return (
+        <button onClick={handleCopy} className="flex-shrink-0 text-[10px] font-bold px-2.5 py-1.5 rounded-lg bg-[var(--accent-color)]/10 text-[var(--accent-color)] border border-[var(--accent-color)]/30 active:scale-95 transition-all">
+            {t('copy')}
+        </button>
+    );
+};
+
+const SectionCard: React.FC<{ title: string; subtitle?: string; children: React.ReactNode }> = ({ title, subtitle, children }) => (
+    <div className="bg-[var(--bg-secondary)] rounded-2xl p-5 border border-[var(--border-color)] shadow-sm">
+        <h3 className="font-bold text-sm text-[var(--text-primary)] uppercase tracking-wide">{title}</h3>
+        {subtitle && <p className="text-[10px] text-[var(--text-secondary)] mt-0.5 mb-3">{subtitle}</p>}
+        <div className={subtitle ? '' : 'mt-3'}>{children}</div>
+    </div>
+);
+
+const IrpfReportView: React.FC<{ onBack: () => void; addToast: (message: string, type?: ToastMessage['type']) => void }> = ({ onBack, addToast }) => {
+    const { t, formatCurrency, locale } = useI18n();
+    const { transactions, corporateActions, assets, annualDistribution, dividendsByTicker, monthlyTaxes, activeAccountId, setActiveAccountId, accounts } = usePortfolio();
+
+    const availableYears = useMemo(() => {
+        const currentYear = new Date().getFullYear();
+        const firstYear = transactions.reduce((min, tx) => Math.min(min, parseInt(tx.date.substring(0, 4))), currentYear);
+        const years: string[] = [];
+        for (let y = currentYear; y >= firstYear; y--) years.push(String(y));
+        return years;
+    }, [transactions]);
+
+    // Por padrão, o ano-calendário da declaração corrente
+    const [year, setYear] = useState(availableYears[1] || availableYears[0]);
+
+    // Posição em 31/12 a partir do mesmo ledger da carteira
+    const getPositionsAt = (endDate: string) => {
+        const dividends: Record<string, DividendHistoryEvent[]> = {};
+        (Object.entries(dividendsByTicker) as [string, DividendHistoryEvent[]][]).forEach(([ticker, events]) => {
+            dividends[ticker] = events.filter(d => d.exDate <= endDate);
+        });
+        return calculatePortfolioMetrics(
+            transactions.filter(tx => getTransactionEffectiveDate(tx) <= endDate),
+            corporateActions.filter(a => a.date <= endDate),
+            dividends
+        );
+    };
+
+    const bensDireitos = useMemo<BemDireito[]>(() => {
+        const current = getPositionsAt(`${year}-12-31`);
+        const previous = getPositionsAt(`${parseInt(year) - 1}-12-31`);
+        const tickers = Array.from(new Set([...Object.keys(current), ...Object.keys(previous)])).sort();
+
+        return tickers.map(ticker => {
+            const quantity = current[ticker]?.quantity || 0;
+            const totalCost = safeFloat(current[ticker]?.totalCost || 0);
+            const administrator = assets.find(a => a.ticker === ticker)?.administrator;
+            const avgPrice = quantity > 0 ? totalCost / quantity : 0;
+            const description = quantity > 0
+                ? t('irpf_bem_description', {
+                    quantity,
+                    ticker,
+                    administrator: administrator ? t('irpf_administered_by', { administrator }) : '',
+                    avgPrice: formatPlain(avgPrice),
+                    totalCost: formatPlain(totalCost),
+                })
+                : t('irpf_bem_sold_description', { ticker, year });
+            return { ticker, quantity, totalCost, previousCost: safeFloat(previous[ticker]?.totalCost || 0), description };
+        });
+    }, [year, transactions, corporateActions, dividendsByTicker, assets, t]);
+
+    // A distribuição anual cobre todo ticker que passou pela carteira, inclusive os vendidos no ano
+    const rendimentos = useMemo<RendimentoIsento[]>(() => {
+        return (Object.entries(annualDistribution[year] || {}) as [string, number][])
+            .filter(([, amount]) => amount > 0)
+            .sort((a, b) => b[1] - a[1])
+            .map(([ticker, amount]) => ({
+                ticker,
+                amount,
+                description: t('irpf_rendimento_description', { ticker, year, amount: formatPlain(amount) }),
+            }));
+    }, [annualDistribution, year, t]);
+
+    const monthlyResults = useMemo<MonthlyTaxResult[]>(() => monthlyTaxes.filter(r => r.month.startsWith(year)), [monthlyTaxes, year]);
+
+    const totals = useMemo(() => ({
+        cost: bensDireitos.reduce((acc, b) => acc + b.totalCost, 0),
+        previousCost: bensDireitos.reduce((acc, b) => acc + b.previousCost, 0),
+        rendimentos: rendimentos.reduce((acc, r) => acc + r.amount, 0),
+        netResult: monthlyResults.reduce((acc, r) => acc + r.netResult, 0),
+        darf: monthlyResults.reduce((acc, r) => acc + r.darfAmount, 0),
+    }), [bensDireitos, rendimentos, monthlyResults]);
+
+    const monthName = (month: string) => new Date(`${month}-01T12:00:00Z`).toLocaleDateString(locale, { month: 'long', timeZone: 'UTC' });
+    const onCopied = () => addToast(t('toast_copied'), 'success');
+
+    const handleExportCsv = () => {
+        vibrate();
+        const rows: string[][] = [
+            [t('irpf_bens_direitos'), `${t('irpf_group')} ${BENS_GROUP}`, `${t('irpf_code')} ${BENS_CODE}`],
+            ['Ticker', t('quantity'), `31/12/${parseInt(year) - 1}`, `31/12/${year}`, t('description')],
+            ...bensDireitos.map(b => [b.ticker, String(b.quantity), formatPlain(b.previousCost), formatPlain(b.totalCost), b.description]),
+            [],
+            [t('irpf_rendimentos_isentos')],
+            ['Ticker', t('amount'), t('description')],
+            ...rendimentos.map(r => [r.ticker, formatPlain(r.amount), r.description]),
+            [],
+            [t('irpf_monthly_results')],
+            [t('month'), t('tax_net_result'), t('tax_loss_carry_forward'), t('tax_irrf'), 'DARF'],
+            ...monthlyResults.map(r => [r.month, formatPlain(r.netResult), formatPlain(r.lossCarryForward), formatPlain(r.irrfWithheld), formatPlain(r.darfAmount)]),
+        ];
+        // Separador ";" porque os valores usam vírgula decimal
+        const csv = rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(';')).join('\r\n');
+        downloadFile(csv, `irpf_${year}.csv`, 'text/csv');
+        addToast(t('toast_csv_exported'), 'success');
+    };
+
+    const handlePrint = () => {
+        vibrate();
+        const table = (headers: string[], rows: string[][]) =>
+            `<table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead><tbody>${rows.map(r => `<tr>${r.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+        const html = `<!DOCTYPE html><html lang="pt-BR"><head><meta charset="utf-8"><title>IRPF ${year}</title>
+<style>body{font-family:sans-serif;font-size:12px;margin:24px;color:#111}h1{font-size:18px}h2{font-size:14px;margin-top:24px}table{width:100%;border-collapse:collapse}th,td{border:1px solid #ccc;padding:4px 6px;text-align:left;vertical-align:top}th{background:#f3f4f6}</style>
+</head><body>
+<h1>${escapeHtml(t('irpf_report_title', { year }))}</h1>
+<h2>${escapeHtml(`${t('irpf_bens_direitos')} — ${t('irpf_group')} ${BENS_GROUP} / ${t('irpf_code')} ${BENS_CODE}`)}</h2>
+${table(['Ticker', t('quantity'), `31/12/${parseInt(year) - 1}`, `31/12/${year}`, t('description')], bensDireitos.map(b => [b.ticker, String(b.quantity), formatCurrency(b.previousCost), formatCurrency(b.totalCost), b.description]))}
+<h2>${escapeHtml(t('irpf_rendimentos_isentos'))}</h2>
+${table(['Ticker', t('amount'), t('description')], rendimentos.map(r => [r.ticker, formatCurrency(r.amount), r.description]))}
+<h2>${escapeHtml(t('irpf_monthly_results'))}</h2>
+${table([t('month'), t('tax_net_result'), t('tax_loss_carry_forward'), t('tax_irrf'), 'DARF'], monthlyResults.map(r => [monthName(r.month), formatCurrency(r.netResult), formatCurrency(r.lossCarryForward), formatCurrency(r.irrfWithheld), formatCurrency(r.darfAmount)]))}
+</body></html>`;
+        const printWindow = window.open('', '_blank');
+        if (!printWindow) {
+            addToast(t('toast_popup_blocked'), 'error');
+            return;
+        }
+        printWindow.document.write(html);
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+    };
+
+    return (
+        <div className="animate-fade-in space-y-4 pb-4">
+            <PageHeader title={t('irpf_report')} onBack={onBack} helpText={t('irpf_report_help')} />
+
+            <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1">
+                {availableYears.map(y => (
+                    <button
+                        key={y}
+                        onClick={() => { setYear(y); vibrate(); }}
+                        className={`flex-shrink-0 py-1.5 px-4 text-xs font-bold rounded-lg transition-all duration-200 ${year === y ? 'bg-[var(--accent-color)] text-[var(--accent-color-text)] shadow-md' : 'bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-secondary)]'}`}
+                    >
+                        {y}
+                    </button>
+                ))}
+            </div>
+
+            {activeAccountId !== CONSOLIDATED_ACCOUNT_ID && accounts.length > 1 && (
+                <div className="bg-amber-500/10 border border-amber-500/30 rounded-xl p-3 text-xs text-amber-500 flex justify-between items-center gap-3">
+                    <span>{t('irpf_account_warning')}</span>
+                    <button onClick={() => { setActiveAccountId(CONSOLIDATED_ACCOUNT_ID); vibrate(); }} className="flex-shrink-0 font-bold underline">{t('consolidated')}</button>
+                </div>
+            )}
+
+            <SectionCard title={t('irpf_bens_direitos')} subtitle={`${t('irpf_group')} ${BENS_GROUP} • ${t('irpf_code')} ${BENS_CODE}`}>
+                {bensDireitos.length > 0 ? (
+                    <div className="space-y-3">
+                        {bensDireitos.map(b => (
+                            <div key={b.ticker} className="bg-[var(--bg-primary)] rounded-xl p-3">
+                                <div className="flex justify-between items-start gap-3 mb-2">
+                                    <div>
+                                        <p className="font-bold text-[var(--text-primary)]">{b.ticker}</p>
+                                        <p className="text-[10px] text-[var(--text-secondary)]">{t('shares', { count: b.quantity })}</p>
+                                    </div>
+                                    <CopyButton text={b.description} onCopied={onCopied} />
+                                </div>
+                                <div className="grid grid-cols-2 gap-2 text-xs mb-2">
+                                    <div>
+                                        <p className="text-[10px] text-[var(--text-secondary)]">31/12/{parseInt(year) - 1}</p>
+                                        <p className="font-bold">{formatCurrency(b.previousCost)}</p>
+                                    </div>
+                                    <div>
+                                        <p className="text-[10px] text-[var(--text-secondary)]">31/12/{year}</p>
+                                        <p className="font-bold">{formatCurrency(b.totalCost)}</p>
+                                    </div>
+                                </div>
+                                <p className="text-[10px] text-[var(--text-secondary)] leading-relaxed">{b.description}</p>
+                            </div>
+                        ))}
+                        <div className="flex justify-between text-xs font-bold pt-2 border-t border-[var(--border-color)]">
+                            <span>{t('total')}</span>
+                            <span>{formatCurrency(totals.previousCost)} → {formatCurrency(totals.cost)}</span>
+                        </div>
+                    </div>
+                ) : <p className="text-xs text-[var(--text-secondary)] text-center py-4">{t('irpf_no_positions')}</p>}
+            </SectionCard>
+
+            <SectionCard title={t('irpf_rendimentos_isentos')} subtitle={t('irpf_rendimentos_isentos_desc')}>
+                {rendimentos.length > 0 ? (
+                    <div className="space-y-2">
+                        {rendimentos.map(r => (
+                            <div key={r.ticker} className="flex justify-between items-center gap-3 bg-[var(--bg-primary)] rounded-xl p-3">
+                                <div className="min-w-0">
+                                    <p className="font-bold text-[var(--text-primary)]">{r.ticker}</p>
+                                    <p className="text-xs font-bold text-[var(--green-text)]">{formatCurrency(r.amount)}</p>
+                                </div>
+                                <CopyButton text={r.description} onCopied={onCopied} />
+                            </div>
+                        ))}
+                        <div className="flex justify-between text-xs font-bold pt-2 border-t border-[var(--border-color)]">
+                            <span>{t('total')}</span>
+                            <span>{formatCurrency(totals.rendimentos)}</span>
+                        </div>
+                    </div>
+                ) : <p className="text-xs text-[var(--text-secondary)] text-center py-4">{t('no_income_in_year')}</p>}
+            </SectionCard>
+
+            <SectionCard title={t('irpf_monthly_results')} subtitle={t('irpf_monthly_results_desc')}>
+                {monthlyResults.length > 0 ? (
+                    <div className="space-y-1">
+                        {monthlyResults.map(r => (
+                            <div key={r.month} className="flex justify-between text-xs py-1.5 border-b border-[var(--border-color)] last:border-0">
+                                <span className="capitalize text-[var(--text-secondary)]">{monthName(r.month)}</span>
+                                <span className="flex gap-4">
+                                    <span className={`font-bold ${r.netResult >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>{formatCurrency(r.netResult)}</span>
+                                    <span className="font-bold w-20 text-right">{formatCurrency(r.darfAmount)}</span>
+                                </span>
+                            </div>
+                        ))}
+                        <div className="flex justify-between text-xs font-bold pt-2">
+                            <span>{t('total')}</span>
+                            <span className="flex gap-4">
+                                <span>{formatCurrency(totals.netResult)}</span>
+                                <span className="w-20 text-right">{formatCurrency(totals.darf)}</span>
+                            </span>
+                        </div>
+                    </div>
+                ) : <p className="text-xs text-[var(--text-secondary)] text-center py-4">{t('irpf_no_sales')}</p>}
+            </SectionCard>
+
+            <div className="flex gap-3">
+                <button onClick={handleExportCsv} className="flex-1 flex items-center justify-center gap-2 bg-emerald-500/10 text-emerald-400 font-bold py-3 rounded-lg hover:bg-emerald-500 hover:text-white transition-colors">
+                    <DownloadIcon className="w-5 h-5" />
+                    CSV
+                </button>
+                <button onClick={handlePrint} className="flex-1 flex items-center justify-center gap-2 bg-[var(--accent-color)]/10 text-[var(--accent-color)] font-bold py-3 rounded-lg hover:bg-[var(--accent-color)] hover:text-[var(--accent-color-text)] transition-colors">
+                    {t('print')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default IrpfReportView;
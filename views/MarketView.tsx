@@ -7,6 +7,7 @@ import { usePortfolio } from '../contexts/PortfolioContext';
 import { vibrate, usePersistentState } from '../utils';
 import type { ToastMessage, Asset } from '../types';
 import { KNOWN_TICKERS } from '../constants';
+import { useValuation } from '../hooks/useValuation';
 
 // Ícones
 import RefreshIcon from '../components/icons/RefreshIcon';
@@ -23,9 +24,11 @@ import AlertTriangleIcon from '../components/icons/AlertTriangleIcon';
 // Componentes
 import TransactionModal from '../components/modals/TransactionModal';
 import NewsView from './NewsView';
+import ScreenerView from './ScreenerView';
 import PortfolioLineChart from '../components/charts/PortfolioLineChart';
 import DividendChart from '../components/charts/DividendChart';
 import AIAnalystCard from '../components/cards/AIAnalystCard';
+import ValuationCard, { MarginOfSafetyBadge } from '../components/cards/ValuationCard';
 import CountUp from '../components/CountUp';
 
 interface MarketResult {
@@ -89,17 +92,18 @@ const DetailRow: React.FC<{ label: string; value: React.ReactNode; sub?: string
     </div>
 );
 
-const MarketView: React.FC<{ addToast: (message: string, type?: ToastMessage['type']) => void }> = ({ addToast }) => {
+const MarketView: React.FC<{ addToast: (message: string, type?: ToastMessage['type']) => void; onCompare: (tickers: string[]) => void }> = ({ addToast, onCompare }) => {
     const { t, formatCurrency } = useI18n();
     const { preferences, addTransaction } = usePortfolio();
     const inputRef = useRef<HTMLInputElement>(null);
     
-    const [viewMode, setViewMode] = useState<'quotes' | 'news'>('quotes');
+    const [viewMode, setViewMode] = useState<'quotes' | 'screener' | 'news'>('quotes');
     const [searchTerm, setSearchTerm] = useState('');
     const [loading, setLoading] = useState(false);
     const [result, setResult] = useState<MarketResult | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [showAddModal, setShowAddModal] = useState(false);
+    const [purchaseTicker, setPurchaseTicker] = useState<string | null>(null);
     const [suggestions, setSuggestions] = useState<string[]>([]);
     const [showSuggestions, setShowSuggestions] = useState(false);
     
@@ -204,6 +208,9 @@ const MarketView: React.FC<{ addToast: (message: string, type?: ToastMessage['ty
 
     const isFavorite = result ? favorites.includes(result.ticker) : false;
 
+    const valuationInput = useMemo(() => result ? { ...result.fundamentals, currentPrice: result.price } : null, [result]);
+    const { valuation, assumptions, hasOverride } = useValuation(result?.ticker || '', valuationInput, preferences);
+
     // Simulate chart range data (since Brapi free might strictly limit history)
     const displayHistory = useMemo(() => {
         if (!result?.history) return [];
@@ -236,6 +243,7 @@ const MarketView: React.FC<{ addToast: (message: string, type?: ToastMessage['ty
                     {!result && (
                         <div className="flex bg-[var(--bg-secondary)] p-1 rounded-xl mb-4 border border-[var(--border-color)] shadow-sm">
                             <button onClick={() => { setViewMode('quotes'); vibrate(); }} className={`flex-1 py-2 text-xs font-bold rounded-lg transition-all ${viewMode === 'quotes' ? 'bg-[var(--bg-primary)] text-[var(--accent-color)] shadow-sm' : 'text-[var(--text-secondary)]'}`}>Cotações</button>
+                            <button onClick={() => { setViewMode('screener'); vibrate(); }} className={`flex-1 py-2 text-xs font-bold rounded-lg transition-all ${viewMode === 'screener' ? 'bg-[var(--bg-primary)] text-[var(--accent-color)] shadow-sm' : 'text-[var(--text-secondary)]'}`}>{t('screener_tab')}</button>
                             <button onClick={() => { setViewMode('news'); vibrate(); }} className={`flex-1 py-2 text-xs font-bold rounded-lg transition-all ${viewMode === 'news' ? 'bg-[var(--bg-primary)] text-[var(--accent-color)] shadow-sm' : 'text-[var(--text-secondary)]'}`}>Notícias</button>
                         </div>
                     )}
@@ -300,6 +308,7 @@ const MarketView: React.FC<{ addToast: (message: string, type?: ToastMessage['ty
                                                 {result.change >= 0 ? <TrendingUpIcon className="w-4 h-4 mr-1"/> : <TrendingUpIcon className="w-4 h-4 mr-1 rotate-180"/>}
                                                 {Math.abs(result.change).toFixed(2)}%
                                             </span>
+                                            <span className="mb-1.5"><MarginOfSafetyBadge valuation={valuation} safetyMargin={assumptions.safetyMargin} /></span>
                                         </div>
 
                                         {/* Chart & Controls */}
@@ -394,6 +403,12 @@ const MarketView: React.FC<{ addToast: (message: string, type?: ToastMessage['ty
                                         </DataCard>
                                     </div>
 
+                                    {result.fundamentals && (
+                                        <div className="animate-fade-in-up" style={{ animationDelay: '250ms' }}>
+                                            <ValuationCard ticker={result.ticker} price={result.price} valuation={valuation} assumptions={assumptions} hasOverride={hasOverride} />
+                                        </div>
+                                    )}
+
                                     {/* Charts Section */}
                                     {result.fundamentals?.dividendsHistory && (
                                         <div className="bg-[var(--bg-secondary)] rounded-2xl border border-[var(--border-color)] p-5 shadow-sm animate-fade-in-up" style={{ animationDelay: '300ms' }}>
@@ -444,12 +459,24 @@ const MarketView: React.FC<{ addToast: (message: string, type?: ToastMessage['ty
                             )}
                             {error && <div className="p-4 bg-red-500/10 text-red-500 rounded-xl text-center text-sm font-bold border border-red-500/20 flex flex-col items-center gap-2"><AlertTriangleIcon className="w-6 h-6"/>{error}</div>}
                         </div>
+                    ) : viewMode === 'screener' ? (
+                        <div className="animate-fade-in">
+                            <ScreenerView
+                                favorites={favorites}
+                                onToggleFavorite={toggleFavorite}
+                                onOpenTicker={ticker => { setViewMode('quotes'); setSearchTerm(ticker); handleSearch(ticker); }}
+                                onRegisterPurchase={setPurchaseTicker}
+                                onCompare={onCompare}
+                                addToast={addToast}
+                            />
+                        </div>
                     ) : (
                         <div className="animate-fade-in"><NewsView addToast={addToast} /></div>
                     )}
                 </div>
             </div>
             {showAddModal && result && <TransactionModal onClose={() => setShowAddModal(false)} onSave={(tx) => { addTransaction({ ...tx, id: String(Date.now()) }); addToast(t('toast_transaction_added'), 'success'); setShowAddModal(false); }} initialTicker={result.ticker} addToast={addToast} />}
+            {purchaseTicker && <TransactionModal onClose={() => setPurchaseTicker(null)} onSave={(tx) => { addTransaction({ ...tx, id: String(Date.now()) }); addToast(t('toast_transaction_added'), 'success'); setPurchaseTicker(null); }} initialTicker={purchaseTicker} addToast={addToast} />}
         </div>
     );
 };
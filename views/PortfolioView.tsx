@@ -16,6 +16,7 @@ import PortfolioSummary from '../components/cards/PortfolioSummary';
 import DividendsSummaryCard from '../components/cards/DividendsSummaryCard';
 import PortfolioPieChart from '../components/charts/PortfolioPieChart';
 import WalletIcon from '../components/icons/WalletIcon';
+import AccountSwitcher from '../components/AccountSwitcher';
 
 // Sub-componente Header Local (limpo)
 const Header: React.FC<{ 
@@ -36,6 +37,7 @@ const Header: React.FC<{
                 </h1>
             </div>
             <div className="flex items-center gap-1">
+                <AccountSwitcher className="mr-1" />
                  <button 
                     onClick={() => { onShare(); vibrate(); }} 
                     className="p-2.5 rounded-full hover:bg-[var(--bg-tertiary-hover)] text-[var(--text-secondary)] transition-all active:scale-95"
@@ -74,7 +76,7 @@ const Header: React.FC<{
 // Sub-componente Card de Diversificação
 const DiversificationSection: React.FC = () => {
     const { t } = useI18n();
-    const { assets, preferences } = usePortfolio();
+    const { assets, preferences, cashMovements, cashBalance } = usePortfolio();
     
     // Lógica de cálculo simplificada e memorizada no componente pai ou aqui se necessário
     const data = React.useMemo(() => {
@@ -86,13 +88,18 @@ const DiversificationSection: React.FC = () => {
             segments[seg] = (segments[seg] || 0) + val;
             totalValue += val;
         });
+        // Saldo positivo em caixa entra na alocação (só para quem acompanha o caixa)
+        if (cashMovements.length > 0 && cashBalance > 0) {
+            segments[t('cash')] = cashBalance;
+            totalValue += cashBalance;
+        }
         
         return Object.entries(segments).map(([name, value]) => ({
             name,
             value,
             percentage: totalValue > 0 ? (value / totalValue) * 100 : 0
         })).sort((a, b) => b.value - a.value);
-    }, [assets, t]);
+    }, [assets, cashMovements, cashBalance, t]);
 
     if (assets.length === 0) return null;
 
@@ -0,0 +1,256 @@
+import React, { useState, useMemo } from 'react';
+import PageHeader from '../components/PageHeader';
+import TrashIcon from '../components/icons/TrashIcon';
+import PlusIcon from '../components/icons/PlusIcon';
+import AlertTriangleIcon from '../components/icons/AlertTriangleIcon';
+import type { ToastMessage, Transaction } from '../types';
+import { useI18n } from '../contexts/I18nContext';
+import { usePortfolio } from '../contexts/PortfolioContext';
+import { vibrate, getTodayISODate, calculateSegmentDrift, suggestRebalanceBuys, safeFloat } from '../utils';
+import type { RebalanceHolding, RebalanceSuggestion } from '../utils';
+import { CONSOLIDATED_ACCOUNT_ID, DEFAULT_ACCOUNT_ID } from '../constants';
+
+const DriftBar: React.FC<{ current: number; target: number }> = ({ current, target }) => (
+    <div className="relative h-2 bg-[var(--bg-primary)] rounded-full overflow-hidden">
+        <div className="absolute inset-y-0 left-0 bg-[var(--accent-color)] rounded-full" style={{ width: `${Math.min(current, 100)}%` }}></div>
+        <div className="absolute inset-y-0 w-0.5 bg-[var(--text-primary)]" style={{ left: `${Math.min(target, 100)}%` }}></div>
+    </div>
+);
+
+// Metas por segmento, desvio atual e sugestão de compras para um novo aporte (sem vendas)
+const RebalanceView: React.FC<{ onBack: () => void; addToast: (message: string, type?: ToastMessage['type']) => void; }> = ({ onBack, addToast }) => {
+    const { t, formatCurrency } = useI18n();
+    const { assets, preferences, updatePreferences, importTransactions, activeAccountId, getAccountBrokerage } = usePortfolio();
+    const goals: Record<string, number> = preferences.segmentGoals || {};
+    const [newSegment, setNewSegment] = useState('');
+    const [contribution, setContribution] = useState('');
+    const [drafts, setDrafts] = useState<RebalanceSuggestion[] | null>(null);
+    const [suggestedAmount, setSuggestedAmount] = useState(0); // Aporte usado na última sugestão
+
+    const holdings = useMemo<RebalanceHolding[]>(() => assets
+        .filter(a => a.quantity > 0)
+        .map(a => ({ ticker: a.ticker, segment: a.segment || t('outros'), price: a.currentPrice, value: a.quantity * a.currentPrice })),
+    [assets, t]);
+
+    const drift = useMemo(() => calculateSegmentDrift(holdings, goals), [holdings, goals]);
+    const targetTotal = Object.values(goals).reduce((acc, v) => acc + v, 0);
+
+    // Posição depois das compras em rascunho
+    const projectedDrift = useMemo(() => {
+        if (!drafts) return null;
+        const bought = new Map(drafts.map(d => [d.ticker, d.quantity * d.price]));
+        return calculateSegmentDrift(holdings.map(h => ({ ...h, value: h.value + (bought.get(h.ticker) || 0) })), goals);
+    }, [drafts, holdings, goals]);
+
+    const updateGoal = (segment: string, value: string) => {
+        const parsed = parseFloat(value);
+        updatePreferences({ segmentGoals: { ...goals, [segment]: isNaN(parsed) ? 0 : Math.max(0, Math.min(parsed, 100)) } });
+        setDrafts(null);
+    };
+
+    const removeGoal = (segment: string) => {
+        vibrate();
+        const next = { ...goals };
+        delete next[segment];
+        updatePreferences({ segmentGoals: next });
+        setDrafts(null);
+    };
+
+    const addSegment = () => {
+        const name = newSegment.trim();
+        if (!name || goals[name] !== undefined) return;
+        vibrate();
+        updatePreferences({ segmentGoals: { ...goals, [name]: 0 } });
+        setNewSegment('');
+    };
+
+    const accountId = activeAccountId === CONSOLIDATED_ACCOUNT_ID ? DEFAULT_ACCOUNT_ID : activeAccountId;
+    const brokerage = getAccountBrokerage(accountId) || 0;
+
+    const handleSuggest = () => {
+        vibrate();
+        const amount = parseFloat(contribution);
+        if (isNaN(amount) || amount <= 0) {
+            addToast(t('validation_amount_positive'), 'error');
+            return;
+        }
+        const result = suggestRebalanceBuys(holdings, goals, amount, brokerage);
+        setDrafts(result.suggestions);
+        setSuggestedAmount(amount);
+    };
+
+    const updateDraftQuantity = (ticker: string, value: string) => {
+        const quantity = Math.max(0, Math.floor(parseFloat(value) || 0));
+        setDrafts(prev => prev && prev.map(d => d.ticker === ticker ? { ...d, quantity, amount: safeFloat(quantity * d.price) } : d));
+    };
+
+    const confirmedDrafts = (drafts || []).filter(d => d.quantity > 0);
+    const draftsTotal = confirmedDrafts.reduce((acc, d) => acc + d.quantity * d.price + brokerage, 0);
+    // Recalculado a cada edição de quantidade; negativo se os rascunhos passarem do aporte
+    const leftover = safeFloat(suggestedAmount - draftsTotal);
+
+    const handleCreateTransactions = () => {
+        if (confirmedDrafts.length === 0) return;
+        vibrate();
+        const date = getTodayISODate();
+        const transactions: Transaction[] = confirmedDrafts.map((d, i) => ({
+            id: `${Date.now()}-${i}`,
+            ticker: d.ticker,
+            type: 'Compra',
+            quantity: d.quantity,
+            price: d.price,
+            date,
+            costs: brokerage,
+            accountId,
+        }));
+        importTransactions(transactions);
+        addToast(t('toast_rebalance_created', { count: transactions.length }), 'success');
+        setDrafts(null);
+        setContribution('');
+    };
+
+    const inputClass = 'bg-[var(--bg-primary)] border border-[var(--border-color)] rounded-lg p-2 text-sm text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-color)]';
+
+    return (
+        <div>
+            <PageHeader title={t('rebalance')} onBack={onBack} helpText={t('rebalance_help')} />
+            <div className="space-y-4">
+                <div className="bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)]">
+                    <div className="flex justify-between items-center mb-3">
+                        <p className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider">{t('segment_targets')}</p>
+                        <span className={`text-xs font-bold ${Math.abs(targetTotal - 100) < 0.01 ? 'text-[var(--green-text)]' : 'text-amber-500'}`}>{t('total')}: {targetTotal.toFixed(0)}%</span>
+                    </div>
+                    {drift.length === 0 && <p className="text-xs text-[var(--text-secondary)] mb-3">{t('rebalance_no_segments')}</p>}
+                    <div className="space-y-3">
+                        {drift.map(d => (
+                            <div key={d.segment}>
+                                <div className="flex items-center gap-2 mb-1.5">
+                                    <span className="flex-1 text-sm font-bold truncate">{d.segment}</span>
+                                    <span className="text-[10px] text-[var(--text-secondary)] w-24 text-right">
+                                        {d.currentShare.toFixed(1)}%
+                                        <span className={`ml-1 font-bold ${d.drift >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>{d.drift >= 0 ? '+' : ''}{d.drift.toFixed(1)}</span>
+                                    </span>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max="100"
+                                        value={goals[d.segment] ?? ''}
+                                        placeholder="0"
+                                        onChange={e => updateGoal(d.segment, e.target.value)}
+                                        className={`${inputClass} w-16 text-right`}
+                                        aria-label={t('target_for', { segment: d.segment })}
+                                    />
+                                    <span className="text-xs text-[var(--text-secondary)]">%</span>
+                                    {goals[d.segment] !== undefined && !holdings.some(h => h.segment === d.segment) ? (
+                                        <button onClick={() => removeGoal(d.segment)} className="p-1.5 text-gray-400 hover:text-red-500 rounded-lg transition-colors" aria-label={t('delete')}>
+                                            <TrashIcon className="w-4 h-4" />
+                                        </button>
+                                    ) : <span className="w-7"></span>}
+                                </div>
+                                <DriftBar current={d.currentShare} target={d.targetShare} />
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex gap-2 mt-4">
+                        <input
+                            type="text"
+                            value={newSegment}
+                            onChange={e => setNewSegment(e.target.value)}
+                            placeholder={t('new_segment_placeholder')}
+                            className={`${inputClass} flex-1`}
+                        />
+                        <button onClick={addSegment} disabled={!newSegment.trim()} className="px-3 rounded-lg bg-[var(--bg-primary)] border border-[var(--border-color)] text-[var(--text-secondary)] hover:text-[var(--accent-color)] transition-colors disabled:opacity-50" aria-label={t('add')}>
+                            <PlusIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)]">
+                    <p className="text-xs font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-3">{t('new_contribution')}</p>
+                    <div className="flex gap-2">
+                        <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={contribution}
+                            onChange={e => setContribution(e.target.value)}
+                            placeholder="0,00"
+                            className={`${inputClass} flex-1`}
+                        />
+                        <button onClick={handleSuggest} disabled={targetTotal <= 0} className="px-4 rounded-lg bg-[var(--accent-color)] text-[var(--accent-color-text)] text-sm font-bold disabled:opacity-50">
+                            {t('suggest_buys')}
+                        </button>
+                    </div>
+                    {targetTotal <= 0 && <p className="text-[10px] text-[var(--text-secondary)] mt-2">{t('rebalance_needs_targets')}</p>}
+
+                    {drafts && (
+                        <div className="mt-4 animate-fade-in">
+                            {drafts.length === 0 ? (
+                                <div className="flex items-start gap-2 text-xs text-amber-500">
+                                    <AlertTriangleIcon className="w-4 h-4 flex-shrink-0" />
+                                    <span>{t('rebalance_no_suggestions')}</span>
+                                </div>
+                            ) : (
+                                <>
+                                    <p className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-2">{t('draft_transactions')}</p>
+                                    <div className="space-y-2">
+                                        {drafts.map(d => (
+                                            <div key={d.ticker} className="flex items-center gap-2 bg-[var(--bg-primary)] rounded-lg p-2">
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="text-sm font-bold">{d.ticker}</p>
+                                                    <p className="text-[10px] text-[var(--text-secondary)] truncate">{d.segment} • {formatCurrency(d.price)}</p>
+                                                </div>
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    step="1"
+                                                    value={d.quantity}
+                                                    onChange={e => updateDraftQuantity(d.ticker, e.target.value)}
+                                                    className={`${inputClass} w-20 text-right bg-[var(--bg-secondary)]`}
+                                                    aria-label={t('quantity')}
+                                                />
+                                                <span className="text-xs font-bold w-24 text-right">{formatCurrency(d.quantity * d.price)}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <div className="flex justify-between text-xs mt-3">
+                                        <span className="text-[var(--text-secondary)]">{brokerage > 0 ? t('total_with_costs') : t('total')}</span>
+                                        <span className="font-bold">{formatCurrency(draftsTotal)}</span>
+                                    </div>
+                                    <div className="flex justify-between text-xs mt-1">
+                                        <span className="text-[var(--text-secondary)]">{t('rebalance_leftover')}</span>
+                                        <span className="font-bold">{formatCurrency(leftover)}</span>
+                                    </div>
+
+                                    {projectedDrift && (
+                                        <div className="mt-3 pt-3 border-t border-[var(--border-color)] space-y-1">
+                                            <p className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1">{t('projected_allocation')}</p>
+                                            {projectedDrift.map(d => (
+                                                <div key={d.segment} className="flex justify-between text-xs">
+                                                    <span className="text-[var(--text-secondary)]">{d.segment}</span>
+                                                    <span className="font-bold">
+                                                        {d.currentShare.toFixed(1)}% <span className="text-[var(--text-secondary)] font-normal">/ {d.targetShare.toFixed(0)}%</span>
+                                                    </span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    <button
+                                        onClick={handleCreateTransactions}
+                                        disabled={confirmedDrafts.length === 0}
+                                        className="w-full mt-4 py-3 rounded-xl bg-[var(--accent-color)] text-[var(--accent-color-text)] font-bold text-sm disabled:opacity-50"
+                                    >
+                                        {t('create_transactions', { count: confirmedDrafts.length })}
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RebalanceView;
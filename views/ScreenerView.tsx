@@ -0,0 +1,363 @@
+import React, { useState, useMemo } from 'react';
+import { useI18n } from '../contexts/I18nContext';
+import { usePortfolio } from '../contexts/PortfolioContext';
+import { vibrate, usePersistentState, filterScreenerFunds, sortScreenerFunds } from '../utils';
+import type { Asset, ScreenerFund, ScreenerFilters, ScreenerSortKey, SavedScreen, ToastMessage } from '../types';
+import SimulatePurchaseModal from '../components/modals/SimulatePurchaseModal';
+import FilterIcon from '../components/icons/FilterIcon';
+import RefreshIcon from '../components/icons/RefreshIcon';
+import UploadIcon from '../components/icons/UploadIcon';
+import StarIcon from '../components/icons/StarIcon';
+import CalculatorIcon from '../components/icons/CalculatorIcon';
+import TrashIcon from '../components/icons/TrashIcon';
+import CloseIcon from '../components/icons/CloseIcon';
+import ScaleIcon from '../components/icons/ScaleIcon';
+import { MAX_COMPARED_TICKERS } from '../constants';
+
+const EMPTY_FILTERS: ScreenerFilters = { segments: [], administrator: '' };
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+const COLUMNS: { key: ScreenerSortKey; label: string }[] = [
+    { key: 'ticker', label: 'asset' },
+    { key: 'dy', label: 'DY' },
+    { key: 'pvp', label: 'P/VP' },
+    { key: 'vacancyRate', label: 'vacancy' },
+    { key: 'liquidity', label: 'screener_liquidity' },
+];
+
+// Fundamentos da carteira (atualizados junto com as cotações) têm prioridade sobre o cache do screener
+const fromAsset = (asset: Asset): ScreenerFund => {
+    const fund: ScreenerFund = { ticker: asset.ticker };
+    if (asset.currentPrice > 0) fund.price = asset.currentPrice;
+    if (asset.dy !== undefined) fund.dy = asset.dy;
+    if (asset.pvp !== undefined) fund.pvp = asset.pvp;
+    if (asset.vacancyRate !== undefined) fund.vacancyRate = asset.vacancyRate;
+    if (asset.liquidity !== undefined) fund.liquidity = asset.liquidity;
+    if (asset.segment) fund.segment = asset.segment;
+    if (asset.administrator) fund.administrator = asset.administrator;
+    if (asset.lastDividend !== undefined) fund.lastDividend = asset.lastDividend;
+    if (asset.vpPerShare !== undefined) fund.vpPerShare = asset.vpPerShare;
+    if (asset.dividendCAGR !== undefined) fund.dividendCAGR = asset.dividendCAGR;
+    if (asset.lastFundamentalUpdate) fund.updatedAt = asset.lastFundamentalUpdate;
+    return fund;
+};
+
+const NumberFilter: React.FC<{ label: string; value?: number; onChange: (value?: number) => void }> = ({ label, value, onChange }) => (
+    <label className="block">
+        <span className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider">{label}</span>
+        <input
+            type="number"
+            inputMode="decimal"
+            step="0.1"
+            value={value ?? ''}
+            onChange={e => {
+                const parsed = parseFloat(e.target.value);
+                onChange(isNaN(parsed) ? undefined : parsed);
+            }}
+            className="w-full bg-[var(--bg-primary)] border border-[var(--border-color)] rounded-lg p-2 mt-1 text-sm focus:outline-none focus:border-[var(--accent-color)]"
+        />
+    </label>
+);
+
+interface ScreenerViewProps {
+    favorites: string[];
+    onToggleFavorite: (ticker: string) => void;
+    onOpenTicker: (ticker: string) => void;
+    onRegisterPurchase: (ticker: string) => void;
+    onCompare: (tickers: string[]) => void;
+    addToast: (message: string, type?: ToastMessage['type']) => void;
+}
+
+// Screener sobre o universo local de FIIs: filtros, ordenação, telas salvas e ações por fundo
+const ScreenerView: React.FC<ScreenerViewProps> = ({ favorites, onToggleFavorite, onOpenTicker, onRegisterPurchase, onCompare, addToast }) => {
+    const { t, formatCurrency } = useI18n();
+    const { assets, screenerUniverse, importScreenerUniverse, refreshScreenerFunds, removeScreenerFund } = usePortfolio();
+
+    const [filters, setFilters] = useState<ScreenerFilters>(EMPTY_FILTERS);
+    const [sortKey, setSortKey] = useState<ScreenerSortKey>('dy');
+    const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+    const [showFilters, setShowFilters] = useState(false);
+    const [screenName, setScreenName] = useState('');
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [compareSelection, setCompareSelection] = useState<string[]>([]);
+    const [simulating, setSimulating] = useState<(ScreenerFund & { price: number }) | null>(null);
+    const [savedScreens, setSavedScreens] = usePersistentState<SavedScreen[]>('screener_saved_screens', []);
+
+    const funds = useMemo(() => {
+        const byTicker: Record<string, ScreenerFund> = { ...screenerUniverse };
+        (assets as Asset[]).forEach(asset => { byTicker[asset.ticker] = { ...(byTicker[asset.ticker] || {}), ...fromAsset(asset) }; });
+        return Object.values(byTicker);
+    }, [screenerUniverse, assets]);
+
+    const segments = useMemo(() => Array.from(new Set(funds.map(f => f.segment).filter((s): s is string => !!s))).sort(), [funds]);
+    const results = useMemo(() => sortScreenerFunds(filterScreenerFunds(funds, filters), sortKey, sortDirection), [funds, filters, sortKey, sortDirection]);
+    const staleTickers = useMemo(() => (Object.values(screenerUniverse) as ScreenerFund[])
+        .filter(f => !f.updatedAt || Date.now() - f.updatedAt > ONE_DAY_MS)
+        .map(f => f.ticker), [screenerUniverse]);
+
+    const updateFilters = (patch: Partial<ScreenerFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+    const toggleSegment = (segment: string) => {
+        vibrate();
+        updateFilters({ segments: filters.segments.includes(segment) ? filters.segments.filter(s => s !== segment) : [...filters.segments, segment] });
+    };
+
+    const handleSort = (key: ScreenerSortKey) => {
+        vibrate();
+        if (key === sortKey) setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+        else {
+            setSortKey(key);
+            setSortDirection(key === 'ticker' || key === 'pvp' || key === 'vacancyRate' ? 'asc' : 'desc');
+        }
+    };
+
+    const toggleCompare = (ticker: string) => {
+        vibrate();
+        if (compareSelection.includes(ticker)) setCompareSelection(compareSelection.filter(tk => tk !== ticker));
+        else if (compareSelection.length < MAX_COMPARED_TICKERS) setCompareSelection([...compareSelection, ticker]);
+        else addToast(t('compare_max_tickers', { count: MAX_COMPARED_TICKERS }), 'info');
+    };
+
+    const handleSaveScreen = () => {
+        const name = screenName.trim();
+        if (!name) return;
+        vibrate();
+        const screen: SavedScreen = { id: String(Date.now()), name, filters, sortKey, sortDirection };
+        setSavedScreens(prev => [...prev.filter(s => s.name !== name), screen]);
+        setScreenName('');
+        addToast(t('screener_screen_saved', { name }), 'success');
+    };
+
+    const applyScreen = (screen: SavedScreen) => {
+        vibrate();
+        setFilters({ ...EMPTY_FILTERS, ...screen.filters });
+        setSortKey(screen.sortKey);
+        setSortDirection(screen.sortDirection);
+    };
+
+    const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+        vibrate();
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                const count = importScreenerUniverse(e.target?.result as string);
+                if (count > 0) addToast(t('screener_imported', { count }), 'success');
+                else addToast(t('invalid_file_format'), 'error');
+            } catch (error: any) {
+                addToast(`${t('toast_import_failed')}: ${error.message}`, 'error');
+            } finally {
+                event.target.value = '';
+            }
+        };
+        reader.readAsText(file);
+    };
+
+    const handleRefresh = async () => {
+        if (isRefreshing || staleTickers.length === 0) return;
+        vibrate();
+        setIsRefreshing(true);
+        addToast(t('screener_refreshing', { count: staleTickers.length }));
+        try {
+            const { updated, failed } = await refreshScreenerFunds(staleTickers);
+            addToast(t('screener_refreshed', { count: updated }), failed.length > 0 ? 'info' : 'success');
+        } catch (error: any) {
+            addToast(`${t('toast_update_failed')}: ${error.message}`, 'error');
+        } finally {
+            setIsRefreshing(false);
+        }
+    };
+
+    const activeFilterCount = [filters.minDy, filters.minPvp, filters.maxPvp, filters.maxVacancy, filters.minLiquidity].filter(v => v !== undefined).length
+        + (filters.segments.length > 0 ? 1 : 0) + (filters.administrator.trim() ? 1 : 0);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => { setShowFilters(!showFilters); vibrate(); }}
+                    className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold border transition-colors ${showFilters || activeFilterCount > 0 ? 'border-[var(--accent-color)] text-[var(--accent-color)] bg-[var(--accent-color)]/10' : 'border-[var(--border-color)] text-[var(--text-secondary)] bg-[var(--bg-secondary)]'}`}
+                >
+                    <FilterIcon className="w-4 h-4" />
+                    {t('screener_filters')}{activeFilterCount > 0 && ` (${activeFilterCount})`}
+                </button>
+                <div className="flex-1" />
+                <label className="p-2 rounded-xl border border-[var(--border-color)] bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--accent-color)] cursor-pointer transition-colors" aria-label={t('screener_import')}>
+                    <UploadIcon className="w-4 h-4" />
+                    <input type="file" accept=".json,.csv,.txt" onChange={handleImport} className="hidden" />
+                </label>
+                <button
+                    onClick={handleRefresh}
+                    disabled={isRefreshing || staleTickers.length === 0}
+                    className="p-2 rounded-xl border border-[var(--border-color)] bg-[var(--bg-secondary)] text-[var(--text-secondary)] hover:text-[var(--accent-color)] transition-colors disabled:opacity-50"
+                    aria-label={t('screener_refresh')}
+                >
+                    <RefreshIcon className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+                </button>
+            </div>
+
+            {savedScreens.length > 0 && (
+                <div className="flex gap-2 overflow-x-auto no-scrollbar">
+                    {savedScreens.map(screen => (
+                        <span key={screen.id} className="flex-shrink-0 flex items-center gap-1 bg-[var(--bg-secondary)] border border-[var(--border-color)] rounded-lg pl-3 pr-1 py-1">
+                            <button onClick={() => applyScreen(screen)} className="text-xs font-bold text-[var(--text-primary)]">{screen.name}</button>
+                            <button onClick={() => { vibrate(); setSavedScreens(prev => prev.filter(s => s.id !== screen.id)); }} className="p-1 text-[var(--text-secondary)] hover:text-red-500" aria-label={t('delete')}>
+                                <CloseIcon className="w-3 h-3" />
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {showFilters && (
+                <div className="bg-[var(--bg-secondary)] rounded-2xl border border-[var(--border-color)] p-4 space-y-4 animate-fade-in">
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                        <NumberFilter label={t('screener_min_dy')} value={filters.minDy} onChange={minDy => updateFilters({ minDy })} />
+                        <NumberFilter label={t('screener_max_vacancy')} value={filters.maxVacancy} onChange={maxVacancy => updateFilters({ maxVacancy })} />
+                        <NumberFilter label={t('screener_min_pvp')} value={filters.minPvp} onChange={minPvp => updateFilters({ minPvp })} />
+                        <NumberFilter label={t('screener_max_pvp')} value={filters.maxPvp} onChange={maxPvp => updateFilters({ maxPvp })} />
+                        <NumberFilter
+                            label={t('screener_min_liquidity')}
+                            value={filters.minLiquidity !== undefined ? filters.minLiquidity / 1000000 : undefined}
+                            onChange={value => updateFilters({ minLiquidity: value !== undefined ? value * 1000000 : undefined })}
+                        />
+                        <label className="block">
+                            <span className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider">{t('screener_administrator')}</span>
+                            <input
+                                value={filters.administrator}
+                                onChange={e => updateFilters({ administrator: e.target.value })}
+                                className="w-full bg-[var(--bg-primary)] border border-[var(--border-color)] rounded-lg p-2 mt-1 text-sm focus:outline-none focus:border-[var(--accent-color)]"
+                            />
+                        </label>
+                    </div>
+
+                    {segments.length > 0 && (
+                        <div>
+                            <span className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider">{t('segment')}</span>
+                            <div className="flex flex-wrap gap-2 mt-1">
+                                {segments.map(segment => (
+                                    <button
+                                        key={segment}
+                                        onClick={() => toggleSegment(segment)}
+                                        className={`px-2.5 py-1 rounded-full text-[10px] font-bold border transition-all ${filters.segments.includes(segment) ? 'border-[var(--accent-color)] bg-[var(--accent-color)]/10 text-[var(--accent-color)]' : 'border-[var(--border-color)] text-[var(--text-secondary)]'}`}
+                                    >
+                                        {segment}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="flex gap-2 pt-3 border-t border-[var(--border-color)]">
+                        <input
+                            value={screenName}
+                            onChange={e => setScreenName(e.target.value)}
+                            onKeyDown={e => e.key === 'Enter' && handleSaveScreen()}
+                            placeholder={t('screener_screen_name')}
+                            className="flex-1 bg-[var(--bg-primary)] border border-[var(--border-color)] rounded-lg p-2 text-sm focus:outline-none focus:border-[var(--accent-color)]"
+                        />
+                        <button onClick={handleSaveScreen} disabled={!screenName.trim()} className="px-3 rounded-lg text-xs font-bold bg-[var(--accent-color)] text-[var(--accent-color-text)] disabled:opacity-50">{t('save')}</button>
+                        {activeFilterCount > 0 && (
+                            <button onClick={() => { setFilters(EMPTY_FILTERS); vibrate(); }} className="px-3 rounded-lg text-xs font-bold text-[var(--text-secondary)] border border-[var(--border-color)]">{t('screener_clear')}</button>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {compareSelection.length > 0 && (
+                <div className="flex items-center gap-2 bg-[var(--accent-color)]/10 border border-[var(--accent-color)]/30 rounded-xl px-3 py-2 animate-fade-in">
+                    <ScaleIcon className="w-4 h-4 text-[var(--accent-color)] flex-shrink-0" />
+                    <span className="flex-1 text-xs font-bold text-[var(--text-primary)] truncate">{compareSelection.join(' • ')}</span>
+                    <button onClick={() => { vibrate(); setCompareSelection([]); }} className="p-1 text-[var(--text-secondary)]" aria-label={t('screener_clear')}>
+                        <CloseIcon className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                        onClick={() => { vibrate(); onCompare(compareSelection); }}
+                        disabled={compareSelection.length < 2}
+                        className="px-3 py-1.5 rounded-lg text-xs font-bold bg-[var(--accent-color)] text-[var(--accent-color-text)] disabled:opacity-50"
+                    >
+                        {t('compare_action')}
+                    </button>
+                </div>
+            )}
+
+            <div className="bg-[var(--bg-secondary)] rounded-2xl border border-[var(--border-color)] shadow-sm overflow-hidden">
+                <div className="px-4 pt-3 pb-2 flex justify-between items-center">
+                    <span className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider">{t('screener_results', { count: results.length, total: funds.length })}</span>
+                    {staleTickers.length > 0 && <span className="text-[10px] text-amber-500">{t('screener_stale', { count: staleTickers.length })}</span>}
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-[10px] text-[var(--text-secondary)] uppercase tracking-wider border-b border-[var(--border-color)]">
+                                {COLUMNS.map(col => (
+                                    <th key={col.key} className={`font-bold py-2 px-2 whitespace-nowrap ${col.key === 'ticker' ? 'text-left pl-4' : 'text-right'}`}>
+                                        <button onClick={() => handleSort(col.key)} className={sortKey === col.key ? 'text-[var(--accent-color)]' : ''}>
+                                            {t(col.label)}{sortKey === col.key && (sortDirection === 'asc' ? ' ↑' : ' ↓')}
+                                        </button>
+                                    </th>
+                                ))}
+                                <th className="pr-4" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {results.map(fund => (
+                                <tr key={fund.ticker} className="border-b border-[var(--border-color)] last:border-0 hover:bg-[var(--bg-tertiary-hover)] transition-colors">
+                                    <td className="py-2 px-2 pl-4">
+                                        <button onClick={() => { vibrate(); onOpenTicker(fund.ticker); }} className="text-left">
+                                            <span className="block font-bold text-sm text-[var(--text-primary)]">{fund.ticker}</span>
+                                            <span className="block text-[10px] text-[var(--text-secondary)] truncate max-w-[120px]">
+                                                {[fund.segment, fund.price ? formatCurrency(fund.price) : null].filter(Boolean).join(' • ') || '-'}
+                                            </span>
+                                        </button>
+                                    </td>
+                                    <td className="py-2 px-2 text-right font-bold text-[var(--green-text)]">{fund.dy !== undefined ? `${fund.dy.toFixed(1)}%` : '-'}</td>
+                                    <td className={`py-2 px-2 text-right font-bold ${fund.pvp === undefined ? '' : fund.pvp < 1 ? 'text-[var(--green-text)]' : fund.pvp > 1.1 ? 'text-[var(--red-text)]' : 'text-[var(--text-primary)]'}`}>{fund.pvp !== undefined ? fund.pvp.toFixed(2) : '-'}</td>
+                                    <td className="py-2 px-2 text-right">{fund.vacancyRate !== undefined ? `${fund.vacancyRate}%` : '-'}</td>
+                                    <td className="py-2 px-2 text-right whitespace-nowrap">{fund.liquidity ? `${(fund.liquidity / 1000000).toFixed(1)}M` : '-'}</td>
+                                    <td className="py-2 pr-4 pl-1">
+                                        <div className="flex justify-end gap-0.5">
+                                            <button onClick={() => onToggleFavorite(fund.ticker)} className={`p-1.5 rounded-lg ${favorites.includes(fund.ticker) ? 'text-yellow-500' : 'text-[var(--text-secondary)] hover:text-yellow-500'}`} aria-label={t('screener_watchlist')}>
+                                                <StarIcon filled={favorites.includes(fund.ticker)} className="w-4 h-4" />
+                                            </button>
+                                            <button onClick={() => toggleCompare(fund.ticker)} className={`p-1.5 rounded-lg ${compareSelection.includes(fund.ticker) ? 'text-[var(--accent-color)] bg-[var(--accent-color)]/10' : 'text-[var(--text-secondary)] hover:text-[var(--accent-color)]'}`} aria-label={t('compare_action')}>
+                                                <ScaleIcon className="w-4 h-4" />
+                                            </button>
+                                            <button
+                                                onClick={() => { vibrate(); if (fund.price) setSimulating({ ...fund, price: fund.price }); }}
+                                                disabled={!fund.price}
+                                                className="p-1.5 rounded-lg text-[var(--text-secondary)] hover:text-[var(--accent-color)] disabled:opacity-30"
+                                                aria-label={t('screener_simulate')}
+                                            >
+                                                <CalculatorIcon className="w-4 h-4" />
+                                            </button>
+                                            {screenerUniverse[fund.ticker] && (
+                                                <button onClick={() => { vibrate(); removeScreenerFund(fund.ticker); }} className="p-1.5 rounded-lg text-gray-400 hover:text-red-500" aria-label={t('delete')}>
+                                                    <TrashIcon className="w-4 h-4" />
+                                                </button>
+                                            )}
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                {results.length === 0 && <p className="text-center text-sm text-[var(--text-secondary)] py-8">{t('screener_empty')}</p>}
+            </div>
+            <p className="text-[10px] text-[var(--text-secondary)] leading-relaxed px-1">{t('screener_import_hint')}</p>
+
+            {simulating && (
+                <SimulatePurchaseModal
+                    fund={simulating}
+                    onClose={() => setSimulating(null)}
+                    onRegister={ticker => { setSimulating(null); onRegisterPurchase(ticker); }}
+                />
+            )}
+        </div>
+    );
+};
+
+export default ScreenerView;
@@ -13,18 +13,27 @@ import AboutApp from '../components/settings/AboutApp';
 import AppearanceSettings from '../components/settings/AppearanceSettings';
 import GeneralSettings from '../components/settings/GeneralSettings';
 import TransactionSettings from '../components/settings/TransactionSettings';
+import AccountSettings from '../components/settings/AccountSettings';
+import BenchmarkSettings from '../components/settings/BenchmarkSettings';
+import PriceHistorySettings from '../components/settings/PriceHistorySettings';
 import ApiConnectionSettings from '../components/settings/ApiConnectionSettings';
+import ValuationSettings from '../components/settings/ValuationSettings';
 import GlossaryView from './GlossaryView';
 import CalculatorsView from './CalculatorsView';
+import TaxView from './TaxView';
+import IrpfReportView from './IrpfReportView';
+import RebalanceView from './RebalanceView';
+import GoalsView from './GoalsView';
 
-export type MenuScreen = 'main' | 'profile' | 'security' | 'notifications' | 'backup' | 'about' | 'appearance' | 'general' | 'transactions' | 'apiConnections' | 'glossary' | 'calculators';
+export type MenuScreen = 'main' | 'profile' | 'security' | 'notifications' | 'backup' | 'about' | 'appearance' | 'general' | 'transactions' | 'accounts' | 'benchmarks' | 'valuation' | 'priceHistory' | 'apiConnections' | 'glossary' | 'calculators' | 'taxes' | 'irpf' | 'rebalance' | 'goals';
 
 interface SettingsViewProps {
     addToast: (message: string, type?: ToastMessage['type']) => void;
     initialScreen?: MenuScreen;
+    initialGlossaryTerm?: string | null;
 }
 
-const SettingsView: React.FC<SettingsViewProps> = ({ addToast, initialScreen = 'main' }) => {
+const SettingsView: React.FC<SettingsViewProps> = ({ addToast, initialScreen = 'main', initialGlossaryTerm = null }) => {
     const [screen, setScreen] = useState<MenuScreen>(initialScreen);
     const { t } = useI18n();
     
@@ -43,10 +52,18 @@ const SettingsView: React.FC<SettingsViewProps> = ({ addToast, initialScreen = '
             case 'appearance': return <AppearanceSettings onBack={onBack} />;
             case 'general': return <GeneralSettings onBack={onBack} />;
             case 'transactions': return <TransactionSettings onBack={onBack} />;
+            case 'accounts': return <AccountSettings onBack={onBack} addToast={addToast} />;
+            case 'benchmarks': return <BenchmarkSettings onBack={onBack} addToast={addToast} />;
+            case 'valuation': return <ValuationSettings onBack={onBack} />;
+            case 'priceHistory': return <PriceHistorySettings onBack={onBack} addToast={addToast} />;
             case 'apiConnections': return <ApiConnectionSettings onBack={onBack} addToast={addToast} />;
             case 'about': return <AboutApp onBack={onBack} />;
             case 'calculators': return <div className="-m-4 h-full"><CalculatorsView onBack={onBack} /></div>;
-            case 'glossary': return <div className="-m-4 h-full"><GlossaryView onBack={onBack} /></div>;
+            case 'taxes': return <TaxView onBack={onBack} />;
+            case 'irpf': return <IrpfReportView onBack={onBack} addToast={addToast} />;
+            case 'rebalance': return <RebalanceView onBack={onBack} addToast={addToast} />;
+            case 'goals': return <GoalsView onBack={onBack} addToast={addToast} />;
+            case 'glossary': return <div className="-m-4 h-full"><GlossaryView onBack={onBack} initialTerm={initialGlossaryTerm} /></div>;
             default: return <MainMenu setScreen={setScreen} addToast={addToast} />;
         }
     };
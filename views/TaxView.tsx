@@ -0,0 +1,143 @@
+import React, { useState, useMemo } from 'react';
+import PageHeader from '../components/PageHeader';
+import ChevronRightIcon from '../components/icons/ChevronRightIcon';
+import CheckCircleIcon from '../components/icons/CheckCircleIcon';
+import { useI18n } from '../contexts/I18nContext';
+import { usePortfolio } from '../contexts/PortfolioContext';
+import { vibrate, getTodayISODate, DARF_CODE } from '../utils';
+import type { MonthlyTaxResult } from '../utils';
+
+const TaxRow: React.FC<{ label: string; value: string; highlight?: string }> = ({ label, value, highlight }) => (
+    <div className="flex justify-between text-xs py-1">
+        <span className="text-[var(--text-secondary)]">{label}</span>
+        <span className={`font-bold ${highlight || 'text-[var(--text-primary)]'}`}>{value}</span>
+    </div>
+);
+
+const TaxMonthCard: React.FC<{ result: MonthlyTaxResult; paidAt?: string; onTogglePaid: () => void }> = ({ result, paidAt, onTogglePaid }) => {
+    const { t, formatCurrency, locale } = useI18n();
+    const [isOpen, setIsOpen] = useState(false);
+
+    const monthLabel = new Date(`${result.month}-01T12:00:00Z`).toLocaleDateString(locale, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+    const formatDate = (date: string) => new Date(date).toLocaleDateString(locale, { timeZone: 'UTC' });
+    const isOverdue = !paidAt && result.darfAmount > 0 && result.dueDate < getTodayISODate();
+
+    return (
+        <div className={`bg-[var(--bg-secondary)] rounded-2xl border shadow-sm overflow-hidden ${isOverdue ? 'border-red-500/40' : 'border-[var(--border-color)]'}`}>
+            <button onClick={() => { setIsOpen(!isOpen); vibrate(); }} className="w-full flex justify-between items-center p-4 text-left hover:bg-[var(--bg-tertiary-hover)] transition-colors">
+                <div>
+                    <p className="font-bold text-[var(--text-primary)] capitalize">{monthLabel}</p>
+                    <p className={`text-[10px] font-medium ${result.netResult >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>
+                        {t('tax_net_result')}: {formatCurrency(result.netResult)}
+                    </p>
+                </div>
+                <div className="flex items-center gap-3">
+                    <div className="text-right">
+                        <p className={`font-bold ${result.darfAmount > 0 && !paidAt ? 'text-amber-500' : 'text-[var(--text-primary)]'}`}>{formatCurrency(result.darfAmount)}</p>
+                        <p className={`text-[10px] font-medium ${isOverdue ? 'text-[var(--red-text)]' : 'text-[var(--text-secondary)]'}`}>
+                            {paidAt
+                                ? t('darf_paid_on', { date: formatDate(paidAt) })
+                                : result.darfAmount > 0
+                                    ? `${isOverdue ? t('darf_overdue') : t('darf_due')} ${formatDate(result.dueDate)}`
+                                    : t('darf_nothing_due')}
+                        </p>
+                    </div>
+                    <ChevronRightIcon className={`w-4 h-4 text-[var(--text-secondary)] transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+                </div>
+            </button>
+
+            {isOpen && (
+                <div className="px-4 pb-4 animate-fade-in">
+                    <div className="bg-[var(--bg-primary)] rounded-xl p-3 mb-3">
+                        <TaxRow label={t('tax_sales_value')} value={formatCurrency(result.salesValue)} />
+                        <TaxRow label={t('tax_net_result')} value={formatCurrency(result.netResult)} highlight={result.netResult >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'} />
+                        <TaxRow label={t('tax_loss_used')} value={formatCurrency(-result.lossUsed)} />
+                        <TaxRow label={t('tax_taxable_base')} value={formatCurrency(result.taxableBase)} />
+                        <TaxRow label={t('tax_due_20')} value={formatCurrency(result.taxDue)} />
+                        <TaxRow label={t('tax_irrf')} value={formatCurrency(-result.irrfUsed)} />
+                        {result.carriedFromPrevious > 0 && <TaxRow label={t('tax_carried_darf')} value={formatCurrency(result.carriedFromPrevious)} />}
+                        <div className="border-t border-[var(--border-color)] mt-1 pt-1">
+                            <TaxRow label={t('darf_amount', { code: DARF_CODE })} value={formatCurrency(result.darfAmount)} highlight="text-[var(--accent-color)]" />
+                            <TaxRow label={t('tax_loss_carry_forward')} value={formatCurrency(result.lossCarryForward)} />
+                        </div>
+                    </div>
+
+                    <div className="space-y-1 mb-3">
+                        {result.sales.map(sale => (
+                            <div key={sale.id} className="flex justify-between text-xs px-1">
+                                <span className="text-[var(--text-secondary)]">{formatDate(sale.date)} • <span className="font-bold text-[var(--text-primary)]">{sale.ticker}</span></span>
+                                <span className={`font-bold ${sale.gain >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>{formatCurrency(sale.gain)}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    {result.darfAmount > 0 && (
+                        <button
+                            onClick={() => { onTogglePaid(); vibrate(); }}
+                            className={`w-full py-2.5 rounded-xl text-sm font-bold transition-all active:scale-95 ${paidAt ? 'bg-[var(--bg-primary)] text-[var(--text-secondary)] border border-[var(--border-color)]' : 'bg-[var(--accent-color)] text-[var(--accent-color-text)]'}`}
+                        >
+                            {paidAt ? t('darf_mark_unpaid') : t('darf_mark_paid')}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const TaxView: React.FC<{ onBack: () => void }> = ({ onBack }) => {
+    const { t, formatCurrency } = useI18n();
+    const { monthlyTaxes, taxPayments, toggleDarfPaid } = usePortfolio();
+    const [showAll, setShowAll] = useState(false);
+
+    const pendingMonths = useMemo(() => monthlyTaxes.filter(r => r.darfAmount > 0 && !taxPayments[r.month]), [monthlyTaxes, taxPayments]);
+    const totalPending = pendingMonths.reduce((acc, r) => acc + r.darfAmount, 0);
+    const currentLoss = monthlyTaxes.length > 0 ? monthlyTaxes[monthlyTaxes.length - 1].lossCarryForward : 0;
+    const visibleMonths = (showAll ? monthlyTaxes : pendingMonths).slice().reverse();
+
+    return (
+        <div className="animate-fade-in">
+            <PageHeader title={t('taxes')} onBack={onBack} helpText={t('taxes_help')} />
+
+            <div className="grid grid-cols-2 gap-3 mb-6">
+                <div className="bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)] shadow-sm">
+                    <p className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1">{t('darf_pending_total')}</p>
+                    <p className={`text-xl font-bold ${totalPending > 0 ? 'text-amber-500' : 'text-[var(--text-primary)]'}`}>{formatCurrency(totalPending)}</p>
+                </div>
+                <div className="bg-[var(--bg-secondary)] p-4 rounded-2xl border border-[var(--border-color)] shadow-sm">
+                    <p className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-wider mb-1">{t('tax_loss_carry_forward')}</p>
+                    <p className="text-xl font-bold text-[var(--text-primary)]">{formatCurrency(currentLoss)}</p>
+                </div>
+            </div>
+
+            <div className="flex bg-[var(--bg-secondary)] p-1 rounded-xl border border-[var(--border-color)] shadow-sm mb-4">
+                {[false, true].map(all => (
+                    <button
+                        key={String(all)}
+                        onClick={() => { setShowAll(all); vibrate(); }}
+                        className={`flex-1 py-2 text-xs font-bold rounded-lg transition-all ${showAll === all ? 'bg-[var(--bg-primary)] text-[var(--accent-color)] shadow-sm' : 'text-[var(--text-secondary)]'}`}
+                    >
+                        {all ? t('all_months') : `${t('darf_pending')} (${pendingMonths.length})`}
+                    </button>
+                ))}
+            </div>
+
+            {visibleMonths.length > 0 ? (
+                <div className="space-y-3">
+                    {visibleMonths.map(result => (
+                        <TaxMonthCard key={result.month} result={result} paidAt={taxPayments[result.month]} onTogglePaid={() => toggleDarfPaid(result.month)} />
+                    ))}
+                </div>
+            ) : (
+                <div className="text-center py-16 text-[var(--text-secondary)]">
+                    <CheckCircleIcon className="w-10 h-10 mx-auto mb-3 opacity-50" />
+                    <p className="font-bold">{showAll ? t('tax_no_sales') : t('darf_none_pending')}</p>
+                </div>
+            )}
+
+            <p className="text-[10px] text-[var(--text-secondary)] mt-6 leading-relaxed">{t('tax_disclaimer')}</p>
+        </div>
+    );
+};
+
+export default TaxView;
@@ -1,6 +1,6 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import type { Transaction, TransactionType, ToastMessage } from '../types';
+import type { Transaction, TransactionType, ToastMessage, CorporateAction, CashMovement } from '../types';
 import FloatingActionButton from '../components/FloatingActionButton';
 import Modal from '../components/modals/Modal';
 import EditIcon from '../components/icons/EditIcon';
@@ -9,27 +9,40 @@ import CloseIcon from '../components/icons/CloseIcon';
 import SearchIcon from '../components/icons/SearchIcon';
 import { useI18n } from '../contexts/I18nContext';
 import { usePortfolio } from '../contexts/PortfolioContext';
-import { vibrate, getTodayISODate } from '../utils';
+import { vibrate, getTodayISODate, buildLedger, isTickerMigration, isSaleTransaction, getTransactionEffectiveDate } from '../utils';
+import { TRANSACTION_TYPE_I18N, CONSOLIDATED_ACCOUNT_ID, DEFAULT_ACCOUNT_ID } from '../constants';
+import type { LedgerEntry, CashLedgerEntry } from '../utils';
 import TransactionModal from '../components/modals/TransactionModal';
+import CorporateActionModal from '../components/modals/CorporateActionModal';
+import CashMovementModal from '../components/modals/CashMovementModal';
+import AccountSwitcher from '../components/AccountSwitcher';
 
 const TransactionItem = React.memo<{ 
     transaction: Transaction, 
     onEdit: (tx: Transaction) => void, 
     onDelete: (id: string) => void, 
+    migratedTo?: string,
     style?: React.CSSProperties 
-}>(({ transaction, onEdit, onDelete, style }) => {
+}>(({ transaction, onEdit, onDelete, migratedTo, style }) => {
     const { t, locale, formatCurrency } = useI18n();
-    const { getAveragePriceForTransaction } = usePortfolio();
-    const isBuy = transaction.type === 'Compra';
-
-    const realizedGain = useMemo(() => {
-        if (isBuy) return null;
-        const avgPriceBeforeSale = getAveragePriceForTransaction(transaction);
-        if (avgPriceBeforeSale === 0) return 0;
-        return (transaction.price - avgPriceBeforeSale) * transaction.quantity - (transaction.costs || 0);
-    }, [transaction, isBuy, getAveragePriceForTransaction]);
+    const { getRealizedGainForTransaction, accounts, activeAccountId } = usePortfolio();
+    // No consolidado, identifica a conta de cada transação
+    const accountName = activeAccountId === CONSOLIDATED_ACCOUNT_ID && accounts.length > 1
+        ? accounts.find(a => a.id === (transaction.accountId || DEFAULT_ACCOUNT_ID))?.name
+        : undefined;
+    const isBuy = transaction.type === 'Compra' || transaction.type === 'Subscricao';
+    const isRightsReceived = transaction.type === 'DireitoRecebido';
+    const settlementDate = getTransactionEffectiveDate(transaction);
+    const isPendingSettlement = transaction.type === 'Subscricao' && settlementDate > getTodayISODate();
+
+    const realizedGain = useMemo(() => getRealizedGainForTransaction(transaction), [transaction, getRealizedGainForTransaction]);
     
     const totalValue = transaction.quantity * transaction.price + (isBuy ? (transaction.costs || 0) : -(transaction.costs || 0));
+    const badgeClass = isRightsReceived
+        ? 'bg-amber-500/20 text-amber-500 border border-amber-500/30'
+        : isBuy
+            ? 'bg-green-500/20 text-green-500 border border-green-500/30'
+            : 'bg-red-500/20 text-red-500 border border-red-500/30';
 
     const handleDelete = (e: React.MouseEvent) => {
         e.stopPropagation();
@@ -41,23 +54,37 @@ const TransactionItem = React.memo<{
         <div onClick={() => { onEdit(transaction); vibrate(); }} style={style} className="bg-[var(--bg-secondary)] p-4 rounded-xl cursor-pointer hover:bg-[var(--bg-tertiary-hover)] hover:-translate-y-0.5 animate-fade-in-up relative group border border-[var(--border-color)] active:scale-[0.98] transform duration-200 shadow-sm h-full">
             <div className="flex items-center justify-between pr-10">
                 <div className="flex items-center space-x-3">
-                    <div className={`w-10 h-10 rounded-full flex items-center justify-center font-bold shadow-sm ${isBuy ? 'bg-green-500/20 text-green-500 border border-green-500/30' : 'bg-red-500/20 text-red-500 border border-red-500/30'}`}>
-                        {isBuy ? t('buy_short') : t('sell_short')}
+                    <div className={`w-10 h-10 rounded-full flex items-center justify-center font-bold shadow-sm ${badgeClass}`}>
+                        {t(TRANSACTION_TYPE_I18N[transaction.type].short)}
                     </div>
                     <div>
-                        <p className="font-bold text-[var(--text-primary)]">{transaction.ticker}</p>
+                        <p className="font-bold text-[var(--text-primary)] flex items-center gap-1.5">
+                            {transaction.ticker}
+                            {migratedTo && (
+                                <span className="text-[9px] font-bold uppercase px-1.5 py-0.5 rounded bg-sky-500/20 text-sky-500">
+                                    {t('migrated_to', { ticker: migratedTo })}
+                                </span>
+                            )}
+                            {isPendingSettlement && (
+                                <span className="text-[9px] font-bold uppercase px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-500">
+                                    {t('settles_on', { date: new Date(settlementDate).toLocaleDateString(locale, { timeZone: 'UTC' }) })}
+                                </span>
+                            )}
+                        </p>
                         <p className="text-[10px] text-[var(--text-secondary)] font-medium">
                             {new Date(transaction.date).toLocaleDateString(locale, { timeZone: 'UTC' })}
+                            {transaction.type !== 'Compra' && transaction.type !== 'Venda' && ` • ${t(TRANSACTION_TYPE_I18N[transaction.type].label)}`}
+                            {accountName && ` • ${accountName}`}
                         </p>
                     </div>
                 </div>
                 <div className="text-right">
                     <p className={`font-bold ${isBuy ? 'text-[var(--text-primary)]' : 'text-[var(--text-primary)]'}`}>
-                        {formatCurrency(totalValue)}
+                        {isRightsReceived ? t('rights_count', { count: transaction.quantity }) : formatCurrency(totalValue)}
                     </p>
-                    <p className="text-xs text-[var(--text-secondary)]">
+                    {!isRightsReceived && <p className="text-xs text-[var(--text-secondary)]">
                        {transaction.quantity} x {formatCurrency(transaction.price)}
-                    </p>
+                    </p>}
                 </div>
             </div>
             
@@ -90,6 +117,112 @@ const TransactionItem = React.memo<{
     );
 });
 
+const CorporateActionItem = React.memo<{ 
+    action: CorporateAction, 
+    onEdit: (action: CorporateAction) => void, 
+    onDelete: (id: string) => void, 
+    style?: React.CSSProperties 
+}>(({ action, onEdit, onDelete, style }) => {
+    const { t, locale, formatCurrency } = useI18n();
+
+    const ratioLabel = action.type === 'Desdobramento'
+        ? `1:${action.ratio}`
+        : action.type === 'Grupamento'
+            ? `${action.ratio}:1`
+            : action.type === 'Bonificacao'
+                ? `${(action.ratio * 100).toFixed(2)}%`
+                : `→ ${action.successorTicker}${action.type === 'Incorporacao' ? ` (1:${action.ratio})` : ''}`;
+
+    const handleDelete = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        vibrate();
+        onDelete(action.id);
+    }
+
+    return (
+        <div onClick={() => { onEdit(action); vibrate(); }} style={style} className="bg-[var(--bg-secondary)] p-4 rounded-xl cursor-pointer hover:bg-[var(--bg-tertiary-hover)] hover:-translate-y-0.5 animate-fade-in-up relative group border border-[var(--border-color)] active:scale-[0.98] transform duration-200 shadow-sm h-full">
+            <div className="flex items-center justify-between pr-10">
+                <div className="flex items-center space-x-3">
+                    <div className="w-10 h-10 rounded-full flex items-center justify-center font-bold shadow-sm bg-sky-500/20 text-sky-500 border border-sky-500/30">
+                        {t('corporate_action_short')}
+                    </div>
+                    <div>
+                        <p className="font-bold text-[var(--text-primary)]">{action.ticker}</p>
+                        <p className="text-[10px] text-[var(--text-secondary)] font-medium">
+                            {new Date(action.date).toLocaleDateString(locale, { timeZone: 'UTC' })}
+                        </p>
+                    </div>
+                </div>
+                <div className="text-right">
+                    <p className="font-bold text-[var(--text-primary)]">{t(`corporate_action_${action.type.toLowerCase()}`)}</p>
+                    <p className="text-xs text-[var(--text-secondary)]">
+                        {ratioLabel}{action.type === 'Bonificacao' && action.unitCost ? ` • ${formatCurrency(action.unitCost)}` : ''}
+                    </p>
+                </div>
+            </div>
+
+             <div className="absolute top-1 right-1 flex flex-col gap-1 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity p-1">
+                <button 
+                    onClick={(e) => { e.stopPropagation(); onEdit(action); vibrate(); }}
+                    className="p-2 text-gray-400 hover:text-[var(--accent-color)] hover:bg-[var(--bg-primary)] rounded-lg transition-colors"
+                    aria-label={t('edit_corporate_action')}
+                >
+                    <EditIcon className="w-4 h-4" />
+                </button>
+                <button 
+                    onClick={handleDelete}
+                    className="p-2 text-gray-400 hover:text-red-500 hover:bg-[var(--bg-primary)] rounded-lg transition-colors"
+                    aria-label={t('delete')}
+                >
+                    <TrashIcon className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+    );
+});
+
+const CashEntryItem = React.memo<{
+    entry: CashLedgerEntry,
+    movement?: CashMovement,
+    onEdit: (movement: CashMovement) => void,
+    style?: React.CSSProperties
+}>(({ entry, movement, onEdit, style }) => {
+    const { t, locale, formatCurrency } = useI18n();
+    const isCredit = entry.amount >= 0;
+    const label = entry.source === 'Provento'
+        ? t('cash_provento')
+        : movement
+            ? t(`cash_${movement.type.toLowerCase()}`)
+            : t(TRANSACTION_TYPE_I18N[entry.source as TransactionType].label);
+
+    return (
+        <div
+            onClick={() => { if (movement) { onEdit(movement); vibrate(); } }}
+            style={style}
+            className={`bg-[var(--bg-secondary)] p-4 rounded-xl animate-fade-in-up border border-[var(--border-color)] shadow-sm h-full ${movement ? 'cursor-pointer hover:bg-[var(--bg-tertiary-hover)] active:scale-[0.98] transform duration-200' : ''}`}
+        >
+            <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3">
+                    <div className={`w-10 h-10 rounded-full flex items-center justify-center font-bold shadow-sm ${isCredit ? 'bg-emerald-500/20 text-emerald-500 border border-emerald-500/30' : 'bg-rose-500/20 text-rose-500 border border-rose-500/30'}`}>
+                        {isCredit ? '+' : '−'}
+                    </div>
+                    <div>
+                        <p className="font-bold text-[var(--text-primary)]">{entry.ticker ? `${label} • ${entry.ticker}` : label}</p>
+                        <p className="text-[10px] text-[var(--text-secondary)] font-medium">
+                            {new Date(entry.date).toLocaleDateString(locale, { timeZone: 'UTC' })}
+                            {movement?.description && ` • ${movement.description}`}
+                        </p>
+                    </div>
+                </div>
+                <div className="text-right">
+                    <p className={`font-bold ${isCredit ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>{formatCurrency(entry.amount)}</p>
+                    <p className="text-xs text-[var(--text-secondary)]">{t('cash_balance_after', { value: formatCurrency(entry.balance) })}</p>
+                </div>
+            </div>
+        </div>
+    );
+});
+
 interface TransactionsViewProps {
     initialFilter: string | null;
     clearFilter: () => void;
@@ -99,13 +232,17 @@ interface TransactionsViewProps {
 
 const TransactionsView: React.FC<TransactionsViewProps> = ({ initialFilter, clearFilter, addToast, isEmbedded = false }) => {
     const { t, locale, formatCurrency } = useI18n();
-    const { transactions, addTransaction, updateTransaction, deleteTransaction } = usePortfolio();
+    const { transactions, addTransaction, updateTransaction, deleteTransaction, corporateActions, addCorporateAction, updateCorporateAction, deleteCorporateAction, cashMovements, cashLedger, cashBalance, addCashMovement, updateCashMovement, deleteCashMovement } = usePortfolio();
 
-    const [filter, setFilter] = useState<'todos' | 'Compra' | 'Venda'>('todos');
+    const [filter, setFilter] = useState<'todos' | 'Compra' | 'Venda' | 'Eventos' | 'Caixa'>('todos');
     const [searchQuery, setSearchQuery] = useState(initialFilter || '');
     const [dateRange, setDateRange] = useState<'all' | '30' | '90' | '365'>('all');
     const [editingTx, setEditingTx] = useState<Transaction | null>(null);
     const [showAddModal, setShowAddModal] = useState(false);
+    const [editingAction, setEditingAction] = useState<CorporateAction | null>(null);
+    const [showActionModal, setShowActionModal] = useState(false);
+    const [editingMovement, setEditingMovement] = useState<CashMovement | null>(null);
+    const [showCashModal, setShowCashModal] = useState(false);
 
     useEffect(() => {
         if (initialFilter) {
@@ -115,38 +252,83 @@ const TransactionsView: React.FC<TransactionsViewProps> = ({ initialFilter, clea
     }, [initialFilter]);
 
 
-    const filteredTransactions = useMemo(() => {
-        const now = new Date();
-        let limitDate: Date | null = null;
+    const limitDate = useMemo(() => {
+        if (dateRange === 'all') return null;
+        const limit = new Date();
+        limit.setDate(limit.getDate() - parseInt(dateRange));
+        // Normalize to midnight to avoid time discrepancies
+        limit.setHours(0,0,0,0);
+        return limit;
+    }, [dateRange]);
+
+    const matchesFilters = (ticker: string, date: string) => {
+        const matchesTicker = ticker.toLowerCase().includes(searchQuery.toLowerCase());
         
-        if (dateRange !== 'all') {
-            limitDate = new Date();
-            limitDate.setDate(now.getDate() - parseInt(dateRange));
-            // Normalize to midnight to avoid time discrepancies
-            limitDate.setHours(0,0,0,0);
+        let matchesDate = true;
+        if (limitDate) {
+            const entryDate = new Date(date);
+            entryDate.setHours(0,0,0,0); // Normalize comparison
+            matchesDate = entryDate >= limitDate;
         }
+        
+        return matchesTicker && matchesDate;
+    };
+
+    // Old tickers whose position moved to a successor (ticker change / merger)
+    const migrations = useMemo(() => {
+        const result: Record<string, CorporateAction> = {};
+        corporateActions.filter(isTickerMigration).forEach(a => { result[a.ticker] = a; });
+        return result;
+    }, [corporateActions]);
 
+    const getMigratedTo = (tx: Transaction) => {
+        const migration = migrations[tx.ticker];
+        return migration && tx.date <= migration.date ? migration.successorTicker : undefined;
+    };
+
+    const filteredTransactions = useMemo(() => {
+        if (filter === 'Eventos' || filter === 'Caixa') return [];
         return transactions.filter(t => {
-            const matchesType = filter === 'todos' || t.type === filter;
-            const matchesTicker = t.ticker.toLowerCase().includes(searchQuery.toLowerCase());
-            
-            let matchesDate = true;
-            if (limitDate) {
-                const txDate = new Date(t.date);
-                txDate.setHours(0,0,0,0); // Normalize comparison
-                matchesDate = txDate >= limitDate;
-            }
-            
-            return matchesType && matchesTicker && matchesDate;
+            if (filter !== 'todos' && t.type !== filter) return false;
+            const migratedTo = getMigratedTo(t);
+            return matchesFilters(t.ticker, t.date) || (!!migratedTo && matchesFilters(migratedTo, t.date));
         });
-    }, [filter, transactions, searchQuery, dateRange]);
+    }, [filter, transactions, searchQuery, limitDate, migrations]);
+
+    const filteredActions = useMemo(() => {
+        if (filter !== 'todos' && filter !== 'Eventos') return [];
+        return corporateActions.filter(a => matchesFilters(a.ticker, a.date) || (!!a.successorTicker && matchesFilters(a.successorTicker, a.date)));
+    }, [filter, corporateActions, searchQuery, limitDate]);
+
+    const movementsById = useMemo(() => {
+        const result: Record<string, CashMovement> = {};
+        cashMovements.forEach(m => { result[m.id] = m; });
+        return result;
+    }, [cashMovements]);
+
+    // Extrato do caixa: busca por ticker ou pela descrição das movimentações manuais
+    const groupedCashEntries = useMemo(() => {
+        if (filter !== 'Caixa') return {};
+        const query = searchQuery.toLowerCase();
+        return [...cashLedger].reverse()
+            .filter(entry => {
+                const description = (movementsById[entry.id]?.description || '').toLowerCase();
+                return matchesFilters(entry.ticker || '', entry.date) || (!!query && description.includes(query) && matchesFilters('', entry.date));
+            })
+            .reduce<Record<string, CashLedgerEntry[]>>((acc, entry) => {
+                const monthYear = new Date(entry.date).toLocaleDateString(locale, { month: 'long', year: 'numeric', timeZone: 'UTC' });
+                if (!acc[monthYear]) acc[monthYear] = [];
+                acc[monthYear].push(entry);
+                return acc;
+            }, {});
+    }, [filter, cashLedger, movementsById, searchQuery, limitDate, locale]);
 
     const summary = useMemo(() => {
         const result = filteredTransactions.reduce((acc, tx) => {
             const value = tx.quantity * tx.price + (tx.costs || 0);
-            if (tx.type === 'Compra') {
+            if (tx.type === 'Compra' || tx.type === 'Subscricao') {
                 acc.buys += value;
-            } else {
+            } else if (isSaleTransaction(tx)) {
                 acc.sells += value - (tx.costs || 0) * 2; 
             }
             return acc;
@@ -155,15 +337,15 @@ const TransactionsView: React.FC<TransactionsViewProps> = ({ initialFilter, clea
     }, [filteredTransactions]);
 
     const groupedTransactions = useMemo(() => {
-        const sorted = [...filteredTransactions].sort((a, b) => b.date.localeCompare(a.date));
-        return sorted.reduce<Record<string, Transaction[]>>((acc, tx) => {
-            const date = new Date(tx.date);
+        const sorted = buildLedger(filteredTransactions, filteredActions).reverse();
+        return sorted.reduce<Record<string, LedgerEntry[]>>((acc, entry) => {
+            const date = new Date(entry.date);
             const monthYear = date.toLocaleDateString(locale, { month: 'long', year: 'numeric', timeZone: 'UTC' });
             if (!acc[monthYear]) acc[monthYear] = [];
-            acc[monthYear].push(tx);
+            acc[monthYear].push(entry);
             return acc;
         }, {});
-    }, [filteredTransactions, locale]);
+    }, [filteredTransactions, filteredActions, locale]);
     
     const handleSaveTransaction = (tx: Omit<Transaction, 'id'> & { id?: string }) => {
         if (tx.id) {
@@ -188,7 +370,49 @@ const TransactionsView: React.FC<TransactionsViewProps> = ({ initialFilter, clea
              handleDeleteTransaction(txId);
         }
     };
+
+    const handleSaveCorporateAction = (action: Omit<CorporateAction, 'id'> & { id?: string }) => {
+        if (action.id) {
+            updateCorporateAction(action as CorporateAction);
+            addToast(t('toast_corporate_action_updated'), 'success');
+        } else {
+            addCorporateAction({ ...action, id: `ca-${Date.now()}` });
+            addToast(t('toast_corporate_action_added'), 'success');
+        }
+        setEditingAction(null);
+        setShowActionModal(false);
+    };
+
+    const handleDeleteCorporateAction = (id: string) => {
+        deleteCorporateAction(id);
+        setEditingAction(null);
+        addToast(t('toast_corporate_action_deleted'), 'success');
+    };
+
+    const handleConfirmDeleteAction = (id: string) => {
+        if (window.confirm(t('confirm_delete_corporate_action'))) {
+            handleDeleteCorporateAction(id);
+        }
+    };
     
+    const handleSaveCashMovement = (movement: Omit<CashMovement, 'id'> & { id?: string }) => {
+        if (movement.id) {
+            updateCashMovement(movement as CashMovement);
+            addToast(t('toast_cash_movement_updated'), 'success');
+        } else {
+            addCashMovement({ ...movement, id: `cash-${Date.now()}` });
+            addToast(t('toast_cash_movement_added'), 'success');
+        }
+        setEditingMovement(null);
+        setShowCashModal(false);
+    };
+
+    const handleDeleteCashMovement = (id: string) => {
+        deleteCashMovement(id);
+        setEditingMovement(null);
+        addToast(t('toast_cash_movement_deleted'), 'success');
+    };
+
     const clearSearch = () => {
         vibrate(5);
         setSearchQuery('');
@@ -198,7 +422,12 @@ const TransactionsView: React.FC<TransactionsViewProps> = ({ initialFilter, clea
     return (
         <div className={`h-full ${!isEmbedded ? 'p-4 pb-24 md:pb-6 overflow-y-auto custom-scrollbar landscape-pb-6' : ''}`} id="transactions-view">
             <div className={`${!isEmbedded ? 'max-w-7xl mx-auto' : ''}`}>
-                {!isEmbedded && <h1 className="text-2xl font-bold mb-4 px-1">{t('nav_transactions')}</h1>}
+                {!isEmbedded && (
+                    <div className="flex justify-between items-center mb-4 px-1">
+                        <h1 className="text-2xl font-bold">{t('nav_transactions')}</h1>
+                        <AccountSwitcher />
+                    </div>
+                )}
                 
                 <div className="mb-4 space-y-3">
                     <div className="relative group">
@@ -235,7 +464,7 @@ const TransactionsView: React.FC<TransactionsViewProps> = ({ initialFilter, clea
                             <option value="365">1 Ano</option>
                         </select>
                         
-                        {(['todos', 'Compra', 'Venda'] as const).map(f => (
+                        {(['todos', 'Compra', 'Venda', 'Eventos', 'Caixa'] as const).map(f => (
                             <button
                                 key={f}
                                 onClick={() => { setFilter(f); vibrate(); }}
@@ -245,9 +474,23 @@ const TransactionsView: React.FC<TransactionsViewProps> = ({ initialFilter, clea
                                         : 'bg-[var(--bg-secondary)] border border-[var(--border-color)] text-[var(--text-secondary)]'
                                 }`}
                             >
-                                {f === 'todos' ? t('all') : t(f === 'Compra' ? 'buy' : 'sell')}
+                                {f === 'todos' ? t('all') : f === 'Eventos' ? t('corporate_actions') : f === 'Caixa' ? t('cash') : t(f === 'Compra' ? 'buy' : 'sell')}
                             </button>
                         ))}
+
+                        <button
+                            onClick={() => { setShowActionModal(true); vibrate(); }}
+                            className="flex-shrink-0 py-1.5 px-4 text-xs font-bold rounded-lg transition-all duration-200 bg-[var(--accent-color)]/10 text-[var(--accent-color)] border border-[var(--accent-color)]/30"
+                        >
+                            + {t('add_corporate_action')}
+                        </button>
+
+                        <button
+                            onClick={() => { setShowCashModal(true); vibrate(); }}
+                            className="flex-shrink-0 py-1.5 px-4 text-xs font-bold rounded-lg transition-all duration-200 bg-[var(--accent-color)]/10 text-[var(--accent-color)] border border-[var(--accent-color)]/30"
+                        >
+                            + {t('cash')}
+                        </button>
                     </div>
                 </div>
 
@@ -268,17 +511,57 @@ const TransactionsView: React.FC<TransactionsViewProps> = ({ initialFilter, clea
                     </div>
                 )}
 
-                {Object.keys(groupedTransactions).length > 0 ? (
+                {filter === 'Caixa' && (
+                    <div className="bg-gradient-to-r from-[var(--bg-secondary)] to-[var(--bg-primary)] p-4 rounded-xl mb-6 shadow-sm border border-[var(--border-color)] text-sm flex justify-between items-center animate-scale-in">
+                        <span className="text-[var(--text-primary)] font-bold">{t('cash_balance')}</span>
+                        <span className={`font-bold text-base ${cashBalance >= 0 ? 'text-[var(--green-text)]' : 'text-[var(--red-text)]'}`}>{formatCurrency(cashBalance)}</span>
+                    </div>
+                )}
+
+                {filter === 'Caixa' ? (
+                    Object.keys(groupedCashEntries).length > 0 ? (
+                        Object.entries(groupedCashEntries).map(([monthYear, entries]) => (
+                            <div key={monthYear} className="mb-6 animate-fade-in-up">
+                                <h2 className="text-xs font-bold text-[var(--text-secondary)] mb-3 uppercase tracking-widest px-1 sticky top-0 z-10 bg-[var(--bg-primary)]/90 backdrop-blur-sm py-2">{monthYear}</h2>
+                                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3 landscape-grid-cols-2">
+                                    {(entries as CashLedgerEntry[]).map((entry, index) => (
+                                        <CashEntryItem
+                                            key={`${entry.source}-${entry.id}`}
+                                            entry={entry}
+                                            movement={movementsById[entry.id]}
+                                            onEdit={setEditingMovement}
+                                            style={{ animationDelay: `${Math.min(index * 30, 300)}ms` }}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                        ))
+                    ) : (
+                        <div className="text-center text-[var(--text-secondary)] py-20 animate-fade-in">
+                            <p className="font-bold">{t('no_cash_entries')}</p>
+                            <p className="text-xs mt-2 max-w-xs mx-auto">{t('no_cash_entries_subtitle')}</p>
+                        </div>
+                    )
+                ) : Object.keys(groupedTransactions).length > 0 ? (
                     Object.entries(groupedTransactions).map(([monthYear, txs]) => (
                         <div key={monthYear} className="mb-6 animate-fade-in-up">
                             <h2 className="text-xs font-bold text-[var(--text-secondary)] mb-3 uppercase tracking-widest px-1 sticky top-0 z-10 bg-[var(--bg-primary)]/90 backdrop-blur-sm py-2">{monthYear}</h2>
                             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3 landscape-grid-cols-2">
-                                {(txs as Transaction[]).map((tx, index) => (
+                                {(txs as LedgerEntry[]).map((entry, index) => entry.kind === 'transaction' ? (
                                     <TransactionItem 
-                                        key={tx.id} 
-                                        transaction={tx} 
+                                        key={entry.data.id} 
+                                        transaction={entry.data} 
                                         onEdit={setEditingTx} 
                                         onDelete={handleConfirmDelete}
+                                        migratedTo={getMigratedTo(entry.data)}
+                                        style={{ animationDelay: `${Math.min(index * 30, 300)}ms` }}
+                                    />
+                                ) : entry.kind === 'corporateAction' && (
+                                    <CorporateActionItem
+                                        key={entry.data.id}
+                                        action={entry.data}
+                                        onEdit={setEditingAction}
+                                        onDelete={handleConfirmDeleteAction}
                                         style={{ animationDelay: `${Math.min(index * 30, 300)}ms` }}
                                     />
                                 ))}
@@ -315,6 +598,43 @@ const TransactionsView: React.FC<TransactionsViewProps> = ({ initialFilter, clea
                     addToast={addToast}
                 />
             )}
+
+            {showActionModal && (
+                <CorporateActionModal
+                    onClose={() => setShowActionModal(false)}
+                    onSave={handleSaveCorporateAction}
+                    initialTicker={searchQuery || undefined}
+                    addToast={addToast}
+                />
+            )}
+
+            {showCashModal && (
+                <CashMovementModal
+                    onClose={() => setShowCashModal(false)}
+                    onSave={handleSaveCashMovement}
+                    addToast={addToast}
+                />
+            )}
+
+            {editingMovement && (
+                <CashMovementModal
+                    onClose={() => setEditingMovement(null)}
+                    onSave={handleSaveCashMovement}
+                    onDelete={handleDeleteCashMovement}
+                    movement={editingMovement}
+                    addToast={addToast}
+                />
+            )}
+
+            {editingAction && (
+                <CorporateActionModal
+                    onClose={() => setEditingAction(null)}
+                    onSave={handleSaveCorporateAction}
+                    onDelete={handleDeleteCorporateAction}
+                    action={editingAction}
+                    addToast={addToast}
+                />
+            )}
         </div>
     );
 };